@@ -3,6 +3,9 @@
 let currentConfig = null;
 let availablePhoneNumbers = [];
 
+// Day names in API order (index 0 = Sunday)
+const BUSINESS_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 // Check authentication on page load
 const token = localStorage.getItem('client_token');
 if (!token) {
@@ -20,6 +23,12 @@ document.addEventListener('DOMContentLoaded', async () => {
     await loadConfig();
     await loadPhoneNumbers();
     await loadCallbacks();   // <-- load callbacks for this client
+    await loadInventory();
+    await loadInventoryAliases();
+    await loadReservations();
+    await loadQuotes();
+    await loadSalesListings();
+    await loadSalesListingCalls();
 });
 
 /**
@@ -82,6 +91,7 @@ function populateForm(config) {
     document.getElementById('clientName').value = config.name || '';
     document.getElementById('company').value = config.company || '';
     document.getElementById('customPrompt').value = config.custom_prompt || '';
+    document.getElementById('additionalContext').value = config.additional_context || '';
     document.getElementById('firstMessage').value = config.first_message_template || '';
     document.getElementById('salesPhone').value = config.sales_phone || '';
     document.getElementById('servicePhone').value = config.service_phone || '';
@@ -89,6 +99,14 @@ function populateForm(config) {
     document.getElementById('enableInventory').checked = Boolean(config.enable_inventory);
     document.getElementById('enableTransfers').checked = Boolean(config.enable_transfers);
 
+    if (config.business_hours) {
+        populateBusinessHours(config.business_hours);
+    }
+
+    if (config.rental_pricing) {
+        populateRentalPricing(config.rental_pricing);
+    }
+
     // Set manual phone field
     if (config.phone_number) {
         document.getElementById('manualPhone').value = config.phone_number;
@@ -103,6 +121,96 @@ function populateForm(config) {
     }
 }
 
+/**
+ * Populate business hours fields
+ * Weekly hours from the API are indexed Sunday-first
+ */
+function populateBusinessHours(hours) {
+    document.getElementById('timezone').value = hours.timezone || '';
+
+    BUSINESS_DAYS.forEach((day, dayOfWeek) => {
+        const dayHours = hours.weekly ? hours.weekly[dayOfWeek] : null;
+        document.getElementById(`hoursOpen${day}`).checked = Boolean(dayHours);
+        document.getElementById(`hoursStart${day}`).value = dayHours ? dayHours.open : '';
+        document.getElementById(`hoursEnd${day}`).value = dayHours ? dayHours.close : '';
+    });
+
+    document.getElementById('hoursExceptions').value = (hours.exceptions || []).map(e => {
+        const when = e.closed ? 'CLOSED' : `${e.open}-${e.close}`;
+        return [e.date, when, e.label].filter(Boolean).join(' ');
+    }).join('\n');
+}
+
+/**
+ * Read business hours fields into the API format
+ */
+function getBusinessHoursData() {
+    const weekly = BUSINESS_DAYS.map(day => {
+        if (!document.getElementById(`hoursOpen${day}`).checked) {
+            return null;
+        }
+        return {
+            open: document.getElementById(`hoursStart${day}`).value,
+            close: document.getElementById(`hoursEnd${day}`).value
+        };
+    });
+
+    const exceptions = document.getElementById('hoursExceptions').value
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const [date, when, ...label] = line.split(/\s+/);
+            if (!when || when.toUpperCase() === 'CLOSED') {
+                return { date, closed: true, label: label.join(' ') || undefined };
+            }
+            const [open, close] = when.split('-');
+            return { date, closed: false, open, close, label: label.join(' ') || undefined };
+        });
+
+    return { weekly, exceptions };
+}
+
+/**
+ * Populate damage waiver, tax and delivery zone fields
+ */
+function populateRentalPricing(pricing) {
+    document.getElementById('damageWaiverPercent').value = pricing.damageWaiverPercent ?? '';
+    document.getElementById('rentalTaxPercent').value = pricing.taxPercent ?? '';
+    document.getElementById('deliveryZones').value = (pricing.deliveryZones || [])
+        .map(zone => [zone.maxMiles, zone.fee, zone.label].filter(part => part !== undefined && part !== '').join(' '))
+        .join('\n');
+}
+
+/**
+ * Read rental pricing fields into the API format
+ */
+function getRentalPricingData() {
+    const percent = id => {
+        const value = document.getElementById(id).value;
+        return value === '' ? null : parseFloat(value);
+    };
+
+    const deliveryZones = document.getElementById('deliveryZones').value
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const [miles, fee, ...label] = line.split(/\s+/);
+            return {
+                maxMiles: parseFloat(miles),
+                fee: parseFloat((fee || '').replace(/[$,]/g, '')),
+                label: label.join(' ') || undefined
+            };
+        });
+
+    return {
+        damageWaiverPercent: percent('damageWaiverPercent'),
+        taxPercent: percent('rentalTaxPercent'),
+        deliveryZones
+    };
+}
+
 /**
  * Populate phone number dropdown
  */
@@ -208,10 +316,14 @@ function getFormData() {
         enableInventory: document.getElementById('enableInventory').checked,
         enableTransfers: document.getElementById('enableTransfers').checked,
         customPrompt: document.getElementById('customPrompt').value || null,
+        additionalContext: document.getElementById('additionalContext').value || null,
         firstMessage: document.getElementById('firstMessage').value || null,
         salesPhone: document.getElementById('salesPhone').value || null,
         servicePhone: document.getElementById('servicePhone').value || null,
-        partsPhone: document.getElementById('partsPhone').value || null
+        partsPhone: document.getElementById('partsPhone').value || null,
+        timezone: document.getElementById('timezone').value || undefined,
+        businessHours: getBusinessHoursData(),
+        rentalPricing: getRentalPricingData()
     };
 }
 
@@ -319,7 +431,10 @@ function hideMessages() {
  * Logout
  */
 function logout() {
+    // Revoke the session server-side; ignore failures (token may already be invalid)
+    fetch('/client/logout', { method: 'POST', headers: authHeaders, body: '{}', keepalive: true }).catch(() => {});
     localStorage.removeItem('client_token');
+    localStorage.removeItem('client_username');
     window.location.href = '/login.html';
 }
 
@@ -531,6 +646,12 @@ async function showCallDetails(callId) {
                 <div class="detail-value">${call.structuredData.outcome_type}</div>
             </div>
             ` : ''}
+            ${call.structuredData.sales_listings?.length ? `
+            <div class="detail-row">
+                <div class="detail-label">For-Sale Listings</div>
+                <div class="detail-value">${call.structuredData.sales_listings.map(listing => escapeHtml(`${listing.model}${listing.stock_number ? ` (#${listing.stock_number})` : ''}`)).join(', ')}</div>
+            </div>
+            ` : ''}
         </div>
         ` : ''}
 
@@ -579,15 +700,26 @@ window.onclick = function(event) {
     }
 };
 
+/**
+ * Query string for the selected callback filter
+ */
+function callbackFilterQuery() {
+    const filter = document.getElementById('callbackFilter')?.value || 'pending';
+    if (filter === 'overdue') return 'status=pending&overdue=true';
+    if (filter === 'mine') return `status=pending&assignedTo=${encodeURIComponent(localStorage.getItem('client_username') || '')}`;
+    return `status=${filter}`;
+}
+
 /**
  * Load callback requests for this client
  */
 async function loadCallbacks() {
     const container = document.getElementById('callbacksContainer');
+    const filterLabel = document.getElementById('callbackFilter')?.selectedOptions[0]?.text || 'Pending';
     container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">Loading callbacks...</p>';
 
     try {
-        const response = await fetch('/client/callbacks?status=pending&limit=50', {
+        const response = await fetch(`/client/callbacks?${callbackFilterQuery()}&limit=50`, {
             headers: authHeaders
         });
 
@@ -604,28 +736,981 @@ async function loadCallbacks() {
         }
 
         if (data.callbacks.length === 0) {
-            container.innerHTML = '<div style="padding:8px;color:#666;font-style:italic;">No pending callbacks</div>';
+            container.innerHTML = `<div style="padding:8px;color:#666;font-style:italic;">No ${filterLabel.toLowerCase()} callbacks</div>`;
             return;
         }
 
         // Build simple list
         const html = `
-            <div style="font-weight:700; margin-bottom:8px;">Pending Callbacks (${data.callbacks.length})</div>
+            <div style="font-weight:700; margin-bottom:8px;">${filterLabel} Callbacks (${data.callbacks.length})</div>
             <div style="display:flex; flex-direction:column; gap:10px;">
                 ${data.callbacks.map(cb => `
-                    <div style="border:1px dashed rgba(0,0,0,0.1); padding:12px; border-radius:4px;">
-                        <div style="font-weight:700;">${cb.customer_name || cb.customer_phone}</div>
-                        <div style="font-size:0.9rem; color:#555;">Phone: ${cb.customer_phone}</div>
-                        <div style="font-size:0.9rem; color:#555;">When: ${cb.preferred_time}</div>
-                        <div style="font-size:0.9rem; color:#555;">Dept: ${cb.department}</div>
-                        <div style="margin-top:6px; color:#333;">${cb.reason}</div>
+                    <div style="border:1px dashed ${cb.overdue ? '#991B1B' : 'rgba(0,0,0,0.1)'}; padding:12px; border-radius:4px;">
+                        <div style="font-weight:700;">
+                            ${escapeHtml(cb.customer_name || cb.customer_phone)}
+                            ${cb.overdue ? '<span style="color:#991B1B; font-size:0.8rem; margin-left:6px;">OVERDUE</span>' : ''}
+                        </div>
+                        <div style="font-size:0.9rem; color:#555;">Phone: ${escapeHtml(cb.customer_phone)}</div>
+                        <div style="font-size:0.9rem; color:#555;">When: ${escapeHtml(cb.preferred_time)}${cb.scheduled_for ? ` (scheduled ${new Date(cb.scheduled_for).toLocaleString()})` : ''}</div>
+                        <div style="font-size:0.9rem; color:#555;">Dept: ${escapeHtml(cb.department)}</div>
+                        <div style="font-size:0.9rem; color:#555;">Status: ${escapeHtml(cb.status)}${cb.assigned_to ? ` - ${cb.claimed_at ? 'claimed by' : 'assigned to'} ${escapeHtml(cb.assigned_to)}` : ''}</div>
+                        ${cb.outbound_status ? `<div style="font-size:0.9rem; color:${cb.outbound_status === 'failed' ? '#991B1B' : '#555'};">Call back: ${escapeHtml(cb.outbound_status)}${cb.outbound_ended_reason ? ` (${escapeHtml(cb.outbound_ended_reason)})` : ''}${cb.outbound_timed_out ? ' (no end-of-call report)' : ''}</div>` : ''}
+                        <div style="margin-top:6px; color:#333;">${escapeHtml(cb.reason)}</div>
+                        <div style="margin-top:8px; display:flex; gap:6px; flex-wrap:wrap;">
+                            ${cb.status === 'pending' ? `
+                                <button class="btn btn-secondary" onclick="callbackAction(${cb.id}, 'claim')">Claim</button>
+                                ${cb.outbound_status !== 'dialing' || cb.outbound_timed_out ? `<button class="btn btn-secondary" data-call-now="${cb.id}">Call Now</button>` : ''}
+                                <button class="btn btn-secondary" onclick="assignCallback(${cb.id})">Assign</button>
+                                <button class="btn btn-secondary" onclick="rescheduleCallback(${cb.id})">Reschedule</button>
+                                <button class="btn btn-secondary" onclick="callbackAction(${cb.id}, 'complete', { note: prompt('Outcome (optional):') || undefined })">Complete</button>
+                                <button class="btn btn-secondary" onclick="callbackAction(${cb.id}, 'cancel', { note: prompt('Reason (optional):') || undefined })">Cancel</button>
+                            ` : ''}
+                            <button class="btn btn-secondary" onclick="addCallbackNote(${cb.id})">Add Note</button>
+                            <button class="btn btn-secondary" onclick="showCallbackHistory(${cb.id})">History</button>
+                        </div>
                     </div>
                 `).join('')}
             </div>
         `;
         container.innerHTML = html;
+
+        // The phone number comes from the caller, so it stays out of inline handlers
+        container.querySelectorAll('[data-call-now]').forEach(button => {
+            const cb = data.callbacks.find(c => String(c.id) === button.dataset.callNow);
+            button.addEventListener('click', () => {
+                if (confirm(`Have the assistant call ${cb.customer_phone} now?`)) callbackAction(cb.id, 'call');
+            });
+        });
     } catch (error) {
         console.error('Error loading callbacks:', error);
         container.innerHTML = '<p style="color: #991B1B;">Error loading callbacks</p>';
     }
 }
+
+/**
+ * Run a callback action (claim, assign, reschedule, complete, cancel, notes, call)
+ */
+async function callbackAction(id, action, body = {}) {
+    try {
+        const response = await fetch(`/client/callbacks/${id}/${action}`, {
+            method: 'POST',
+            headers: authHeaders,
+            body: JSON.stringify(body)
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+        if (!data.success) {
+            showError(data.message || 'Failed to update callback');
+        }
+    } catch (error) {
+        console.error('Error updating callback:', error);
+        showError('Failed to update callback');
+    }
+
+    await loadCallbacks();
+}
+
+function assignCallback(id) {
+    const assignee = prompt('Assign to (leave empty to unassign):');
+    if (assignee === null) return;
+    callbackAction(id, 'assign', { assignee });
+}
+
+function rescheduleCallback(id) {
+    const when = prompt('New callback time (e.g. 2025-06-03 14:30):');
+    if (!when) return;
+
+    const scheduledFor = new Date(when.replace(' ', 'T'));
+    if (isNaN(scheduledFor.getTime())) {
+        showError('Could not read that date/time');
+        return;
+    }
+    callbackAction(id, 'reschedule', { scheduledFor: scheduledFor.toISOString() });
+}
+
+function addCallbackNote(id) {
+    const note = prompt('Note:');
+    if (!note) return;
+    callbackAction(id, 'notes', { note });
+}
+
+/**
+ * Show a callback's audit trail
+ */
+async function showCallbackHistory(id) {
+    try {
+        const response = await fetch(`/client/callbacks/${id}`, { headers: authHeaders });
+        const data = await response.json();
+
+        if (!data.success) {
+            showError(data.message || 'Failed to load callback history');
+            return;
+        }
+
+        alert(data.callback.events.map(event =>
+            `${new Date(event.created_at.endsWith('Z') ? event.created_at : event.created_at.replace(' ', 'T') + 'Z').toLocaleString()} - ${event.actor}: ${event.action}${event.note ? ` - ${event.note}` : ''}`
+        ).join('\n'));
+    } catch (error) {
+        console.error('Error loading callback history:', error);
+        showError('Failed to load callback history');
+    }
+}
+
+/**
+ * Switch between the Configuration and Inventory tabs
+ */
+function showTab(tabId) {
+    document.querySelectorAll('.tab-panel').forEach(panel => {
+        panel.hidden = panel.id !== tabId;
+    });
+    document.querySelectorAll('.portal-tab').forEach(tab => {
+        tab.classList.toggle('active', tab.dataset.tab === tabId);
+    });
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(value) {
+    return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+}
+
+// Items shown in the fleet table, by id (for editing)
+let inventoryItems = {};
+
+/**
+ * Load this client's fleet
+ */
+async function loadInventory() {
+    const container = document.getElementById('inventoryContainer');
+    const includeRetired = document.getElementById('showRetired').checked;
+
+    try {
+        const response = await fetch(`/client/inventory${includeRetired ? '?includeRetired=true' : ''}`, {
+            headers: authHeaders
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '<p style="color: #991B1B;">Failed to load inventory</p>';
+            return;
+        }
+
+        inventoryItems = Object.fromEntries(data.items.map(item => [item.id, item]));
+
+        if (data.items.length === 0) {
+            container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">No equipment yet. Add your first machine above so the assistant can quote it.</p>';
+            return;
+        }
+
+        container.innerHTML = `
+            <table class="calls-table">
+                <thead>
+                    <tr>
+                        <th>Stock #</th>
+                        <th>Model</th>
+                        <th>Category</th>
+                        <th>Per Day</th>
+                        <th>Per Week</th>
+                        <th>Per Month</th>
+                        <th>Available</th>
+                        <th>Condition</th>
+                        <th>Year</th>
+                        <th>Specs</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${data.items.map(item => `
+                        <tr class="${item.retired_at ? 'retired-row' : ''}">
+                            <td>${escapeHtml(item.stock_number || '-')}</td>
+                            <td>${escapeHtml(item.model)}</td>
+                            <td>${escapeHtml(item.category)}</td>
+                            <td>$${item.price_per_day}</td>
+                            <td>${item.price_per_week ? `$${item.price_per_week}` : '-'}</td>
+                            <td>${item.price_per_month ? `$${item.price_per_month}` : '-'}</td>
+                            <td>${item.available}</td>
+                            <td>${escapeHtml(item.condition || '-')}</td>
+                            <td>${item.year || '-'}</td>
+                            <td>${escapeHtml(describeInventorySpecs(item))}</td>
+                            <td style="white-space: nowrap;">
+                                ${item.retired_at ? 'Retired' : `
+                                    <button class="btn btn-secondary" onclick="editInventoryItem(${item.id})">Edit</button>
+                                    <button class="btn btn-secondary" onclick="retireInventoryItem(${item.id})">Retire</button>
+                                `}
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    } catch (error) {
+        console.error('Error loading inventory:', error);
+        container.innerHTML = '<p style="color: #991B1B;">Error loading inventory</p>';
+    }
+}
+
+/**
+ * Typed specs, attachments and other specs for the fleet table
+ */
+function describeInventorySpecs(item) {
+    const number = value => Number(value).toLocaleString();
+    return [
+        item.operating_weight && `${number(item.operating_weight)} lbs`,
+        item.horsepower && `${number(item.horsepower)}hp`,
+        item.dig_depth && `${number(item.dig_depth)}ft dig depth`,
+        item.lift_capacity && `${number(item.lift_capacity)} lb lift`,
+        item.bucket_size && `${number(item.bucket_size)} yd bucket`,
+        item.fuel_type,
+        item.attachments,
+        item.specs
+    ].filter(Boolean).join(', ');
+}
+
+/**
+ * Item fields from the inventory form
+ * Optional fields are sent as null when blank so editing can clear them
+ */
+function getInventoryFormData() {
+    const year = document.getElementById('inventoryYear').value;
+    const pricePerWeek = document.getElementById('inventoryPriceWeek').value;
+    const pricePerMonth = document.getElementById('inventoryPriceMonth').value;
+    return {
+        stockNumber: document.getElementById('inventoryStockNumber').value.trim() || null,
+        model: document.getElementById('inventoryModel').value.trim(),
+        category: document.getElementById('inventoryCategory').value.trim(),
+        pricePerDay: parseFloat(document.getElementById('inventoryPrice').value),
+        pricePerWeek: pricePerWeek ? parseFloat(pricePerWeek) : null,
+        pricePerMonth: pricePerMonth ? parseFloat(pricePerMonth) : null,
+        available: parseInt(document.getElementById('inventoryAvailable').value),
+        condition: document.getElementById('inventoryCondition').value || null,
+        year: year ? parseInt(year) : null,
+        specs: document.getElementById('inventorySpecs').value.trim() || null,
+        operatingWeight: optionalNumber('inventoryOperatingWeight'),
+        horsepower: optionalNumber('inventoryHorsepower'),
+        digDepth: optionalNumber('inventoryDigDepth'),
+        liftCapacity: optionalNumber('inventoryLiftCapacity'),
+        bucketSize: optionalNumber('inventoryBucketSize'),
+        fuelType: document.getElementById('inventoryFuelType').value || null,
+        attachments: document.getElementById('inventoryAttachments').value.trim() || null
+    };
+}
+
+/**
+ * A number input's value, or null when blank
+ */
+function optionalNumber(id) {
+    const value = document.getElementById(id).value;
+    return value ? parseFloat(value) : null;
+}
+
+/**
+ * Fill the form with an item to edit it
+ */
+function editInventoryItem(id) {
+    const item = inventoryItems[id];
+    if (!item) return;
+
+    document.getElementById('inventoryItemId').value = item.id;
+    document.getElementById('inventoryStockNumber').value = item.stock_number || '';
+    document.getElementById('inventoryModel').value = item.model;
+    document.getElementById('inventoryCategory').value = item.category;
+    document.getElementById('inventoryPrice').value = item.price_per_day;
+    document.getElementById('inventoryPriceWeek').value = item.price_per_week || '';
+    document.getElementById('inventoryPriceMonth').value = item.price_per_month || '';
+    document.getElementById('inventoryAvailable').value = item.available;
+    document.getElementById('inventoryCondition').value = item.condition || '';
+    document.getElementById('inventoryYear').value = item.year || '';
+    document.getElementById('inventorySpecs').value = item.specs || '';
+    document.getElementById('inventoryOperatingWeight').value = item.operating_weight || '';
+    document.getElementById('inventoryHorsepower').value = item.horsepower || '';
+    document.getElementById('inventoryDigDepth').value = item.dig_depth || '';
+    document.getElementById('inventoryLiftCapacity').value = item.lift_capacity || '';
+    document.getElementById('inventoryBucketSize').value = item.bucket_size || '';
+    document.getElementById('inventoryFuelType').value = item.fuel_type || '';
+    document.getElementById('inventoryAttachments').value = item.attachments || '';
+    document.getElementById('inventoryFormTitle').textContent = `Edit ${item.model}`;
+    document.getElementById('inventorySubmit').textContent = 'Save Changes';
+    document.getElementById('inventoryForm').scrollIntoView({ behavior: 'smooth' });
+}
+
+/**
+ * Back to adding a new item
+ */
+function resetInventoryForm() {
+    document.getElementById('inventoryForm').reset();
+    document.getElementById('inventoryItemId').value = '';
+    document.getElementById('inventoryFormTitle').textContent = 'Add Equipment';
+    document.getElementById('inventorySubmit').textContent = 'Add Equipment';
+}
+
+/**
+ * Add or update an item
+ */
+document.getElementById('inventoryForm').addEventListener('submit', async (e) => {
+    e.preventDefault();
+    hideMessages();
+
+    const id = document.getElementById('inventoryItemId').value;
+
+    try {
+        const response = await fetch(id ? `/client/inventory/${id}` : '/client/inventory', {
+            method: 'POST',
+            headers: authHeaders,
+            body: JSON.stringify(getInventoryFormData())
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            showError(data.message || 'Failed to save equipment');
+            return;
+        }
+
+        showSuccess(id ? `${data.item.model} updated` : `${data.item.model} added to your fleet`);
+        resetInventoryForm();
+        await loadInventory();
+    } catch (error) {
+        console.error('Error saving inventory item:', error);
+        showError('Failed to save equipment');
+    }
+});
+
+/**
+ * Retire an item (the assistant stops offering it)
+ */
+async function retireInventoryItem(id) {
+    const item = inventoryItems[id];
+    if (!item || !confirm(`Retire the ${item.model}? The assistant will stop offering it.`)) return;
+
+    try {
+        const response = await fetch(`/client/inventory/${id}/retire`, {
+            method: 'POST',
+            headers: authHeaders,
+            body: '{}'
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+        if (!data.success) {
+            showError(data.message || 'Failed to retire equipment');
+        }
+    } catch (error) {
+        console.error('Error retiring inventory item:', error);
+        showError('Failed to retire equipment');
+    }
+
+    await loadInventory();
+}
+
+/**
+ * Upload the chosen CSV/JSON file; a preview (dry run) shows what would change
+ */
+async function importInventory(dryRun) {
+    const file = document.getElementById('inventoryImportFile').files[0];
+    const container = document.getElementById('inventoryImportResult');
+    hideMessages();
+
+    if (!file) {
+        showError('Choose a CSV or JSON file first');
+        return;
+    }
+
+    const isJson = file.name.toLowerCase().endsWith('.json');
+
+    try {
+        const response = await fetch(`/client/inventory/import${dryRun ? '?dryRun=true' : ''}`, {
+            method: 'POST',
+            headers: { ...authHeaders, 'Content-Type': isJson ? 'application/json' : 'text/csv' },
+            body: await file.text()
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '';
+            showError(data.message || 'Import failed');
+            return;
+        }
+
+        const { create, update, unchanged, error } = data.summary;
+        const describe = row => {
+            if (row.errors) return row.errors.map(escapeHtml).join('; ');
+            if (row.changes) {
+                return Object.entries(row.changes)
+                    .map(([column, change]) => `${escapeHtml(column)}: ${escapeHtml(change.from ?? '-')} &rarr; ${escapeHtml(change.to)}`)
+                    .join(', ');
+            }
+            return '';
+        };
+
+        container.innerHTML = `
+            <div style="font-weight:700; margin-bottom:8px;">
+                ${dryRun ? 'Preview' : 'Imported'}: ${create} new, ${update} updated, ${unchanged} unchanged, ${error} with errors
+            </div>
+            <table class="calls-table">
+                <thead>
+                    <tr><th>Row</th><th>Action</th><th>Stock #</th><th>Model</th><th>Details</th></tr>
+                </thead>
+                <tbody>
+                    ${data.rows.filter(row => row.action !== 'unchanged').map(row => `
+                        <tr>
+                            <td>${row.row}</td>
+                            <td style="color:${row.action === 'error' ? '#991B1B' : 'inherit'};">${row.action}</td>
+                            <td>${escapeHtml(row.stockNumber || '-')}</td>
+                            <td>${escapeHtml(row.model || '-')}</td>
+                            <td>${describe(row)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+
+        if (!dryRun) {
+            await loadInventory();
+        }
+    } catch (error) {
+        console.error('Error importing inventory:', error);
+        showError('Import failed');
+    }
+}
+
+/**
+ * Download the fleet as CSV or JSON
+ */
+async function exportInventory(format) {
+    try {
+        const response = await fetch(`/client/inventory/export?format=${format}`, { headers: authHeaders });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const blob = format === 'json'
+            ? new Blob([JSON.stringify((await response.json()).items, null, 2)], { type: 'application/json' })
+            : await response.blob();
+
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `inventory.${format}`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    } catch (error) {
+        console.error('Error exporting inventory:', error);
+        showError('Export failed');
+    }
+}
+
+/**
+ * Load this client's search aliases into the textarea (one "alias = canonical" per line)
+ */
+async function loadInventoryAliases() {
+    try {
+        const response = await fetch('/client/inventory/aliases', { headers: authHeaders });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+        if (data.success) {
+            document.getElementById('inventoryAliases').value = data.aliases
+                .map(a => `${a.alias} = ${a.canonical}`)
+                .join('\n');
+        }
+    } catch (error) {
+        console.error('Error loading search aliases:', error);
+    }
+}
+
+/**
+ * Save the search aliases textarea
+ */
+async function saveInventoryAliases() {
+    hideMessages();
+
+    const lines = document.getElementById('inventoryAliases').value.split('\n').map(line => line.trim()).filter(Boolean);
+    const malformed = lines.find(line => !/^[^=]+=[^=]+$/.test(line));
+    if (malformed) {
+        showError(`Use "what callers say = what it means" on each line: ${malformed}`);
+        return;
+    }
+
+    const aliases = lines.map(line => {
+        const [alias, canonical] = line.split('=').map(part => part.trim());
+        return { alias, canonical };
+    });
+
+    try {
+        const response = await fetch('/client/inventory/aliases', {
+            method: 'POST',
+            headers: authHeaders,
+            body: JSON.stringify({ aliases })
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            showError(data.message || 'Failed to save search aliases');
+            return;
+        }
+
+        showSuccess(`${data.aliases.length} search alias${data.aliases.length === 1 ? '' : 'es'} saved`);
+        await loadInventoryAliases();
+    } catch (error) {
+        console.error('Error saving search aliases:', error);
+        showError('Failed to save search aliases');
+    }
+}
+
+/**
+ * Load this client's rental reservations
+ */
+async function loadReservations() {
+    const container = document.getElementById('reservationsContainer');
+    const status = document.getElementById('reservationStatus').value;
+
+    try {
+        const response = await fetch(`/client/reservations?status=${status}`, { headers: authHeaders });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '<p style="color: #991B1B;">Failed to load reservations</p>';
+            return;
+        }
+
+        if (data.reservations.length === 0) {
+            container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">No reservations to show.</p>';
+            return;
+        }
+
+        const describeStatus = reservation => {
+            if (reservation.status === 'hold') {
+                return reservation.expired
+                    ? '<span style="color:#991B1B;">Hold expired</span>'
+                    : `Hold until ${new Date(reservation.hold_expires_at).toLocaleString()}`;
+            }
+            if (reservation.status === 'confirmed') {
+                return `Confirmed by ${escapeHtml(reservation.confirmed_by)}`;
+            }
+            return `Cancelled${reservation.cancelled_by ? ` by ${escapeHtml(reservation.cancelled_by)}` : ''}`;
+        };
+
+        container.innerHTML = `
+            <table class="calls-table">
+                <thead>
+                    <tr>
+                        <th>Equipment</th>
+                        <th>Qty</th>
+                        <th>Dates</th>
+                        <th>Customer</th>
+                        <th>Jobsite</th>
+                        <th>Status</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${data.reservations.map(reservation => `
+                        <tr class="${reservation.status === 'cancelled' ? 'retired-row' : ''}">
+                            <td>${escapeHtml(reservation.model)}${reservation.stock_number ? ` <span style="color: rgba(0, 0, 0, 0.6);">(${escapeHtml(reservation.stock_number)})</span>` : ''}</td>
+                            <td>${reservation.quantity}</td>
+                            <td>${escapeHtml(reservation.start_date)}${reservation.end_date !== reservation.start_date ? ` &ndash; ${escapeHtml(reservation.end_date)}` : ''}</td>
+                            <td>${escapeHtml(reservation.customer_name || '-')}<br><span style="color: rgba(0, 0, 0, 0.6);">${escapeHtml(reservation.customer_phone || '')}</span></td>
+                            <td>${escapeHtml(reservation.jobsite || '-')}</td>
+                            <td>${describeStatus(reservation)}</td>
+                            <td style="white-space: nowrap;">
+                                ${reservation.status === 'hold' ? `<button class="btn btn-primary" onclick="updateReservation(${reservation.id}, 'confirm')">Confirm</button>` : ''}
+                                ${reservation.status !== 'cancelled' ? `<button class="btn btn-secondary" onclick="updateReservation(${reservation.id}, 'cancel')">Cancel</button>` : ''}
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    } catch (error) {
+        console.error('Error loading reservations:', error);
+        container.innerHTML = '<p style="color: #991B1B;">Failed to load reservations</p>';
+    }
+}
+
+/**
+ * Confirm or cancel a reservation
+ */
+async function updateReservation(id, action) {
+    if (action === 'cancel' && !confirm('Cancel this reservation? The equipment becomes available again for those dates.')) return;
+    hideMessages();
+
+    try {
+        const response = await fetch(`/client/reservations/${id}/${action}`, {
+            method: 'POST',
+            headers: authHeaders,
+            body: '{}'
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+        if (data.success) {
+            showSuccess(action === 'confirm' ? 'Reservation confirmed' : 'Reservation cancelled');
+        } else {
+            showError(data.message || 'Failed to update reservation');
+        }
+    } catch (error) {
+        console.error('Error updating reservation:', error);
+        showError('Failed to update reservation');
+    }
+
+    await loadReservations();
+}
+
+/**
+ * Load the quotes the assistant gave callers
+ */
+async function loadQuotes() {
+    const container = document.getElementById('quotesContainer');
+
+    try {
+        const response = await fetch('/client/quotes', { headers: authHeaders });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '<p style="color: #991B1B;">Failed to load quotes</p>';
+            return;
+        }
+
+        if (data.quotes.length === 0) {
+            container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">No quotes yet.</p>';
+            return;
+        }
+
+        const money = amount => `$${Number(amount).toFixed(2)}`;
+
+        container.innerHTML = `
+            <table class="calls-table">
+                <thead>
+                    <tr>
+                        <th>When</th>
+                        <th>Equipment</th>
+                        <th>Qty</th>
+                        <th>Length</th>
+                        <th>Rental</th>
+                        <th>Waiver</th>
+                        <th>Delivery</th>
+                        <th>Tax</th>
+                        <th>Total</th>
+                        <th>Call</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${data.quotes.map(quote => `
+                        <tr>
+                            <td>${new Date(quote.created_at).toLocaleString()}</td>
+                            <td>${escapeHtml(quote.model)}</td>
+                            <td>${quote.quantity}</td>
+                            <td>${quote.start_date ? `${escapeHtml(quote.start_date)} &ndash; ${escapeHtml(quote.end_date)}` : `${quote.rental_days} day${quote.rental_days === 1 ? '' : 's'}`}</td>
+                            <td>${money(quote.rental_amount)}</td>
+                            <td>${quote.damage_waiver_amount ? money(quote.damage_waiver_amount) : '-'}</td>
+                            <td>${quote.delivery_fee !== null ? money(quote.delivery_fee) : '-'}</td>
+                            <td>${quote.tax_amount ? money(quote.tax_amount) : '-'}</td>
+                            <td><strong>${money(quote.total)}</strong></td>
+                            <td title="${escapeHtml(quote.call_id || '')}">${quote.call_id ? `${escapeHtml(quote.call_id.substring(0, 8))}...` : '-'}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    } catch (error) {
+        console.error('Error loading quotes:', error);
+        container.innerHTML = '<p style="color: #991B1B;">Failed to load quotes</p>';
+    }
+}
+
+// Listings shown in the sales table, by id (for editing)
+let salesListings = {};
+
+const SALES_STATUS_LABELS = { for_sale: 'For sale', pending: 'Deal pending', sold: 'Sold' };
+
+/**
+ * Load this client's machines for sale
+ */
+async function loadSalesListings() {
+    const container = document.getElementById('salesListingsContainer');
+    const includeSold = document.getElementById('showSold').checked;
+
+    try {
+        const response = await fetch(`/client/sales-listings${includeSold ? '?includeSold=true' : ''}`, {
+            headers: authHeaders
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '<p style="color: #991B1B;">Failed to load sales listings</p>';
+            return;
+        }
+
+        salesListings = Object.fromEntries(data.listings.map(listing => [listing.id, listing]));
+
+        if (data.listings.length === 0) {
+            container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">No machines for sale yet. List one above so the assistant can tell buyers about it.</p>';
+            return;
+        }
+
+        container.innerHTML = `
+            <table class="calls-table">
+                <thead>
+                    <tr>
+                        <th>Stock #</th>
+                        <th>Machine</th>
+                        <th>Asking</th>
+                        <th>Hours</th>
+                        <th>Condition</th>
+                        <th>Serial #</th>
+                        <th>Location</th>
+                        <th>Status</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${data.listings.map(listing => `
+                        <tr class="${listing.status === 'sold' ? 'retired-row' : ''}">
+                            <td>${escapeHtml(listing.stock_number || '-')}</td>
+                            <td>
+                                ${escapeHtml(`${listing.year ? `${listing.year} ` : ''}${listing.model}`)}
+                                <div style="color: rgba(0, 0, 0, 0.6);">${escapeHtml(listing.category)}</div>
+                            </td>
+                            <td>$${Number(listing.asking_price).toLocaleString()}</td>
+                            <td>${listing.hours !== null ? Number(listing.hours).toLocaleString() : '-'}</td>
+                            <td>${escapeHtml(listing.condition || '-')}</td>
+                            <td>${escapeHtml(listing.serial_number || '-')}</td>
+                            <td>${escapeHtml(listing.location || '-')}</td>
+                            <td>${SALES_STATUS_LABELS[listing.status] || escapeHtml(listing.status)}</td>
+                            <td style="white-space: nowrap;">
+                                ${listing.photos_url ? `<a class="btn btn-secondary" href="${escapeHtml(listing.photos_url)}" target="_blank" rel="noopener">Photos</a>` : ''}
+                                <button class="btn btn-secondary" onclick="editSalesListing(${listing.id})">Edit</button>
+                                <button class="btn btn-secondary" onclick="loadSalesListingCalls(${listing.id})">Calls</button>
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    } catch (error) {
+        console.error('Error loading sales listings:', error);
+        container.innerHTML = '<p style="color: #991B1B;">Error loading sales listings</p>';
+    }
+}
+
+/**
+ * Listing fields from the sales form
+ * Optional fields are sent as null when blank so editing can clear them
+ */
+function getSalesListingFormData() {
+    const year = document.getElementById('salesYear').value;
+    return {
+        stockNumber: document.getElementById('salesStockNumber').value.trim() || null,
+        model: document.getElementById('salesModel').value.trim(),
+        category: document.getElementById('salesCategory').value.trim(),
+        askingPrice: parseFloat(document.getElementById('salesAskingPrice').value),
+        hours: optionalNumber('salesHours'),
+        condition: document.getElementById('salesCondition').value || null,
+        year: year ? parseInt(year) : null,
+        serialNumber: document.getElementById('salesSerialNumber').value.trim() || null,
+        location: document.getElementById('salesLocation').value.trim() || null,
+        photosUrl: document.getElementById('salesPhotosUrl').value.trim() || null,
+        description: document.getElementById('salesDescription').value.trim() || null,
+        status: document.getElementById('salesStatus').value
+    };
+}
+
+/**
+ * Fill the form with a listing to edit it
+ */
+function editSalesListing(id) {
+    const listing = salesListings[id];
+    if (!listing) return;
+
+    document.getElementById('salesListingId').value = listing.id;
+    document.getElementById('salesStockNumber').value = listing.stock_number || '';
+    document.getElementById('salesModel').value = listing.model;
+    document.getElementById('salesCategory').value = listing.category;
+    document.getElementById('salesAskingPrice').value = listing.asking_price;
+    document.getElementById('salesHours').value = listing.hours ?? '';
+    document.getElementById('salesCondition').value = listing.condition || '';
+    document.getElementById('salesYear').value = listing.year || '';
+    document.getElementById('salesSerialNumber').value = listing.serial_number || '';
+    document.getElementById('salesLocation').value = listing.location || '';
+    document.getElementById('salesPhotosUrl').value = listing.photos_url || '';
+    document.getElementById('salesDescription').value = listing.description || '';
+    document.getElementById('salesStatus').value = listing.status;
+    document.getElementById('salesFormTitle').textContent = `Edit ${listing.model}`;
+    document.getElementById('salesSubmit').textContent = 'Save Changes';
+    document.getElementById('salesListingForm').scrollIntoView({ behavior: 'smooth' });
+}
+
+/**
+ * Back to listing a new machine
+ */
+function resetSalesListingForm() {
+    document.getElementById('salesListingForm').reset();
+    document.getElementById('salesListingId').value = '';
+    document.getElementById('salesFormTitle').textContent = 'List a Machine for Sale';
+    document.getElementById('salesSubmit').textContent = 'Add Listing';
+}
+
+/**
+ * Add or update a listing
+ */
+document.getElementById('salesListingForm').addEventListener('submit', async (e) => {
+    e.preventDefault();
+    hideMessages();
+
+    const id = document.getElementById('salesListingId').value;
+
+    try {
+        const response = await fetch(id ? `/client/sales-listings/${id}` : '/client/sales-listings', {
+            method: 'POST',
+            headers: authHeaders,
+            body: JSON.stringify(getSalesListingFormData())
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            showError(data.message || 'Failed to save listing');
+            return;
+        }
+
+        showSuccess(id ? `${data.listing.model} updated` : `${data.listing.model} listed for sale`);
+        resetSalesListingForm();
+        await loadSalesListings();
+    } catch (error) {
+        console.error('Error saving sales listing:', error);
+        showError('Failed to save listing');
+    }
+});
+
+/**
+ * Load the calls machines for sale came up on (all listings, or one)
+ */
+async function loadSalesListingCalls(listingId) {
+    const container = document.getElementById('salesCallsContainer');
+    const title = document.getElementById('salesCallsTitle');
+    const listing = listingId ? salesListings[listingId] : null;
+
+    title.textContent = listing ? `Calls About the ${listing.model}` : 'Sales Calls';
+
+    try {
+        const response = await fetch(`/client/sales-listings/calls${listingId ? `?listingId=${listingId}` : ''}`, {
+            headers: authHeaders
+        });
+
+        if (response.status === 401) {
+            logout();
+            return;
+        }
+
+        const data = await response.json();
+
+        if (!data.success) {
+            container.innerHTML = '<p style="color: #991B1B;">Failed to load sales calls</p>';
+            return;
+        }
+
+        if (data.calls.length === 0) {
+            container.innerHTML = '<p style="color: rgba(0, 0, 0, 0.6);">No calls about machines for sale yet.</p>';
+            return;
+        }
+
+        container.innerHTML = `
+            <table class="calls-table">
+                <thead>
+                    <tr>
+                        <th>When</th>
+                        <th>Machine</th>
+                        <th>Caller</th>
+                        <th>Intent</th>
+                        <th>How</th>
+                        <th>Summary</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${data.calls.map(call => `
+                        <tr>
+                            <td>${new Date(call.started_at || call.created_at).toLocaleString()}</td>
+                            <td>${escapeHtml(`${call.model}${call.stock_number ? ` (#${call.stock_number})` : ''}`)}</td>
+                            <td>${escapeHtml([call.caller_name, call.caller_company, call.caller_phone].filter(Boolean).join(', ') || 'Unknown')}</td>
+                            <td>${escapeHtml(call.intent_category || '-')}</td>
+                            <td>${call.source === 'offered' ? 'Offered by the assistant' : 'Asked about'}</td>
+                            <td>${escapeHtml(call.summary || '-')}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+
+        if (listing) {
+            container.scrollIntoView({ behavior: 'smooth' });
+        }
+    } catch (error) {
+        console.error('Error loading sales calls:', error);
+        container.innerHTML = '<p style="color: #991B1B;">Failed to load sales calls</p>';
+    }
+}
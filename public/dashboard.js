@@ -1,6 +1,35 @@
 // Dashboard JavaScript
 // Vanilla JS - No build process needed!
 
+// Admin auth - every /admin request carries the token from admin-login.html
+const adminToken = localStorage.getItem('admin_token');
+if (!adminToken) {
+    window.location.href = '/admin-login.html';
+}
+
+async function adminFetch(url, options = {}) {
+    const response = await fetch(url, {
+        ...options,
+        headers: { ...(options.headers || {}), 'Authorization': `Bearer ${adminToken}` }
+    });
+    if (response.status === 401) {
+        localStorage.removeItem('admin_token');
+        window.location.href = '/admin-login.html';
+    }
+    return response;
+}
+
+// Admin logout (revokes the token server-side)
+async function adminLogout() {
+    try {
+        await adminFetch('/admin/logout', { method: 'POST' });
+    } catch (error) {
+        // Token may already be invalid - still clear it locally
+    }
+    localStorage.removeItem('admin_token');
+    window.location.href = '/admin-login.html';
+}
+
 // State
 let calls = [];
 let billingData = null;
@@ -30,6 +59,187 @@ function showTab(tabName) {
     if (tabName === 'database') loadDatabaseCalls();
     if (tabName === 'billing' && !billingData) loadBilling();
     if (tabName === 'tools' && tools.length === 0) loadTools();
+    if (tabName === 'live') startLiveFeed();
+}
+
+// ==================== LIVE CALLS ====================
+
+// Calls in progress, keyed by call id: { call, transcript: [], tools: [], ended }
+const liveCalls = new Map();
+let liveFeedConnected = false;
+const LIVE_TRANSCRIPT_LINES = 12;
+const LIVE_ENDED_DISPLAY_MS = 60000;
+
+// Stream /admin/live (Server-Sent Events read with fetch so the auth header is sent)
+async function startLiveFeed() {
+    if (liveFeedConnected) return;
+    liveFeedConnected = true;
+    setLiveStatus('Connecting...', '');
+
+    try {
+        const response = await adminFetch('/admin/live');
+        if (!response.ok || !response.body) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        setLiveStatus('Connected', 'status-inprogress');
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const frames = buffer.split('\n\n');
+            buffer = frames.pop();
+            frames.forEach(handleLiveFrame);
+        }
+    } catch (error) {
+        console.error('Live feed error:', error);
+    }
+
+    // Dropped (server restart, network) - reconnect
+    liveFeedConnected = false;
+    setLiveStatus('Reconnecting...', 'status-failed');
+    setTimeout(startLiveFeed, 3000);
+}
+
+function setLiveStatus(text, className) {
+    const status = document.getElementById('liveStatus');
+    status.textContent = text;
+    status.className = `status ${className}`;
+}
+
+function handleLiveFrame(frame) {
+    let type = 'message';
+    let data = '';
+    frame.split('\n').forEach(line => {
+        if (line.startsWith('event: ')) type = line.slice(7);
+        if (line.startsWith('data: ')) data += line.slice(6);
+    });
+    if (!data) return; // heartbeat
+
+    const event = JSON.parse(data);
+
+    if (type === 'snapshot') {
+        liveCalls.clear();
+        event.calls.forEach(call => liveCalls.set(call.callId, { call, transcript: call.transcript, tools: [], ended: null }));
+    } else {
+        const entry = liveCalls.get(event.callId) || {
+            call: { callId: event.callId, clientId: event.clientId, callerPhone: null, status: 'in-progress', startedAt: new Date().toISOString() },
+            transcript: [],
+            tools: [],
+            ended: null
+        };
+        liveCalls.set(event.callId, entry);
+
+        if (type === 'call-started') entry.call = event.call;
+        if (type === 'status') entry.call.status = event.status;
+        if (type === 'transcript') {
+            event.turns.forEach(turn => {
+                const index = entry.transcript.findIndex(t => t.position === turn.position);
+                if (index >= 0) entry.transcript[index] = turn;
+                else entry.transcript.push(turn);
+            });
+            entry.transcript.sort((a, b) => a.position - b.position);
+        }
+        if (type === 'tool') entry.tools.push(event);
+        if (type === 'supervisor') entry.tools.push({ name: `supervisor ${event.action}`, arguments: event.actor, result: 'sent' });
+        if (type === 'call-ended') {
+            entry.call.status = 'ended';
+            entry.ended = event;
+            setTimeout(() => {
+                liveCalls.delete(event.callId);
+                renderLiveCalls();
+            }, LIVE_ENDED_DISPLAY_MS);
+        }
+    }
+
+    renderLiveCalls();
+}
+
+function renderLiveCalls() {
+    const container = document.getElementById('liveContent');
+
+    if (liveCalls.size === 0) {
+        container.innerHTML = '<p class="loading">No calls in progress</p>';
+        return;
+    }
+
+    container.innerHTML = [...liveCalls.values()].map(({ call, transcript, tools, ended }) => `
+        <div class="call-card">
+            <div class="call-header">
+                <div>
+                    <div style="font-weight: 600; font-size: 1.1rem;">${escapeHtml(call.callerPhone || 'Unknown Caller')}</div>
+                    <div style="font-size: 0.85rem; color: #666; font-family: monospace; margin-top: 0.25rem;">${call.callId}</div>
+                    ${call.clientId ? `<div style="font-size: 0.85rem; color: #666;">${escapeHtml(call.clientId)}</div>` : ''}
+                </div>
+                <div style="text-align: right;">
+                    <span class="status ${call.status === 'ended' ? 'status-ended' : 'status-inprogress'}">${call.status}</span>
+                    <div style="font-size: 0.9rem; color: #666; margin-top: 0.25rem;">since ${new Date(call.startedAt).toLocaleTimeString()}</div>
+                </div>
+            </div>
+            <div class="live-transcript">
+                ${transcript.slice(-LIVE_TRANSCRIPT_LINES).map(turn => `
+                    <div class="live-turn live-turn-${turn.role === 'user' ? 'user' : turn.role === 'bot' ? 'bot' : 'tool'}">
+                        <strong>${turn.role === 'user' ? 'Caller' : turn.role === 'bot' ? 'Assistant' : escapeHtml(turn.role)}:</strong> ${escapeHtml(turn.message)}
+                    </div>
+                `).join('') || '<div class="live-turn">Waiting for conversation...</div>'}
+            </div>
+            ${tools.map(tool => `
+                <div class="live-tool">&#9881; ${escapeHtml(tool.name)}(${escapeHtml(JSON.stringify(tool.arguments))}) &rarr; ${escapeHtml(tool.result)}</div>
+            `).join('')}
+            ${!ended && call.status !== 'ended' ? `
+                <div class="live-controls">
+                    <button class="btn btn-secondary btn-sm" onclick="superviseCall('${call.callId}', 'say')">Say</button>
+                    <button class="btn btn-secondary btn-sm" onclick="superviseCall('${call.callId}', 'transfer')">Transfer</button>
+                    <button class="btn btn-secondary btn-sm" onclick="superviseCall('${call.callId}', 'mute')">Mute assistant</button>
+                    <button class="btn btn-secondary btn-sm" onclick="superviseCall('${call.callId}', 'unmute')">Unmute</button>
+                    <button class="btn btn-secondary btn-sm" onclick="superviseCall('${call.callId}', 'end')">End call</button>
+                </div>
+            ` : ''}
+            ${ended ? `
+                <div class="live-tool"><strong>Ended</strong>${ended.endedReason ? ` (${escapeHtml(ended.endedReason)})` : ''}${ended.durationSeconds ? ` after ${ended.durationSeconds}s` : ''}${ended.summary ? ` - ${escapeHtml(ended.summary)}` : ''}</div>
+            ` : ''}
+        </div>
+    `).join('');
+}
+
+// Supervisor Live Call Control (POST /admin/live/:callId/:action)
+async function superviseCall(callId, action) {
+    const body = {};
+
+    if (action === 'say') {
+        body.message = prompt('What should the assistant say?');
+        if (!body.message) return;
+    }
+    if (action === 'transfer') {
+        body.number = prompt('Transfer to (E.164, e.g. +15551234567):');
+        if (!body.number) return;
+        body.message = prompt('Message for the caller before transferring (optional):') || undefined;
+    }
+    if (action === 'end' && !confirm('Hang up this call?')) return;
+
+    try {
+        const response = await adminFetch(`/admin/live/${encodeURIComponent(callId)}/${action}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            alert(data.error || `Failed to ${action} (HTTP ${response.status})`);
+        }
+    } catch (error) {
+        console.error('Supervisor action failed:', error);
+        alert(`Failed to ${action}`);
+    }
+}
+
+function escapeHtml(text) {
+    return String(text ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
 }
 
 // Refresh All Data
@@ -45,7 +255,7 @@ async function refreshAll() {
 // Load Calls
 async function loadCalls() {
     try {
-        const response = await fetch('/admin/calls?limit=20');
+        const response = await adminFetch('/admin/calls?limit=20');
         const data = await response.json();
         calls = data.results || [];
         renderCalls();
@@ -99,7 +309,7 @@ async function viewCallDetails(callId) {
     details.innerHTML = '<p class="loading">Loading call details...</p>';
 
     try {
-        const response = await fetch(`/admin/calls/${callId}`);
+        const response = await adminFetch(`/admin/calls/${callId}`);
         const call = await response.json();
 
         let html = `
@@ -178,7 +388,7 @@ window.onclick = function(event) {
 // Load Billing
 async function loadBilling() {
     try {
-        const response = await fetch('/admin/billing?limit=100');
+        const response = await adminFetch('/admin/billing?limit=100');
         billingData = await response.json();
         renderBilling();
         updateStats();
@@ -254,7 +464,7 @@ function renderBilling() {
 // Load Tools
 async function loadTools() {
     try {
-        const response = await fetch('/admin/tools');
+        const response = await adminFetch('/admin/tools');
         const data = await response.json();
         tools = data.results || [];
         renderTools();
@@ -326,7 +536,7 @@ async function loadDatabaseCalls() {
     container.innerHTML = '<p class="loading">Loading calls from database...</p>';
 
     try {
-        const response = await fetch(`/admin/db/calls?limit=${limit}`);
+        const response = await adminFetch(`/admin/db/calls?limit=${limit}`);
         const data = await response.json();
 
         if (!data.calls || data.calls.length === 0) {
@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+// scripts/admin-user.ts
+// Manage /admin logins
+//
+// Usage:
+//   npm run admin:user -- create <username> <password> --role=<super_admin|client_admin|analyst> [--client=<client-id>]
+//   npm run admin:user -- password <username> <new-password>
+
+// IMPORTANT: Load env vars FIRST before any other imports
+import 'dotenv/config';
+import { databaseService } from '../src/services/database.service';
+import { adminAuthService } from '../src/services/admin-auth.service';
+import { AdminRole } from '../src/types';
+
+function printUsage() {
+  console.log('Usage:');
+  console.log('  npm run admin:user -- create <username> <password> --role=<super_admin|client_admin|analyst> [--client=<client-id>]');
+  console.log('  npm run admin:user -- password <username> <new-password>');
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const [command, username, password] = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    await databaseService.init();
+
+    if (command === 'create' && username && password && option('role')) {
+      const role = option('role') as AdminRole;
+      const clientId = option('client');
+
+      if (clientId && !(await databaseService.getClientById(clientId))) {
+        throw new Error(`No client found with ID: ${clientId}`);
+      }
+
+      await adminAuthService.createUser(username, password, role, clientId);
+      console.log(`✓ Created ${role} ${username}${clientId ? ` for client ${clientId}` : ' (all clients)'}`);
+    } else if (command === 'password' && username && password) {
+      if (!(await adminAuthService.setPassword(username, password))) {
+        throw new Error(`No admin user found: ${username}`);
+      }
+      console.log(`✓ Password updated for ${username} (existing sessions revoked)`);
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+
+    await databaseService.close();
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`✗ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
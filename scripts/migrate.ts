@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+// scripts/migrate.ts
+// Manage database schema migrations for the configured DATABASE_DRIVER
+// (src/db/migrations for SQLite, src/db/postgres/migrations for PostgreSQL)
+//
+// Usage:
+//   npm run db:migrate -- status
+//   npm run db:migrate -- up [--to=<version>]
+//   npm run db:migrate -- down [--steps=<n>]
+//   npm run db:migrate -- seed
+//   npm run db:migrate -- create <name>
+
+// IMPORTANT: Load env vars FIRST before any other imports
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { databaseService } from '../src/services/database.service';
+import { MigrationService } from '../src/services/migration.service';
+
+// Both drivers share version numbers, so new migrations are created in each
+const MIGRATIONS_DIRS = [
+  join(__dirname, '../src/db/migrations'),
+  join(__dirname, '../src/db/postgres/migrations')
+];
+
+function printUsage() {
+  console.log('Usage:');
+  console.log('  npm run db:migrate -- status');
+  console.log('  npm run db:migrate -- up [--to=<version>]');
+  console.log('  npm run db:migrate -- down [--steps=<n>]');
+  console.log('  npm run db:migrate -- seed');
+  console.log('  npm run db:migrate -- create <name>');
+}
+
+async function printStatus() {
+  const status = await databaseService.migrationStatus();
+
+  for (const migration of status) {
+    const version = String(migration.version).padStart(3, '0');
+    console.log(`${migration.appliedAt ? '✓' : ' '} ${version}_${migration.name}${migration.appliedAt ? `  (applied ${migration.appliedAt})` : '  (pending)'}`);
+  }
+}
+
+/**
+ * Write an empty migration with the next version number for each driver
+ */
+function createMigration(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const version = Math.max(0, ...MIGRATIONS_DIRS.flatMap(dir =>
+    new MigrationService(dir).loadMigrations().map(m => m.version)
+  )) + 1;
+  const file = `${String(version).padStart(3, '0')}_${slug}.sql`;
+
+  for (const dir of MIGRATIONS_DIRS) {
+    writeFileSync(join(dir, file), [
+      `-- Migration ${String(version).padStart(3, '0')}: ${name}`,
+      '',
+      '-- migrate:up',
+      '',
+      '',
+      '-- migrate:down',
+      '',
+      ''
+    ].join('\n'));
+
+    console.log(`✓ Created ${relative(join(__dirname, '..'), join(dir, file))}`);
+  }
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const [command, name] = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    if (command === 'create' && name) {
+      createMigration(name);
+      process.exit(0);
+    }
+
+    await databaseService.init({ migrate: false });
+
+    if (command === 'status') {
+      await printStatus();
+    } else if (command === 'up') {
+      const to = option('to');
+      const applied = await databaseService.migrate({ to: to !== undefined ? Number(to) : undefined });
+      console.log(applied.length ? `✓ Applied ${applied.length} migration(s)` : '✓ Already up to date');
+    } else if (command === 'down') {
+      const rolledBack = await databaseService.rollback(Number(option('steps') || 1));
+      console.log(rolledBack.length ? `✓ Rolled back ${rolledBack.length} migration(s)` : '✓ Nothing to roll back');
+    } else if (command === 'seed') {
+      await databaseService.seed();
+      console.log('✓ Seed data loaded');
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+
+    await databaseService.close();
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`✗ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
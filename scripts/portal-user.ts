@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+// scripts/portal-user.ts
+// Manage client portal logins
+//
+// Usage:
+//   npm run portal:user -- create <username> <password> --client=<client-id>
+//   npm run portal:user -- password <username> <new-password>
+
+// IMPORTANT: Load env vars FIRST before any other imports
+import 'dotenv/config';
+import { databaseService } from '../src/services/database.service';
+import { portalAuthService } from '../src/services/portal-auth.service';
+
+async function createUser(username: string, password: string, clientId: string) {
+  const client = await databaseService.getClientById(clientId);
+  if (!client) {
+    throw new Error(`No client found with ID: ${clientId}`);
+  }
+
+  if (await databaseService.getPortalUserByUsername(username)) {
+    throw new Error(`User already exists: ${username}`);
+  }
+
+  await portalAuthService.createUser(username, password, clientId);
+  console.log(`✓ Created portal user ${username} for ${client.name} (${clientId})`);
+}
+
+async function changePassword(username: string, password: string) {
+  if (!(await portalAuthService.setPassword(username, password))) {
+    throw new Error(`No user found: ${username}`);
+  }
+  console.log(`✓ Password updated for ${username} (existing sessions revoked)`);
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const clientArg = args.find(arg => arg.startsWith('--client='));
+  const [command, username, password] = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    await databaseService.init();
+
+    if (command === 'create' && username && password && clientArg) {
+      await createUser(username, password, clientArg.split('=')[1]);
+    } else if (command === 'password' && username && password) {
+      await changePassword(username, password);
+    } else {
+      console.log('Usage:');
+      console.log('  npm run portal:user -- create <username> <password> --client=<client-id>');
+      console.log('  npm run portal:user -- password <username> <new-password>');
+      process.exit(1);
+    }
+
+    await databaseService.close();
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`✗ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -97,7 +97,8 @@ async function syncPhoneNumbers() {
 
         const config = {
           server: {
-            url: `${SERVER_URL}/inbound`
+            url: `${SERVER_URL}/inbound`,
+            ...(client.webhook_secret ? { secret: client.webhook_secret } : {})
           },
           assistantId: null as any, // Remove static assignment - forces assistant-request
         };
@@ -14,6 +14,8 @@ import { toolRoutes } from './routes/tools';
 import { adminRoutes } from './routes/admin';
 import { clientRoutes } from './routes/client';
 import { databaseService } from './services/database.service';
+import { callbackReminderService } from './services/callback-reminder.service';
+import { callReconcileService } from './services/call-reconcile.service';
 
 // Initialize Fastify with minimal logging
 const fastify = Fastify({
@@ -39,7 +41,16 @@ fastify.register(swagger, {
       { name: 'health', description: 'Health check endpoints' },
       { name: 'vapi', description: 'Vapi webhook endpoints' },
       { name: 'admin', description: 'Admin & analytics endpoints' }
-    ]
+    ],
+    components: {
+      securitySchemes: {
+        adminBearer: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Admin token from POST /admin/login'
+        }
+      }
+    }
   }
 });
 
@@ -116,6 +127,8 @@ fastify.get('/api', {
 // Graceful shutdown handler
 const closeGracefully = async (signal: string) => {
   console.log(`\n${signal} received. Closing gracefully...`);
+  await callbackReminderService.stop();
+  await callReconcileService.stop();
   await databaseService.close();
   await fastify.close();
   process.exit(0);
@@ -130,6 +143,12 @@ const start = async () => {
     // Initialize database first
     await databaseService.init();
 
+    // Background callback reminders (due soon / overdue escalation)
+    callbackReminderService.start();
+
+    // Background backfill of calls whose webhooks were missed
+    callReconcileService.start();
+
     // Start server
     const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
     const host = process.env.HOST || '0.0.0.0';
@@ -143,6 +143,21 @@ export function getToolIdsForClient(
     toolIds.push(toolIdMap.check_inventory);
   }
 
+  // Rental holds go with inventory (reserve_equipment books what check_inventory offered)
+  if (enableInventory && toolIdMap.reserve_equipment) {
+    toolIds.push(toolIdMap.reserve_equipment);
+  }
+
+  // Quotes price the same fleet
+  if (enableInventory && toolIdMap.get_rental_quote) {
+    toolIds.push(toolIdMap.get_rental_quote);
+  }
+
+  // Machines for sale are part of the same inventory feature
+  if (enableInventory && toolIdMap.check_sales_inventory) {
+    toolIds.push(toolIdMap.check_sales_inventory);
+  }
+
   if (enableTransfers && toolIdMap.transfer_call) {
     toolIds.push(toolIdMap.transfer_call);
   }
@@ -5,6 +5,18 @@ function getServerUrl(): string {
   return (process.env.SERVER_URL || 'http://localhost:3000').replace(/\/$/, '');
 }
 
+/**
+ * Server config for tool webhooks
+ * Tools are shared by every client, so they use the account-wide VAPI_SERVER_SECRET
+ */
+function buildToolServer(): { url: string; secret?: string } {
+  const server: { url: string; secret?: string } = { url: `${getServerUrl()}/tools` };
+  if (process.env.VAPI_SERVER_SECRET) {
+    server.secret = process.env.VAPI_SERVER_SECRET;
+  }
+  return server;
+}
+
 /**
  * STATIC TOOLS - Created once in Vapi, client-specific data loaded from DB at runtime
  *
@@ -16,6 +28,20 @@ function getServerUrl(): string {
  * 5. We execute the tool using their data
  */
 
+/**
+ * Numeric specs check_inventory can filter on (min/max)
+ */
+const SPEC_LIMITS = {
+  type: 'object',
+  properties: {
+    operating_weight_lbs: { type: 'number' },
+    horsepower: { type: 'number' },
+    dig_depth_ft: { type: 'number' },
+    lift_capacity_lbs: { type: 'number', description: 'Rated operating capacity' },
+    bucket_size_cu_yd: { type: 'number' }
+  }
+};
+
 /**
  * Build check_inventory tool (static - client data from DB at runtime)
  */
@@ -30,16 +56,177 @@ export function buildCheckInventoryTool(): VapiTool {
         properties: {
           query: {
             type: 'string',
-            description: 'Type of equipment to search for (e.g., excavator, bulldozer, dozer, loader, skid steer, dump truck, crane, backhoe) or specific model (e.g., Cat D6, Bobcat T76)'
+            description: 'Type of equipment to search for (e.g., excavator, bulldozer, dozer, loader, skid steer, dump truck, crane, backhoe) or specific model (e.g., Cat D6, Bobcat T76), or "" to check the whole fleet against min/max. Pass what the caller said as they said it - nicknames and spoken model numbers ("Cat three thirty six", "mini ex") are understood'
+          },
+          start_date: {
+            type: 'string',
+            description: 'First day they need it on rent, as YYYY-MM-DD (work it out from today\'s date). Include whenever the caller mentions when they need the machine, so only units free on those dates are offered.'
+          },
+          end_date: {
+            type: 'string',
+            description: 'Last day on rent, as YYYY-MM-DD (same as start_date for a one-day rental)'
+          },
+          jobsite: {
+            type: 'string',
+            description: 'Where the machine is going (city, address or site name), if mentioned'
+          },
+          min: {
+            ...SPEC_LIMITS,
+            description: 'Specs the machine must have at least, when the caller names a size (e.g., "at least 20ft dig depth" -> { "dig_depth_ft": 20 }, "over 3,000lb capacity" -> { "lift_capacity_lbs": 3000 })'
+          },
+          max: {
+            ...SPEC_LIMITS,
+            description: 'Specs the machine must not go over (e.g., "under 10,000 pounds to trailer it" -> { "operating_weight_lbs": 10000 })'
+          },
+          fuel_type: {
+            type: 'string',
+            enum: ['diesel', 'gas', 'electric', 'propane', 'hybrid'],
+            description: 'Only if the caller needs a fuel type (e.g., electric for indoor work)'
+          }
+        },
+        required: ['query']
+      }
+    },
+    async: false,
+    server: buildToolServer()
+  };
+}
+
+/**
+ * Build reserve_equipment tool
+ * Places a tentative hold that staff confirm from the client portal
+ */
+export function buildReserveEquipmentTool(): VapiTool {
+  return {
+    type: 'function',
+    function: {
+      name: 'reserve_equipment',
+      description: 'Place a tentative hold on a rental machine for specific dates. Use this when the caller wants to book a machine that check_inventory showed as available for their dates. Confirm the machine, dates, their name and the best number to reach them first. The hold is NOT a confirmed booking - speak the result to the caller, which explains that rentals will call to confirm. If the result says nothing was held, offer what it suggests instead.',
+      parameters: {
+        type: 'object',
+        properties: {
+          model: {
+            type: 'string',
+            description: 'Model exactly as check_inventory gave it (e.g., "Cat 320", "Bobcat T76")'
+          },
+          start_date: {
+            type: 'string',
+            description: 'First day on rent, as YYYY-MM-DD'
+          },
+          end_date: {
+            type: 'string',
+            description: 'Last day on rent, as YYYY-MM-DD (same as start_date for a one-day rental)'
+          },
+          quantity: {
+            type: 'number',
+            description: 'How many units (default 1)'
+          },
+          customer_name: {
+            type: 'string',
+            description: 'Customer\'s name'
+          },
+          customer_phone: {
+            type: 'string',
+            description: 'Best number to reach them to confirm the booking (ask for it)'
+          },
+          jobsite: {
+            type: 'string',
+            description: 'Where the machine is going (city, address or site name)'
+          }
+        },
+        required: ['model', 'start_date', 'end_date', 'customer_name', 'customer_phone']
+      }
+    },
+    async: false,
+    server: buildToolServer()
+  };
+}
+
+/**
+ * Build get_rental_quote tool (static - rates, waiver, tax and delivery zones from DB at runtime)
+ */
+export function buildGetRentalQuoteTool(): VapiTool {
+  return {
+    type: 'function',
+    function: {
+      name: 'get_rental_quote',
+      description: 'Price a rental machine for how long the caller needs it, from our standard daily, weekly and monthly rates plus damage waiver, delivery and tax. Use this when the caller asks what a machine costs for a given length of time (e.g., "what\'s it for a month?"). Speak the breakdown it returns; these are standard rates - never discount or negotiate them.',
+      parameters: {
+        type: 'object',
+        properties: {
+          model: {
+            type: 'string',
+            description: 'Model exactly as check_inventory gave it (e.g., "Cat 320", "Bobcat T76")'
+          },
+          duration: {
+            type: 'number',
+            description: 'How long they need it, in `unit`s (e.g., 2 for "two weeks"). Leave out if you pass start_date and end_date'
+          },
+          unit: {
+            type: 'string',
+            enum: ['day', 'week', 'month'],
+            description: 'Unit of duration (default day)'
+          },
+          start_date: {
+            type: 'string',
+            description: 'First day on rent, as YYYY-MM-DD (if the caller gave dates)'
+          },
+          end_date: {
+            type: 'string',
+            description: 'Last day on rent, as YYYY-MM-DD'
+          },
+          quantity: {
+            type: 'number',
+            description: 'How many units (default 1)'
+          },
+          delivery: {
+            type: 'boolean',
+            description: 'true if they want it delivered to the jobsite'
+          },
+          delivery_miles: {
+            type: 'number',
+            description: 'Roughly how many miles the jobsite is from our yard, if the caller knows'
+          },
+          damage_waiver: {
+            type: 'boolean',
+            description: 'false if the caller declines the damage waiver (e.g., they carry their own equipment insurance)'
+          }
+        },
+        required: ['model']
+      }
+    },
+    async: false,
+    server: buildToolServer()
+  };
+}
+
+/**
+ * Build check_sales_inventory tool
+ * Used machines for sale (asking price, hours, serial, location) - separate from the rental fleet
+ */
+export function buildCheckSalesInventoryTool(): VapiTool {
+  return {
+    type: 'function',
+    function: {
+      name: 'check_sales_inventory',
+      description: 'Check the used machines we have FOR SALE (not rentals). Returns asking price, year, hours, condition, stock number and where the machine is. Use this when the caller wants to BUY a machine (e.g., "Do you have any used excavators for sale?", "What are you asking for the 336?"). Use check_inventory for rentals. Asking prices are never negotiated - offers, inspections and financing go to sales.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Type of machine or model the caller wants to buy (e.g., excavator, Cat 336, skid steer), or "" for everything for sale. Pass what the caller said as they said it'
+          },
+          max_price: {
+            type: 'number',
+            description: 'The most the caller wants to spend, in dollars, if they gave a budget (e.g., "under 150 grand" -> 150000)'
           }
         },
         required: ['query']
       }
     },
     async: false,
-    server: {
-      url: `${getServerUrl()}/tools`
-    }
+    server: buildToolServer()
   };
 }
 
@@ -77,9 +264,7 @@ export function buildTransferCallTool(): VapiTool {
       }
     },
     async: false,
-    server: {
-      url: `${getServerUrl()}/tools`
-    }
+    server: buildToolServer()
   };
 }
 
@@ -92,7 +277,7 @@ export function buildScheduleCallbackTool(): VapiTool {
     type: 'function',
     function: {
       name: 'schedule_callback',
-      description: 'Schedule a callback for the customer. THIS TOOL RETURNS A CONFIRMATION MESSAGE - YOU MUST SPEAK IT TO THE CUSTOMER BEFORE DOING ANYTHING ELSE. Use this when: (1) Office is CLOSED and customer needs help, (2) Customer explicitly requests a callback, (3) Customer wants to be contacted at a specific time. WORKFLOW: Call tool → Receive confirmation message → Speak the message → Ask if anything else → Say goodbye → End call. IMPORTANT: You MUST explicitly ask for their phone number ("What\'s the best number to reach you?") even if you see a phone number in the caller context. You must also collect and confirm a SPECIFIC date and time (e.g., "tomorrow, January 2nd at 9am", "Monday at 2pm") - do NOT accept vague times like "tomorrow" or "morning" without drilling down to get the exact time.',
+      description: 'Schedule a callback for the customer. THIS TOOL RETURNS A CONFIRMATION MESSAGE - YOU MUST SPEAK IT TO THE CUSTOMER BEFORE DOING ANYTHING ELSE. Use this when: (1) Office is CLOSED and customer needs help, (2) Customer explicitly requests a callback, (3) Customer wants to be contacted at a specific time. WORKFLOW: Call tool → Receive confirmation message → Speak the message → Ask if anything else → Say goodbye → End call. IMPORTANT: You MUST explicitly ask for their phone number ("What\'s the best number to reach you?") even if you see a phone number in the caller context. You must also collect and confirm a SPECIFIC date and time (e.g., "tomorrow, January 2nd at 9am", "Monday at 2pm") - do NOT accept vague times like "tomorrow" or "morning" without drilling down to get the exact time. If the result says the time is unclear or outside business hours, the callback was NOT scheduled - confirm a new time and call this tool again.',
       parameters: {
         type: 'object',
         properties: {
@@ -122,9 +307,7 @@ export function buildScheduleCallbackTool(): VapiTool {
       }
     },
     async: false,
-    server: {
-      url: `${getServerUrl()}/tools`
-    }
+    server: buildToolServer()
   };
 }
 
@@ -155,6 +338,9 @@ export function buildEndCallTool(): VapiTool {
 export function getAllStaticTools(): VapiTool[] {
   return [
     buildCheckInventoryTool(),
+    buildReserveEquipmentTool(),
+    buildGetRentalQuoteTool(),
+    buildCheckSalesInventoryTool(),
     buildTransferCallTool(),
     buildScheduleCallbackTool(),
     buildEndCallTool()
@@ -172,7 +358,7 @@ export function getEnabledToolsForClient(client: {
   const enabledTools: string[] = [];
 
   if (client.enable_inventory) {
-    enabledTools.push('check_inventory');
+    enabledTools.push('check_inventory', 'reserve_equipment', 'get_rental_quote', 'check_sales_inventory');
   }
 
   if (client.enable_transfers) {
@@ -212,6 +398,11 @@ export const STRUCTURED_OUTPUT_SCHEMA = {
           subcategory: {
             type: "string" as const,
             description: "Specific subcategory (e.g., 'dozer rental inquiry', 'breakdown repair', 'parts availability')"
+          },
+          listings: {
+            type: "array" as const,
+            items: { type: "string" as const },
+            description: "For sales calls: stock numbers of the machines for sale the caller was interested in (as check_sales_inventory gave them)"
           }
         },
         required: ["category"]
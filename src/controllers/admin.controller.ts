@@ -1,14 +1,105 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { vapiClient } from '../services/vapi-client.service';
 import { databaseService } from '../services/database.service';
+import { adminAuthService } from '../services/admin-auth.service';
+import { liveCallService } from '../services/live-call.service';
+import { supervisorService } from '../services/supervisor.service';
+import { webhookInboxService } from '../services/webhook-inbox.service';
+import { callReconcileService } from '../services/call-reconcile.service';
+import { AdminSession, SupervisorAction } from '../types';
+
+// Comment lines sent this often keep proxies from closing an idle live stream
+const LIVE_HEARTBEAT_MS = 25000;
+
+/**
+ * The control URL can hang up or redirect the call - only supervisor actions
+ * (which are audited) use it, so it never leaves the server
+ */
+function withoutControlUrl(call: any) {
+  const { control_url, ...rest } = call;
+  return { ...rest, controllable: Boolean(control_url) && call.status !== 'ended' };
+}
 
 export class AdminController {
+  // Open /admin/live streams, closed on shutdown so the server can stop
+  private liveStreams = new Set<() => void>();
+
+  // ==================== AUTH ====================
+
+  /**
+   * POST /admin/login
+   * Exchange admin credentials for a bearer token
+   */
+  async login(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { username, password } = (request.body || {}) as { username?: string; password?: string };
+
+      if (!username || !password) {
+        return reply.status(400).send({ error: 'Username and password are required' });
+      }
+
+      const result = await adminAuthService.login(username, password);
+      if (!result) {
+        return reply.status(401).send({ error: 'Invalid credentials' });
+      }
+
+      return reply.send({
+        token: result.token,
+        expiresAt: result.session.expiresAt.toISOString(),
+        role: result.session.role,
+        clientId: result.session.clientId
+      });
+    } catch (error: any) {
+      console.error('[Admin] Login failed:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  /**
+   * POST /admin/logout
+   * Revoke the current admin token
+   */
+  async logout(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      await adminAuthService.logout(request.admin!);
+      return reply.send({ status: 'ok' });
+    } catch (error: any) {
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  /**
+   * GET /admin/me
+   * Current admin user, role and client scope
+   */
+  async getMe(request: FastifyRequest, reply: FastifyReply) {
+    const { username, role, clientId, expiresAt } = request.admin!;
+    return reply.send({ username, role, clientId, expiresAt: expiresAt.toISOString() });
+  }
+
+  // ==================== VAPI CALLS ====================
+
+  /**
+   * GET /admin/calls
+   * List calls from Vapi (scoped to the admin's client by assistant)
+   */
   async getCalls(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { limit = '50', createdAtGt, createdAtLt } = request.query as any;
+      const { limit = '50', createdAtGt, createdAtLt, clientId } = request.query as any;
+      const scope = adminAuthService.resolveClientScope(request.admin!, clientId);
+
+      let assistantId: string | undefined;
+      if (scope) {
+        const client = await databaseService.getClientById(scope);
+        if (!client?.vapi_assistant_id) {
+          return reply.send({ results: [], count: 0 });
+        }
+        assistantId = client.vapi_assistant_id;
+      }
 
       const calls = await vapiClient.listCalls({
         limit: parseInt(limit),
+        ...(assistantId && { assistantId }),
         ...(createdAtGt && { createdAtGt }),
         ...(createdAtLt && { createdAtLt })
       });
@@ -29,6 +120,10 @@ export class AdminController {
 
       const call = await vapiClient.getCall(callId);
 
+      if (!(await this.canAccessVapiCall(request.admin!, call))) {
+        return reply.status(404).send({ error: 'Call not found' });
+      }
+
       return reply.send(call);
     } catch (error: any) {
       return reply.status(500).send({ error: error.message });
@@ -42,14 +137,30 @@ export class AdminController {
   async getCallTranscript(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { callId } = request.params as { callId: string };
-      const transcript = await vapiClient.getCallTranscript(callId);
+      const call = await vapiClient.getCall(callId);
+
+      if (!(await this.canAccessVapiCall(request.admin!, call))) {
+        return reply.status(404).send({ error: 'Call not found' });
+      }
 
-      return reply.send({ callId, transcript });
+      return reply.send({ callId, transcript: call.transcript || '' });
     } catch (error: any) {
       return reply.status(500).send({ error: error.message });
     }
   }
 
+  /**
+   * Check a Vapi call belongs to a client the admin can see
+   */
+  private async canAccessVapiCall(admin: AdminSession, call: any): Promise<boolean> {
+    if (!admin.clientId) {
+      return true;
+    }
+
+    const client = await databaseService.getClientForCall(call?.phoneNumberId, call?.assistantId);
+    return adminAuthService.canAccessClient(admin, client?.id);
+  }
+
   // Billing Routes 
 
   /**
@@ -58,10 +169,11 @@ export class AdminController {
    */
   async getBilling(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { startDate, endDate, limit = '100' } = request.query as any;
+      const { startDate, endDate, limit = '100', clientId } = request.query as any;
 
       // Use database instead of VAPI API for faster billing queries
       const billingSummary = await databaseService.getBillingSummary({
+        clientId: adminAuthService.resolveClientScope(request.admin!, clientId),
         startDate,
         endDate,
         limit: parseInt(limit)
@@ -72,6 +184,7 @@ export class AdminController {
         callCount: billingSummary.callCount,
         calls: billingSummary.calls.map(call => ({
           id: call.id,
+          clientId: call.client_id,
           createdAt: call.created_at,
           duration: call.duration_seconds,
           cost: call.cost_total,
@@ -108,6 +221,204 @@ export class AdminController {
   }
 
 
+  // ==================== LIVE CALLS ====================
+
+  /**
+   * GET /admin/live
+   * Server-Sent Events stream of calls in progress, scoped to the admin's client
+   * Starts with a `snapshot` event (active calls with their transcripts), then one
+   * event per update: call-started, status, transcript, tool, supervisor, call-ended
+   */
+  async streamLiveCalls(request: FastifyRequest, reply: FastifyReply) {
+    const { clientId } = request.query as { clientId?: string };
+    const scope = adminAuthService.resolveClientScope(request.admin!, clientId);
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let closed = false;
+    const send = (event: string, data: any) => {
+      if (!closed) reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('snapshot', { calls: liveCallService.getActiveCalls(scope) });
+    const unsubscribe = liveCallService.subscribe(event => send(event.type, event), scope);
+    const heartbeat = setInterval(() => {
+      if (!closed) reply.raw.write(': heartbeat\n\n');
+    }, LIVE_HEARTBEAT_MS);
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      this.liveStreams.delete(close);
+      reply.raw.end();
+    };
+    this.liveStreams.add(close);
+    reply.raw.on('close', close);
+  }
+
+  /**
+   * End every open live stream (server shutdown)
+   */
+  closeLiveStreams(): void {
+    for (const close of [...this.liveStreams]) {
+      close();
+    }
+  }
+
+  /**
+   * POST /admin/live/:callId/:action
+   * Supervisor Live Call Control: say, transfer, mute, unmute or end
+   * Body: { message?, number?, endCallAfterSpoken? } depending on the action
+   */
+  async controlLiveCall(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { callId, action } = request.params as { callId: string; action: SupervisorAction };
+      const input = (request.body || {}) as { message?: string; number?: string; endCallAfterSpoken?: boolean };
+
+      const result = await supervisorService.apply(request.admin!, callId, action, input);
+      if (!result.ok) {
+        return reply.status(result.statusCode).send({ error: result.message });
+      }
+
+      return reply.send({ action: result.action });
+    } catch (error: any) {
+      console.error('[Admin] Supervisor action failed:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  /**
+   * GET /admin/live/:callId/actions
+   * Audit log of supervisor actions on a call
+   */
+  async getSupervisorActions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { callId } = request.params as { callId: string };
+      const actions = await supervisorService.list(request.admin!, callId);
+
+      if (!actions) {
+        return reply.status(404).send({ error: 'Call not found' });
+      }
+
+      return reply.send({ count: actions.length, actions });
+    } catch (error: any) {
+      console.error('[Admin] Failed to fetch supervisor actions:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  // ==================== WEBHOOK INBOX ====================
+
+  /**
+   * GET /admin/webhooks
+   * Webhook inbox events, newest first (?status=dead for the dead-letter queue)
+   */
+  async getWebhookEvents(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { status, callId, limit = '50' } = request.query as any;
+      const events = await databaseService.getWebhookEvents({ status, callId, limit: parseInt(limit) });
+
+      return reply.send({ count: events.length, events });
+    } catch (error: any) {
+      console.error('[Admin] Failed to fetch webhook events:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  /**
+   * GET /admin/webhooks/:eventId
+   * One webhook event with its raw payload
+   */
+  async getWebhookEvent(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { eventId } = request.params as { eventId: string };
+      const event = await databaseService.getWebhookEvent(parseInt(eventId));
+
+      if (!event) {
+        return reply.status(404).send({ error: 'Webhook event not found' });
+      }
+
+      return reply.send({ ...event, payload: JSON.parse(event.payload) });
+    } catch (error: any) {
+      console.error('[Admin] Failed to fetch webhook event:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  /**
+   * POST /admin/webhooks/:eventId/replay
+   * Process a dead-lettered event again
+   */
+  async replayWebhookEvent(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { eventId } = request.params as { eventId: string };
+      const result = await webhookInboxService.replay(parseInt(eventId));
+
+      if (!result) {
+        return reply.status(404).send({ error: 'Webhook event not found' });
+      }
+      if (result.status === 'duplicate') {
+        return reply.status(409).send({ error: 'Event was already processed (or is being processed)' });
+      }
+
+      const event = await databaseService.getWebhookEvent(result.eventId);
+      const { payload, ...summary } = event;
+      return reply.status(result.status === 'dead' ? 502 : 200).send({
+        ...(result.status === 'dead' ? { error: result.error } : {}),
+        event: summary
+      });
+    } catch (error: any) {
+      console.error('[Admin] Failed to replay webhook event:', error.message);
+      return reply.status(500).send({ error: error.message });
+    }
+  }
+
+  // ==================== RECONCILIATION ====================
+
+  /**
+   * POST /admin/reconcile
+   * Backfill local calls from Vapi for a date range and report what changed
+   * Body: { from, to?, clientId?, dryRun? } - `to` defaults to now
+   */
+  async reconcileCalls(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { from, to, clientId, dryRun } = (request.body || {}) as { from?: string; to?: string; clientId?: string; dryRun?: boolean };
+      const start = from ? new Date(from) : null;
+      const end = to ? new Date(to) : new Date();
+
+      if (!start || isNaN(start.getTime()) || isNaN(end.getTime())) {
+        return reply.status(400).send({ error: 'from (and to, if given) must be ISO 8601 date-times' });
+      }
+      if (start >= end) {
+        return reply.status(400).send({ error: 'from must be before to' });
+      }
+
+      let assistantId: string | undefined;
+      const scope = adminAuthService.resolveClientScope(request.admin!, clientId);
+      if (scope) {
+        const client = await databaseService.getClientById(scope);
+        if (!client?.vapi_assistant_id) {
+          return reply.status(409).send({ error: 'Client has no Vapi assistant to reconcile' });
+        }
+        assistantId = client.vapi_assistant_id;
+      }
+
+      const report = await callReconcileService.reconcile({ from: start, to: end, assistantId, dryRun: dryRun === true });
+      return reply.send(report);
+    } catch (error: any) {
+      console.error('[Admin] Reconciliation failed:', error.message);
+      return reply.status(502).send({ error: error.message });
+    }
+  }
+
   // ==================== HEALTH CHECK ====================
 
   /**
@@ -142,12 +453,15 @@ export class AdminController {
    */
   async getLocalCalls(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { limit = '50' } = request.query as any;
-      const calls = await databaseService.getRecentCalls(parseInt(limit));
+      const { limit = '50', clientId } = request.query as any;
+      const calls = await databaseService.getRecentCalls(
+        parseInt(limit),
+        adminAuthService.resolveClientScope(request.admin!, clientId)
+      );
 
       return reply.send({
         count: calls.length,
-        calls
+        calls: calls.map(withoutControlUrl)
       });
     } catch (error: any) {
       console.error('[Admin] Failed to fetch local calls:', error.message);
@@ -157,18 +471,21 @@ export class AdminController {
 
   /**
    * GET /admin/db/calls/:callId
-   * Get specific call from local database
+   * Get specific call from local database (with the conversation stored so far)
    */
   async getLocalCall(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { callId } = request.params as { callId: string };
       const call = await databaseService.getCall(callId);
 
-      if (!call) {
+      if (!call || !adminAuthService.canAccessClient(request.admin!, call.client_id)) {
         return reply.status(404).send({ error: 'Call not found in local database' });
       }
 
-      return reply.send(call);
+      return reply.send({
+        ...withoutControlUrl(call),
+        messages: await databaseService.getCallMessages(callId)
+      });
     } catch (error: any) {
       console.error('[Admin] Failed to fetch local call:', error.message);
       return reply.status(500).send({ error: error.message });
@@ -181,8 +498,11 @@ export class AdminController {
    */
   async getDailyStats(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { days = '7' } = request.query as any;
-      const stats = await databaseService.getDailyStats(parseInt(days));
+      const { days = '7', clientId } = request.query as any;
+      const stats = await databaseService.getDailyStats(
+        parseInt(days),
+        adminAuthService.resolveClientScope(request.admin!, clientId)
+      );
 
       return reply.send({
         days: parseInt(days),
@@ -200,7 +520,10 @@ export class AdminController {
    */
   async getIntentStats(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const breakdown = await databaseService.getIntentBreakdown();
+      const { clientId } = request.query as any;
+      const breakdown = await databaseService.getIntentBreakdown(
+        adminAuthService.resolveClientScope(request.admin!, clientId)
+      );
 
       return reply.send({
         count: breakdown.length,
@@ -4,13 +4,21 @@ import { databaseService } from '../services/database.service';
 import { vapiClient } from '../services/vapi-client.service';
 import { buildAssistantConfig } from '../config/assistant-config';
 import { getAllStaticTools, STRUCTURED_OUTPUT_SCHEMA } from '../config/tools-builder';
+import { businessHoursService } from '../services/business-hours.service';
+import { departmentRoutingService } from '../services/department-routing.service';
+import { portalAuthService } from '../services/portal-auth.service';
+import { callbackRequestService } from '../services/callback-request.service';
+import { outboundCallbackService } from '../services/outbound-callback.service';
+import { inventoryService } from '../services/inventory.service';
+import { inventoryImportService } from '../services/inventory-import.service';
+import { inventorySearchService, BUILT_IN_ALIASES } from '../services/inventory-search.service';
+import { reservationService } from '../services/reservation.service';
+import { rentalQuoteService } from '../services/rental-quote.service';
+import { salesListingService } from '../services/sales-listing.service';
+import { WeeklyHours, BusinessHoursException, AfterHoursAction, PortalSession, CallbackAction, InventoryItemFields, InventoryItemResult, InventoryAlias, ReservationAction, RentalPricing, SalesListingFields, SalesListingResult } from '../types';
 import fs from 'fs';
 import path from 'path';
-
-const CLIENT_ID = 'client-portal';
-const HARDCODED_TOKEN = 'simple-token-123';
-const HARDCODED_USERNAME = 'test';
-const HARDCODED_PASSWORD = 'test';
+import crypto from 'crypto';
 
 /**
  * Handle login request
@@ -21,40 +29,89 @@ export async function handleLogin(
   }>,
   reply: FastifyReply
 ) {
-  const { username, password } = request.body;
+  const { username, password } = request.body || ({} as any);
+
+  if (!username || !password) {
+    return reply.status(400).send({
+      success: false,
+      message: 'Username and password are required'
+    });
+  }
+
+  try {
+    const result = await portalAuthService.login(username, password);
+
+    if (!result) {
+      return reply.status(401).send({
+        success: false,
+        message: 'Invalid credentials'
+      });
+    }
 
-  if (username === HARDCODED_USERNAME && password === HARDCODED_PASSWORD) {
     return reply.send({
       success: true,
-      token: HARDCODED_TOKEN,
+      token: result.token,
+      expiresAt: result.session.expiresAt.toISOString(),
+      clientId: result.session.clientId,
+      username: result.session.username,
       message: 'Login successful'
     });
+  } catch (error: any) {
+    console.error('[ClientController] Error logging in:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Login failed',
+      error: error.message
+    });
   }
+}
 
-  return reply.status(401).send({
-    success: false,
-    message: 'Invalid credentials'
-  });
+/**
+ * Handle logout request (revokes the current session token)
+ */
+export async function handleLogout(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    await portalAuthService.logout(session);
+
+    return reply.send({
+      success: true,
+      message: 'Logged out'
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error logging out:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Logout failed',
+      error: error.message
+    });
+  }
 }
 
 /**
  * Verify authentication token
+ * Returns the session (whose clientId scopes every query), or null after replying 401
  */
-function verifyAuth(request: FastifyRequest, reply: FastifyReply): boolean {
+async function verifyAuth(request: FastifyRequest, reply: FastifyReply): Promise<PortalSession | null> {
   const authHeader = request.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     reply.status(401).send({ success: false, message: 'Unauthorized' });
-    return false;
+    return null;
   }
 
-  const token = authHeader.substring(7);
-  if (token !== HARDCODED_TOKEN) {
-    reply.status(401).send({ success: false, message: 'Invalid token' });
-    return false;
+  const session = await portalAuthService.verifyToken(authHeader.substring(7));
+  if (!session) {
+    reply.status(401).send({ success: false, message: 'Invalid or expired token' });
+    return null;
   }
 
-  return true;
+  return session;
 }
 
 /**
@@ -64,17 +121,18 @@ export async function getClientConfig(
   request: FastifyRequest,
   reply: FastifyReply
 ) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   try {
-    const config = await databaseService.getClientConfig(CLIENT_ID);
+    const config = await databaseService.getClientConfig(session.clientId);
 
     if (!config) {
       // Return default empty config
       return reply.send({
         success: true,
         config: {
-          id: CLIENT_ID,
+          id: session.clientId,
           name: '',
           company: '',
           sales_phone_number: '',
@@ -86,14 +144,27 @@ export async function getClientConfig(
           enable_transfers: 1,
           vapi_assistant_id: null,
           vapi_phone_number_id: null,
-          phone_number: null
+          phone_number: null,
+          webhook_secret_configured: false,
+          business_hours: await businessHoursService.getSchedule(session.clientId),
+          departments: await departmentRoutingService.getRouting(session.clientId),
+          rental_pricing: await rentalQuoteService.getPricing(session.clientId)
         }
       });
     }
 
+    // Never send the webhook secret back to the browser
+    const { webhook_secret, ...publicConfig } = config;
+
     return reply.send({
       success: true,
-      config
+      config: {
+        ...publicConfig,
+        webhook_secret_configured: Boolean(webhook_secret),
+        business_hours: await businessHoursService.getSchedule(session.clientId),
+        departments: await departmentRoutingService.getRouting(session.clientId),
+        rental_pricing: await rentalQuoteService.getPricing(session.clientId)
+      }
     });
   } catch (error: any) {
     console.error('[ClientController] Error getting config:', error.message);
@@ -118,15 +189,30 @@ export async function saveClientConfig(
       enableInventory: boolean;
       enableTransfers: boolean;
       customPrompt?: string;
+      additionalContext?: string;
       firstMessage?: string;
       salesPhone?: string;
       servicePhone?: string;
       partsPhone?: string;
+      timezone?: string;
+      businessHours?: {
+        weekly?: WeeklyHours;
+        exceptions?: BusinessHoursException[];
+      };
+      departments?: Record<string, {
+        weekly?: WeeklyHours | null;
+        afterHoursAction?: AfterHoursAction;
+        onCallPhone?: string;
+        overflowPhone?: string;
+        voicemailPhone?: string;
+      }>;
+      rentalPricing?: RentalPricing;
     };
   }>,
   reply: FastifyReply
 ) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   try {
     const body = request.body;
@@ -139,15 +225,61 @@ export async function saveClientConfig(
       });
     }
 
+    // Validate business hours before saving anything
+    const hoursError = businessHoursService.validate({
+      timezone: body.timezone,
+      weekly: body.businessHours?.weekly,
+      exceptions: body.businessHours?.exceptions
+    });
+
+    if (hoursError) {
+      return reply.status(400).send({
+        success: false,
+        message: hoursError
+      });
+    }
+
+    for (const [department, settings] of Object.entries(body.departments || {})) {
+      const departmentError = departmentRoutingService.validate(department, settings);
+      if (departmentError) {
+        return reply.status(400).send({
+          success: false,
+          message: departmentError
+        });
+      }
+    }
+
+    if (body.rentalPricing) {
+      const pricingError = rentalQuoteService.validatePricing(body.rentalPricing);
+      if (pricingError) {
+        return reply.status(400).send({
+          success: false,
+          message: pricingError
+        });
+      }
+    }
+
+    // A Vapi phone number routes one client's calls; it can't be claimed from another client
+    if (body.phoneNumber && body.vapiPhoneNumberId) {
+      const owner = await databaseService.getClientForCall(body.vapiPhoneNumberId);
+      if (owner && owner.id !== session.clientId) {
+        return reply.status(409).send({
+          success: false,
+          message: 'That Vapi phone number is already assigned to another account'
+        });
+      }
+    }
+
     // Upsert client
     await databaseService.upsertClient({
-      id: CLIENT_ID,
+      id: session.clientId,
       name: body.name,
       company: body.company,
       salesPhone: body.salesPhone,
       servicePhone: body.servicePhone,
       partsPhone: body.partsPhone,
       customPrompt: body.customPrompt,
+      additionalContext: body.additionalContext,
       firstMessageTemplate: body.firstMessage,
       enableInventory: body.enableInventory,
       enableTransfers: body.enableTransfers
@@ -155,20 +287,64 @@ export async function saveClientConfig(
 
     // Update phone number mapping if provided
     if (body.phoneNumber && body.vapiPhoneNumberId) {
-      await databaseService.addClientPhoneNumber(
-        CLIENT_ID,
+      const mapped = await databaseService.addClientPhoneNumber(
+        session.clientId,
         body.vapiPhoneNumberId,
         body.phoneNumber
       );
+
+      // Claimed by another client since the check above
+      if (!mapped) {
+        return reply.status(409).send({
+          success: false,
+          message: 'That Vapi phone number is already assigned to another account'
+        });
+      }
+    }
+
+    // Update business hours if provided
+    if (body.timezone || body.businessHours) {
+      await databaseService.saveClientBusinessHours(session.clientId, {
+        timezone: body.timezone,
+        weekly: body.businessHours?.weekly,
+        exceptions: body.businessHours?.exceptions
+      });
+    }
+
+    // Update department hours and after-hours routing if provided
+    for (const [department, settings] of Object.entries(body.departments || {})) {
+      await databaseService.saveDepartmentRouting(session.clientId, {
+        department,
+        weekly: settings.weekly || null,
+        afterHoursAction: settings.afterHoursAction || 'callback',
+        onCallPhone: settings.onCallPhone,
+        overflowPhone: settings.overflowPhone,
+        voicemailPhone: settings.voicemailPhone
+      });
+    }
+
+    // Update damage waiver, tax and delivery zones if provided
+    if (body.rentalPricing) {
+      await databaseService.saveClientRentalPricing(session.clientId, {
+        damageWaiverPercent: body.rentalPricing.damageWaiverPercent ?? null,
+        taxPercent: body.rentalPricing.taxPercent ?? null,
+        deliveryZones: body.rentalPricing.deliveryZones || []
+      });
     }
 
     // Get updated config
-    const config = await databaseService.getClientConfig(CLIENT_ID);
+    const { webhook_secret, ...config } = await databaseService.getClientConfig(session.clientId);
 
     return reply.send({
       success: true,
       message: 'Configuration saved successfully',
-      config
+      config: {
+        ...config,
+        webhook_secret_configured: Boolean(webhook_secret),
+        business_hours: await businessHoursService.getSchedule(session.clientId),
+        departments: await departmentRoutingService.getRouting(session.clientId),
+        rental_pricing: await rentalQuoteService.getPricing(session.clientId)
+      }
     });
   } catch (error: any) {
     console.error('[ClientController] Error saving config:', error.message);
@@ -187,7 +363,8 @@ export async function syncClientConfig(
   request: FastifyRequest,
   reply: FastifyReply
 ) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   const results: any = {
     success: true,
@@ -235,7 +412,7 @@ export async function syncClientConfig(
     // Step 3: Sync assistant
     console.log('[ClientController] Step 3: Syncing assistant...');
     try {
-      const assistantResult = await syncAssistant();
+      const assistantResult = await syncAssistant(session.clientId);
       results.steps.push({
         name: 'assistant',
         success: true,
@@ -254,7 +431,7 @@ export async function syncClientConfig(
     // Step 4: Sync phone number
     console.log('[ClientController] Step 4: Syncing phone number...');
     try {
-      const phoneResult = await syncPhoneNumber();
+      const phoneResult = await syncPhoneNumber(session.clientId);
       results.steps.push({
         name: 'phone_number',
         success: true,
@@ -285,6 +462,45 @@ export async function syncClientConfig(
   }
 }
 
+/**
+ * Generate a new webhook secret for this client
+ * The secret is only returned once; run Sync to push it to Vapi
+ * Refused while VAPI_SERVER_SECRET is unset: the shared tools only send that
+ * secret, so every tool call would be rejected once the client has its own
+ */
+export async function rotateWebhookSecret(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  if (!process.env.VAPI_SERVER_SECRET) {
+    return reply.status(409).send({
+      success: false,
+      message: 'VAPI_SERVER_SECRET must be set before clients get their own webhook secret'
+    });
+  }
+
+  try {
+    const secret = crypto.randomBytes(32).toString('hex');
+    await databaseService.updateClientWebhookSecret(session.clientId, secret);
+
+    return reply.send({
+      success: true,
+      message: 'Webhook secret generated. Sync with Vapi to start using it.',
+      secret
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error rotating webhook secret:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to generate webhook secret',
+      error: error.message
+    });
+  }
+}
+
 /**
  * Get available Vapi phone numbers
  */
@@ -292,7 +508,8 @@ export async function getVapiPhoneNumbers(
   request: FastifyRequest,
   reply: FastifyReply
 ) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   try {
     const response = await vapiClient.listPhoneNumbers();
@@ -323,16 +540,17 @@ export async function getVapiPhoneNumbers(
  * Get calls for this client (from database and Vapi)
  */
 export async function getClientCalls(request: FastifyRequest<{ Querystring: { limit?: string };}>, reply: FastifyReply) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   try {
     const limit = parseInt(request.query.limit || '25');
 
     // Get client config to find their assistant and phone number
-    const client = await databaseService.getClientConfig(CLIENT_ID);
-    console.log('[ClientController] Retrieved client config for calls:', client);
+    const client = await databaseService.getClientConfig(session.clientId);
 
-    if (!client) {
+    // Without an assistant there is nothing to scope Vapi's call list to
+    if (!client || !client.vapi_assistant_id) {
       return reply.send({
         success: true,
         calls: []
@@ -341,7 +559,7 @@ export async function getClientCalls(request: FastifyRequest<{ Querystring: { li
 
     // Fetch more calls than needed to ensure we get enough after filtering
     const vapiCalls = await vapiClient.listCalls({
-      assistantId: client.vapi_assistant_id || undefined,
+      assistantId: client.vapi_assistant_id,
       limit: limit
     });
 
@@ -354,6 +572,10 @@ export async function getClientCalls(request: FastifyRequest<{ Querystring: { li
     // Create a map for O(1) lookup
     const dbCallsMap = new Map(dbCalls.map(call => [call.id, call]));
 
+    // Machines for sale each sales call was about
+    const salesCallIds = dbCalls.filter(call => call.intent_category === 'sales').map(call => call.id);
+    const salesListings = await databaseService.getCallSalesListings(salesCallIds);
+
     // Attach structured data to each call
     const callsWithStructuredData = allCalls.map((call: any) => {
       const dbCall = dbCallsMap.get(call.id);
@@ -364,7 +586,8 @@ export async function getClientCalls(request: FastifyRequest<{ Querystring: { li
           intent_category: dbCall.intent_category,
           machine_make: dbCall.machine_make,
           machine_model: dbCall.machine_model,
-          outcome_type: dbCall.outcome_type
+          outcome_type: dbCall.outcome_type,
+          sales_listings: salesListings.filter(listing => listing.call_id === call.id)
         } : null
       };
     });
@@ -386,18 +609,22 @@ export async function getClientCalls(request: FastifyRequest<{ Querystring: { li
 /**
  * GET /client/callbacks
  * Get callback requests for this client (authenticated)
+ * Filters: status (pending/completed/cancelled/all), assignedTo, overdue=true
  */
 export async function getClientCallbacks(
-  request: FastifyRequest<{ Querystring: { status?: string; limit?: string } }>,
+  request: FastifyRequest<{ Querystring: { status?: string; assignedTo?: string; overdue?: string; limit?: string } }>,
   reply: FastifyReply
 ) {
-  if (!verifyAuth(request, reply)) return;
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
 
   try {
-    const { status = 'pending', limit = '50' } = request.query || ({} as any);
+    const { status = 'pending', assignedTo, overdue, limit = '50' } = request.query || ({} as any);
 
-    const callbacks = await databaseService.getCallbackRequestsByClient(CLIENT_ID, {
+    const callbacks = await callbackRequestService.list(session.clientId, {
       status: status === 'all' ? undefined : status,
+      assignedTo,
+      overdue: overdue === 'true',
       limit: parseInt(limit)
     });
 
@@ -415,8 +642,570 @@ export async function getClientCallbacks(
   }
 }
 
+/**
+ * GET /client/callbacks/:id
+ * One callback with its audit trail (authenticated)
+ */
+export async function getClientCallback(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const callback = await callbackRequestService.get(session.clientId, parseInt(request.params.id));
+
+    if (!callback) {
+      return reply.status(404).send({
+        success: false,
+        message: 'Callback not found'
+      });
+    }
+
+    return reply.send({
+      success: true,
+      callback
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching callback:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load callback',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/callbacks/:id/{claim,assign,reschedule,complete,cancel,notes}
+ * Work a callback from the portal (authenticated)
+ * Body (all optional except where noted): { note, assignee (assign), scheduledFor (reschedule, required) }
+ */
+export function updateClientCallback(action: CallbackAction) {
+  return async function (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: { note?: string; assignee?: string | null; scheduledFor?: string };
+    }>,
+    reply: FastifyReply
+  ) {
+    const session = await verifyAuth(request, reply);
+    if (!session) return;
+
+    try {
+      const result = await callbackRequestService.apply(
+        session.clientId,
+        parseInt(request.params.id),
+        action,
+        session.username,
+        request.body || {}
+      );
+
+      if (!result.ok) {
+        return reply.status(result.statusCode).send({
+          success: false,
+          message: result.message
+        });
+      }
+
+      return reply.send({
+        success: true,
+        callback: result.callback
+      });
+    } catch (error: any) {
+      console.error(`[ClientController] Error applying callback action ${action}:`, error.message);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update callback',
+        error: error.message
+      });
+    }
+  };
+}
+
+/**
+ * GET /client/inventory
+ * This client's fleet (authenticated); includeRetired=true adds retired items
+ */
+export async function getClientInventory(
+  request: FastifyRequest<{ Querystring: { includeRetired?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const items = await inventoryService.list(session.clientId, request.query?.includeRetired === 'true');
+
+    return reply.send({
+      success: true,
+      items
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching inventory:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load inventory',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/inventory
+ * Add equipment to this client's fleet (authenticated)
+ * Body: { model, category, available, pricePerDay, pricePerWeek?, pricePerMonth?, condition?, year?, specs? }
+ */
+export async function createClientInventoryItem(
+  request: FastifyRequest<{ Body: InventoryItemFields }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await inventoryService.create(session.clientId, request.body || {});
+    return sendInventoryResult(reply, result);
+  } catch (error: any) {
+    console.error('[ClientController] Error adding inventory item:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to add inventory item',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/inventory/:id
+ * Edit price, condition, specs, availability... of an item (authenticated)
+ * Body: any of the create fields; only those present change
+ */
+export async function updateClientInventoryItem(
+  request: FastifyRequest<{ Params: { id: string }; Body: InventoryItemFields }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await inventoryService.update(session.clientId, parseInt(request.params.id), request.body || {});
+    return sendInventoryResult(reply, result);
+  } catch (error: any) {
+    console.error('[ClientController] Error updating inventory item:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to update inventory item',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/inventory/:id/retire
+ * Take an item out of service; the assistant stops offering it (authenticated)
+ */
+export async function retireClientInventoryItem(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await inventoryService.retire(session.clientId, parseInt(request.params.id));
+    return sendInventoryResult(reply, result);
+  } catch (error: any) {
+    console.error('[ClientController] Error retiring inventory item:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to retire inventory item',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/inventory/import
+ * Bulk add/update equipment from a CSV (Content-Type: text/csv) or JSON upload (authenticated)
+ * dryRun=true returns the per-row diff without saving anything
+ */
+export async function importClientInventory(
+  request: FastifyRequest<{ Querystring: { dryRun?: string }; Body: string | any }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const parsed = typeof request.body === 'string'
+      ? inventoryImportService.readCsv(request.body)
+      : inventoryImportService.readJson(request.body);
+
+    if ('error' in parsed) {
+      return reply.status(400).send({
+        success: false,
+        message: parsed.error
+      });
+    }
+
+    const result = await inventoryImportService.import(session.clientId, parsed.rows, request.query?.dryRun === 'true');
+
+    return reply.send({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error importing inventory:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to import inventory',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * GET /client/inventory/export
+ * This client's active fleet as a CSV download (default) or format=json (authenticated)
+ */
+export async function exportClientInventory(
+  request: FastifyRequest<{ Querystring: { format?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    if (request.query?.format === 'json') {
+      return reply.send({
+        success: true,
+        items: await inventoryImportService.exportJson(session.clientId)
+      });
+    }
+
+    return reply
+      .header('content-type', 'text/csv; charset=utf-8')
+      .header('content-disposition', `attachment; filename="inventory-${session.clientId}.csv"`)
+      .send(await inventoryImportService.exportCsv(session.clientId));
+  } catch (error: any) {
+    console.error('[ClientController] Error exporting inventory:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to export inventory',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * GET /client/inventory/aliases
+ * This client's search aliases, plus the built-in ones they add to (authenticated)
+ */
+export async function getClientInventoryAliases(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    return reply.send({
+      success: true,
+      aliases: await inventorySearchService.getClientAliases(session.clientId),
+      builtIn: BUILT_IN_ALIASES
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching inventory aliases:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load search aliases',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/inventory/aliases
+ * Replace this client's search aliases (authenticated)
+ * Body: { aliases: [{ alias, canonical }] } - what callers say, and what the fleet calls it
+ */
+export async function saveClientInventoryAliases(
+  request: FastifyRequest<{ Body: { aliases?: InventoryAlias[] } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const aliases = request.body?.aliases;
+    const validationError = inventorySearchService.validateAliases(aliases);
+    if (validationError) {
+      return reply.status(400).send({
+        success: false,
+        message: validationError
+      });
+    }
+
+    return reply.send({
+      success: true,
+      aliases: await inventorySearchService.saveAliases(session.clientId, aliases!)
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error saving inventory aliases:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to save search aliases',
+      error: error.message
+    });
+  }
+}
+
 // ==================== Helper Functions ====================
 
+/**
+ * Reply with an inventory change result
+ */
+function sendInventoryResult(reply: FastifyReply, result: InventoryItemResult) {
+  if (!result.ok) {
+    return reply.status(result.statusCode).send({
+      success: false,
+      message: result.message
+    });
+  }
+
+  return reply.send({
+    success: true,
+    item: result.item
+  });
+}
+
+/**
+ * Reply with a sales listing change result
+ */
+function sendSalesListingResult(reply: FastifyReply, result: SalesListingResult) {
+  if (!result.ok) {
+    return reply.status(result.statusCode).send({
+      success: false,
+      message: result.message
+    });
+  }
+
+  return reply.send({
+    success: true,
+    listing: result.listing
+  });
+}
+
+/**
+ * GET /client/reservations
+ * Rental reservations for this client (authenticated)
+ * Filter: status (hold/confirmed/cancelled/all, default all)
+ */
+export async function getClientReservations(
+  request: FastifyRequest<{ Querystring: { status?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const reservations = await reservationService.list(session.clientId, request.query?.status);
+
+    return reply.send({
+      success: true,
+      reservations
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching reservations:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load reservations',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * GET /client/quotes
+ * Rental quotes the assistant gave callers, newest first (authenticated)
+ * Filter: callId (quotes from one call)
+ */
+export async function getClientQuotes(
+  request: FastifyRequest<{ Querystring: { callId?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const quotes = await rentalQuoteService.list(session.clientId, request.query?.callId);
+
+    return reply.send({
+      success: true,
+      quotes
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching quotes:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load quotes',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * GET /client/sales-listings
+ * This client's machines for sale (authenticated); includeSold=true adds sold ones
+ */
+export async function getClientSalesListings(
+  request: FastifyRequest<{ Querystring: { includeSold?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const listings = await salesListingService.list(session.clientId, request.query?.includeSold === 'true');
+
+    return reply.send({
+      success: true,
+      listings
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching sales listings:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load sales listings',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/sales-listings
+ * List a machine for sale (authenticated)
+ * Body: { model, category, askingPrice, stockNumber?, year?, condition?, hours?, serialNumber?, location?, photosUrl?, description? }
+ */
+export async function createClientSalesListing(
+  request: FastifyRequest<{ Body: SalesListingFields }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await salesListingService.create(session.clientId, request.body || {});
+    return sendSalesListingResult(reply, result);
+  } catch (error: any) {
+    console.error('[ClientController] Error adding sales listing:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to add sales listing',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/sales-listings/:id
+ * Edit a listing's price, hours, status (for_sale/pending/sold)... (authenticated)
+ * Body: any of the create fields, or status; only those present change
+ */
+export async function updateClientSalesListing(
+  request: FastifyRequest<{ Params: { id: string }; Body: SalesListingFields }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await salesListingService.update(session.clientId, parseInt(request.params.id), request.body || {});
+    return sendSalesListingResult(reply, result);
+  } catch (error: any) {
+    console.error('[ClientController] Error updating sales listing:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to update sales listing',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * GET /client/sales-listings/calls
+ * Calls this client's machines for sale came up on, newest first (authenticated)
+ * Filter: listingId (calls about one listing)
+ */
+export async function getClientSalesListingCalls(
+  request: FastifyRequest<{ Querystring: { listingId?: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const listingId = request.query?.listingId ? parseInt(request.query.listingId) : undefined;
+    const calls = await salesListingService.listCalls(session.clientId, listingId);
+
+    return reply.send({
+      success: true,
+      calls
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error fetching sales listing calls:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to load sales listing calls',
+      error: error.message
+    });
+  }
+}
+
+/**
+ * POST /client/reservations/:id/{confirm,cancel}
+ * Confirm a tentative hold, or cancel a reservation (authenticated)
+ */
+export function updateClientReservation(action: ReservationAction) {
+  return async function (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const session = await verifyAuth(request, reply);
+    if (!session) return;
+
+    try {
+      const result = await reservationService.apply(
+        session.clientId,
+        parseInt(request.params.id),
+        action,
+        session.username
+      );
+
+      if (!result.ok) {
+        return reply.status(result.statusCode).send({
+          success: false,
+          message: result.message
+        });
+      }
+
+      return reply.send({
+        success: true,
+        reservation: result.reservation
+      });
+    } catch (error: any) {
+      console.error(`[ClientController] Error applying reservation action ${action}:`, error.message);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update reservation',
+        error: error.message
+      });
+    }
+  };
+}
+
 /**
  * Sync static tools to Vapi
  * Tools are shared across all clients - client-specific data loaded at runtime from DB
@@ -490,8 +1279,8 @@ async function syncStructuredOutputs() {
 /**
  * Sync assistant for this client
  */
-async function syncAssistant() {
-  const client = await databaseService.getClientById(CLIENT_ID);
+async function syncAssistant(clientId: string) {
+  const client = await databaseService.getClientById(clientId);
 
   if (!client) {
     throw new Error('Client configuration not found. Please save configuration first.');
@@ -506,7 +1295,7 @@ async function syncAssistant() {
   } else {
     // Create new
     const created = await vapiClient.createAssistant(config);
-    await databaseService.updateClientAssistantId(CLIENT_ID, created.id!);
+    await databaseService.updateClientAssistantId(clientId, created.id!);
     return { action: 'created', assistantId: created.id };
   }
 }
@@ -514,8 +1303,8 @@ async function syncAssistant() {
 /**
  * Sync phone number configuration
  */
-async function syncPhoneNumber() {
-  const client = await databaseService.getClientConfig(CLIENT_ID);
+async function syncPhoneNumber(clientId: string) {
+  const client = await databaseService.getClientConfig(clientId);
 
   if (!client || !client.vapi_phone_number_id) {
     throw new Error('No phone number configured for this client');
@@ -530,7 +1319,8 @@ async function syncPhoneNumber() {
   const config = {
     assistantId: client.vapi_assistant_id,
     server: {
-      url: `${SERVER_URL}/inbound`
+      url: `${SERVER_URL}/inbound`,
+      ...(client.webhook_secret ? { secret: client.webhook_secret } : {})
     }
   };
 
@@ -542,3 +1332,41 @@ async function syncPhoneNumber() {
     assistantId: client.vapi_assistant_id
   };
 }
+
+/**
+ * Call the customer back now through Vapi (the assistant places the call)
+ */
+export async function callClientCallback(
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) {
+  const session = await verifyAuth(request, reply);
+  if (!session) return;
+
+  try {
+    const result = await outboundCallbackService.placeCall(
+      session.clientId,
+      parseInt(request.params.id),
+      session.username
+    );
+
+    if (!result.ok) {
+      return reply.status(result.statusCode).send({
+        success: false,
+        message: result.message
+      });
+    }
+
+    return reply.send({
+      success: true,
+      callback: result.callback
+    });
+  } catch (error: any) {
+    console.error('[ClientController] Error placing callback call:', error.message);
+    return reply.status(500).send({
+      success: false,
+      message: 'Failed to place callback call',
+      error: error.message
+    });
+  }
+}
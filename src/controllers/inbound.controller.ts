@@ -1,8 +1,16 @@
 // src/controllers/inbound.controller.ts
 import { FastifyRequest, FastifyReply } from 'fastify';
-import {VapiPayload, AssistantRequestMessage, StatusUpdateMessage, EndOfCallReportMessage } from '../types';
+import {
+  VapiPayload,
+  AssistantRequestMessage,
+  StatusUpdateMessage,
+  ConversationUpdateMessage,
+  VapiCallSummary
+} from '../types';
 import { databaseService } from '../services/database.service';
 import { buildDynamicContext, buildFirstMessage } from '../services/context-builder.service';
+import { webhookInboxService } from '../services/webhook-inbox.service';
+import { liveCallService } from '../services/live-call.service';
 
 /**
  * Main webhook handler for VAPI inbound calls
@@ -36,13 +44,13 @@ export async function handleInboundCall(request: FastifyRequest, reply: FastifyR
         return reply.send({ status: 'ok' });
 
       case 'status-update':
-        return handleStatusUpdate(payload.message as StatusUpdateMessage, reply);
+        return handleStatusUpdate(payload, reply);
 
       case 'conversation-update':
-        return reply.send({ status: 'ok' });
+        return handleConversationUpdate(payload.message as ConversationUpdateMessage, reply);
 
       case 'end-of-call-report':
-        return handleEndOfCallReport(payload.message as EndOfCallReportMessage, reply);
+        return handleEndOfCallReport(payload, reply);
 
       case 'speech-update':
         // Real-time speech transcription updates - can be used for live monitoring
@@ -93,6 +101,22 @@ async function handleAssistantRequest(message: AssistantRequestMessage, reply: F
       });
     }
 
+    // Record the call now so it shows up while live (and survives a missing end-of-call report)
+    try {
+      await databaseService.recordCallStart({
+        id: callId,
+        clientId: client.id,
+        phoneNumberId,
+        callerPhone: message.call.customer?.number,
+        callType: message.call.type,
+        status: message.call.status,
+        controlUrl: message.call.monitor?.controlUrl
+      });
+    } catch (error: any) {
+      console.error(`[Database] Failed to record call start:`, error.message);
+    }
+    liveCallService.callStarted(callId, client.id, message.call.customer?.number || null, message.call.status);
+
     console.log(`[AssistantRequest] Client: ${client.name} (${client.id})`);
     console.log(`[AssistantRequest] Assistant: ${client.vapi_assistant_id}`);
 
@@ -157,9 +181,11 @@ async function handleAssistantRequest(message: AssistantRequestMessage, reply: F
 
 /**
  * Handle call status updates
- * Logs status changes and errors
+ * Logs errors if the call ended with issues; status and start/end timestamps are
+ * persisted through the webhook inbox (once per call and status)
  */
-function handleStatusUpdate(message: StatusUpdateMessage, reply: FastifyReply) {
+async function handleStatusUpdate(payload: VapiPayload, reply: FastifyReply) {
+  const message = payload.message as StatusUpdateMessage;
   console.log(`[StatusUpdate] Status: ${message.status}`);
 
   // Log errors if call ended with issues
@@ -171,91 +197,77 @@ function handleStatusUpdate(message: StatusUpdateMessage, reply: FastifyReply) {
     console.error('Assistant Response:', JSON.stringify(artifacts.assistantRequestResponse, null, 2));
   }
 
-  return reply.send({ status: 'ok' });
-}
+  if (!message.call?.id) {
+    return reply.send({ status: 'ok' });
+  }
 
+  return handleInboxEvent(payload, reply);
+}
 
 /**
- * Handle end-of-call report
- * Extracts and saves call data to database
+ * Handle conversation updates
+ * Stores the conversation as it happens (system prompt excluded)
  */
-async function handleEndOfCallReport(message: EndOfCallReportMessage, reply: FastifyReply) {
-  // Extract structured data from artifact
-  let structuredData = null;
-
-  if ((message as any).artifact?.structuredOutputs) {
-    const structuredOutputs = (message as any).artifact.structuredOutputs;
-
-    // structuredOutputs is an object keyed by structured output ID
-    // Get the first structured output (or use the known ID)
-    const structuredOutputValues = Object.values(structuredOutputs);
+async function handleConversationUpdate(message: ConversationUpdateMessage, reply: FastifyReply) {
+  if (message.call?.id && message.messages) {
+    try {
+      const client = await getClientForLiveCall(message.call);
+      await databaseService.recordCallStart({
+        id: message.call.id,
+        clientId: client?.id,
+        phoneNumberId: message.call.phoneNumberId,
+        callerPhone: message.call.customer?.number,
+        callType: message.call.type,
+        status: 'in-progress',
+        controlUrl: message.call.monitor?.controlUrl
+      });
 
-    if (structuredOutputValues.length > 0) {
-      const structuredOutput: any = structuredOutputValues[0];
-      if (!structuredOutput.error && structuredOutput.result) {
-        structuredData = structuredOutput.result;
-      }
+      const messages = message.messages
+        .filter(m => m.role !== 'system')
+        .map(({ role, message: text, time, secondsFromStart, ...rest }) => ({
+          role,
+          // Tool turns have no text - keep their payload instead
+          message: typeof text === 'string' ? text : JSON.stringify(rest),
+          time,
+          secondsFromStart
+        }));
+
+      await databaseService.saveCallMessages(message.call.id, messages);
+      liveCallService.conversationUpdated(message.call.id, client?.id || null, messages);
+    } catch (error: any) {
+      console.error(`[Database] Failed to save conversation update:`, error.message);
     }
   }
 
-  // Save to database
-  try {
-    // Parse success score if it's a string like "8/10"
-    let successScore: number | undefined;
-    if (message.analysis?.successEvaluation) {
-      const score = message.analysis.successEvaluation.toString();
-      const match = score.match(/(\d+)/);
-      if (match) {
-        successScore = parseInt(match[1]);
-      }
-    }
+  return reply.send({ status: 'ok' });
+}
 
-    // Save call record
-    await databaseService.saveCall({
-      id: message.call.id,
-      phoneNumberId: (message as any).call?.phoneNumberId,
-      callerPhone: (message as any).call?.customer?.number,
-      callType: (message as any).call?.type,
-      startedAt: message.call.startedAt,
-      endedAt: message.call.endedAt,
-      status: message.call.status,
-      endedReason: message.call.endedReason,
-      transcript: message.transcript,
-      summary: message.summary,
-      recordingUrl: message.recordingUrl,
-      stereoRecordingUrl: message.stereoRecordingUrl,
-      successScore,
-      cost: message.cost,
-      costBreakdown: message.costBreakdown
-    });
+/**
+ * Client for a call seen in a live webhook (phone number mapping first, then assistant)
+ */
+function getClientForLiveCall(call: VapiCallSummary) {
+  return databaseService.getClientForCall(call.phoneNumberId, call.assistantId);
+}
 
-    // Save structured data if available
-    if (structuredData) {
-      await databaseService.saveStructuredData(
-        message.call.id,
-        structuredData
-      );
-
-      // Update contact if we have caller info
-      const callerPhone = structuredData.caller?.phone || (message as any).call?.customer?.number;
-
-      if (callerPhone) {
-        const machineMention = structuredData.machine?.make && structuredData.machine?.model
-          ? `${structuredData.machine.make} ${structuredData.machine.model}`
-          : structuredData.machine?.category || null;
-
-        await databaseService.updateContact(callerPhone, {
-          name: structuredData.caller?.name,
-          company: structuredData.caller?.company,
-          email: structuredData.caller?.email,
-          lastMachine: machineMention
-        });
-      }
-    }
-  } catch (error: any) {
-    console.error(`[Database] Failed to save call data:`, error.message);
-    // Don't fail the webhook if database save fails
+/**
+ * Handle end-of-call report
+ * Saved to the webhook inbox, then the call record, structured data and contact
+ * are written once (redeliveries are acknowledged without reprocessing)
+ */
+async function handleEndOfCallReport(payload: VapiPayload, reply: FastifyReply) {
+  return handleInboxEvent(payload, reply);
+}
+
+/**
+ * Run a call lifecycle webhook through the inbox
+ * A failed event is dead-lettered and answered with 500 so Vapi's retry can pick it up
+ */
+async function handleInboxEvent(payload: VapiPayload, reply: FastifyReply) {
+  const result = await webhookInboxService.receive(payload);
+
+  if (result.status === 'dead') {
+    return reply.status(500).send({ error: 'Webhook processing failed', eventId: result.eventId });
   }
 
-  return reply.send({ status: 'ok' });
+  return reply.send(result.status === 'duplicate' ? { status: 'ok', duplicate: true } : { status: 'ok' });
 }
@@ -2,8 +2,15 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { VapiPayload } from '../types';
 import { inventoryService } from '../services/inventory.service';
+import { reservationService } from '../services/reservation.service';
+import { rentalQuoteService } from '../services/rental-quote.service';
+import { salesListingService } from '../services/sales-listing.service';
 import { databaseService } from '../services/database.service';
-import axios from 'axios';
+import { departmentRoutingService, TransferDecision } from '../services/department-routing.service';
+import { callbackTimeService } from '../services/callback-time.service';
+import { liveCallService } from '../services/live-call.service';
+import { Department } from '../types';
+import { callControlService } from '../services/call-control.service';
 
 // ==================== TOOL REGISTRY ====================
 
@@ -25,13 +32,23 @@ interface ToolHandler {
 const toolHandlers: Record<string, ToolHandler> = {
   check_inventory: {
     async: false,
-    handler: (_payload: any, args: any) => handleCheckInventory(args)
+    handler: async (payload: any, args: any) => handleCheckInventory(payload, args)
+  },
+  reserve_equipment: {
+    async: false,
+    handler: async (payload: any, args: any) => handleReserveEquipment(payload, args)
+  },
+  get_rental_quote: {
+    async: false,
+    handler: async (payload: any, args: any) => handleGetRentalQuote(payload, args)
+  },
+  check_sales_inventory: {
+    async: false,
+    handler: async (payload: any, args: any) => handleCheckSalesInventory(payload, args)
   },
   transfer_call: {
-    async: true,
-    handler: async (payload: any, args: any) => {
-      await handleTransferCall(payload, args);
-    }
+    async: false,
+    handler: async (payload: any, args: any) => handleTransferCall(payload, args)
   },
   schedule_callback: {
     async: false,
@@ -85,10 +102,11 @@ export async function handleToolExecution(request: FastifyRequest, reply: Fastif
 
     // Execute handler
     const result = await toolConfig.handler(payload, args);
+    await publishToolInvocation(message, functionName, args, typeof result === 'string' ? result : '');
 
     // Send appropriate response based on tool type
     if (toolConfig.async) {
-      // Async tools (like transfer_call) don't return results
+      // Async tools don't return results
       return reply.send({ status: 'ok' });
     } else {
       // Sync tools return results to VAPI
@@ -107,29 +125,143 @@ export async function handleToolExecution(request: FastifyRequest, reply: Fastif
   }
 }
 
+/**
+ * Show the tool call on the live dashboard (never fails the tool call)
+ */
+async function publishToolInvocation(message: any, functionName: string, args: any, result: string): Promise<void> {
+  const call = message.call;
+  if (!call?.id) return;
+
+  try {
+    const client = await databaseService.getClientForCall(call.phoneNumberId, call.assistantId);
+    liveCallService.toolInvoked(call.id, client?.id || null, functionName, args, result);
+  } catch (error: any) {
+    console.error('[ToolExecution] Failed to publish live tool event:', error.message);
+  }
+}
+
 // ==================== TOOL HANDLERS ====================
 
 /**
  * Handle check_inventory tool
- * Client-specific inventory lookup (currently uses global inventory table)
- * TODO: Add client_id to inventory table for true multi-client support
+ * Searches only the fleet of the client the call belongs to (by phone number, then assistant)
+ * With start_date (and end_date), availability leaves out units reserved on those dates;
+ * min/max (and fuel_type) leave out machines that don't meet the caller's specs
  */
-async function handleCheckInventory(args: any): Promise<string> {
+async function handleCheckInventory(payload: any, args: any): Promise<string> {
   const query = args.query || "";
 
-  // In the future, we can look up client from payload and filter inventory by client_id:
-  // const phoneNumberId = payload.message?.call?.phoneNumberId;
-  // const client = await databaseService.getClientByPhoneNumberId(phoneNumberId);
-  // return await inventoryService.searchAndFormat(query, client.id);
+  const call = payload.message?.call;
+  const client = await databaseService.getClientForCall(call?.phoneNumberId, call?.assistantId);
+
+  if (!client) {
+    console.error(`[Inventory] No client found for phone number ID: ${call?.phoneNumberId}, assistant ID: ${call?.assistantId}`);
+    return "I can't pull up the equipment list right now. Offer to have someone from rentals call the customer back with availability.";
+  }
 
-  return await inventoryService.searchAndFormat(query);
+  const specs = inventoryService.parseSpecConstraints(args);
+  if (!specs.ok) {
+    return specs.message;
+  }
+
+  if (!args.start_date && !args.end_date) {
+    return await inventoryService.searchAndFormat(query, client.id, { jobsite: args.jobsite, specs: specs.constraints });
+  }
+
+  const parsed = await reservationService.parseWindow(client.id, args.start_date || args.end_date, args.end_date);
+  if (!parsed.ok) {
+    return parsed.message;
+  }
+
+  return await inventoryService.searchAndFormat(query, client.id, { window: parsed.window, jobsite: args.jobsite, specs: specs.constraints });
+}
+
+/**
+ * Handle reserve_equipment tool
+ * Places a tentative hold on a machine for the caller's dates; staff confirm it in the portal
+ */
+async function handleReserveEquipment(payload: any, args: any): Promise<string> {
+  const call = payload.message?.call;
+  const client = await databaseService.getClientForCall(call?.phoneNumberId, call?.assistantId);
+
+  if (!client) {
+    console.error(`[Reservation] No client found for phone number ID: ${call?.phoneNumberId}, assistant ID: ${call?.assistantId}`);
+    return "I can't place a hold right now. Offer to have someone from rentals call the customer back to book it.";
+  }
+
+  const result = await reservationService.hold(client.id, {
+    model: args.model,
+    startDate: args.start_date,
+    endDate: args.end_date,
+    quantity: args.quantity,
+    customerName: args.customer_name,
+    customerPhone: args.customer_phone,
+    jobsite: args.jobsite,
+    callId: call?.id
+  });
+
+  return result.message;
+}
+
+/**
+ * Handle get_rental_quote tool
+ * Prices a machine for the caller's rental length from the client's standard rates,
+ * and records the quote against the call
+ */
+async function handleGetRentalQuote(payload: any, args: any): Promise<string> {
+  const call = payload.message?.call;
+  const client = await databaseService.getClientForCall(call?.phoneNumberId, call?.assistantId);
+
+  if (!client) {
+    console.error(`[Quote] No client found for phone number ID: ${call?.phoneNumberId}, assistant ID: ${call?.assistantId}`);
+    return "I can't pull up our rates right now. Offer to have someone from rentals call the customer back with a price.";
+  }
+
+  const result = await rentalQuoteService.quote(client.id, {
+    model: args.model,
+    duration: args.duration,
+    unit: args.unit,
+    startDate: args.start_date,
+    endDate: args.end_date,
+    quantity: args.quantity,
+    delivery: args.delivery,
+    deliveryMiles: args.delivery_miles,
+    damageWaiver: args.damage_waiver,
+    callId: call?.id
+  });
+
+  return result.message;
+}
+
+/**
+ * Handle check_sales_inventory tool
+ * Searches the machines for sale of the client the call belongs to, and links the
+ * listings it describes to the call
+ */
+async function handleCheckSalesInventory(payload: any, args: any): Promise<string> {
+  const call = payload.message?.call;
+  const client = await databaseService.getClientForCall(call?.phoneNumberId, call?.assistantId);
+
+  if (!client) {
+    console.error(`[SalesListings] No client found for phone number ID: ${call?.phoneNumberId}, assistant ID: ${call?.assistantId}`);
+    return "I can't pull up the machines for sale right now. Offer to connect the customer with sales, or have sales call them back.";
+  }
+
+  const budget = salesListingService.parseMaxPrice(args.max_price);
+  if (!budget.ok) {
+    return budget.message;
+  }
+
+  return await salesListingService.searchAndFormat(args.query || '', client.id, { maxPrice: budget.maxPrice, callId: call?.id });
 }
 
 /**
  * Handle transfer_call tool
  * Uses VAPI's live call control to dynamically route calls with warm handoff
+ * Department hours and after-hours rules decide the destination; the result
+ * tells the assistant what happened so it can offer a callback when needed
  */
-async function handleTransferCall(payload: any, args: any): Promise<void> {
+async function handleTransferCall(payload: any, args: any): Promise<string> {
   const { department, reason, urgency = 'medium' } = args;
 
   // Extract control URL from call monitor
@@ -161,58 +293,83 @@ async function handleTransferCall(payload: any, args: any): Promise<void> {
     throw new Error('Client not found for this phone number');
   }
 
-  // Map department to database column
-  const departmentPhoneMap: Record<string, string> = {
-    'sales': client.sales_phone,
-    'rentals': client.rentals_phone,
-    'service': client.service_phone,
-    'parts': client.parts_phone,
-    'billing': client.billing_phone
-  };
+  // Pick the destination based on department hours and after-hours routing
+  let decision: TransferDecision | undefined = await departmentRoutingService.resolveTransfer(
+    client,
+    department as Department
+  );
 
-  // Get the transfer destination for this department
-  const destinationNumber = departmentPhoneMap[department as 'sales' | 'rentals' | 'service' | 'parts' | 'billing'];
-
-  if (!destinationNumber) {
-    console.error(`[Transfer] No ${department} number configured for client ${client.name}`);
-    throw new Error(`Transfer destination not configured for ${department}`);
+  if (decision.action === 'closed') {
+    console.log(`[Transfer] ${department} is closed for client ${client.name}`);
+    const opens = decision.nextOpenTime ? ` They open ${decision.nextOpenTime}.` : '';
+    return `The ${department} team is not available right now.${opens} Do not try to transfer again. Let the caller know and offer to schedule a callback instead.`;
   }
 
   // Create handoff brief for the receiving person
   const handoffBrief = `Transfer from ${client.name} receptionist. ${callerName}. ${reason}. Urgency: ${urgency}.`;
 
-  // Create caller message
-  const callerMessage = urgency === 'critical'
-    ? `Connecting you to ${department} immediately.`
-    : `Perfect, connecting you to ${department} now. They'll be right with you.`;
+  // Try the chosen line, then its fallbacks (overflow, voicemail) if the transfer fails
+  while (decision && decision.action !== 'closed') {
+    const callerMessage = getTransferCallerMessage(decision, department, urgency);
+
+    try {
+      await executeTransfer(controlUrl, decision.number, handoffBrief, callerMessage);
+      console.log(`[Transfer] ${department} -> ${decision.action === 'voicemail' ? 'voicemail' : decision.line} line`);
+      return decision.action === 'voicemail'
+        ? `Transferring the caller to the ${department} voicemail.`
+        : `Transferring the caller to ${department}.`;
+    } catch (error: any) {
+      console.error('[Transfer] Failed to execute transfer:', error.message);
+      if (error.response) {
+        console.error('Response status:', error.response.status);
+        console.error('Response data:', JSON.stringify(error.response.data, null, 2));
+      }
+      decision = decision.action === 'transfer' ? decision.fallback : undefined;
+    }
+  }
 
-  // Execute the transfer via Live Call Control
-  try {
-    await axios.post(`${controlUrl}/control`, {
-      type: 'transfer',
-      destination: {
-        type: 'number',
-        number: destinationNumber,
-        message: handoffBrief  // Recipient hears this BEFORE call connects
-      },
-      content: callerMessage  // Caller hears this during transfer
-    }, {
-      headers: { 'Content-Type': 'application/json' }
-    });
+  return `The transfer to ${department} did not go through. Apologize to the caller and offer to schedule a callback instead.`;
+}
 
-  } catch (error: any) {
-    console.error('[Transfer] Failed to execute transfer:', error.message);
-    if (error.response) {
-      console.error('Response status:', error.response.status);
-      console.error('Response data:', JSON.stringify(error.response.data, null, 2));
-    }
-    throw error;
+/**
+ * What the caller hears while being transferred
+ */
+function getTransferCallerMessage(decision: TransferDecision, department: string, urgency: string): string {
+  if (decision.action === 'voicemail') {
+    return `I'll put you through to the ${department} voicemail so you can leave a message.`;
   }
+  if (decision.action === 'transfer' && decision.line === 'on_call') {
+    return `Connecting you to our on-call ${department} line now.`;
+  }
+  return urgency === 'critical'
+    ? `Connecting you to ${department} immediately.`
+    : `Perfect, connecting you to ${department} now. They'll be right with you.`;
+}
+
+/**
+ * Execute a transfer via Live Call Control
+ */
+async function executeTransfer(
+  controlUrl: string,
+  destinationNumber: string,
+  handoffBrief: string,
+  callerMessage: string
+): Promise<void> {
+  await callControlService.send(controlUrl, {
+    type: 'transfer',
+    destination: {
+      type: 'number',
+      number: destinationNumber,
+      message: handoffBrief  // Recipient hears this BEFORE call connects
+    },
+    content: callerMessage  // Caller hears this during transfer
+  });
 }
 
 /**
  * Handle schedule_callback tool
- * Saves callback request to database for follow-up
+ * Resolves preferred_time to a timestamp in the client's timezone and saves the
+ * callback request; asks the assistant to re-confirm if the time is unclear or closed
  */
 async function handleScheduleCallback(payload: any, args: any): Promise<string> {
   const { customer_name, customer_phone, preferred_time, reason, department } = args;
@@ -228,19 +385,30 @@ async function handleScheduleCallback(payload: any, args: any): Promise<string>
 
   // Save callback request to database
   try {
+    // "Tomorrow" means tomorrow relative to when the call started
+    const call = payload.message?.call;
+    const callTime = new Date(call?.startedAt || call?.createdAt || Date.now());
+    const resolution = await callbackTimeService.resolve(client.id, department, preferred_time || '', callTime);
+
+    if (!resolution.ok) {
+      console.log(`[Callback] Could not schedule "${preferred_time}" (${resolution.reason}) - asking caller to confirm`);
+      return resolution.message;
+    }
+
     await databaseService.saveCallbackRequest({
       clientId: client.id,
       customerName: customer_name,
       customerPhone: customer_phone,
       preferredTime: preferred_time,
       reason: reason,
-      department: department
+      department: department,
+      scheduledFor: resolution.scheduledFor
     });
 
-    console.log(`[Callback] Scheduled callback for ${customer_name} at ${preferred_time} (${department})`);
+    console.log(`[Callback] Scheduled callback for ${customer_name} at ${resolution.scheduledFor.toISOString()} ("${preferred_time}", ${department})`);
 
     // Return confirmation message to assistant - conversational, not robotic
-    return `Perfect! I've scheduled a callback for ${preferred_time}. Someone from ${department} will give you a call then. Thanks for calling, and have a great day!`;
+    return `Perfect! I've scheduled a callback for ${resolution.spoken}. Someone from ${department} will give you a call then. Thanks for calling, and have a great day!`;
   } catch (error: any) {
     console.error('[Callback] Failed to save callback request:', error.message);
     return "Got it, I've made a note of that. Someone will give you a call back during business hours.";
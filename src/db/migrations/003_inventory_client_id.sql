@@ -0,0 +1,14 @@
+-- Migration 003: inventory.client_id
+-- Each dealer's assistant quotes only its own fleet (check_inventory resolves the
+-- client from the call's phoneNumberId/assistantId). Existing rows were Tex Intel's.
+
+-- migrate:up
+
+ALTER TABLE inventory ADD COLUMN client_id TEXT REFERENCES clients(id) ON DELETE CASCADE;
+UPDATE inventory SET client_id = 'client-portal' WHERE client_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_client_id ON inventory(client_id);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_inventory_client_id;
+ALTER TABLE inventory DROP COLUMN client_id;
@@ -0,0 +1,11 @@
+-- Migration 004: inventory.retired_at
+-- Dealers retire machines from the portal instead of deleting them; retired rows
+-- stay for history but drop out of check_inventory and every inventory search.
+
+-- migrate:up
+
+ALTER TABLE inventory ADD COLUMN retired_at TIMESTAMP;
+
+-- migrate:down
+
+ALTER TABLE inventory DROP COLUMN retired_at;
@@ -0,0 +1,60 @@
+-- Migration 007: rental pricing and quotes
+-- Weekly and monthly rates per fleet line, a damage waiver and sales tax per
+-- client, delivery fees by distance from the yard, and every price
+-- get_rental_quote gives a caller (linked to the call it was given on).
+
+-- migrate:up
+
+ALTER TABLE inventory ADD COLUMN price_per_week REAL;
+ALTER TABLE inventory ADD COLUMN price_per_month REAL;    -- 28 days on rent
+
+ALTER TABLE clients ADD COLUMN damage_waiver_percent REAL;  -- % of the rental charge; NULL = no waiver
+ALTER TABLE clients ADD COLUMN rental_tax_percent REAL;     -- % of the quote subtotal; NULL = no tax
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  client_id TEXT NOT NULL,
+  max_miles REAL NOT NULL CHECK(max_miles > 0),  -- jobsites up to this far from the yard
+  fee REAL NOT NULL CHECK(fee >= 0),             -- per rental, delivery and pickup
+  label TEXT,
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+  UNIQUE(client_id, max_miles)
+);
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  client_id TEXT NOT NULL,
+  call_id TEXT,                  -- call the quote was given on
+  inventory_id INTEGER,
+  model TEXT NOT NULL,           -- as quoted (the item may be renamed or retired later)
+  quantity INTEGER NOT NULL DEFAULT 1,
+  rental_days INTEGER NOT NULL,
+  start_date TEXT,               -- YYYY-MM-DD, when the caller gave dates
+  end_date TEXT,
+  delivery_miles REAL,
+  rental_amount REAL NOT NULL,
+  damage_waiver_amount REAL NOT NULL DEFAULT 0,
+  delivery_fee REAL,             -- NULL = no delivery, or the distance wasn't known
+  tax_amount REAL NOT NULL DEFAULT 0,
+  total REAL NOT NULL,
+  breakdown TEXT,                -- JSON: rate periods charged, percentages applied
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (inventory_id) REFERENCES inventory(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_client ON quotes(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_quotes_call ON quotes(call_id);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_quotes_call;
+DROP INDEX IF EXISTS idx_quotes_client;
+DROP TABLE IF EXISTS quotes;
+DROP TABLE IF EXISTS delivery_zones;
+ALTER TABLE clients DROP COLUMN rental_tax_percent;
+ALTER TABLE clients DROP COLUMN damage_waiver_percent;
+ALTER TABLE inventory DROP COLUMN price_per_month;
+ALTER TABLE inventory DROP COLUMN price_per_week;
@@ -0,0 +1,583 @@
+-- Migration 001: initial schema (PostgreSQL)
+-- Same tables, columns and indexes as src/db/migrations/001_initial_schema.sql.
+-- Flags stay INTEGER (0/1) so both databases return the same rows; the SQLite
+-- views are inlined in postgres.repository.ts instead. CHECKs on nullable columns
+-- spell out IS NULL (same meaning, but pg-mem, which the tests run on, needs it).
+
+-- migrate:up
+
+-- ====================
+-- CALLS TABLE
+-- Core call metadata
+-- ====================
+CREATE TABLE IF NOT EXISTS calls (
+  id TEXT PRIMARY KEY,  -- VAPI call ID
+  client_id TEXT NOT NULL DEFAULT 'tex-intel-primary',
+
+  -- Call metadata
+  phone_number_id TEXT,  -- VAPI phone number ID
+  caller_phone TEXT,
+  call_type TEXT CHECK(call_type IS NULL OR call_type IN ('inboundPhoneCall', 'outboundPhoneCall', 'webCall')),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  duration_seconds INTEGER,
+
+  -- Status
+  status TEXT CHECK(status IS NULL OR status IN ('queued', 'ringing', 'in-progress', 'forwarding', 'ended')),
+  ended_reason TEXT,
+
+  -- Content
+  transcript TEXT,
+  summary TEXT,
+  recording_url TEXT,
+  stereo_recording_url TEXT,
+
+  -- Live Call Control (monitor.controlUrl from Vapi webhooks, for supervisor actions)
+  control_url TEXT,
+
+  -- Analytics
+  success_score INTEGER CHECK(success_score >= 1 AND success_score <= 10),
+
+  -- Cost
+  cost_total DOUBLE PRECISION,
+  cost_transport DOUBLE PRECISION,
+  cost_stt DOUBLE PRECISION,
+  cost_llm DOUBLE PRECISION,
+  cost_tts DOUBLE PRECISION,
+  cost_vapi DOUBLE PRECISION,
+  llm_prompt_tokens INTEGER,
+  llm_completion_tokens INTEGER,
+  tts_characters INTEGER,
+
+  -- Timestamps for tracking
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ====================
+-- STRUCTURED DATA TABLE
+-- Extracted fields per call
+-- ====================
+CREATE TABLE IF NOT EXISTS call_structured_data (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL UNIQUE,
+
+  -- Caller information
+  caller_name TEXT,
+  caller_company TEXT,
+  caller_phone TEXT,
+  caller_email TEXT,
+
+  -- Intent
+  intent_category TEXT CHECK(intent_category IS NULL OR intent_category IN ('sales', 'rental', 'parts', 'service', 'billing', 'general', 'other')),
+  intent_subcategory TEXT,
+
+  -- Machine details
+  machine_make TEXT,
+  machine_model TEXT,
+  machine_year INTEGER,
+  machine_serial TEXT,
+  machine_category TEXT,
+
+  -- Call details
+  location TEXT,
+  timing TEXT,
+  urgency TEXT CHECK(urgency IS NULL OR urgency IN ('low', 'medium', 'high', 'critical')),
+
+  -- Outcome
+  outcome_type TEXT CHECK(outcome_type IS NULL OR outcome_type IN ('transferred', 'callback_scheduled', 'voicemail', 'wrong_number', 'not_interested', 'information_provided', 'other')),
+  outcome_transferred_to TEXT CHECK(outcome_transferred_to IN ('sales', 'service', 'parts') OR outcome_transferred_to IS NULL),
+  outcome_next_step TEXT,
+  outcome_scheduled_callback_time TEXT,
+
+  -- Additional notes
+  notes TEXT,
+
+  -- Raw JSON for reference
+  raw_json TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (call_id) REFERENCES calls(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CALL MESSAGES
+-- Conversation so far, written from conversation-update webhooks while the call
+-- is live. position is the message's index in Vapi's (cumulative) messages array.
+-- ====================
+CREATE TABLE IF NOT EXISTS call_messages (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL,          -- user, bot, tool_calls, tool_call_result...
+  message TEXT,                -- spoken text, or JSON for tool calls/results
+  seconds_from_start DOUBLE PRECISION,
+  time INTEGER,                -- unix ms (from Vapi)
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(call_id, position),
+  FOREIGN KEY (call_id) REFERENCES calls(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- WEBHOOK EVENTS
+-- Inbox for call lifecycle webhooks (status-update, end-of-call-report). The raw
+-- payload is saved before processing; event_key makes redeliveries idempotent.
+-- Failed events are dead-lettered for an admin to inspect and replay.
+-- No FK to calls - the calls row may be exactly what failed to save.
+-- ====================
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,    -- Vapi message type
+  event_key TEXT NOT NULL,     -- event type, plus the status for status-update (status-update:ended)
+  payload TEXT NOT NULL,       -- raw webhook body (JSON)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'processed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,    -- processing attempts
+  deliveries INTEGER NOT NULL DEFAULT 1,  -- times Vapi sent it
+  last_error TEXT,
+
+  received_at TIMESTAMPTZ DEFAULT now(),
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(call_id, event_key)
+);
+
+-- ====================
+-- SUPERVISOR ACTIONS
+-- Audit log of Live Call Control actions taken by admins on calls in progress
+-- ====================
+CREATE TABLE IF NOT EXISTS supervisor_actions (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  client_id TEXT,
+  actor TEXT NOT NULL,         -- admin username
+  action TEXT NOT NULL CHECK(action IN ('say', 'transfer', 'mute', 'unmute', 'end')),
+  details TEXT,                -- JSON (e.g. {"message": "..."} or {"number": "..."})
+  success INTEGER NOT NULL,
+  error TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (call_id) REFERENCES calls(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CONTACTS TABLE
+-- Known callers and their history
+-- ====================
+CREATE TABLE IF NOT EXISTS contacts (
+  id SERIAL PRIMARY KEY,
+  phone_number TEXT UNIQUE NOT NULL,
+
+  name TEXT,
+  company TEXT,
+  email TEXT,
+
+  -- Metadata
+  status TEXT CHECK(status IS NULL OR status IN ('VIP', 'New', 'Bad Standing', 'Regular')) DEFAULT 'New',
+  last_machine TEXT,  -- Last machine they inquired about
+
+  -- Stats
+  total_calls INTEGER DEFAULT 0,
+  last_call_at TIMESTAMPTZ,
+  first_call_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ====================
+-- INVENTORY TABLE
+-- Equipment rental inventory
+-- ====================
+CREATE TABLE IF NOT EXISTS inventory (
+  id SERIAL PRIMARY KEY,
+  model TEXT NOT NULL,
+  category TEXT NOT NULL,
+  available INTEGER NOT NULL DEFAULT 0,
+  price_per_day DOUBLE PRECISION NOT NULL,
+
+  -- Equipment details
+  condition TEXT CHECK(condition IS NULL OR condition IN ('Excellent', 'Good', 'Fair', 'Poor')),
+  year INTEGER,
+  specs TEXT,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ====================
+-- CLIENTS TABLE (for multi-client support)
+-- ====================
+CREATE TABLE IF NOT EXISTS clients (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  company TEXT,
+
+  -- Transfer destinations
+  sales_phone TEXT,
+  service_phone TEXT,
+  parts_phone TEXT,
+  rentals_phone TEXT,
+  billing_phone TEXT,
+
+  -- VAPI Configuration (Pre-created Assistant Architecture)
+  vapi_assistant_id TEXT,  -- The pre-created assistant ID in VAPI
+  custom_prompt TEXT,  -- Client-specific system prompt additions
+  first_message_template TEXT,  -- Template for first message (supports variables)
+
+  -- Tool enablement flags
+  enable_inventory INTEGER DEFAULT 1,  -- INTEGER flags, as on SQLite
+  enable_transfers INTEGER DEFAULT 1,
+
+  -- Business hours are evaluated in this IANA timezone
+  timezone TEXT DEFAULT 'America/Phoenix',
+
+  -- Shared secret Vapi uses to sign /inbound and /tools webhooks for this client
+  webhook_secret TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ====================
+-- CLIENT PHONE NUMBERS
+-- Maps VAPI phone numbers to clients
+-- ====================
+CREATE TABLE IF NOT EXISTS client_phone_numbers (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  vapi_phone_number_id TEXT UNIQUE NOT NULL,
+  phone_number TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CLIENT BUSINESS HOURS
+-- Weekly opening hours per client (no row for a day = closed that day)
+-- Clients with no rows at all use the default schedule in business-hours.service.ts
+-- ====================
+CREATE TABLE IF NOT EXISTS client_business_hours (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK(day_of_week >= 0 AND day_of_week <= 6),  -- 0 = Sunday
+  open_time TEXT NOT NULL,   -- 24h HH:MM, local to clients.timezone
+  close_time TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(client_id, day_of_week),
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CLIENT HOURS EXCEPTIONS
+-- Holiday closures and one-off special hours (override the weekly schedule)
+-- ====================
+CREATE TABLE IF NOT EXISTS client_hours_exceptions (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  date TEXT NOT NULL,  -- YYYY-MM-DD, local to clients.timezone
+  is_closed INTEGER NOT NULL DEFAULT 1,
+  open_time TEXT,      -- Only used when is_closed = 0
+  close_time TEXT,
+  label TEXT,          -- e.g., 'Thanksgiving', 'Inventory day'
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(client_id, date),
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- DEPARTMENT ROUTING
+-- Per-department transfer fallbacks (primary numbers live on clients.*_phone)
+-- after_hours_action decides what transfer_call does when the department is closed:
+--   callback  - tell the assistant to offer schedule_callback
+--   on_call   - dial on_call_phone (e.g., 24/7 breakdown line)
+--   overflow  - dial overflow_phone
+--   voicemail - send the caller to voicemail_phone
+-- overflow_phone is also tried when the primary number is missing or the transfer fails
+-- ====================
+CREATE TABLE IF NOT EXISTS department_routing (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  department TEXT NOT NULL CHECK(department IN ('sales', 'rentals', 'service', 'parts', 'billing')),
+  after_hours_action TEXT NOT NULL DEFAULT 'callback' CHECK(after_hours_action IN ('callback', 'on_call', 'overflow', 'voicemail')),
+  on_call_phone TEXT,
+  overflow_phone TEXT,
+  voicemail_phone TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(client_id, department),
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- DEPARTMENT HOURS
+-- Weekly hours for departments that differ from the main office
+-- (no rows for a department = follows client_business_hours; holidays always apply)
+-- ====================
+CREATE TABLE IF NOT EXISTS department_hours (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  department TEXT NOT NULL CHECK(department IN ('sales', 'rentals', 'service', 'parts', 'billing')),
+  day_of_week INTEGER NOT NULL CHECK(day_of_week >= 0 AND day_of_week <= 6),  -- 0 = Sunday
+  open_time TEXT NOT NULL,   -- 24h HH:MM, local to clients.timezone
+  close_time TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(client_id, department, day_of_week),
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- PORTAL USERS
+-- Client portal logins; each user belongs to one client
+-- ====================
+CREATE TABLE IF NOT EXISTS portal_users (
+  id SERIAL PRIMARY KEY,
+  username TEXT UNIQUE NOT NULL,
+  password_hash TEXT NOT NULL,  -- scrypt$<salt>$<hash> (see portal-auth.service.ts)
+  client_id TEXT NOT NULL,
+
+  last_login_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- PORTAL SESSIONS
+-- One row per issued session token (lets logout revoke a token before it expires)
+-- ====================
+CREATE TABLE IF NOT EXISTS portal_sessions (
+  id TEXT PRIMARY KEY,  -- random session id embedded in the signed token
+  user_id INTEGER NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (user_id) REFERENCES portal_users(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- ADMIN USERS
+-- Logins for /admin routes and the dashboard
+-- role: super_admin (all clients), client_admin (read/write one client),
+--       analyst (read-only; one client, or all clients when client_id is NULL)
+-- ====================
+CREATE TABLE IF NOT EXISTS admin_users (
+  id SERIAL PRIMARY KEY,
+  username TEXT UNIQUE NOT NULL,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('super_admin', 'client_admin', 'analyst')),
+  client_id TEXT,  -- required for client_admin
+
+  last_login_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- ADMIN SESSIONS
+-- ====================
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (user_id) REFERENCES admin_users(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CALLBACK REQUESTS
+-- Callbacks promised by the assistant (schedule_callback tool), worked from the portal
+-- "Claimed" = still pending, with assigned_to + claimed_at set
+-- ====================
+CREATE TABLE IF NOT EXISTS callback_requests (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT NOT NULL,
+  preferred_time TEXT NOT NULL,  -- as the caller said it
+  reason TEXT NOT NULL,
+  department TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK(status IS NULL OR status IN ('pending', 'completed', 'cancelled')),
+
+  assigned_to TEXT,          -- staff member (portal username or name)
+  claimed_at TIMESTAMPTZ,      -- when assigned_to picked it up
+  scheduled_for TIMESTAMPTZ,   -- ISO 8601 UTC, resolved from preferred_time (or set when rescheduled)
+  cancelled_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+
+  -- Outbound callback call placed through Vapi (latest attempt)
+  outbound_call_id TEXT,            -- Vapi call ID
+  outbound_status TEXT,             -- dialing, completed, failed
+  outbound_attempts INTEGER DEFAULT 0,
+  outbound_attempted_at TIMESTAMPTZ,
+  outbound_ended_reason TEXT,       -- Vapi endedReason (or the error if the call couldn't be placed)
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CALLBACK EVENTS
+-- Audit trail: one row per state change, assignment or note
+-- ====================
+CREATE TABLE IF NOT EXISTS callback_events (
+  id SERIAL PRIMARY KEY,
+  callback_id INTEGER NOT NULL,
+  action TEXT NOT NULL,      -- created, claimed, assigned, rescheduled, completed, cancelled, note, escalated,
+                             -- call_placed, call_failed
+  actor TEXT NOT NULL,       -- portal username, 'assistant' or 'scheduler'
+  from_status TEXT,
+  to_status TEXT,
+  note TEXT,
+  details TEXT,              -- JSON (e.g. {"assignedTo": "..."} or {"scheduledFor": "..."})
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (callback_id) REFERENCES callback_requests(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CALLBACK REMINDERS
+-- One row per reminder the scheduler owes (due soon / escalation); UNIQUE so
+-- several app instances sharing the database enqueue each reminder only once.
+-- claimed_by + lease_until stop two instances delivering the same reminder.
+-- ====================
+CREATE TABLE IF NOT EXISTS callback_reminders (
+  id SERIAL PRIMARY KEY,
+  callback_id INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('due', 'escalation')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT now(),
+  claimed_by TEXT,         -- instance id holding the lease
+  lease_until TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE(callback_id, kind),
+  FOREIGN KEY (callback_id) REFERENCES callback_requests(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- CALLBACK REMINDER ATTEMPTS
+-- Delivery log: one row per notifier per try
+-- ====================
+CREATE TABLE IF NOT EXISTS callback_reminder_attempts (
+  id SERIAL PRIMARY KEY,
+  reminder_id INTEGER NOT NULL,
+  notifier TEXT NOT NULL,  -- console, file, smtp, webhook
+  success INTEGER NOT NULL,
+  error TEXT,
+
+  attempted_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (reminder_id) REFERENCES callback_reminders(id) ON DELETE CASCADE
+);
+
+-- ====================
+-- INDEXES
+-- ====================
+
+-- Calls indexes
+CREATE INDEX IF NOT EXISTS idx_calls_client_id ON calls(client_id);
+CREATE INDEX IF NOT EXISTS idx_calls_created_at ON calls(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_calls_caller_phone ON calls(caller_phone);
+CREATE INDEX IF NOT EXISTS idx_calls_status ON calls(status);
+
+-- Webhook inbox indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at);
+
+-- Supervisor action indexes
+CREATE INDEX IF NOT EXISTS idx_supervisor_actions_call ON supervisor_actions(call_id);
+
+-- Structured data indexes
+CREATE INDEX IF NOT EXISTS idx_structured_intent_category ON call_structured_data(intent_category);
+CREATE INDEX IF NOT EXISTS idx_structured_urgency ON call_structured_data(urgency);
+CREATE INDEX IF NOT EXISTS idx_structured_outcome_type ON call_structured_data(outcome_type);
+CREATE INDEX IF NOT EXISTS idx_structured_machine_make ON call_structured_data(machine_make);
+
+-- Contacts indexes
+CREATE INDEX IF NOT EXISTS idx_contacts_phone ON contacts(phone_number);
+CREATE INDEX IF NOT EXISTS idx_contacts_company ON contacts(company);
+CREATE INDEX IF NOT EXISTS idx_contacts_last_call ON contacts(last_call_at DESC);
+
+-- Inventory indexes
+CREATE INDEX IF NOT EXISTS idx_inventory_category ON inventory(category);
+CREATE INDEX IF NOT EXISTS idx_inventory_available ON inventory(available);
+CREATE INDEX IF NOT EXISTS idx_inventory_model ON inventory(model);
+
+-- Client phone numbers index
+CREATE INDEX IF NOT EXISTS idx_client_phones_vapi_id ON client_phone_numbers(vapi_phone_number_id);
+
+-- Business hours indexes
+CREATE INDEX IF NOT EXISTS idx_business_hours_client ON client_business_hours(client_id);
+CREATE INDEX IF NOT EXISTS idx_hours_exceptions_client_date ON client_hours_exceptions(client_id, date);
+CREATE INDEX IF NOT EXISTS idx_department_hours_client ON department_hours(client_id, department);
+
+-- Portal auth indexes
+CREATE INDEX IF NOT EXISTS idx_portal_users_client ON portal_users(client_id);
+CREATE INDEX IF NOT EXISTS idx_portal_sessions_user ON portal_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_user ON admin_sessions(user_id);
+
+-- Callback indexes
+CREATE INDEX IF NOT EXISTS idx_callback_requests_client_status ON callback_requests(client_id, status);
+CREATE INDEX IF NOT EXISTS idx_callback_events_callback ON callback_events(callback_id);
+CREATE INDEX IF NOT EXISTS idx_callback_reminders_status ON callback_reminders(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_callback_reminder_attempts_reminder ON callback_reminder_attempts(reminder_id);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS callback_reminder_attempts;
+DROP TABLE IF EXISTS callback_reminders;
+DROP TABLE IF EXISTS callback_events;
+DROP TABLE IF EXISTS callback_requests;
+DROP TABLE IF EXISTS admin_sessions;
+DROP TABLE IF EXISTS admin_users;
+DROP TABLE IF EXISTS portal_sessions;
+DROP TABLE IF EXISTS portal_users;
+DROP TABLE IF EXISTS department_hours;
+DROP TABLE IF EXISTS department_routing;
+DROP TABLE IF EXISTS client_hours_exceptions;
+DROP TABLE IF EXISTS client_business_hours;
+DROP TABLE IF EXISTS client_phone_numbers;
+DROP TABLE IF EXISTS clients;
+DROP TABLE IF EXISTS inventory;
+DROP TABLE IF EXISTS contacts;
+DROP TABLE IF EXISTS supervisor_actions;
+DROP TABLE IF EXISTS webhook_events;
+DROP TABLE IF EXISTS call_messages;
+DROP TABLE IF EXISTS call_structured_data;
+DROP TABLE IF EXISTS calls;
@@ -0,0 +1,11 @@
+-- Migration 002: clients.additional_context (PostgreSQL)
+-- Extra client-specific context for the {{additional_context}} prompt variable
+-- (read by context-builder.service.ts)
+
+-- migrate:up
+
+ALTER TABLE clients ADD COLUMN additional_context TEXT;
+
+-- migrate:down
+
+ALTER TABLE clients DROP COLUMN additional_context;
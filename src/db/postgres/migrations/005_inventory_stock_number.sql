@@ -0,0 +1,13 @@
+-- Migration 005: inventory.stock_number (PostgreSQL)
+-- The dealer's own identifier for a fleet line; bulk imports match rows on it
+-- (then on model). Unique per client among active items, checked by the import.
+
+-- migrate:up
+
+ALTER TABLE inventory ADD COLUMN stock_number TEXT;
+CREATE INDEX IF NOT EXISTS idx_inventory_stock_number ON inventory(client_id, stock_number);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_inventory_stock_number;
+ALTER TABLE inventory DROP COLUMN stock_number;
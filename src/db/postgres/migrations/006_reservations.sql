@@ -0,0 +1,39 @@
+-- Migration 006: reservations (PostgreSQL)
+-- inventory.available is how many units a client owns; reservations book some of
+-- them for a date range. reserve_equipment places a tentative hold (which stops
+-- blocking units once hold_expires_at passes) and staff confirm it from the portal.
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS reservations (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  inventory_id INTEGER NOT NULL,
+  call_id TEXT,                  -- call the hold was placed on
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK(quantity > 0),
+  start_date TEXT NOT NULL,      -- YYYY-MM-DD, first day on rent (client's local calendar)
+  end_date TEXT NOT NULL,        -- YYYY-MM-DD, last day on rent (inclusive)
+  customer_name TEXT,
+  customer_phone TEXT,
+  jobsite TEXT,
+  status TEXT NOT NULL DEFAULT 'hold' CHECK(status IN ('hold', 'confirmed', 'cancelled')),
+  hold_expires_at TIMESTAMPTZ,   -- ISO 8601 UTC; an unconfirmed hold stops blocking units after this
+  confirmed_by TEXT,             -- portal username
+  confirmed_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ,
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (inventory_id) REFERENCES inventory(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservations_inventory_dates ON reservations(inventory_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_reservations_client_status ON reservations(client_id, status);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_reservations_client_status;
+DROP INDEX IF EXISTS idx_reservations_inventory_dates;
+DROP TABLE IF EXISTS reservations;
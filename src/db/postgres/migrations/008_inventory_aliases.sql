@@ -0,0 +1,20 @@
+-- Migration 008: inventory_aliases (PostgreSQL)
+-- A client's own search synonyms for check_inventory (e.g., "big cat" -> "Cat 336",
+-- "hoe" -> "backhoe"), used on top of the built-in manufacturer and category aliases.
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS inventory_aliases (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  alias TEXT NOT NULL,           -- what callers say
+  canonical TEXT NOT NULL,       -- what the fleet calls it (model, manufacturer or category)
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+  UNIQUE(client_id, alias)
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS inventory_aliases;
@@ -0,0 +1,24 @@
+-- Migration 009: typed inventory specs (PostgreSQL)
+-- The figures callers ask about, as numbers check_inventory can filter on
+-- ("at least 20ft dig depth", "over 3,000lb capacity"). The free-text specs
+-- column stays for anything else (blade width, GPS ready...).
+
+-- migrate:up
+
+ALTER TABLE inventory ADD COLUMN operating_weight DOUBLE PRECISION;  -- lbs
+ALTER TABLE inventory ADD COLUMN horsepower DOUBLE PRECISION;
+ALTER TABLE inventory ADD COLUMN dig_depth DOUBLE PRECISION;         -- ft
+ALTER TABLE inventory ADD COLUMN lift_capacity DOUBLE PRECISION;     -- lbs (rated operating capacity)
+ALTER TABLE inventory ADD COLUMN bucket_size DOUBLE PRECISION;       -- cubic yards
+ALTER TABLE inventory ADD COLUMN fuel_type TEXT;                     -- Diesel, Gas, Electric, Propane, Hybrid
+ALTER TABLE inventory ADD COLUMN attachments TEXT;                   -- comma-separated (e.g., "hydraulic thumb, auger")
+
+-- migrate:down
+
+ALTER TABLE inventory DROP COLUMN attachments;
+ALTER TABLE inventory DROP COLUMN fuel_type;
+ALTER TABLE inventory DROP COLUMN bucket_size;
+ALTER TABLE inventory DROP COLUMN lift_capacity;
+ALTER TABLE inventory DROP COLUMN dig_depth;
+ALTER TABLE inventory DROP COLUMN horsepower;
+ALTER TABLE inventory DROP COLUMN operating_weight;
@@ -0,0 +1,52 @@
+-- Migration 010: sales listings (PostgreSQL)
+-- Used machines a dealer has for sale (asking price, hours, serial, where it's
+-- parked, photos), separate from the rental fleet, and which listings were
+-- discussed on each call: those check_sales_inventory offered, plus those a
+-- sales call's analysis names (by stock or serial number).
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS sales_listings (
+  id SERIAL PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  stock_number TEXT,
+  model TEXT NOT NULL,
+  category TEXT NOT NULL,
+  year INTEGER,
+  condition TEXT,                -- Excellent, Good, Fair, Poor
+  asking_price DOUBLE PRECISION NOT NULL CHECK(asking_price > 0),
+  hours DOUBLE PRECISION,        -- hours meter reading
+  serial_number TEXT,
+  location TEXT,                 -- where the machine is (yard, branch or city)
+  photos_url TEXT,
+  description TEXT,              -- anything else (attachments, service history...)
+  status TEXT NOT NULL DEFAULT 'for_sale' CHECK(status IN ('for_sale', 'pending', 'sold')),
+  sold_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS call_sales_listings (
+  id SERIAL PRIMARY KEY,
+  call_id TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  listing_id INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('offered', 'mentioned')),  -- read out by check_sales_inventory, or named in the call analysis
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (listing_id) REFERENCES sales_listings(id) ON DELETE CASCADE,
+  UNIQUE(call_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_listings_client ON sales_listings(client_id, status);
+CREATE INDEX IF NOT EXISTS idx_call_sales_listings_listing ON call_sales_listings(listing_id);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_call_sales_listings_listing;
+DROP INDEX IF EXISTS idx_sales_listings_client;
+DROP TABLE IF EXISTS call_sales_listings;
+DROP TABLE IF EXISTS sales_listings;
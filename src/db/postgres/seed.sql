@@ -0,0 +1,149 @@
+-- Seed data for a new Tex Intel database (PostgreSQL)
+-- Same rows as src/db/seed.sql
+-- Applied when init() creates the database, or with `npm run db:migrate -- seed`.
+-- Safe to re-run: existing rows are left alone.
+
+-- ====================
+-- SEED CLIENT
+-- Default client (Tex Intel)
+-- ====================
+INSERT INTO clients (
+  id,
+  name,
+  company,
+  sales_phone,
+  service_phone,
+  parts_phone,
+  first_message_template,
+  custom_prompt,
+  enable_inventory,
+  enable_transfers
+)
+VALUES (
+  'client-portal',
+  'Tex Intel',
+  'Tex Intel Heavy Equipment',
+  '+16025705474',
+  '+16025705474',
+  '+16025705474',
+  'Thanks for calling Tex Intel. How can I help you?',
+  NULL,  -- No custom prompt additions
+  0,     -- Inventory disabled (tool exists in Vapi but not assigned to assistant)
+  1      -- Transfers enabled
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ====================
+-- SEED CONTACTS (Customer Data)
+-- ====================
+INSERT INTO contacts (phone_number, name, company, last_machine, status)
+VALUES
+  ('+16025705474', 'Abhave', 'Tex Intel HQ', 'Cat 336 Excavator', 'VIP'),
+  ('+15125559999', 'Bob Builder', 'Austin Construction', 'Skid Steer', 'New'),
+  ('+14695558888', 'Sarah Martinez', 'Dallas Demolition Co', 'Cat D6 Dozer', 'VIP'),
+  ('+17135557777', 'Mike Johnson', 'Houston Heavy Haul', 'Dump Truck', 'New')
+ON CONFLICT (phone_number) DO NOTHING;
+
+-- ====================
+-- SEED INVENTORY (Equipment Data)
+-- inventory has no natural key, so rows are matched on client and model
+-- ====================
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat 336', 'Excavator', 2, 1200, 'Excellent', 2022, '36-ton, 268hp, 24ft dig depth'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat 336');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat 320', 'Excavator', 3, 950, 'Good', 2021, '20-ton, 121hp, 20ft dig depth'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat 320');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat D6', 'Dozer', 0, 900, 'Good', 2020, '160hp, 14ft blade'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat D6');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat D8', 'Dozer', 1, 1400, 'Excellent', 2023, '305hp, 16ft blade, GPS ready'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat D8');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Bobcat T76', 'Skid Steer', 5, 350, 'Good', 2021, '74hp, 3,000lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Bobcat T76');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Bobcat S650', 'Skid Steer', 4, 300, 'Fair', 2019, '74hp, 2,300lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Bobcat S650');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'JCB 3CX', 'Backhoe', 2, 500, 'Good', 2020, '97hp, 4WD, extendable arm'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'JCB 3CX');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat 950M', 'Loader', 2, 850, 'Excellent', 2022, '220hp, 5-yard bucket'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat 950M');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Volvo A40G', 'Dump Truck', 3, 1100, 'Good', 2021, '38-ton capacity, articulated'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Volvo A40G');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Manitowoc 18000', 'Crane', 1, 2500, 'Excellent', 2023, '440-ton capacity, crawler mounted'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Manitowoc 18000');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Bobcat S570', 'Skid Steer', 3, 275, 'Good', 2020, '66hp, 2,000lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Bobcat S570');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Cat 262D', 'Skid Steer', 2, 400, 'Excellent', 2023, '90hp, 3,300lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Cat 262D');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'John Deere 332G', 'Skid Steer', 4, 380, 'Good', 2022, '100hp, 3,700lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'John Deere 332G');
+
+INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+SELECT 'client-portal', 'Kubota SSV75', 'Skid Steer', 2, 320, 'Fair', 2019, '74hp, 2,590lb capacity'
+WHERE NOT EXISTS (SELECT 1 FROM inventory WHERE client_id = 'client-portal' AND model = 'Kubota SSV75');
+
+-- ====================
+-- SEED INVENTORY SPECS
+-- Typed specs for the seeded fleet (from the specs text above); figures already
+-- filled in are left alone
+-- ====================
+UPDATE inventory SET operating_weight = COALESCE(operating_weight, 72000), horsepower = COALESCE(horsepower, 268), dig_depth = COALESCE(dig_depth, 24)
+WHERE client_id = 'client-portal' AND model = 'Cat 336';
+
+UPDATE inventory SET operating_weight = COALESCE(operating_weight, 40000), horsepower = COALESCE(horsepower, 121), dig_depth = COALESCE(dig_depth, 20)
+WHERE client_id = 'client-portal' AND model = 'Cat 320';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 160)
+WHERE client_id = 'client-portal' AND model = 'Cat D6';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 305)
+WHERE client_id = 'client-portal' AND model = 'Cat D8';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 74), lift_capacity = COALESCE(lift_capacity, 3000)
+WHERE client_id = 'client-portal' AND model = 'Bobcat T76';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 74), lift_capacity = COALESCE(lift_capacity, 2300)
+WHERE client_id = 'client-portal' AND model = 'Bobcat S650';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 97)
+WHERE client_id = 'client-portal' AND model = 'JCB 3CX';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 220), bucket_size = COALESCE(bucket_size, 5)
+WHERE client_id = 'client-portal' AND model = 'Cat 950M';
+
+UPDATE inventory SET lift_capacity = COALESCE(lift_capacity, 880000)
+WHERE client_id = 'client-portal' AND model = 'Manitowoc 18000';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 66), lift_capacity = COALESCE(lift_capacity, 2000)
+WHERE client_id = 'client-portal' AND model = 'Bobcat S570';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 90), lift_capacity = COALESCE(lift_capacity, 3300)
+WHERE client_id = 'client-portal' AND model = 'Cat 262D';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 100), lift_capacity = COALESCE(lift_capacity, 3700)
+WHERE client_id = 'client-portal' AND model = 'John Deere 332G';
+
+UPDATE inventory SET horsepower = COALESCE(horsepower, 74), lift_capacity = COALESCE(lift_capacity, 2590)
+WHERE client_id = 'client-portal' AND model = 'Kubota SSV75';
@@ -0,0 +1,41 @@
+// src/hooks/admin-auth.ts
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { adminAuthService } from '../services/admin-auth.service';
+import { AdminRole, AdminSession } from '../types';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    admin?: AdminSession;
+  }
+}
+
+/**
+ * preHandler factory for /admin routes
+ * - Requires a valid admin bearer token (sets request.admin)
+ * - `roles` limits the route to specific roles
+ * - `write` rejects read-only roles
+ */
+export function requireAdmin(options: { roles?: AdminRole[]; write?: boolean } = {}) {
+  return async function verifyAdmin(request: FastifyRequest, reply: FastifyReply) {
+    const authHeader = request.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+
+    const session = await adminAuthService.verifyToken(authHeader.substring(7));
+    if (!session) {
+      return reply.status(401).send({ error: 'Invalid or expired token' });
+    }
+
+    if (options.roles && !options.roles.includes(session.role)) {
+      return reply.status(403).send({ error: `Requires role: ${options.roles.join(' or ')}` });
+    }
+
+    if (options.write && !adminAuthService.canWrite(session)) {
+      return reply.status(403).send({ error: 'Read-only access' });
+    }
+
+    request.admin = session;
+  };
+}
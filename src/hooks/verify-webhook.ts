@@ -0,0 +1,59 @@
+// src/hooks/verify-webhook.ts
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  webhookAuthService,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  SECRET_HEADER
+} from '../services/webhook-auth.service';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
+
+/**
+ * Keep the raw JSON body on the request so signatures are checked
+ * against exactly what Vapi sent (re-serializing could change it)
+ * Register inside a route plugin - only affects that plugin's routes
+ */
+export function registerRawBodyParser(fastify: FastifyInstance) {
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, JSON.parse(body as string));
+    } catch (error: any) {
+      error.statusCode = 400;
+      done(error, undefined);
+    }
+  });
+}
+
+/**
+ * preHandler for Vapi webhooks (/inbound, /tools)
+ * Rejects requests without a valid signature or secret for the calling client
+ */
+export async function verifyWebhookSignature(request: FastifyRequest, reply: FastifyReply) {
+  const header = (name: string) => {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const secrets = await webhookAuthService.getSecrets(request.body);
+  const error = webhookAuthService.verify(
+    secrets,
+    {
+      signature: header(SIGNATURE_HEADER),
+      timestamp: header(TIMESTAMP_HEADER),
+      secret: header(SECRET_HEADER)
+    },
+    request.rawBody ?? JSON.stringify(request.body)
+  );
+
+  if (error) {
+    console.warn(`[WebhookAuth] Rejected ${request.method} ${request.url}: ${error}`);
+    return reply.status(401).send({ error: 'Unauthorized' });
+  }
+}
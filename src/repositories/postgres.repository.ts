@@ -0,0 +1,2262 @@
+// src/repositories/postgres.repository.ts
+import { Pool, PoolClient, types } from 'pg';
+import { join } from 'path';
+import { Migration, MigrationConnection, MigrationService, MigrationStatus } from '../services/migration.service';
+import {
+  StorageRepository,
+  CALLBACK_OVERDUE_HOURS,
+  CallReport,
+  CallStart,
+  CallStatusUpdate,
+  CallMessageInput,
+  BillingSummary,
+  ContactUpdate,
+  WebhookEventInput,
+  SupervisorActionInput,
+  InventoryItemInput,
+  InventoryChanges,
+  SalesListingInput,
+  SalesListingChanges,
+  ReservationInput,
+  ReservationFit,
+  ReservationChanges,
+  StoredRentalPricing,
+  RentalPricingInput,
+  QuoteInput,
+  ClientInput,
+  StoredBusinessHours,
+  BusinessHoursInput,
+  StoredDepartmentRouting,
+  DepartmentRoutingInput,
+  CallbackRequestInput,
+  CallbackChanges,
+  CallbackEventInput
+} from './storage.repository';
+
+// DATE columns as 'YYYY-MM-DD' rather than a Date at local midnight
+const DATE_OID = 1082;
+const typeParsers = {
+  getTypeParser: ((oid: number, format?: any) =>
+    oid === DATE_OID ? (value: string) => value : types.getTypeParser(oid, format)) as typeof types.getTypeParser
+};
+
+const migrationService = new MigrationService(
+  join(__dirname, '../db/postgres/migrations'),
+  join(__dirname, '../db/postgres/seed.sql'),
+  'postgres'
+);
+
+const callbackDueSql = (table = '') =>
+  `COALESCE(${table}scheduled_for, ${table}created_at + INTERVAL '${CALLBACK_OVERDUE_HOURS} hours')`;
+const CALLBACK_DUE_SQL = callbackDueSql();
+
+const CALLBACK_COLUMNS = `id, client_id, customer_name, customer_phone, preferred_time, reason, department, status,
+  assigned_to, claimed_at, scheduled_for, created_at, updated_at, completed_at, cancelled_at,
+  outbound_call_id, outbound_status, outbound_attempts, outbound_attempted_at, outbound_ended_reason,
+  CASE WHEN status = 'pending' AND ${CALLBACK_DUE_SQL} < now() THEN 1 ELSE 0 END AS overdue`;
+
+const RESERVATION_COLUMNS = `r.*, i.model, i.category, i.stock_number,
+  CASE WHEN r.status = 'hold' AND r.hold_expires_at <= now() THEN 1 ELSE 0 END AS expired`;
+
+// Confirmed reservations and unexpired holds on a client's active fleet overlapping a window
+const BOOKED_RESERVATIONS_SQL = `
+  SELECT r.id, r.inventory_id, i.model, r.quantity, r.start_date, r.end_date, r.status
+  FROM reservations r
+  INNER JOIN inventory i ON i.id = r.inventory_id
+  WHERE r.client_id = $1
+    AND i.retired_at IS NULL
+    AND r.start_date <= $2 AND r.end_date >= $3
+    AND (r.status = 'confirmed' OR (r.status = 'hold' AND r.hold_expires_at > $4))
+`;
+
+const INSERT_RESERVATION_SQL = `
+  INSERT INTO reservations (
+    client_id, inventory_id, call_id, quantity, start_date, end_date,
+    customer_name, customer_phone, jobsite, status, hold_expires_at
+  ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'hold', $10)
+  RETURNING id
+`;
+
+const CALL_SALES_LISTING_COLUMNS = `cl.call_id, cl.listing_id, cl.source,
+  l.stock_number, l.model, l.category, l.year, l.asking_price, l.hours, l.status`;
+
+// The SQLite call_details view
+const CALL_DETAILS_SQL = `
+  SELECT
+    c.*,
+    s.caller_name,
+    s.caller_company,
+    s.intent_category,
+    s.intent_subcategory,
+    s.machine_make,
+    s.machine_model,
+    s.machine_year,
+    s.machine_category,
+    s.urgency,
+    s.outcome_type,
+    s.outcome_transferred_to,
+    s.outcome_next_step,
+    s.notes
+  FROM calls c
+  LEFT JOIN call_structured_data s ON c.id = s.call_id`;
+
+export interface PostgresRepositoryOptions {
+  connectionString?: string;
+  pool?: Pool;  // use an existing pool instead of connecting (e.g. pg-mem in tests)
+}
+
+/**
+ * Storage repository for PostgreSQL (DATABASE_DRIVER=postgres)
+ * Same queries and row shapes as SqliteRepository; timestamps are returned as ISO strings
+ */
+export class PostgresRepository implements StorageRepository {
+  readonly driver = 'postgres' as const;
+  private pool: Pool | null;
+  private readonly connectionString?: string;
+
+  constructor(options: PostgresRepositoryOptions = {}) {
+    this.pool = options.pool || null;
+    this.connectionString = options.connectionString;
+  }
+
+  /**
+   * Connect and apply pending migrations
+   * A new (empty) database also gets the seed data. `migrate: false` only
+   * connects, for the migration CLI
+   */
+  async init(options: { migrate?: boolean } = {}): Promise<void> {
+    try {
+      if (!this.pool) {
+        this.pool = new Pool({ connectionString: this.connectionString, types: typeParsers });
+      }
+
+      if (options.migrate !== false) {
+        const { count } = await this.get(
+          'SELECT COUNT(*)::int AS count FROM information_schema.tables WHERE table_schema = current_schema()'
+        );
+
+        await this.migrate();
+        if (count === 0) {
+          await this.seed();
+        }
+      }
+    } catch (error: any) {
+      console.error('[Database] Failed to initialize:', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply pending migrations (up to and including `to` if given)
+   */
+  async migrate(options: { to?: number } = {}): Promise<Migration[]> {
+    return await this.withMigrationConnection(db => migrationService.migrate(db, options));
+  }
+
+  /**
+   * Roll back the most recently applied migrations
+   */
+  async rollback(steps = 1): Promise<Migration[]> {
+    return await this.withMigrationConnection(db => migrationService.rollback(db, steps));
+  }
+
+  /**
+   * Every known migration with when it was applied
+   */
+  async migrationStatus(): Promise<MigrationStatus[]> {
+    return await this.withMigrationConnection(db => migrationService.status(db));
+  }
+
+  /**
+   * Load the seed data (safe to re-run)
+   */
+  async seed(): Promise<void> {
+    await this.withMigrationConnection(db => migrationService.seed(db));
+  }
+
+  /**
+   * Save call record from end-of-call-report
+   * Upserts so the row created while the call was live keeps its created_at,
+   * client and conversation; report fields win over live values
+   */
+  async saveCall(callData: CallReport): Promise<void> {
+    // Calculate duration
+    let durationSeconds: number | null = null;
+    if (callData.startedAt && callData.endedAt) {
+      const start = new Date(callData.startedAt).getTime();
+      const end = new Date(callData.endedAt).getTime();
+      durationSeconds = Math.floor((end - start) / 1000);
+    }
+
+    await this.run(`
+      INSERT INTO calls (
+        id, client_id, phone_number_id, caller_phone, call_type,
+        started_at, ended_at, duration_seconds,
+        status, ended_reason,
+        transcript, summary, recording_url, stereo_recording_url,
+        success_score,
+        cost_total, cost_transport, cost_stt, cost_llm, cost_tts, cost_vapi,
+        llm_prompt_tokens, llm_completion_tokens, tts_characters,
+        updated_at
+      ) VALUES (
+        $1, COALESCE($2, 'tex-intel-primary'), $3, $4, $5,
+        $6, $7, $8,
+        $9, $10,
+        $11, $12, $13, $14,
+        $15,
+        $16, $17, $18, $19, $20, $21,
+        $22, $23, $24,
+        now()
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        client_id = COALESCE($2, calls.client_id),
+        phone_number_id = COALESCE(EXCLUDED.phone_number_id, calls.phone_number_id),
+        caller_phone = COALESCE(EXCLUDED.caller_phone, calls.caller_phone),
+        call_type = COALESCE(EXCLUDED.call_type, calls.call_type),
+        started_at = COALESCE(EXCLUDED.started_at, calls.started_at),
+        ended_at = COALESCE(EXCLUDED.ended_at, calls.ended_at),
+        duration_seconds = COALESCE(EXCLUDED.duration_seconds, calls.duration_seconds),
+        status = EXCLUDED.status,
+        ended_reason = COALESCE(EXCLUDED.ended_reason, calls.ended_reason),
+        transcript = EXCLUDED.transcript,
+        summary = EXCLUDED.summary,
+        recording_url = EXCLUDED.recording_url,
+        stereo_recording_url = EXCLUDED.stereo_recording_url,
+        success_score = EXCLUDED.success_score,
+        cost_total = EXCLUDED.cost_total,
+        cost_transport = EXCLUDED.cost_transport,
+        cost_stt = EXCLUDED.cost_stt,
+        cost_llm = EXCLUDED.cost_llm,
+        cost_tts = EXCLUDED.cost_tts,
+        cost_vapi = EXCLUDED.cost_vapi,
+        llm_prompt_tokens = EXCLUDED.llm_prompt_tokens,
+        llm_completion_tokens = EXCLUDED.llm_completion_tokens,
+        tts_characters = EXCLUDED.tts_characters,
+        updated_at = now()
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.startedAt || null,
+      callData.endedAt || null,
+      durationSeconds,
+      callData.status,
+      callData.endedReason || null,
+      callData.transcript || null,
+      callData.summary || null,
+      callData.recordingUrl || null,
+      callData.stereoRecordingUrl || null,
+      callData.successScore || null,
+      callData.cost || null,
+      callData.costBreakdown?.transport || null,
+      callData.costBreakdown?.stt || null,
+      callData.costBreakdown?.llm || null,
+      callData.costBreakdown?.tts || null,
+      callData.costBreakdown?.vapi || null,
+      callData.costBreakdown?.llmPromptTokens || null,
+      callData.costBreakdown?.llmCompletionTokens || null,
+      callData.costBreakdown?.ttsCharacters || null
+    ]);
+  }
+
+  /**
+   * Create the calls row when a call starts (assistant-request)
+   * An existing row only picks up the control URL
+   */
+  async recordCallStart(callData: CallStart): Promise<void> {
+    await this.run(`
+      INSERT INTO calls (id, client_id, phone_number_id, caller_phone, call_type, status, control_url)
+      VALUES ($1, COALESCE($2, 'tex-intel-primary'), $3, $4, $5, $6, $7)
+      ON CONFLICT (id) DO UPDATE SET
+        control_url = COALESCE(EXCLUDED.control_url, calls.control_url)
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.status || 'ringing',
+      callData.controlUrl || null
+    ]);
+  }
+
+  /**
+   * Apply a status-update webhook
+   * - in-progress stamps started_at, ended stamps ended_at/duration (first value wins)
+   * - creates the row if the call never went through assistant-request (e.g. outbound calls)
+   */
+  async updateCallStatus(callData: CallStatusUpdate): Promise<void> {
+    const at = callData.at.toISOString();
+    const startedAt = callData.status === 'in-progress' ? at : null;
+    const endedAt = callData.status === 'ended' ? at : null;
+
+    await this.run(`
+      INSERT INTO calls (
+        id, client_id, phone_number_id, caller_phone, call_type, status, ended_reason, started_at, ended_at, control_url
+      ) VALUES ($1, COALESCE($2, 'tex-intel-primary'), $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        ended_reason = COALESCE(EXCLUDED.ended_reason, calls.ended_reason),
+        control_url = COALESCE(EXCLUDED.control_url, calls.control_url),
+        started_at = COALESCE(calls.started_at, EXCLUDED.started_at),
+        ended_at = COALESCE(calls.ended_at, EXCLUDED.ended_at),
+        duration_seconds = COALESCE(
+          calls.duration_seconds,
+          CASE WHEN EXCLUDED.ended_at IS NOT NULL AND calls.started_at IS NOT NULL
+            THEN CAST(EXTRACT(EPOCH FROM EXCLUDED.ended_at) - EXTRACT(EPOCH FROM calls.started_at) AS INTEGER)
+          END
+        ),
+        updated_at = now()
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.status,
+      callData.endedReason || null,
+      startedAt,
+      endedAt,
+      callData.controlUrl || null
+    ]);
+  }
+
+  /**
+   * Store a conversation-update's messages (only the new tail is written)
+   * Returns how many messages were written
+   */
+  async saveCallMessages(callId: string, messages: CallMessageInput[]): Promise<number> {
+    const stored = await this.get('SELECT MAX(position) AS last FROM call_messages WHERE call_id = $1', [callId]);
+    const from = stored?.last ?? 0;
+
+    let written = 0;
+    for (let position = from; position < messages.length; position++) {
+      const message = messages[position];
+      await this.run(`
+        INSERT INTO call_messages (call_id, position, role, message, seconds_from_start, time)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (call_id, position) DO UPDATE SET
+          role = EXCLUDED.role,
+          message = EXCLUDED.message,
+          seconds_from_start = EXCLUDED.seconds_from_start,
+          time = EXCLUDED.time,
+          updated_at = now()
+      `, [
+        callId,
+        position,
+        message.role,
+        message.message,
+        message.secondsFromStart ?? null,
+        message.time ?? null
+      ]);
+      written++;
+    }
+
+    return written;
+  }
+
+  /**
+   * Conversation stored for a call, in order
+   */
+  async getCallMessages(callId: string) {
+    return await this.all(`
+      SELECT position, role, message, seconds_from_start, time
+      FROM call_messages
+      WHERE call_id = $1
+      ORDER BY position ASC
+    `, [callId]);
+  }
+
+  /**
+   * Save structured data for a call (replaces any earlier extraction)
+   */
+  async saveStructuredData(callId: string, data: any): Promise<void> {
+    await this.run(`
+      INSERT INTO call_structured_data (
+        call_id,
+        caller_name, caller_company, caller_phone, caller_email,
+        intent_category, intent_subcategory,
+        machine_make, machine_model, machine_year, machine_serial, machine_category,
+        location, timing, urgency,
+        outcome_type, outcome_transferred_to, outcome_next_step, outcome_scheduled_callback_time,
+        notes,
+        raw_json
+      ) VALUES (
+        $1,
+        $2, $3, $4, $5,
+        $6, $7,
+        $8, $9, $10, $11, $12,
+        $13, $14, $15,
+        $16, $17, $18, $19,
+        $20,
+        $21
+      )
+      ON CONFLICT (call_id) DO UPDATE SET
+        caller_name = EXCLUDED.caller_name,
+        caller_company = EXCLUDED.caller_company,
+        caller_phone = EXCLUDED.caller_phone,
+        caller_email = EXCLUDED.caller_email,
+        intent_category = EXCLUDED.intent_category,
+        intent_subcategory = EXCLUDED.intent_subcategory,
+        machine_make = EXCLUDED.machine_make,
+        machine_model = EXCLUDED.machine_model,
+        machine_year = EXCLUDED.machine_year,
+        machine_serial = EXCLUDED.machine_serial,
+        machine_category = EXCLUDED.machine_category,
+        location = EXCLUDED.location,
+        timing = EXCLUDED.timing,
+        urgency = EXCLUDED.urgency,
+        outcome_type = EXCLUDED.outcome_type,
+        outcome_transferred_to = EXCLUDED.outcome_transferred_to,
+        outcome_next_step = EXCLUDED.outcome_next_step,
+        outcome_scheduled_callback_time = EXCLUDED.outcome_scheduled_callback_time,
+        notes = EXCLUDED.notes,
+        raw_json = EXCLUDED.raw_json,
+        created_at = now()
+    `, [
+      callId,
+      data.caller?.name || null,
+      data.caller?.company || null,
+      data.caller?.phone || null,
+      data.caller?.email || null,
+      data.intent?.category || null,
+      data.intent?.subcategory || null,
+      data.machine?.make || null,
+      data.machine?.model || null,
+      data.machine?.year || null,
+      data.machine?.serial || null,
+      data.machine?.category || null,
+      data.details?.location || null,
+      data.details?.timing || null,
+      data.details?.urgency || null,
+      data.outcome?.type || null,
+      data.outcome?.transferred_to || null,
+      data.outcome?.next_step || null,
+      data.outcome?.scheduled_callback_time || null,
+      data.notes || null,
+      JSON.stringify(data)
+    ]);
+  }
+
+  /**
+   * Whether structured data has been saved for a call
+   */
+  async hasStructuredData(callId: string): Promise<boolean> {
+    return !!(await this.get('SELECT 1 FROM call_structured_data WHERE call_id = $1', [callId]));
+  }
+
+  /**
+   * Get call by ID
+   */
+  async getCall(callId: string): Promise<any> {
+    return await this.get(`${CALL_DETAILS_SQL} WHERE c.id = $1`, [callId]);
+  }
+
+  /**
+   * Get multiple calls by IDs in a single query (batch fetch)
+   */
+  async getCallsByIds(callIds: string[]): Promise<any[]> {
+    if (callIds.length === 0) {
+      return [];
+    }
+
+    return await this.all(
+      `${CALL_DETAILS_SQL} WHERE c.id IN (${placeholders(callIds)})`,
+      callIds
+    );
+  }
+
+  /**
+   * Get recent calls
+   */
+  async getRecentCalls(limit: number = 10, clientId?: string): Promise<any[]> {
+    if (clientId) {
+      return await this.all(
+        `${CALL_DETAILS_SQL} WHERE c.client_id = $1 ORDER BY c.created_at DESC LIMIT $2`,
+        [clientId, limit]
+      );
+    }
+
+    return await this.all(
+      `${CALL_DETAILS_SQL} ORDER BY c.created_at DESC LIMIT $1`,
+      [limit]
+    );
+  }
+
+  /**
+   * Get billing summary with cost aggregation
+   */
+  async getBillingSummary(params?: {
+    clientId?: string;
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+  }): Promise<BillingSummary> {
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+
+    if (params?.clientId) {
+      conditions.push(`client_id = $${queryParams.push(params.clientId)}`);
+    }
+
+    if (params?.startDate) {
+      conditions.push(`created_at >= $${queryParams.push(params.startDate)}`);
+    }
+
+    if (params?.endDate) {
+      conditions.push(`created_at <= $${queryParams.push(params.endDate)}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const calls = await this.all(`
+      SELECT
+        id, client_id, created_at, started_at, ended_at, duration_seconds,
+        cost_total, cost_transport, cost_stt, cost_llm, cost_tts, cost_vapi,
+        llm_prompt_tokens, llm_completion_tokens, tts_characters
+      FROM calls
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${queryParams.push(params?.limit || 100)}
+    `, queryParams);
+
+    // Calculate total cost
+    const totalCost = calls.reduce((sum, call) => sum + (call.cost_total || 0), 0);
+
+    return {
+      totalCost,
+      callCount: calls.length,
+      calls
+    };
+  }
+
+  /**
+   * Get daily statistics (same columns as the SQLite daily_call_stats view)
+   */
+  async getDailyStats(days: number = 7, clientId?: string): Promise<any[]> {
+    const params: any[] = [days];
+    const clientFilter = clientId ? `AND client_id = $${params.push(clientId)}` : '';
+
+    const rows = await this.all(`
+      SELECT
+        created_at::date AS date,
+        COUNT(*)::int AS total_calls,
+        COUNT(CASE WHEN status = 'ended' THEN 1 END)::int AS completed_calls,
+        AVG(duration_seconds)::float AS avg_duration,
+        SUM(cost_total)::float AS total_cost,
+        AVG(success_score)::float AS avg_success_score
+      FROM calls
+      WHERE created_at::date >= CURRENT_DATE - $1::int ${clientFilter}
+      GROUP BY created_at::date
+      ORDER BY date DESC
+    `, params);
+
+    // YYYY-MM-DD, as SQLite's DATE() returns
+    return rows.map(row => ({ ...row, date: String(row.date).slice(0, 10) }));
+  }
+
+  /**
+   * Get intent breakdown (same columns as the SQLite intent_breakdown view)
+   */
+  async getIntentBreakdown(clientId?: string): Promise<any[]> {
+    const params: any[] = [];
+    const clientFilter = clientId ? `AND c.client_id = $${params.push(clientId)}` : '';
+
+    return await this.all(`
+      SELECT
+        s.intent_category,
+        COUNT(*)::int AS count,
+        AVG(c.success_score)::float AS avg_success_score,
+        AVG(c.duration_seconds)::float AS avg_duration
+      FROM call_structured_data s
+      JOIN calls c ON s.call_id = c.id
+      WHERE s.intent_category IS NOT NULL ${clientFilter}
+      GROUP BY s.intent_category
+      ORDER BY count DESC
+    `, params);
+  }
+
+  /**
+   * Update or create contact from call
+   */
+  async updateContact(phoneNumber: string, data: ContactUpdate): Promise<void> {
+    const existing = await this.get('SELECT id FROM contacts WHERE phone_number = $1', [phoneNumber]);
+
+    if (existing) {
+      await this.run(`
+        UPDATE contacts
+        SET
+          name = COALESCE($1, name),
+          company = COALESCE($2, company),
+          email = COALESCE($3, email),
+          last_machine = COALESCE($4, last_machine),
+          total_calls = total_calls + 1,
+          last_call_at = now(),
+          updated_at = now()
+        WHERE phone_number = $5
+      `, [
+        data.name || null,
+        data.company || null,
+        data.email || null,
+        data.lastMachine || null,
+        phoneNumber
+      ]);
+    } else {
+      await this.run(`
+        INSERT INTO contacts (
+          phone_number, name, company, email, last_machine,
+          total_calls, first_call_at, last_call_at
+        ) VALUES ($1, $2, $3, $4, $5, 1, now(), now())
+      `, [
+        phoneNumber,
+        data.name || null,
+        data.company || null,
+        data.email || null,
+        data.lastMachine || null
+      ]);
+    }
+  }
+
+  // ==================== WEBHOOK INBOX QUERIES ====================
+
+  /**
+   * Save a webhook delivery to the inbox
+   * A redelivery of a known event only bumps `deliveries` (and refreshes the
+   * payload if the event has not been processed yet)
+   * Returns the event's id and status
+   */
+  async recordWebhookEvent(data: WebhookEventInput): Promise<{ id: number; status: string }> {
+    return await this.get(`
+      INSERT INTO webhook_events (call_id, event_type, event_key, payload)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (call_id, event_key) DO UPDATE SET
+        deliveries = webhook_events.deliveries + 1,
+        payload = CASE WHEN webhook_events.status = 'processed' THEN webhook_events.payload ELSE EXCLUDED.payload END,
+        updated_at = now()
+      RETURNING id, status
+    `, [data.callId, data.eventType, data.eventKey, data.payload]);
+  }
+
+  /**
+   * Take a webhook event for processing (see SqliteRepository.claimWebhookEvent)
+   */
+  async claimWebhookEvent(id: number, staleMinutes: number): Promise<boolean> {
+    const changes = await this.run(`
+      UPDATE webhook_events
+      SET status = 'processing', attempts = attempts + 1, updated_at = now()
+      WHERE id = $1
+        AND (status IN ('pending', 'dead')
+          OR (status = 'processing' AND updated_at < now() - ($2::text || ' minutes')::interval))
+    `, [id, staleMinutes]);
+    return changes > 0;
+  }
+
+  /**
+   * Record the outcome of processing a webhook event
+   */
+  async finishWebhookEvent(id: number, status: 'processed' | 'dead', error?: string): Promise<void> {
+    await this.run(`
+      UPDATE webhook_events
+      SET status = $1,
+          last_error = $2,
+          processed_at = CASE WHEN $1 = 'processed' THEN now() ELSE processed_at END,
+          updated_at = now()
+      WHERE id = $3
+    `, [status, error || null, id]);
+  }
+
+  /**
+   * One webhook event, with its payload
+   */
+  async getWebhookEvent(id: number) {
+    return await this.get('SELECT * FROM webhook_events WHERE id = $1', [id]);
+  }
+
+  /**
+   * Webhook events, newest first (payload omitted)
+   */
+  async getWebhookEvents(filters: { status?: string; callId?: string; limit?: number } = {}) {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      conditions.push(`status = $${params.push(filters.status)}`);
+    }
+    if (filters.callId) {
+      conditions.push(`call_id = $${params.push(filters.callId)}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return await this.all(`
+      SELECT id, call_id, event_type, event_key, status, attempts, deliveries, last_error,
+        received_at, processed_at, updated_at
+      FROM webhook_events
+      ${where}
+      ORDER BY id DESC
+      LIMIT $${params.push(filters.limit || 50)}
+    `, params);
+  }
+
+  // ==================== SUPERVISOR ACTION QUERIES ====================
+
+  /**
+   * Record a Live Call Control action taken by an admin (sent or failed)
+   * Returns the new action ID
+   */
+  async saveSupervisorAction(data: SupervisorActionInput): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO supervisor_actions (call_id, client_id, actor, action, details, success, error)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [
+      data.callId,
+      data.clientId,
+      data.actor,
+      data.action,
+      data.details ? JSON.stringify(data.details) : null,
+      data.success ? 1 : 0,
+      data.error || null
+    ]);
+    return row.id;
+  }
+
+  /**
+   * Supervisor actions taken on a call, oldest first
+   */
+  async getSupervisorActions(callId: string) {
+    const rows = await this.all(`
+      SELECT id, call_id, client_id, actor, action, details, success, error, created_at
+      FROM supervisor_actions
+      WHERE call_id = $1
+      ORDER BY id ASC
+    `, [callId]);
+
+    return rows.map((row: any) => ({
+      ...row,
+      details: row.details ? JSON.parse(row.details) : null,
+      success: row.success === 1
+    }));
+  }
+
+  // ==================== CONTACTS QUERIES ====================
+
+  /**
+   * Get contact by phone number
+   */
+  async getContact(phoneNumber: string): Promise<any | null> {
+    return await this.get('SELECT * FROM contacts WHERE phone_number = $1', [phoneNumber]);
+  }
+
+  /**
+   * Get all contacts
+   */
+  async getAllContacts(): Promise<any[]> {
+    return await this.all('SELECT * FROM contacts ORDER BY name');
+  }
+
+  /**
+   * Search contacts by name or company (case-insensitive, like SQLite's LIKE)
+   */
+  async searchContacts(query: string): Promise<any[]> {
+    return await this.all(`
+      SELECT * FROM contacts
+      WHERE name ILIKE $1 OR company ILIKE $1
+      ORDER BY name
+    `, [`%${query}%`]);
+  }
+
+  // ==================== INVENTORY QUERIES ====================
+
+  /**
+   * Get all inventory items
+   */
+  async getAllInventory(): Promise<any[]> {
+    return await this.all('SELECT * FROM inventory WHERE retired_at IS NULL ORDER BY category, model');
+  }
+
+  /**
+   * Get available inventory (available > 0), optionally for one client's fleet
+   */
+  async getAvailableInventory(clientId?: string): Promise<any[]> {
+    if (clientId) {
+      return await this.all(
+        'SELECT * FROM inventory WHERE client_id = $1 AND available > 0 AND retired_at IS NULL ORDER BY category, model',
+        [clientId]
+      );
+    }
+
+    return await this.all('SELECT * FROM inventory WHERE available > 0 AND retired_at IS NULL ORDER BY category, model');
+  }
+
+  /**
+   * Search inventory by model, category, or specs
+   */
+  async searchInventory(query: string): Promise<any[]> {
+    return await this.all(`
+      SELECT * FROM inventory
+      WHERE (model ILIKE $1 OR category ILIKE $1 OR specs ILIKE $1) AND retired_at IS NULL
+      ORDER BY
+        CASE WHEN available > 0 THEN 0 ELSE 1 END,
+        category, model
+    `, [`%${query}%`]);
+  }
+
+  /**
+   * Search inventory with multiple query variations in a single query
+   * Rows are grouped by model to deduplicate and aggregate available count
+   * Limited to one client's fleet when clientId is given
+   */
+  async searchInventoryWithVariations(queryVariations: string[], clientId?: string): Promise<any[]> {
+    const params: any[] = queryVariations.map(variation => `%${variation}%`);
+    let whereConditions = '(' + params.map((_, i) =>
+      `(model ILIKE $${i + 1} OR category ILIKE $${i + 1} OR specs ILIKE $${i + 1})`
+    ).join(' OR ') + ') AND retired_at IS NULL';
+
+    if (clientId) {
+      whereConditions += ` AND client_id = $${params.push(clientId)}`;
+    }
+
+    return await this.all(`
+      SELECT * FROM (
+        SELECT
+          client_id,
+          model,
+          category,
+          SUM(available)::int AS available,
+          price_per_day,
+          price_per_week,
+          price_per_month,
+          condition,
+          year,
+          specs,
+          MAX(updated_at) AS updated_at
+        FROM inventory
+        WHERE ${whereConditions}
+        GROUP BY client_id, model, category, price_per_day, price_per_week, price_per_month, condition, year, specs
+      ) grouped
+      ORDER BY
+        CASE WHEN available > 0 THEN 0 ELSE 1 END,
+        category, model
+    `, params);
+  }
+
+  /**
+   * Get inventory by category, optionally for one client's fleet
+   */
+  async getInventoryByCategory(category: string, clientId?: string): Promise<any[]> {
+    if (clientId) {
+      return await this.all(
+        'SELECT * FROM inventory WHERE client_id = $1 AND category ILIKE $2 AND retired_at IS NULL ORDER BY model',
+        [clientId, `%${category}%`]
+      );
+    }
+
+    return await this.all(
+      'SELECT * FROM inventory WHERE category ILIKE $1 AND retired_at IS NULL ORDER BY model',
+      [`%${category}%`]
+    );
+  }
+
+  /**
+   * Update inventory availability
+   */
+  async updateInventoryAvailability(model: string, available: number): Promise<void> {
+    await this.run(`
+      UPDATE inventory
+      SET available = $1, updated_at = now()
+      WHERE model = $2 AND retired_at IS NULL
+    `, [available, model]);
+  }
+
+  /**
+   * A client's fleet for the portal, optionally including retired items (listed last)
+   */
+  async getClientInventory(clientId: string, opts: { includeRetired?: boolean } = {}): Promise<any[]> {
+    return await this.all(`
+      SELECT * FROM inventory
+      WHERE client_id = $1 ${opts.includeRetired ? '' : 'AND retired_at IS NULL'}
+      ORDER BY CASE WHEN retired_at IS NULL THEN 0 ELSE 1 END, category, model
+    `, [clientId]);
+  }
+
+  /**
+   * One inventory item, or undefined if it isn't this client's
+   */
+  async getInventoryItem(clientId: string, itemId: number): Promise<any> {
+    return await this.get('SELECT * FROM inventory WHERE id = $1 AND client_id = $2', [itemId, clientId]);
+  }
+
+  /**
+   * Add an item to a client's fleet
+   * Returns the new item id
+   */
+  async createInventoryItem(clientId: string, item: InventoryItemInput): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO inventory (
+        client_id, stock_number, model, category, available,
+        price_per_day, price_per_week, price_per_month, condition, year, specs,
+        operating_weight, horsepower, dig_depth, lift_capacity, bucket_size, fuel_type, attachments
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+      RETURNING id
+    `, [
+      clientId,
+      item.stockNumber || null,
+      item.model,
+      item.category,
+      item.available,
+      item.pricePerDay,
+      item.pricePerWeek || null,
+      item.pricePerMonth || null,
+      item.condition || null,
+      item.year || null,
+      item.specs || null,
+      item.operatingWeight || null,
+      item.horsepower || null,
+      item.digDepth || null,
+      item.liftCapacity || null,
+      item.bucketSize || null,
+      item.fuelType || null,
+      item.attachments || null
+    ]);
+    return row.id;
+  }
+
+  /**
+   * Update an active (not retired) item in a client's fleet
+   * Returns false if nothing was updated
+   */
+  async updateInventoryItem(clientId: string, itemId: number, changes: InventoryChanges): Promise<boolean> {
+    const params: any[] = [];
+    const assignments = Object.entries(changes).map(([column, value]) => `${column} = $${params.push(value)}`);
+
+    const changed = await this.run(`
+      UPDATE inventory
+      SET ${assignments.join(', ')}, updated_at = now()
+      WHERE id = $${params.push(itemId)} AND client_id = $${params.push(clientId)} AND retired_at IS NULL
+    `, params);
+
+    return changed > 0;
+  }
+
+  /**
+   * Retire an item (kept for history, hidden from searches)
+   * Returns false if it was already retired or isn't this client's
+   */
+  async retireInventoryItem(clientId: string, itemId: number): Promise<boolean> {
+    const changed = await this.run(`
+      UPDATE inventory
+      SET retired_at = now(), updated_at = now()
+      WHERE id = $1 AND client_id = $2 AND retired_at IS NULL
+    `, [itemId, clientId]);
+
+    return changed > 0;
+  }
+
+  /**
+   * A client's search aliases
+   */
+  async getInventoryAliases(clientId: string): Promise<Array<{ alias: string; canonical: string }>> {
+    return await this.all(
+      'SELECT alias, canonical FROM inventory_aliases WHERE client_id = $1 ORDER BY alias',
+      [clientId]
+    );
+  }
+
+  /**
+   * Replace a client's search aliases
+   */
+  async saveInventoryAliases(clientId: string, aliases: Array<{ alias: string; canonical: string }>): Promise<void> {
+    await this.run('DELETE FROM inventory_aliases WHERE client_id = $1', [clientId]);
+
+    for (const { alias, canonical } of aliases) {
+      await this.run(
+        'INSERT INTO inventory_aliases (client_id, alias, canonical) VALUES ($1, $2, $3)',
+        [clientId, alias, canonical]
+      );
+    }
+  }
+
+  // ==================== SALES LISTING QUERIES ====================
+
+  /**
+   * A client's machines for sale, optionally including sold ones (listed last)
+   */
+  async getSalesListings(clientId: string, opts: { includeSold?: boolean } = {}): Promise<any[]> {
+    return await this.all(`
+      SELECT * FROM sales_listings
+      WHERE client_id = $1 ${opts.includeSold ? '' : "AND status != 'sold'"}
+      ORDER BY CASE WHEN status = 'sold' THEN 1 ELSE 0 END, category, model
+    `, [clientId]);
+  }
+
+  /**
+   * One sales listing, or undefined if it isn't this client's
+   */
+  async getSalesListing(clientId: string, listingId: number): Promise<any> {
+    return await this.get('SELECT * FROM sales_listings WHERE id = $1 AND client_id = $2', [listingId, clientId]);
+  }
+
+  /**
+   * List a machine for sale
+   * Returns the new listing id
+   */
+  async createSalesListing(clientId: string, listing: SalesListingInput): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO sales_listings (
+        client_id, stock_number, model, category, year, condition,
+        asking_price, hours, serial_number, location, photos_url, description
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id
+    `, [
+      clientId,
+      listing.stockNumber || null,
+      listing.model,
+      listing.category,
+      listing.year || null,
+      listing.condition || null,
+      listing.askingPrice,
+      listing.hours ?? null,
+      listing.serialNumber || null,
+      listing.location || null,
+      listing.photosUrl || null,
+      listing.description || null
+    ]);
+    return row.id;
+  }
+
+  /**
+   * Update one of a client's sales listings
+   * Returns false if nothing was updated
+   */
+  async updateSalesListing(clientId: string, listingId: number, changes: SalesListingChanges): Promise<boolean> {
+    const params: any[] = [];
+    const assignments = Object.entries(changes).map(([column, value]) => `${column} = $${params.push(value)}`);
+
+    const changed = await this.run(`
+      UPDATE sales_listings
+      SET ${assignments.join(', ')}, updated_at = now()
+      WHERE id = $${params.push(listingId)} AND client_id = $${params.push(clientId)}
+    `, params);
+
+    return changed > 0;
+  }
+
+  /**
+   * Record that listings came up on a call (a listing already linked to the call keeps its first source)
+   */
+  async linkCallSalesListings(callId: string, clientId: string, listingIds: number[], source: 'offered' | 'mentioned'): Promise<void> {
+    for (const listingId of listingIds) {
+      await this.run(`
+        INSERT INTO call_sales_listings (call_id, client_id, listing_id, source)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (call_id, listing_id) DO NOTHING
+      `, [callId, clientId, listingId, source]);
+    }
+  }
+
+  /**
+   * The listings that came up on each of these calls (one row per call and listing)
+   */
+  async getCallSalesListings(callIds: string[]): Promise<any[]> {
+    if (callIds.length === 0) {
+      return [];
+    }
+
+    return await this.all(`
+      SELECT ${CALL_SALES_LISTING_COLUMNS}
+      FROM call_sales_listings cl
+      INNER JOIN sales_listings l ON l.id = cl.listing_id
+      WHERE cl.call_id IN (${placeholders(callIds)})
+      ORDER BY cl.id ASC
+    `, callIds);
+  }
+
+  /**
+   * Calls a client's listings came up on, newest first (optionally for one listing),
+   * with the caller and the call's intent
+   */
+  async getSalesListingCalls(clientId: string, opts?: { listingId?: number; limit?: number }): Promise<any[]> {
+    const params: any[] = [clientId];
+    const conditions = ['cl.client_id = $1'];
+
+    if (opts?.listingId) {
+      conditions.push(`cl.listing_id = $${params.push(opts.listingId)}`);
+    }
+
+    return await this.all(`
+      SELECT ${CALL_SALES_LISTING_COLUMNS}, cl.created_at,
+             c.caller_phone, c.started_at, c.summary, s.caller_name, s.caller_company, s.intent_category
+      FROM call_sales_listings cl
+      INNER JOIN sales_listings l ON l.id = cl.listing_id
+      LEFT JOIN calls c ON c.id = cl.call_id
+      LEFT JOIN call_structured_data s ON s.call_id = cl.call_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY cl.created_at DESC, cl.id DESC
+      LIMIT $${params.push(opts?.limit || 100)}
+    `, params);
+  }
+
+  // ==================== RESERVATION QUERIES ====================
+
+  /**
+   * Place a reservation (a tentative hold until staff confirm it)
+   * Returns the new reservation id
+   */
+  async createReservation(data: ReservationInput): Promise<number> {
+    const row = await this.get(INSERT_RESERVATION_SQL, reservationValues(data));
+    return row.id;
+  }
+
+  /**
+   * Place a hold if `fits` accepts the item's reservations already booked on its dates
+   * The item's row stays locked from the check to the insert, so two callers can't
+   * both take the last unit. Returns the new reservation id, or null if it didn't fit
+   */
+  async holdReservation(data: ReservationInput, now: Date, fits: ReservationFit): Promise<number | null> {
+    return await this.transaction(async client => {
+      await client.query('SELECT id FROM inventory WHERE id = $1 FOR UPDATE', [data.inventoryId]);
+
+      const { rows } = await client.query(BOOKED_RESERVATIONS_SQL, [data.clientId, data.endDate, data.startDate, now.toISOString()]);
+      if (!fits(rows.map(normalizeRow).filter(r => r.inventory_id === data.inventoryId))) {
+        return null;
+      }
+
+      return (await client.query(INSERT_RESERVATION_SQL, reservationValues(data))).rows[0].id;
+    });
+  }
+
+  /**
+   * One reservation with its item's model, or undefined if it isn't this client's
+   */
+  async getReservation(clientId: string, reservationId: number): Promise<any> {
+    return await this.get(`
+      SELECT ${RESERVATION_COLUMNS}
+      FROM reservations r
+      INNER JOIN inventory i ON i.id = r.inventory_id
+      WHERE r.id = $1 AND r.client_id = $2
+    `, [reservationId, clientId]);
+  }
+
+  /**
+   * A client's reservations, soonest first
+   * - status: hold/confirmed/cancelled ('all' or omitted = any)
+   */
+  async getReservations(clientId: string, opts?: { status?: string; limit?: number }): Promise<any[]> {
+    const params: any[] = [clientId];
+    const conditions = ['r.client_id = $1'];
+
+    if (opts?.status && opts.status !== 'all') {
+      conditions.push(`r.status = $${params.push(opts.status)}`);
+    }
+
+    return await this.all(`
+      SELECT ${RESERVATION_COLUMNS}
+      FROM reservations r
+      INNER JOIN inventory i ON i.id = r.inventory_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY r.start_date ASC, r.id ASC
+      LIMIT $${params.push(opts?.limit || 100)}
+    `, params);
+  }
+
+  /**
+   * Reservations holding a client's active items on any day from startDate to endDate:
+   * confirmed ones, and holds that haven't expired by `now`
+   */
+  async getBookedReservations(clientId: string, startDate: string, endDate: string, now: Date): Promise<any[]> {
+    return await this.all(BOOKED_RESERVATIONS_SQL, [clientId, endDate, startDate, now.toISOString()]);
+  }
+
+  /**
+   * Move a reservation out of `fromStatus` (guards against two people confirming/cancelling at once)
+   * Returns false if it was no longer in that status
+   */
+  async updateReservationStatus(reservationId: number, fromStatus: string, changes: ReservationChanges): Promise<boolean> {
+    const params: any[] = [];
+    const assignments = Object.entries(changes).map(([column, value]) => `${column} = $${params.push(value)}`);
+
+    const changed = await this.run(`
+      UPDATE reservations
+      SET ${assignments.join(', ')}, updated_at = now()
+      WHERE id = $${params.push(reservationId)} AND status = $${params.push(fromStatus)}
+    `, params);
+
+    return changed > 0;
+  }
+
+  // ==================== RENTAL PRICING QUERIES ====================
+
+  /**
+   * Get a client's damage waiver, rental tax and delivery zones (nearest first)
+   */
+  async getClientRentalPricing(clientId: string): Promise<StoredRentalPricing> {
+    const client = await this.get('SELECT damage_waiver_percent, rental_tax_percent FROM clients WHERE id = $1', [clientId]);
+    const zones = await this.all(
+      'SELECT max_miles, fee, label FROM delivery_zones WHERE client_id = $1 ORDER BY max_miles',
+      [clientId]
+    );
+
+    return {
+      damage_waiver_percent: client?.damage_waiver_percent ?? null,
+      rental_tax_percent: client?.rental_tax_percent ?? null,
+      delivery_zones: zones
+    };
+  }
+
+  /**
+   * Replace a client's rental pricing settings
+   */
+  async saveClientRentalPricing(clientId: string, data: RentalPricingInput): Promise<void> {
+    await this.run(
+      'UPDATE clients SET damage_waiver_percent = $1, rental_tax_percent = $2, updated_at = now() WHERE id = $3',
+      [data.damageWaiverPercent, data.taxPercent, clientId]
+    );
+
+    await this.run('DELETE FROM delivery_zones WHERE client_id = $1', [clientId]);
+
+    for (const zone of data.deliveryZones) {
+      await this.run(
+        'INSERT INTO delivery_zones (client_id, max_miles, fee, label) VALUES ($1, $2, $3, $4)',
+        [clientId, zone.maxMiles, zone.fee, zone.label || null]
+      );
+    }
+  }
+
+  /**
+   * Record a quote given to a caller
+   * Returns the new quote id
+   */
+  async saveQuote(data: QuoteInput): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO quotes (
+        client_id, call_id, inventory_id, model, quantity, rental_days, start_date, end_date, delivery_miles,
+        rental_amount, damage_waiver_amount, delivery_fee, tax_amount, total, breakdown
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING id
+    `, [
+      data.clientId,
+      data.callId || null,
+      data.inventoryId || null,
+      data.model,
+      data.quantity,
+      data.rentalDays,
+      data.startDate || null,
+      data.endDate || null,
+      data.deliveryMiles ?? null,
+      data.rentalAmount,
+      data.damageWaiverAmount,
+      data.deliveryFee ?? null,
+      data.taxAmount,
+      data.total,
+      data.breakdown ? JSON.stringify(data.breakdown) : null
+    ]);
+    return row.id;
+  }
+
+  /**
+   * A client's quotes, newest first (optionally those given on one call)
+   */
+  async getQuotes(clientId: string, opts?: { callId?: string; limit?: number }): Promise<any[]> {
+    const params: any[] = [clientId];
+    const conditions = ['client_id = $1'];
+
+    if (opts?.callId) {
+      conditions.push(`call_id = $${params.push(opts.callId)}`);
+    }
+
+    return await this.all(`
+      SELECT * FROM quotes
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${params.push(opts?.limit || 100)}
+    `, params);
+  }
+
+  // ==================== CLIENT QUERIES ====================
+
+  /**
+   * Get client by ID
+   */
+  async getClientById(clientId: string): Promise<any | null> {
+    return await this.get('SELECT * FROM clients WHERE id = $1', [clientId]);
+  }
+
+  /**
+   * Get all clients
+   */
+  async getAllClients(): Promise<any[]> {
+    return await this.all('SELECT * FROM clients ORDER BY name');
+  }
+
+  /**
+   * Get client by VAPI phone number ID, falling back to the default client
+   */
+  async getClientByPhoneNumberId(vapiPhoneNumberId: string): Promise<any | null> {
+    const result = await this.get(`
+      SELECT c.* FROM clients c
+      INNER JOIN client_phone_numbers cpn ON c.id = cpn.client_id
+      WHERE cpn.vapi_phone_number_id = $1
+    `, [vapiPhoneNumberId]);
+
+    if (!result) {
+      return await this.getClientById('tex-intel-primary');
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the client a call belongs to (phone number mapping first, then assistant)
+   * Unlike getClientByPhoneNumberId, never falls back to a default client
+   */
+  async getClientForCall(phoneNumberId?: string, assistantId?: string): Promise<any | null> {
+    if (phoneNumberId) {
+      const client = await this.get(`
+        SELECT c.* FROM clients c
+        INNER JOIN client_phone_numbers cpn ON c.id = cpn.client_id
+        WHERE cpn.vapi_phone_number_id = $1
+      `, [phoneNumberId]);
+      if (client) return client;
+    }
+
+    if (assistantId) {
+      return await this.getClientByAssistantId(assistantId) || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get client by VAPI assistant ID
+   */
+  async getClientByAssistantId(vapiAssistantId: string): Promise<any | null> {
+    return await this.get('SELECT * FROM clients WHERE vapi_assistant_id = $1', [vapiAssistantId]);
+  }
+
+  /**
+   * Set the shared secret used to verify a client's webhooks
+   */
+  async updateClientWebhookSecret(clientId: string, secret: string | null): Promise<void> {
+    await this.run(`
+      UPDATE clients
+      SET webhook_secret = $1, updated_at = now()
+      WHERE id = $2
+    `, [secret, clientId]);
+  }
+
+  /**
+   * Update client's VAPI assistant ID
+   */
+  async updateClientAssistantId(clientId: string, assistantId: string): Promise<void> {
+    await this.run(`
+      UPDATE clients
+      SET vapi_assistant_id = $1, updated_at = now()
+      WHERE id = $2
+    `, [assistantId, clientId]);
+  }
+
+  /**
+   * Add or update phone number mapping to client
+   * Returns false (and changes nothing) if the number belongs to another client
+   */
+  async addClientPhoneNumber(
+    clientId: string,
+    vapiPhoneNumberId: string,
+    phoneNumber: string
+  ): Promise<boolean> {
+    await this.run(`
+      INSERT INTO client_phone_numbers (client_id, vapi_phone_number_id, phone_number)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (vapi_phone_number_id) DO NOTHING
+    `, [clientId, vapiPhoneNumberId, phoneNumber]);
+
+    // Only touches the mapping if it is this client's
+    const updated = await this.run(`
+      UPDATE client_phone_numbers
+      SET phone_number = $3
+      WHERE vapi_phone_number_id = $2 AND client_id = $1
+    `, [clientId, vapiPhoneNumberId, phoneNumber]);
+    return updated > 0;
+  }
+
+  /**
+   * Create or update client configuration
+   */
+  async upsertClient(clientData: ClientInput): Promise<void> {
+    const existing = await this.get('SELECT id FROM clients WHERE id = $1', [clientData.id]);
+
+    if (existing) {
+      await this.run(`
+        UPDATE clients
+        SET
+          name = $1,
+          company = $2,
+          sales_phone = $3,
+          service_phone = $4,
+          parts_phone = $5,
+          custom_prompt = $6,
+          additional_context = $7,
+          first_message_template = $8,
+          enable_inventory = $9,
+          enable_transfers = $10,
+          updated_at = now()
+        WHERE id = $11
+      `, [
+        clientData.name,
+        clientData.company || null,
+        clientData.salesPhone || null,
+        clientData.servicePhone || null,
+        clientData.partsPhone || null,
+        clientData.customPrompt || null,
+        clientData.additionalContext || null,
+        clientData.firstMessageTemplate || null,
+        clientData.enableInventory ? 1 : 0,
+        clientData.enableTransfers ? 1 : 0,
+        clientData.id
+      ]);
+    } else {
+      await this.run(`
+        INSERT INTO clients (
+          id, name, company,
+          sales_phone, service_phone, parts_phone,
+          custom_prompt, additional_context, first_message_template,
+          enable_inventory, enable_transfers
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `, [
+        clientData.id,
+        clientData.name,
+        clientData.company || null,
+        clientData.salesPhone || null,
+        clientData.servicePhone || null,
+        clientData.partsPhone || null,
+        clientData.customPrompt || null,
+        clientData.additionalContext || null,
+        clientData.firstMessageTemplate || null,
+        clientData.enableInventory ? 1 : 0,
+        clientData.enableTransfers ? 1 : 0
+      ]);
+    }
+  }
+
+  /**
+   * Get client configuration with phone number mapping
+   */
+  async getClientConfig(clientId: string): Promise<any> {
+    const client = await this.get('SELECT * FROM clients WHERE id = $1', [clientId]);
+
+    if (!client) {
+      return null;
+    }
+
+    const phoneMapping = await this.get(`
+      SELECT vapi_phone_number_id, phone_number
+      FROM client_phone_numbers
+      WHERE client_id = $1
+      ORDER BY id
+      LIMIT 1
+    `, [clientId]);
+
+    return {
+      ...client,
+      vapi_phone_number_id: phoneMapping?.vapi_phone_number_id || null,
+      phone_number: phoneMapping?.phone_number || null
+    };
+  }
+
+  // ==================== BUSINESS HOURS QUERIES ====================
+
+  /**
+   * Get a client's timezone, weekly hours and holiday/special-hours rows
+   */
+  async getClientBusinessHours(clientId: string): Promise<StoredBusinessHours> {
+    const client = await this.get('SELECT timezone FROM clients WHERE id = $1', [clientId]);
+    const weekly = await this.all(
+      'SELECT day_of_week, open_time, close_time FROM client_business_hours WHERE client_id = $1 ORDER BY day_of_week',
+      [clientId]
+    );
+    const exceptions = await this.all(
+      'SELECT date, is_closed, open_time, close_time, label FROM client_hours_exceptions WHERE client_id = $1 ORDER BY date',
+      [clientId]
+    );
+
+    return {
+      timezone: client?.timezone || null,
+      weekly,
+      exceptions
+    };
+  }
+
+  /**
+   * Replace a client's business hours configuration
+   * Only the parts provided are replaced (timezone, weekly hours, exceptions)
+   */
+  async saveClientBusinessHours(clientId: string, data: BusinessHoursInput): Promise<void> {
+    if (data.timezone) {
+      await this.run(
+        'UPDATE clients SET timezone = $1, updated_at = now() WHERE id = $2',
+        [data.timezone, clientId]
+      );
+    }
+
+    if (data.weekly) {
+      await this.run('DELETE FROM client_business_hours WHERE client_id = $1', [clientId]);
+
+      for (let dayOfWeek = 0; dayOfWeek < data.weekly.length; dayOfWeek++) {
+        const hours = data.weekly[dayOfWeek];
+        if (!hours) continue;
+
+        await this.run(`
+          INSERT INTO client_business_hours (client_id, day_of_week, open_time, close_time)
+          VALUES ($1, $2, $3, $4)
+        `, [clientId, dayOfWeek, hours.open, hours.close]);
+      }
+    }
+
+    if (data.exceptions) {
+      await this.run('DELETE FROM client_hours_exceptions WHERE client_id = $1', [clientId]);
+
+      for (const exception of data.exceptions) {
+        await this.run(`
+          INSERT INTO client_hours_exceptions (
+            client_id, date, is_closed, open_time, close_time, label
+          ) VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (client_id, date) DO UPDATE SET
+            is_closed = EXCLUDED.is_closed,
+            open_time = EXCLUDED.open_time,
+            close_time = EXCLUDED.close_time,
+            label = EXCLUDED.label
+        `, [
+          clientId,
+          exception.date,
+          exception.closed ? 1 : 0,
+          exception.closed ? null : exception.open || null,
+          exception.closed ? null : exception.close || null,
+          exception.label || null
+        ]);
+      }
+    }
+  }
+
+  // ==================== DEPARTMENT ROUTING QUERIES ====================
+
+  /**
+   * Get routing settings and custom hours for a client's departments
+   */
+  async getDepartmentRouting(clientId: string): Promise<StoredDepartmentRouting> {
+    const routing = await this.all(`
+      SELECT department, after_hours_action, on_call_phone, overflow_phone, voicemail_phone
+      FROM department_routing
+      WHERE client_id = $1
+    `, [clientId]);
+
+    const hours = await this.all(`
+      SELECT department, day_of_week, open_time, close_time
+      FROM department_hours
+      WHERE client_id = $1
+      ORDER BY department, day_of_week
+    `, [clientId]);
+
+    return { routing, hours };
+  }
+
+  /**
+   * Create or replace routing settings for one department
+   * weekly = null clears custom hours (department follows main business hours)
+   */
+  async saveDepartmentRouting(clientId: string, data: DepartmentRoutingInput): Promise<void> {
+    await this.run(`
+      INSERT INTO department_routing (
+        client_id, department, after_hours_action, on_call_phone, overflow_phone, voicemail_phone
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (client_id, department) DO UPDATE SET
+        after_hours_action = EXCLUDED.after_hours_action,
+        on_call_phone = EXCLUDED.on_call_phone,
+        overflow_phone = EXCLUDED.overflow_phone,
+        voicemail_phone = EXCLUDED.voicemail_phone,
+        updated_at = now()
+    `, [
+      clientId,
+      data.department,
+      data.afterHoursAction,
+      data.onCallPhone || null,
+      data.overflowPhone || null,
+      data.voicemailPhone || null
+    ]);
+
+    await this.run(
+      'DELETE FROM department_hours WHERE client_id = $1 AND department = $2',
+      [clientId, data.department]
+    );
+
+    if (data.weekly) {
+      for (let dayOfWeek = 0; dayOfWeek < data.weekly.length; dayOfWeek++) {
+        const hours = data.weekly[dayOfWeek];
+        if (!hours) continue;
+
+        await this.run(`
+          INSERT INTO department_hours (client_id, department, day_of_week, open_time, close_time)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [clientId, data.department, dayOfWeek, hours.open, hours.close]);
+      }
+    }
+  }
+
+  // ==================== PORTAL AUTH QUERIES ====================
+
+  /**
+   * Create a portal user for a client
+   */
+  async createPortalUser(data: { username: string; passwordHash: string; clientId: string }): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO portal_users (username, password_hash, client_id)
+      VALUES ($1, $2, $3)
+      RETURNING id
+    `, [data.username, data.passwordHash, data.clientId]);
+    return row.id;
+  }
+
+  /**
+   * Get portal user by username
+   */
+  async getPortalUserByUsername(username: string): Promise<any | null> {
+    return await this.get('SELECT * FROM portal_users WHERE username = $1', [username]);
+  }
+
+  /**
+   * Replace a portal user's password hash
+   */
+  async updatePortalUserPassword(userId: number, passwordHash: string): Promise<void> {
+    await this.run(`
+      UPDATE portal_users
+      SET password_hash = $1, updated_at = now()
+      WHERE id = $2
+    `, [passwordHash, userId]);
+  }
+
+  /**
+   * Record a session and the user's last login time
+   */
+  async createPortalSession(sessionId: string, userId: number, expiresAt: Date): Promise<void> {
+    await this.run(`
+      INSERT INTO portal_sessions (id, user_id, expires_at)
+      VALUES ($1, $2, $3)
+    `, [sessionId, userId, expiresAt.toISOString()]);
+    await this.run('UPDATE portal_users SET last_login_at = now() WHERE id = $1', [userId]);
+  }
+
+  /**
+   * Get a session with its user (null if unknown)
+   */
+  async getPortalSession(sessionId: string): Promise<any | null> {
+    return await this.get(`
+      SELECT s.id, s.user_id, s.expires_at, s.revoked_at, u.username, u.client_id
+      FROM portal_sessions s
+      INNER JOIN portal_users u ON u.id = s.user_id
+      WHERE s.id = $1
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke a single session (logout)
+   */
+  async revokePortalSession(sessionId: string): Promise<void> {
+    await this.run(`
+      UPDATE portal_sessions
+      SET revoked_at = now()
+      WHERE id = $1 AND revoked_at IS NULL
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke every session for a user (e.g., after a password reset)
+   */
+  async revokePortalUserSessions(userId: number): Promise<void> {
+    await this.run(`
+      UPDATE portal_sessions
+      SET revoked_at = now()
+      WHERE user_id = $1 AND revoked_at IS NULL
+    `, [userId]);
+  }
+
+  // ==================== ADMIN AUTH QUERIES ====================
+
+  /**
+   * Create an admin user
+   */
+  async createAdminUser(data: {
+    username: string;
+    passwordHash: string;
+    role: string;
+    clientId?: string | null;
+  }): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO admin_users (username, password_hash, role, client_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+    `, [data.username, data.passwordHash, data.role, data.clientId || null]);
+    return row.id;
+  }
+
+  /**
+   * Get admin user by username
+   */
+  async getAdminUserByUsername(username: string): Promise<any | null> {
+    return await this.get('SELECT * FROM admin_users WHERE username = $1', [username]);
+  }
+
+  /**
+   * Replace an admin user's password hash
+   */
+  async updateAdminUserPassword(userId: number, passwordHash: string): Promise<void> {
+    await this.run(`
+      UPDATE admin_users
+      SET password_hash = $1, updated_at = now()
+      WHERE id = $2
+    `, [passwordHash, userId]);
+  }
+
+  /**
+   * Record an admin session and the user's last login time
+   */
+  async createAdminSession(sessionId: string, userId: number, expiresAt: Date): Promise<void> {
+    await this.run(`
+      INSERT INTO admin_sessions (id, user_id, expires_at)
+      VALUES ($1, $2, $3)
+    `, [sessionId, userId, expiresAt.toISOString()]);
+    await this.run('UPDATE admin_users SET last_login_at = now() WHERE id = $1', [userId]);
+  }
+
+  /**
+   * Get an admin session with its user (null if unknown)
+   */
+  async getAdminSession(sessionId: string): Promise<any | null> {
+    return await this.get(`
+      SELECT s.id, s.user_id, s.expires_at, s.revoked_at, u.username, u.role, u.client_id
+      FROM admin_sessions s
+      INNER JOIN admin_users u ON u.id = s.user_id
+      WHERE s.id = $1
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke a single admin session (logout)
+   */
+  async revokeAdminSession(sessionId: string): Promise<void> {
+    await this.run(`
+      UPDATE admin_sessions
+      SET revoked_at = now()
+      WHERE id = $1 AND revoked_at IS NULL
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke every session for an admin user (e.g., after a password reset)
+   */
+  async revokeAdminUserSessions(userId: number): Promise<void> {
+    await this.run(`
+      UPDATE admin_sessions
+      SET revoked_at = now()
+      WHERE user_id = $1 AND revoked_at IS NULL
+    `, [userId]);
+  }
+
+  // ==================== CALLBACK QUERIES ====================
+
+  /**
+   * Get callback requests across all clients (optionally filtered by status)
+   */
+  async getCallbackRequests(opts?: { status?: string; limit?: number }) {
+    const params: any[] = [];
+    const statusFilter = opts?.status ? `WHERE status = $${params.push(opts.status)}` : '';
+
+    return await this.all(`
+      SELECT id, client_id, customer_name, customer_phone, preferred_time, reason, department, status, created_at, completed_at
+      FROM callback_requests
+      ${statusFilter}
+      ORDER BY created_at DESC
+      LIMIT $${params.push(opts?.limit || 50)}
+    `, params);
+  }
+
+  /**
+   * Save callback request
+   * Returns the new callback id (also records the 'created' audit event)
+   */
+  async saveCallbackRequest(data: CallbackRequestInput): Promise<number> {
+    const row = await this.get(`
+      INSERT INTO callback_requests (
+        client_id, customer_name, customer_phone, preferred_time, reason, department, scheduled_for
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [
+      data.clientId,
+      data.customerName,
+      data.customerPhone,
+      data.preferredTime,
+      data.reason,
+      data.department,
+      data.scheduledFor ? data.scheduledFor.toISOString() : null
+    ]);
+
+    const callbackId = row.id;
+    await this.addCallbackEvent(callbackId, {
+      action: 'created',
+      actor: 'assistant',
+      toStatus: 'pending',
+      details: {
+        preferredTime: data.preferredTime,
+        scheduledFor: data.scheduledFor ? data.scheduledFor.toISOString() : null
+      }
+    });
+
+    return callbackId;
+  }
+
+  /**
+   * Get callback requests for a specific client
+   * - status: pending/completed/cancelled ('all' or omitted = any)
+   * - assignedTo: only callbacks assigned to this staff member
+   * - overdue: only pending callbacks past their due time
+   */
+  async getCallbackRequestsByClient(
+    clientId: string,
+    opts?: { status?: string; assignedTo?: string; overdue?: boolean; limit?: number }
+  ) {
+    const params: any[] = [clientId];
+    const conditions = ['client_id = $1'];
+
+    if (opts?.status && opts.status !== 'all') {
+      conditions.push(`status = $${params.push(opts.status)}`);
+    }
+    if (opts?.assignedTo) {
+      conditions.push(`assigned_to = $${params.push(opts.assignedTo)}`);
+    }
+    if (opts?.overdue) {
+      conditions.push(`status = 'pending' AND ${CALLBACK_DUE_SQL} < now()`);
+    }
+
+    return await this.all(`
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${opts?.overdue ? `${CALLBACK_DUE_SQL} ASC` : 'created_at DESC'}
+      LIMIT $${params.push(opts?.limit || 50)}
+    `, params);
+  }
+
+  /**
+   * Get one callback request (scoped to its client)
+   */
+  async getCallbackRequest(clientId: string, callbackId: number) {
+    return await this.get(`
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE id = $1 AND client_id = $2
+    `, [callbackId, clientId]);
+  }
+
+  /**
+   * Update a pending callback request (see SqliteRepository.updatePendingCallbackRequest)
+   * Returns false if nothing was updated
+   */
+  async updatePendingCallbackRequest(
+    callbackId: number,
+    changes: CallbackChanges,
+    opts?: { unlessClaimedByOther?: string }
+  ): Promise<boolean> {
+    const params: any[] = [];
+    const assignments = Object.entries(changes).map(([column, value]) => `${column} = $${params.push(value)}`);
+    const idParam = params.push(callbackId);
+    const guard = opts?.unlessClaimedByOther
+      ? `AND (assigned_to IS NULL OR assigned_to = $${params.push(opts.unlessClaimedByOther)})`
+      : '';
+
+    const changed = await this.run(`
+      UPDATE callback_requests
+      SET ${assignments.join(', ')}, updated_at = now()
+      WHERE id = $${idParam} AND status = 'pending' ${guard}
+    `, params);
+
+    if (changed > 0 && 'scheduled_for' in changes) {
+      // Reminders were for the old time; the scheduler queues new ones for the new time
+      await this.run('DELETE FROM callback_reminders WHERE callback_id = $1', [callbackId]);
+    }
+
+    return changed > 0;
+  }
+
+  /**
+   * Record an audit event for a callback
+   */
+  async addCallbackEvent(callbackId: number, event: CallbackEventInput): Promise<void> {
+    await this.run(`
+      INSERT INTO callback_events (callback_id, action, actor, from_status, to_status, note, details)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      callbackId,
+      event.action,
+      event.actor,
+      event.fromStatus || null,
+      event.toStatus || null,
+      event.note || null,
+      event.details ? JSON.stringify(event.details) : null
+    ]);
+  }
+
+  /**
+   * Audit trail for a callback, oldest first
+   */
+  async getCallbackEvents(callbackId: number) {
+    const rows = await this.all(`
+      SELECT id, action, actor, from_status, to_status, note, details, created_at
+      FROM callback_events
+      WHERE callback_id = $1
+      ORDER BY created_at ASC, id ASC
+    `, [callbackId]);
+
+    return rows.map((row: any) => ({
+      ...row,
+      details: row.details ? JSON.parse(row.details) : null
+    }));
+  }
+
+  // ==================== OUTBOUND CALLBACK QUERIES ====================
+
+  /**
+   * Mark a pending callback as dialing (one outbound call at a time)
+   * A call still dialing after `dialingTimeoutMinutes` lost its end-of-call report and no longer blocks
+   * Returns false if it is closed or a call is already being placed
+   */
+  async startOutboundCallback(callbackId: number, now: Date, dialingTimeoutMinutes: number): Promise<boolean> {
+    const changed = await this.run(`
+      UPDATE callback_requests
+      SET outbound_status = 'dialing',
+          outbound_attempts = COALESCE(outbound_attempts, 0) + 1,
+          outbound_attempted_at = $1,
+          outbound_call_id = NULL,
+          outbound_ended_reason = NULL,
+          updated_at = now()
+      WHERE id = $2 AND status = 'pending'
+        AND (outbound_status IS NULL OR outbound_status != 'dialing'
+          OR outbound_attempted_at <= $1::timestamptz - ($3::text || ' minutes')::interval)
+    `, [now.toISOString(), callbackId, dialingTimeoutMinutes]);
+
+    return changed > 0;
+  }
+
+  /**
+   * Link the Vapi call that was placed for a callback
+   */
+  async setOutboundCallbackCall(callbackId: number, callId: string): Promise<void> {
+    await this.run(`
+      UPDATE callback_requests
+      SET outbound_call_id = $1, updated_at = now()
+      WHERE id = $2
+    `, [callId, callbackId]);
+  }
+
+  /**
+   * Record how the latest outbound call ended
+   */
+  async finishOutboundCallback(
+    callbackId: number,
+    outboundStatus: 'completed' | 'failed',
+    endedReason: string | null
+  ): Promise<void> {
+    await this.run(`
+      UPDATE callback_requests
+      SET outbound_status = $1, outbound_ended_reason = $2, updated_at = now()
+      WHERE id = $3
+    `, [outboundStatus, endedReason, callbackId]);
+  }
+
+  /**
+   * Find the callback an outbound call was placed for
+   */
+  async getCallbackByOutboundCallId(callId: string) {
+    return await this.get(`
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE outbound_call_id = $1
+    `, [callId]);
+  }
+
+  /**
+   * Unassigned pending callbacks whose scheduled time has arrived and that
+   * haven't been dialed yet (or whose dial timed out before a call was placed),
+   * for clients that can place calls; callbacks due more than `windowHours` ago are left to staff
+   */
+  async getCallbacksDueForDial(now: Date, limit: number, dialingTimeoutMinutes: number, windowHours: number) {
+    return await this.all(`
+      SELECT cr.id, cr.client_id
+      FROM callback_requests cr
+      INNER JOIN clients c ON c.id = cr.client_id
+      WHERE cr.status = 'pending'
+        AND cr.assigned_to IS NULL
+        AND cr.scheduled_for IS NOT NULL
+        AND cr.scheduled_for <= $1::timestamptz
+        AND cr.scheduled_for > $1::timestamptz - ($4::text || ' hours')::interval
+        AND (COALESCE(cr.outbound_attempts, 0) = 0
+          OR (cr.outbound_status = 'dialing' AND cr.outbound_call_id IS NULL
+            AND cr.outbound_attempted_at <= $1::timestamptz - ($3::text || ' minutes')::interval))
+        AND c.vapi_assistant_id IS NOT NULL
+        AND cr.client_id IN (SELECT client_id FROM client_phone_numbers)
+      ORDER BY cr.scheduled_for ASC
+      LIMIT $2
+    `, [now.toISOString(), limit, dialingTimeoutMinutes, windowHours]);
+  }
+
+  // ==================== CALLBACK REMINDER QUERIES ====================
+
+  /**
+   * Queue reminders for pending callbacks (idempotent - UNIQUE(callback_id, kind))
+   * Queued reminders are skipped up front so the row count is only new ones
+   * Returns how many new reminders were queued
+   */
+  async enqueueCallbackReminders(now: Date, windowMinutes: number, escalateAfterMinutes: number): Promise<number> {
+    const at = now.toISOString();
+
+    const due = await this.run(`
+      INSERT INTO callback_reminders (callback_id, kind, next_attempt_at)
+      SELECT id, 'due', $1::timestamptz
+      FROM callback_requests
+      WHERE status = 'pending'
+        AND ${CALLBACK_DUE_SQL} <= $1::timestamptz + ($2::text || ' minutes')::interval
+        AND ${CALLBACK_DUE_SQL} > $1::timestamptz - ($3::text || ' minutes')::interval
+        AND id NOT IN (SELECT callback_id FROM callback_reminders WHERE kind = 'due')
+      ON CONFLICT (callback_id, kind) DO NOTHING
+    `, [at, windowMinutes, escalateAfterMinutes]);
+
+    const escalation = await this.run(`
+      INSERT INTO callback_reminders (callback_id, kind, next_attempt_at)
+      SELECT id, 'escalation', $1::timestamptz
+      FROM callback_requests
+      WHERE status = 'pending'
+        AND ${CALLBACK_DUE_SQL} <= $1::timestamptz - ($2::text || ' minutes')::interval
+        AND id NOT IN (SELECT callback_id FROM callback_reminders WHERE kind = 'escalation')
+      ON CONFLICT (callback_id, kind) DO NOTHING
+    `, [at, escalateAfterMinutes]);
+
+    return due + escalation;
+  }
+
+  /**
+   * Lease up to `limit` reminders that are ready to send
+   * The lease check is repeated outside the subquery so an instance that waited
+   * on another's row lock skips rows that were just leased
+   * Returns the leased reminders joined with their callback and client
+   */
+  async claimCallbackReminders(claimToken: string, now: Date, leaseSeconds: number, limit: number) {
+    const at = now.toISOString();
+
+    await this.run(`
+      UPDATE callback_reminders
+      SET claimed_by = $1, lease_until = $2::timestamptz + ($3::text || ' seconds')::interval
+      WHERE id IN (
+        SELECT id FROM callback_reminders
+        WHERE status = 'pending'
+          AND next_attempt_at <= $2::timestamptz
+          AND (lease_until IS NULL OR lease_until <= $2::timestamptz)
+        ORDER BY id
+        LIMIT $4
+      )
+        AND (lease_until IS NULL OR lease_until <= $2::timestamptz)
+    `, [claimToken, at, leaseSeconds, limit]);
+
+    return await this.all(`
+      SELECT
+        r.id, r.callback_id, r.kind, r.attempts,
+        c.client_id, c.customer_name, c.customer_phone, c.preferred_time, c.reason, c.department,
+        c.status AS callback_status, c.assigned_to, c.scheduled_for,
+        ${callbackDueSql('c.')} AS due_at,
+        cl.name AS client_name
+      FROM callback_reminders r
+      JOIN callback_requests c ON c.id = r.callback_id
+      LEFT JOIN clients cl ON cl.id = c.client_id
+      WHERE r.claimed_by = $1 AND r.status = 'pending'
+      ORDER BY r.id
+    `, [claimToken]);
+  }
+
+  /**
+   * Notifiers that already delivered a reminder (skipped on retry)
+   */
+  async getDeliveredReminderNotifiers(reminderId: number): Promise<string[]> {
+    const rows = await this.all(`
+      SELECT DISTINCT notifier FROM callback_reminder_attempts
+      WHERE reminder_id = $1 AND success = 1
+    `, [reminderId]);
+    return rows.map((row: any) => row.notifier);
+  }
+
+  /**
+   * Log one delivery attempt
+   */
+  async recordCallbackReminderAttempt(reminderId: number, notifier: string, error: string | null): Promise<void> {
+    await this.run(`
+      INSERT INTO callback_reminder_attempts (reminder_id, notifier, success, error)
+      VALUES ($1, $2, $3, $4)
+    `, [reminderId, notifier, error ? 0 : 1, error]);
+  }
+
+  /**
+   * Close out a reminder (sent, skipped or permanently failed) and release its lease
+   */
+  async finishCallbackReminder(
+    reminderId: number,
+    status: 'sent' | 'skipped' | 'failed',
+    attempts: number,
+    error: string | null = null
+  ): Promise<void> {
+    await this.run(`
+      UPDATE callback_reminders
+      SET status = $1, attempts = $2, last_error = $3, claimed_by = NULL, lease_until = NULL,
+          sent_at = CASE WHEN $1 = 'sent' THEN now() ELSE sent_at END
+      WHERE id = $4
+    `, [status, attempts, error, reminderId]);
+  }
+
+  /**
+   * Release a reminder for another try after `nextAttemptAt`
+   */
+  async retryCallbackReminder(reminderId: number, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await this.run(`
+      UPDATE callback_reminders
+      SET attempts = $1, next_attempt_at = $2, last_error = $3, claimed_by = NULL, lease_until = NULL
+      WHERE id = $4
+    `, [attempts, nextAttemptAt.toISOString(), error, reminderId]);
+  }
+
+  /**
+   * Reminders and delivery attempts for a callback
+   */
+  async getCallbackReminders(callbackId: number) {
+    const reminders = await this.all(`
+      SELECT id, kind, status, attempts, next_attempt_at, last_error, sent_at, created_at
+      FROM callback_reminders
+      WHERE callback_id = $1
+      ORDER BY id
+    `, [callbackId]);
+
+    for (const reminder of reminders) {
+      reminder.deliveries = await this.all(`
+        SELECT notifier, success, error, attempted_at
+        FROM callback_reminder_attempts
+        WHERE reminder_id = $1
+        ORDER BY id
+      `, [reminder.id]);
+    }
+
+    return reminders;
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      throw new Error('Database not initialized. Call init() first.');
+    }
+    return this.pool;
+  }
+
+  private async all(sql: string, params: any[] = []): Promise<any[]> {
+    const result = await this.getPool().query(sql, params);
+    return result.rows.map(normalizeRow);
+  }
+
+  private async get(sql: string, params: any[] = []): Promise<any> {
+    return (await this.all(sql, params))[0];
+  }
+
+  /**
+   * Run a statement; returns the number of rows it changed
+   */
+  private async run(sql: string, params: any[] = []): Promise<number> {
+    const result = await this.getPool().query(sql, params);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Run `fn` in a transaction on one pooled connection
+   */
+  private async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Give the migration runner one pooled connection (its transactions must
+   * stay on a single connection), with `?` placeholders rewritten to `$n`
+   */
+  private async withMigrationConnection<T>(fn: (db: MigrationConnection) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    const query = async (sql: string, params: any[] = []) =>
+      (await client.query(positional(sql), params)).rows.map(normalizeRow);
+
+    try {
+      return await fn({
+        exec: sql => client.query(sql),
+        get: async (sql, params) => (await query(sql, params))[0],
+        all: query,
+        run: query
+      });
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/**
+ * Timestamps come back from pg as Dates; return ISO strings like the rest of the app uses
+ */
+function normalizeRow(row: any): any {
+  for (const key of Object.keys(row)) {
+    if (row[key] instanceof Date) {
+      row[key] = row[key].toISOString();
+    }
+  }
+  return row;
+}
+
+function reservationValues(data: ReservationInput): any[] {
+  return [
+    data.clientId,
+    data.inventoryId,
+    data.callId || null,
+    data.quantity,
+    data.startDate,
+    data.endDate,
+    data.customerName || null,
+    data.customerPhone || null,
+    data.jobsite || null,
+    data.holdExpiresAt.toISOString()
+  ];
+}
+
+function placeholders(values: any[]): string {
+  return values.map((_, i) => `$${i + 1}`).join(', ');
+}
+
+function positional(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
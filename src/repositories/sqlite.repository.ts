@@ -0,0 +1,2311 @@
+// src/repositories/sqlite.repository.ts
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { join } from 'path';
+import { Migration, MigrationStatus, migrationService } from '../services/migration.service';
+import {
+  StorageRepository,
+  CALLBACK_OVERDUE_HOURS,
+  CallReport,
+  CallStart,
+  CallStatusUpdate,
+  CallMessageInput,
+  BillingSummary,
+  ContactUpdate,
+  WebhookEventInput,
+  SupervisorActionInput,
+  InventoryItemInput,
+  InventoryChanges,
+  SalesListingInput,
+  SalesListingChanges,
+  ReservationInput,
+  ReservationFit,
+  ReservationChanges,
+  StoredRentalPricing,
+  RentalPricingInput,
+  QuoteInput,
+  ClientInput,
+  StoredBusinessHours,
+  BusinessHoursInput,
+  StoredDepartmentRouting,
+  DepartmentRoutingInput,
+  CallbackRequestInput,
+  CallbackChanges,
+  CallbackEventInput
+} from './storage.repository';
+
+const callbackDueSql = (table = '') =>
+  `datetime(COALESCE(${table}scheduled_for, datetime(${table}created_at, '+${CALLBACK_OVERDUE_HOURS} hours')))`;
+const CALLBACK_DUE_SQL = callbackDueSql();
+
+const CALLBACK_COLUMNS = `id, client_id, customer_name, customer_phone, preferred_time, reason, department, status,
+  assigned_to, claimed_at, scheduled_for, created_at, updated_at, completed_at, cancelled_at,
+  outbound_call_id, outbound_status, outbound_attempts, outbound_attempted_at, outbound_ended_reason,
+  (status = 'pending' AND ${CALLBACK_DUE_SQL} < datetime('now')) AS overdue`;
+
+const RESERVATION_COLUMNS = `r.*, i.model, i.category, i.stock_number,
+  (r.status = 'hold' AND datetime(r.hold_expires_at) <= datetime('now')) AS expired`;
+
+const CALL_SALES_LISTING_COLUMNS = `cl.call_id, cl.listing_id, cl.source,
+  l.stock_number, l.model, l.category, l.year, l.asking_price, l.hours, l.status`;
+
+/**
+ * Storage repository for SQLite (the default driver)
+ * Handles initialization, queries, and migrations
+ */
+export class SqliteRepository implements StorageRepository {
+  readonly driver = 'sqlite' as const;
+  private db: Database | null = null;
+  // Transactions on the shared connection run one at a time
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  // A file path or ':memory:'; the project root's calls.db by default
+  constructor(private readonly dbPath: string = join(process.cwd(), 'calls.db')) {}
+
+  /**
+   * Initialize database connection and apply pending migrations
+   * A new (empty) database also gets the seed data. `migrate: false` only
+   * connects, for the migration CLI
+   * Calling it again keeps the open connection (a :memory: database lives as long as it)
+   */
+  async init(options: { migrate?: boolean } = {}): Promise<void> {
+    try {
+      if (!this.db) {
+        this.db = await open({
+          filename: this.dbPath,
+          driver: sqlite3.Database
+        });
+      }
+
+      if (options.migrate !== false) {
+        const { count } = (await this.db.get("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'"))!;
+
+        await migrationService.migrate(this.db);
+        if (count === 0) {
+          await migrationService.seed(this.db);
+        }
+      }
+
+      // Enable foreign keys
+      await this.db.run('PRAGMA foreign_keys = ON');
+    } catch (error: any) {
+      console.error('[Database] Failed to initialize:', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Get database instance
+   */
+  getDb(): Database {
+    if (!this.db) {
+      throw new Error('Database not initialized. Call init() first.');
+    }
+    return this.db;
+  }
+
+  /**
+   * Run `fn` in a BEGIN IMMEDIATE transaction (takes the write lock up front,
+   * so other processes sharing the file wait for it)
+   */
+  private async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      const db = this.getDb();
+      await db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        await db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+    this.transactions = run.catch(() => undefined);
+    return await run;
+  }
+
+  /**
+   * Apply pending migrations (up to and including `to` if given)
+   */
+  async migrate(options: { to?: number } = {}): Promise<Migration[]> {
+    return await migrationService.migrate(this.getDb(), options);
+  }
+
+  /**
+   * Roll back the most recently applied migrations
+   */
+  async rollback(steps = 1): Promise<Migration[]> {
+    return await migrationService.rollback(this.getDb(), steps);
+  }
+
+  /**
+   * Every known migration with when it was applied
+   */
+  async migrationStatus(): Promise<MigrationStatus[]> {
+    return await migrationService.status(this.getDb());
+  }
+
+  /**
+   * Load the seed data (safe to re-run)
+   */
+  async seed(): Promise<void> {
+    await migrationService.seed(this.getDb());
+  }
+
+  /**
+   * Save call record from end-of-call-report
+   * Upserts so the row created while the call was live keeps its created_at,
+   * client and conversation; report fields win over live values
+   */
+  async saveCall(callData: CallReport): Promise<void> {
+    const db = this.getDb();
+
+    // Calculate duration
+    let durationSeconds: number | null = null;
+    if (callData.startedAt && callData.endedAt) {
+      const start = new Date(callData.startedAt).getTime();
+      const end = new Date(callData.endedAt).getTime();
+      durationSeconds = Math.floor((end - start) / 1000);
+    }
+
+    await db.run(`
+      INSERT INTO calls (
+        id, client_id, phone_number_id, caller_phone, call_type,
+        started_at, ended_at, duration_seconds,
+        status, ended_reason,
+        transcript, summary, recording_url, stereo_recording_url,
+        success_score,
+        cost_total, cost_transport, cost_stt, cost_llm, cost_tts, cost_vapi,
+        llm_prompt_tokens, llm_completion_tokens, tts_characters,
+        updated_at
+      ) VALUES (
+        ?, COALESCE(?, (SELECT client_id FROM calls WHERE id = ?), 'tex-intel-primary'), ?, ?, ?,
+        ?, ?, ?,
+        ?, ?,
+        ?, ?, ?, ?,
+        ?,
+        ?, ?, ?, ?, ?, ?,
+        ?, ?, ?,
+        CURRENT_TIMESTAMP
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        client_id = excluded.client_id,
+        phone_number_id = COALESCE(excluded.phone_number_id, calls.phone_number_id),
+        caller_phone = COALESCE(excluded.caller_phone, calls.caller_phone),
+        call_type = COALESCE(excluded.call_type, calls.call_type),
+        started_at = COALESCE(excluded.started_at, calls.started_at),
+        ended_at = COALESCE(excluded.ended_at, calls.ended_at),
+        duration_seconds = COALESCE(excluded.duration_seconds, calls.duration_seconds),
+        status = excluded.status,
+        ended_reason = COALESCE(excluded.ended_reason, calls.ended_reason),
+        transcript = excluded.transcript,
+        summary = excluded.summary,
+        recording_url = excluded.recording_url,
+        stereo_recording_url = excluded.stereo_recording_url,
+        success_score = excluded.success_score,
+        cost_total = excluded.cost_total,
+        cost_transport = excluded.cost_transport,
+        cost_stt = excluded.cost_stt,
+        cost_llm = excluded.cost_llm,
+        cost_tts = excluded.cost_tts,
+        cost_vapi = excluded.cost_vapi,
+        llm_prompt_tokens = excluded.llm_prompt_tokens,
+        llm_completion_tokens = excluded.llm_completion_tokens,
+        tts_characters = excluded.tts_characters,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.id,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.startedAt || null,
+      callData.endedAt || null,
+      durationSeconds,
+      callData.status,
+      callData.endedReason || null,
+      callData.transcript || null,
+      callData.summary || null,
+      callData.recordingUrl || null,
+      callData.stereoRecordingUrl || null,
+      callData.successScore || null,
+      callData.cost || null,
+      callData.costBreakdown?.transport || null,
+      callData.costBreakdown?.stt || null,
+      callData.costBreakdown?.llm || null,
+      callData.costBreakdown?.tts || null,
+      callData.costBreakdown?.vapi || null,
+      callData.costBreakdown?.llmPromptTokens || null,
+      callData.costBreakdown?.llmCompletionTokens || null,
+      callData.costBreakdown?.ttsCharacters || null
+    ]);
+  }
+
+  /**
+   * Create the calls row when a call starts (assistant-request), so live and
+   * abandoned calls are visible before any end-of-call report
+   * An existing row only picks up the control URL
+   */
+  async recordCallStart(callData: CallStart): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO calls (id, client_id, phone_number_id, caller_phone, call_type, status, control_url)
+      VALUES (?, COALESCE(?, 'tex-intel-primary'), ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        control_url = COALESCE(excluded.control_url, calls.control_url)
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.status || 'ringing',
+      callData.controlUrl || null
+    ]);
+  }
+
+  /**
+   * Apply a status-update webhook
+   * - in-progress stamps started_at, ended stamps ended_at/duration (first value wins)
+   * - creates the row if the call never went through assistant-request (e.g. outbound calls)
+   */
+  async updateCallStatus(callData: CallStatusUpdate): Promise<void> {
+    const db = this.getDb();
+    const at = callData.at.toISOString();
+    const startedAt = callData.status === 'in-progress' ? at : null;
+    const endedAt = callData.status === 'ended' ? at : null;
+
+    await db.run(`
+      INSERT INTO calls (
+        id, client_id, phone_number_id, caller_phone, call_type, status, ended_reason, started_at, ended_at, control_url
+      ) VALUES (?, COALESCE(?, 'tex-intel-primary'), ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        ended_reason = COALESCE(excluded.ended_reason, calls.ended_reason),
+        control_url = COALESCE(excluded.control_url, calls.control_url),
+        started_at = COALESCE(calls.started_at, excluded.started_at),
+        ended_at = COALESCE(calls.ended_at, excluded.ended_at),
+        duration_seconds = COALESCE(
+          calls.duration_seconds,
+          CASE WHEN excluded.ended_at IS NOT NULL AND calls.started_at IS NOT NULL
+            THEN CAST(ROUND((julianday(excluded.ended_at) - julianday(calls.started_at)) * 86400) AS INTEGER)
+          END
+        ),
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      callData.id,
+      callData.clientId || null,
+      callData.phoneNumberId || null,
+      callData.callerPhone || null,
+      callData.callType || null,
+      callData.status,
+      callData.endedReason || null,
+      startedAt,
+      endedAt,
+      callData.controlUrl || null
+    ]);
+  }
+
+  /**
+   * Store a conversation-update's messages
+   * Vapi sends the whole conversation each time; only the new tail is written
+   * (the last stored message is rewritten in case it grew since)
+   * Returns how many messages were written
+   */
+  async saveCallMessages(callId: string, messages: CallMessageInput[]): Promise<number> {
+    const db = this.getDb();
+    const stored = await db.get('SELECT MAX(position) AS last FROM call_messages WHERE call_id = ?', [callId]);
+    const from = stored?.last ?? 0;
+
+    let written = 0;
+    for (let position = from; position < messages.length; position++) {
+      const message = messages[position];
+      await db.run(`
+        INSERT INTO call_messages (call_id, position, role, message, seconds_from_start, time)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(call_id, position) DO UPDATE SET
+          role = excluded.role,
+          message = excluded.message,
+          seconds_from_start = excluded.seconds_from_start,
+          time = excluded.time,
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        callId,
+        position,
+        message.role,
+        message.message,
+        message.secondsFromStart ?? null,
+        message.time ?? null
+      ]);
+      written++;
+    }
+
+    return written;
+  }
+
+  /**
+   * Conversation stored for a call, in order
+   */
+  async getCallMessages(callId: string) {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT position, role, message, seconds_from_start, time
+      FROM call_messages
+      WHERE call_id = ?
+      ORDER BY position ASC
+    `, [callId]);
+  }
+
+  /**
+   * Save structured data for a call
+   */
+  async saveStructuredData(callId: string, data: any): Promise<void> {
+    const db = this.getDb();
+
+    await db.run(`
+      INSERT OR REPLACE INTO call_structured_data (
+        call_id,
+        caller_name, caller_company, caller_phone, caller_email,
+        intent_category, intent_subcategory,
+        machine_make, machine_model, machine_year, machine_serial, machine_category,
+        location, timing, urgency,
+        outcome_type, outcome_transferred_to, outcome_next_step, outcome_scheduled_callback_time,
+        notes,
+        raw_json
+      ) VALUES (
+        ?,
+        ?, ?, ?, ?,
+        ?, ?,
+        ?, ?, ?, ?, ?,
+        ?, ?, ?,
+        ?, ?, ?, ?,
+        ?,
+        ?
+      )
+    `, [
+      callId,
+      data.caller?.name || null,
+      data.caller?.company || null,
+      data.caller?.phone || null,
+      data.caller?.email || null,
+      data.intent?.category || null,
+      data.intent?.subcategory || null,
+      data.machine?.make || null,
+      data.machine?.model || null,
+      data.machine?.year || null,
+      data.machine?.serial || null,
+      data.machine?.category || null,
+      data.details?.location || null,
+      data.details?.timing || null,
+      data.details?.urgency || null,
+      data.outcome?.type || null,
+      data.outcome?.transferred_to || null,
+      data.outcome?.next_step || null,
+      data.outcome?.scheduled_callback_time || null,
+      data.notes || null,
+      JSON.stringify(data)
+    ]);
+
+  }
+
+  /**
+   * Whether structured data has been saved for a call
+   */
+  async hasStructuredData(callId: string): Promise<boolean> {
+    const db = this.getDb();
+    return !!(await db.get('SELECT 1 FROM call_structured_data WHERE call_id = ?', [callId]));
+  }
+
+  /**
+   * Get call by ID
+   */
+  async getCall(callId: string): Promise<any> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM call_details WHERE id = ?', [callId]);
+  }
+
+  /**
+   * Get multiple calls by IDs in a single query (batch fetch)
+   * More efficient than calling getCall() in a loop
+   */
+  async getCallsByIds(callIds: string[]): Promise<any[]> {
+    if (callIds.length === 0) {
+      return [];
+    }
+
+    const db = this.getDb();
+    const placeholders = callIds.map(() => '?').join(',');
+    return await db.all(
+      `SELECT * FROM call_details WHERE id IN (${placeholders})`,
+      callIds
+    );
+  }
+
+  /**
+   * Get recent calls
+   */
+  async getRecentCalls(limit: number = 10, clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    if (clientId) {
+      return await db.all(
+        'SELECT * FROM call_details WHERE client_id = ? ORDER BY created_at DESC LIMIT ?',
+        [clientId, limit]
+      );
+    }
+
+    return await db.all(
+      'SELECT * FROM call_details ORDER BY created_at DESC LIMIT ?',
+      [limit]
+    );
+  }
+
+  /**
+   * Get billing summary with cost aggregation
+   * More efficient than fetching from VAPI API
+   */
+  async getBillingSummary(params?: {
+    clientId?: string;
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+  }): Promise<BillingSummary> {
+    const db = this.getDb();
+
+    let whereClause = 'WHERE 1=1';
+    const queryParams: any[] = [];
+
+    if (params?.clientId) {
+      whereClause += ' AND client_id = ?';
+      queryParams.push(params.clientId);
+    }
+
+    if (params?.startDate) {
+      whereClause += ' AND created_at >= ?';
+      queryParams.push(params.startDate);
+    }
+
+    if (params?.endDate) {
+      whereClause += ' AND created_at <= ?';
+      queryParams.push(params.endDate);
+    }
+
+    // Get calls with cost data
+    const calls = await db.all(`
+      SELECT
+        id, client_id, created_at, started_at, ended_at, duration_seconds,
+        cost_total, cost_transport, cost_stt, cost_llm, cost_tts, cost_vapi,
+        llm_prompt_tokens, llm_completion_tokens, tts_characters
+      FROM calls
+      ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `, [...queryParams, params?.limit || 100]);
+
+    // Calculate total cost
+    const totalCost = calls.reduce((sum, call) => sum + (call.cost_total || 0), 0);
+
+    return {
+      totalCost,
+      callCount: calls.length,
+      calls
+    };
+  }
+
+  /**
+   * Get daily statistics
+   */
+  async getDailyStats(days: number = 7, clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    if (clientId) {
+      // Same columns as the daily_call_stats view, limited to one client
+      return await db.all(`
+        SELECT
+          DATE(created_at) as date,
+          COUNT(*) as total_calls,
+          COUNT(CASE WHEN status = 'ended' THEN 1 END) as completed_calls,
+          AVG(duration_seconds) as avg_duration,
+          SUM(cost_total) as total_cost,
+          AVG(success_score) as avg_success_score
+        FROM calls
+        WHERE client_id = ? AND DATE(created_at) >= date('now', ?)
+        GROUP BY DATE(created_at)
+        ORDER BY date DESC
+      `, [clientId, `-${days} days`]);
+    }
+
+    return await db.all(`
+      SELECT * FROM daily_call_stats
+      WHERE date >= date('now', ?)
+      ORDER BY date DESC
+    `, [`-${days} days`]);
+  }
+
+  /**
+   * Get intent breakdown
+   */
+  async getIntentBreakdown(clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    if (clientId) {
+      // Same columns as the intent_breakdown view, limited to one client
+      return await db.all(`
+        SELECT
+          s.intent_category,
+          COUNT(*) as count,
+          AVG(c.success_score) as avg_success_score,
+          AVG(c.duration_seconds) as avg_duration
+        FROM call_structured_data s
+        JOIN calls c ON s.call_id = c.id
+        WHERE s.intent_category IS NOT NULL AND c.client_id = ?
+        GROUP BY s.intent_category
+        ORDER BY count DESC
+      `, [clientId]);
+    }
+
+    return await db.all('SELECT * FROM intent_breakdown');
+  }
+
+  /**
+   * Update or create contact from call
+   */
+  async updateContact(phoneNumber: string, data: ContactUpdate): Promise<void> {
+    const db = this.getDb();
+
+    // Check if contact exists
+    const existing = await db.get(
+      'SELECT * FROM contacts WHERE phone_number = ?',
+      [phoneNumber]
+    );
+
+    if (existing) {
+      // Update existing
+      await db.run(`
+        UPDATE contacts
+        SET
+          name = COALESCE(?, name),
+          company = COALESCE(?, company),
+          email = COALESCE(?, email),
+          last_machine = COALESCE(?, last_machine),
+          total_calls = total_calls + 1,
+          last_call_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE phone_number = ?
+      `, [
+        data.name || null,
+        data.company || null,
+        data.email || null,
+        data.lastMachine || null,
+        phoneNumber
+      ]);
+    } else {
+      // Create new
+      await db.run(`
+        INSERT INTO contacts (
+          phone_number, name, company, email, last_machine,
+          total_calls, first_call_at, last_call_at
+        ) VALUES (?, ?, ?, ?, ?, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      `, [
+        phoneNumber,
+        data.name || null,
+        data.company || null,
+        data.email || null,
+        data.lastMachine || null
+      ]);
+    }
+
+  }
+
+  // ==================== WEBHOOK INBOX QUERIES ====================
+
+  /**
+   * Save a webhook delivery to the inbox
+   * A redelivery of a known event only bumps `deliveries` (and refreshes the
+   * payload if the event has not been processed yet)
+   * Returns the event's id and status
+   */
+  async recordWebhookEvent(data: WebhookEventInput): Promise<{ id: number; status: string }> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO webhook_events (call_id, event_type, event_key, payload)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(call_id, event_key) DO UPDATE SET
+        deliveries = webhook_events.deliveries + 1,
+        payload = CASE WHEN webhook_events.status = 'processed' THEN webhook_events.payload ELSE excluded.payload END,
+        updated_at = CURRENT_TIMESTAMP
+    `, [data.callId, data.eventType, data.eventKey, data.payload]);
+
+    return (await db.get(
+      'SELECT id, status FROM webhook_events WHERE call_id = ? AND event_key = ?',
+      [data.callId, data.eventKey]
+    ))!;
+  }
+
+  /**
+   * Take a webhook event for processing
+   * Pending and dead events can be taken; so can one stuck in processing for
+   * `staleMinutes` (the process died mid-way). Returns false if already processed
+   * or another delivery is working on it.
+   */
+  async claimWebhookEvent(id: number, staleMinutes: number): Promise<boolean> {
+    const db = this.getDb();
+    const result = await db.run(`
+      UPDATE webhook_events
+      SET status = 'processing', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+        AND (status IN ('pending', 'dead')
+          OR (status = 'processing' AND updated_at < datetime('now', ?)))
+    `, [id, `-${staleMinutes} minutes`]);
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Record the outcome of processing a webhook event
+   */
+  async finishWebhookEvent(id: number, status: 'processed' | 'dead', error?: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE webhook_events
+      SET status = ?,
+          last_error = ?,
+          processed_at = CASE WHEN ? = 'processed' THEN CURRENT_TIMESTAMP ELSE processed_at END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [status, error || null, status, id]);
+  }
+
+  /**
+   * One webhook event, with its payload
+   */
+  async getWebhookEvent(id: number) {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM webhook_events WHERE id = ?', [id]);
+  }
+
+  /**
+   * Webhook events, newest first (payload omitted)
+   */
+  async getWebhookEvents(filters: { status?: string; callId?: string; limit?: number } = {}) {
+    const db = this.getDb();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.callId) {
+      conditions.push('call_id = ?');
+      params.push(filters.callId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return await db.all(`
+      SELECT id, call_id, event_type, event_key, status, attempts, deliveries, last_error,
+        received_at, processed_at, updated_at
+      FROM webhook_events
+      ${where}
+      ORDER BY id DESC
+      LIMIT ?
+    `, [...params, filters.limit || 50]);
+  }
+
+  // ==================== SUPERVISOR ACTION QUERIES ====================
+
+  /**
+   * Record a Live Call Control action taken by an admin (sent or failed)
+   * Returns the new action ID
+   */
+  async saveSupervisorAction(data: SupervisorActionInput): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO supervisor_actions (call_id, client_id, actor, action, details, success, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      data.callId,
+      data.clientId,
+      data.actor,
+      data.action,
+      data.details ? JSON.stringify(data.details) : null,
+      data.success ? 1 : 0,
+      data.error || null
+    ]);
+    return result.lastID!;
+  }
+
+  /**
+   * Supervisor actions taken on a call, oldest first
+   */
+  async getSupervisorActions(callId: string) {
+    const db = this.getDb();
+    const rows = await db.all(`
+      SELECT id, call_id, client_id, actor, action, details, success, error, created_at
+      FROM supervisor_actions
+      WHERE call_id = ?
+      ORDER BY id ASC
+    `, [callId]);
+
+    return rows.map((row: any) => ({
+      ...row,
+      details: row.details ? JSON.parse(row.details) : null,
+      success: row.success === 1
+    }));
+  }
+
+  // ==================== CONTACTS QUERIES ====================
+
+  /**
+   * Get contact by phone number
+   */
+  async getContact(phoneNumber: string): Promise<any | null> {
+    const db = this.getDb();
+    const result = await db.get(
+      'SELECT * FROM contacts WHERE phone_number = ?',
+      [phoneNumber]
+    );
+    return result;
+  }
+
+  /**
+   * Get all contacts
+   */
+  async getAllContacts(): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all('SELECT * FROM contacts ORDER BY name');
+  }
+
+  /**
+   * Search contacts by name or company
+   */
+  async searchContacts(query: string): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT * FROM contacts
+      WHERE name LIKE ? OR company LIKE ?
+      ORDER BY name
+    `, [`%${query}%`, `%${query}%`]);
+  }
+
+  // ==================== INVENTORY QUERIES ====================
+
+  /**
+   * Get all inventory items
+   */
+  async getAllInventory(): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all('SELECT * FROM inventory WHERE retired_at IS NULL ORDER BY category, model');
+  }
+
+  /**
+   * Get available inventory (available > 0), optionally for one client's fleet
+   */
+  async getAvailableInventory(clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    if (clientId) {
+      return await db.all(
+        'SELECT * FROM inventory WHERE client_id = ? AND available > 0 AND retired_at IS NULL ORDER BY category, model',
+        [clientId]
+      );
+    }
+
+    return await db.all(
+      'SELECT * FROM inventory WHERE available > 0 AND retired_at IS NULL ORDER BY category, model'
+    );
+  }
+
+  /**
+   * Search inventory by model, category, or specs
+   */
+  async searchInventory(query: string): Promise<any[]> {
+    const db = this.getDb();
+    const searchPattern = `%${query}%`;
+    return await db.all(`
+      SELECT * FROM inventory
+      WHERE (model LIKE ? OR category LIKE ? OR specs LIKE ?) AND retired_at IS NULL
+      ORDER BY
+        CASE WHEN available > 0 THEN 0 ELSE 1 END,
+        category, model
+    `, [searchPattern, searchPattern, searchPattern]);
+  }
+
+  /**
+   * Search inventory with multiple query variations in a single query
+   * More efficient than multiple separate queries
+   * Limited to one client's fleet when clientId is given
+   */
+  async searchInventoryWithVariations(queryVariations: string[], clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    // Build WHERE clause with OR conditions for each variation
+    let whereConditions = '(' + queryVariations.map(() =>
+      '(model LIKE ? OR category LIKE ? OR specs LIKE ?)'
+    ).join(' OR ') + ') AND retired_at IS NULL';
+
+    // Build parameter array: each variation needs 3 params (model, category, specs)
+    const params = queryVariations.flatMap(variation => {
+      const pattern = `%${variation}%`;
+      return [pattern, pattern, pattern];
+    });
+
+    if (clientId) {
+      whereConditions += ' AND client_id = ?';
+      params.push(clientId);
+    }
+
+    // Group by model to deduplicate and aggregate available count
+    // This matches the original behavior of deduplicating by model name
+    return await db.all(`
+      SELECT
+        client_id,
+        model,
+        category,
+        SUM(available) as available,
+        price_per_day,
+        price_per_week,
+        price_per_month,
+        condition,
+        year,
+        specs,
+        MAX(updated_at) as updated_at
+      FROM inventory
+      WHERE ${whereConditions}
+      GROUP BY client_id, model, price_per_day, price_per_week, price_per_month, condition, year, specs
+      ORDER BY
+        CASE WHEN SUM(available) > 0 THEN 0 ELSE 1 END,
+        category, model
+    `, params);
+  }
+
+  /**
+   * Get inventory by category, optionally for one client's fleet
+   */
+  async getInventoryByCategory(category: string, clientId?: string): Promise<any[]> {
+    const db = this.getDb();
+
+    if (clientId) {
+      return await db.all(
+        'SELECT * FROM inventory WHERE client_id = ? AND category LIKE ? AND retired_at IS NULL ORDER BY model',
+        [clientId, `%${category}%`]
+      );
+    }
+
+    return await db.all(
+      'SELECT * FROM inventory WHERE category LIKE ? AND retired_at IS NULL ORDER BY model',
+      [`%${category}%`]
+    );
+  }
+
+  /**
+   * Update inventory availability
+   */
+  async updateInventoryAvailability(model: string, available: number): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE inventory
+      SET available = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE model = ? AND retired_at IS NULL
+    `, [available, model]);
+  }
+
+  /**
+   * A client's fleet for the portal, optionally including retired items (listed last)
+   */
+  async getClientInventory(clientId: string, opts: { includeRetired?: boolean } = {}): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT * FROM inventory
+      WHERE client_id = ? ${opts.includeRetired ? '' : 'AND retired_at IS NULL'}
+      ORDER BY CASE WHEN retired_at IS NULL THEN 0 ELSE 1 END, category, model
+    `, [clientId]);
+  }
+
+  /**
+   * One inventory item, or undefined if it isn't this client's
+   */
+  async getInventoryItem(clientId: string, itemId: number): Promise<any> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM inventory WHERE id = ? AND client_id = ?', [itemId, clientId]);
+  }
+
+  /**
+   * Add an item to a client's fleet
+   * Returns the new item id
+   */
+  async createInventoryItem(clientId: string, item: InventoryItemInput): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO inventory (
+        client_id, stock_number, model, category, available,
+        price_per_day, price_per_week, price_per_month, condition, year, specs,
+        operating_weight, horsepower, dig_depth, lift_capacity, bucket_size, fuel_type, attachments
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      clientId,
+      item.stockNumber || null,
+      item.model,
+      item.category,
+      item.available,
+      item.pricePerDay,
+      item.pricePerWeek || null,
+      item.pricePerMonth || null,
+      item.condition || null,
+      item.year || null,
+      item.specs || null,
+      item.operatingWeight || null,
+      item.horsepower || null,
+      item.digDepth || null,
+      item.liftCapacity || null,
+      item.bucketSize || null,
+      item.fuelType || null,
+      item.attachments || null
+    ]);
+    return result.lastID!;
+  }
+
+  /**
+   * Update an active (not retired) item in a client's fleet
+   * Returns false if nothing was updated
+   */
+  async updateInventoryItem(clientId: string, itemId: number, changes: InventoryChanges): Promise<boolean> {
+    const db = this.getDb();
+    const columns = Object.keys(changes);
+
+    const result = await db.run(`
+      UPDATE inventory
+      SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND client_id = ? AND retired_at IS NULL
+    `, [...columns.map(column => (changes as any)[column]), itemId, clientId]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Retire an item (kept for history, hidden from searches)
+   * Returns false if it was already retired or isn't this client's
+   */
+  async retireInventoryItem(clientId: string, itemId: number): Promise<boolean> {
+    const db = this.getDb();
+    const result = await db.run(`
+      UPDATE inventory
+      SET retired_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND client_id = ? AND retired_at IS NULL
+    `, [itemId, clientId]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * A client's search aliases
+   */
+  async getInventoryAliases(clientId: string): Promise<Array<{ alias: string; canonical: string }>> {
+    const db = this.getDb();
+    return await db.all(
+      'SELECT alias, canonical FROM inventory_aliases WHERE client_id = ? ORDER BY alias',
+      [clientId]
+    );
+  }
+
+  /**
+   * Replace a client's search aliases
+   */
+  async saveInventoryAliases(clientId: string, aliases: Array<{ alias: string; canonical: string }>): Promise<void> {
+    const db = this.getDb();
+
+    await db.run('DELETE FROM inventory_aliases WHERE client_id = ?', [clientId]);
+
+    for (const { alias, canonical } of aliases) {
+      await db.run(
+        'INSERT INTO inventory_aliases (client_id, alias, canonical) VALUES (?, ?, ?)',
+        [clientId, alias, canonical]
+      );
+    }
+  }
+
+  // ==================== SALES LISTING QUERIES ====================
+
+  /**
+   * A client's machines for sale, optionally including sold ones (listed last)
+   */
+  async getSalesListings(clientId: string, opts: { includeSold?: boolean } = {}): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT * FROM sales_listings
+      WHERE client_id = ? ${opts.includeSold ? '' : "AND status != 'sold'"}
+      ORDER BY CASE WHEN status = 'sold' THEN 1 ELSE 0 END, category, model
+    `, [clientId]);
+  }
+
+  /**
+   * One sales listing, or undefined if it isn't this client's
+   */
+  async getSalesListing(clientId: string, listingId: number): Promise<any> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM sales_listings WHERE id = ? AND client_id = ?', [listingId, clientId]);
+  }
+
+  /**
+   * List a machine for sale
+   * Returns the new listing id
+   */
+  async createSalesListing(clientId: string, listing: SalesListingInput): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO sales_listings (
+        client_id, stock_number, model, category, year, condition,
+        asking_price, hours, serial_number, location, photos_url, description
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      clientId,
+      listing.stockNumber || null,
+      listing.model,
+      listing.category,
+      listing.year || null,
+      listing.condition || null,
+      listing.askingPrice,
+      listing.hours ?? null,
+      listing.serialNumber || null,
+      listing.location || null,
+      listing.photosUrl || null,
+      listing.description || null
+    ]);
+    return result.lastID!;
+  }
+
+  /**
+   * Update one of a client's sales listings
+   * Returns false if nothing was updated
+   */
+  async updateSalesListing(clientId: string, listingId: number, changes: SalesListingChanges): Promise<boolean> {
+    const db = this.getDb();
+    const columns = Object.keys(changes);
+
+    const result = await db.run(`
+      UPDATE sales_listings
+      SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND client_id = ?
+    `, [...columns.map(column => (changes as any)[column]), listingId, clientId]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Record that listings came up on a call (a listing already linked to the call keeps its first source)
+   */
+  async linkCallSalesListings(callId: string, clientId: string, listingIds: number[], source: 'offered' | 'mentioned'): Promise<void> {
+    const db = this.getDb();
+
+    for (const listingId of listingIds) {
+      await db.run(
+        'INSERT OR IGNORE INTO call_sales_listings (call_id, client_id, listing_id, source) VALUES (?, ?, ?, ?)',
+        [callId, clientId, listingId, source]
+      );
+    }
+  }
+
+  /**
+   * The listings that came up on each of these calls (one row per call and listing)
+   */
+  async getCallSalesListings(callIds: string[]): Promise<any[]> {
+    if (callIds.length === 0) {
+      return [];
+    }
+
+    const db = this.getDb();
+    const placeholders = callIds.map(() => '?').join(',');
+    return await db.all(`
+      SELECT ${CALL_SALES_LISTING_COLUMNS}
+      FROM call_sales_listings cl
+      INNER JOIN sales_listings l ON l.id = cl.listing_id
+      WHERE cl.call_id IN (${placeholders})
+      ORDER BY cl.id ASC
+    `, callIds);
+  }
+
+  /**
+   * Calls a client's listings came up on, newest first (optionally for one listing),
+   * with the caller and the call's intent
+   */
+  async getSalesListingCalls(clientId: string, opts?: { listingId?: number; limit?: number }): Promise<any[]> {
+    const db = this.getDb();
+    const conditions = ['cl.client_id = ?'];
+    const params: any[] = [clientId];
+
+    if (opts?.listingId) {
+      conditions.push('cl.listing_id = ?');
+      params.push(opts.listingId);
+    }
+
+    return await db.all(`
+      SELECT ${CALL_SALES_LISTING_COLUMNS}, cl.created_at,
+             c.caller_phone, c.started_at, c.summary, s.caller_name, s.caller_company, s.intent_category
+      FROM call_sales_listings cl
+      INNER JOIN sales_listings l ON l.id = cl.listing_id
+      LEFT JOIN calls c ON c.id = cl.call_id
+      LEFT JOIN call_structured_data s ON s.call_id = cl.call_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY cl.created_at DESC, cl.id DESC
+      LIMIT ?
+    `, [...params, opts?.limit || 100]);
+  }
+
+  // ==================== RESERVATION QUERIES ====================
+
+  /**
+   * Place a reservation (a tentative hold until staff confirm it)
+   * Returns the new reservation id
+   */
+  async createReservation(data: ReservationInput): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO reservations (
+        client_id, inventory_id, call_id, quantity, start_date, end_date,
+        customer_name, customer_phone, jobsite, status, hold_expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'hold', ?)
+    `, [
+      data.clientId,
+      data.inventoryId,
+      data.callId || null,
+      data.quantity,
+      data.startDate,
+      data.endDate,
+      data.customerName || null,
+      data.customerPhone || null,
+      data.jobsite || null,
+      data.holdExpiresAt.toISOString()
+    ]);
+    return result.lastID!;
+  }
+
+  /**
+   * Place a hold if `fits` accepts the item's reservations already booked on its dates
+   * The check and the insert share a write transaction, so two callers can't both
+   * take the last unit. Returns the new reservation id, or null if it didn't fit
+   */
+  async holdReservation(data: ReservationInput, now: Date, fits: ReservationFit): Promise<number | null> {
+    return await this.transaction(async () => {
+      const booked = (await this.getBookedReservations(data.clientId, data.startDate, data.endDate, now))
+        .filter(r => r.inventory_id === data.inventoryId);
+      return fits(booked) ? await this.createReservation(data) : null;
+    });
+  }
+
+  /**
+   * One reservation with its item's model, or undefined if it isn't this client's
+   */
+  async getReservation(clientId: string, reservationId: number): Promise<any> {
+    const db = this.getDb();
+    return await db.get(`
+      SELECT ${RESERVATION_COLUMNS}
+      FROM reservations r
+      INNER JOIN inventory i ON i.id = r.inventory_id
+      WHERE r.id = ? AND r.client_id = ?
+    `, [reservationId, clientId]);
+  }
+
+  /**
+   * A client's reservations, soonest first
+   * - status: hold/confirmed/cancelled ('all' or omitted = any)
+   */
+  async getReservations(clientId: string, opts?: { status?: string; limit?: number }): Promise<any[]> {
+    const db = this.getDb();
+    const conditions = ['r.client_id = ?'];
+    const params: any[] = [clientId];
+
+    if (opts?.status && opts.status !== 'all') {
+      conditions.push('r.status = ?');
+      params.push(opts.status);
+    }
+
+    return await db.all(`
+      SELECT ${RESERVATION_COLUMNS}
+      FROM reservations r
+      INNER JOIN inventory i ON i.id = r.inventory_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY r.start_date ASC, r.id ASC
+      LIMIT ?
+    `, [...params, opts?.limit || 100]);
+  }
+
+  /**
+   * Reservations holding a client's active items on any day from startDate to endDate:
+   * confirmed ones, and holds that haven't expired by `now`
+   */
+  async getBookedReservations(clientId: string, startDate: string, endDate: string, now: Date): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT r.id, r.inventory_id, i.model, r.quantity, r.start_date, r.end_date, r.status
+      FROM reservations r
+      INNER JOIN inventory i ON i.id = r.inventory_id
+      WHERE r.client_id = ?
+        AND i.retired_at IS NULL
+        AND r.start_date <= ? AND r.end_date >= ?
+        AND (r.status = 'confirmed' OR (r.status = 'hold' AND datetime(r.hold_expires_at) > datetime(?)))
+    `, [clientId, endDate, startDate, now.toISOString()]);
+  }
+
+  /**
+   * Move a reservation out of `fromStatus` (guards against two people confirming/cancelling at once)
+   * Returns false if it was no longer in that status
+   */
+  async updateReservationStatus(reservationId: number, fromStatus: string, changes: ReservationChanges): Promise<boolean> {
+    const db = this.getDb();
+    const columns = Object.keys(changes);
+
+    const result = await db.run(`
+      UPDATE reservations
+      SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = ?
+    `, [...columns.map(column => (changes as any)[column]), reservationId, fromStatus]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  // ==================== RENTAL PRICING QUERIES ====================
+
+  /**
+   * Get a client's damage waiver, rental tax and delivery zones (nearest first)
+   */
+  async getClientRentalPricing(clientId: string): Promise<StoredRentalPricing> {
+    const db = this.getDb();
+
+    const client = await db.get('SELECT damage_waiver_percent, rental_tax_percent FROM clients WHERE id = ?', [clientId]);
+    const zones = await db.all(
+      'SELECT max_miles, fee, label FROM delivery_zones WHERE client_id = ? ORDER BY max_miles',
+      [clientId]
+    );
+
+    return {
+      damage_waiver_percent: client?.damage_waiver_percent ?? null,
+      rental_tax_percent: client?.rental_tax_percent ?? null,
+      delivery_zones: zones
+    };
+  }
+
+  /**
+   * Replace a client's rental pricing settings
+   */
+  async saveClientRentalPricing(clientId: string, data: RentalPricingInput): Promise<void> {
+    const db = this.getDb();
+
+    await db.run(
+      'UPDATE clients SET damage_waiver_percent = ?, rental_tax_percent = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [data.damageWaiverPercent, data.taxPercent, clientId]
+    );
+
+    await db.run('DELETE FROM delivery_zones WHERE client_id = ?', [clientId]);
+
+    for (const zone of data.deliveryZones) {
+      await db.run(
+        'INSERT INTO delivery_zones (client_id, max_miles, fee, label) VALUES (?, ?, ?, ?)',
+        [clientId, zone.maxMiles, zone.fee, zone.label || null]
+      );
+    }
+  }
+
+  /**
+   * Record a quote given to a caller
+   * Returns the new quote id
+   */
+  async saveQuote(data: QuoteInput): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO quotes (
+        client_id, call_id, inventory_id, model, quantity, rental_days, start_date, end_date, delivery_miles,
+        rental_amount, damage_waiver_amount, delivery_fee, tax_amount, total, breakdown
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      data.clientId,
+      data.callId || null,
+      data.inventoryId || null,
+      data.model,
+      data.quantity,
+      data.rentalDays,
+      data.startDate || null,
+      data.endDate || null,
+      data.deliveryMiles ?? null,
+      data.rentalAmount,
+      data.damageWaiverAmount,
+      data.deliveryFee ?? null,
+      data.taxAmount,
+      data.total,
+      data.breakdown ? JSON.stringify(data.breakdown) : null
+    ]);
+    return result.lastID!;
+  }
+
+  /**
+   * A client's quotes, newest first (optionally those given on one call)
+   */
+  async getQuotes(clientId: string, opts?: { callId?: string; limit?: number }): Promise<any[]> {
+    const db = this.getDb();
+    const conditions = ['client_id = ?'];
+    const params: any[] = [clientId];
+
+    if (opts?.callId) {
+      conditions.push('call_id = ?');
+      params.push(opts.callId);
+    }
+
+    return await db.all(`
+      SELECT * FROM quotes
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `, [...params, opts?.limit || 100]);
+  }
+
+  // ==================== CLIENT QUERIES ====================
+
+  /**
+   * Get client by ID
+   */
+  async getClientById(clientId: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM clients WHERE id = ?', [clientId]);
+  }
+
+  /**
+   * Get all clients
+   */
+  async getAllClients(): Promise<any[]> {
+    const db = this.getDb();
+    return await db.all('SELECT * FROM clients ORDER BY name');
+  }
+
+  /**
+   * Get client by VAPI phone number ID
+   * Maps phone number to client with fallback to default
+   */
+  async getClientByPhoneNumberId(vapiPhoneNumberId: string): Promise<any | null> {
+    const db = this.getDb();
+
+    // Try to find client by phone number mapping
+    const result = await db.get(`
+      SELECT c.* FROM clients c
+      INNER JOIN client_phone_numbers cpn ON c.id = cpn.client_id
+      WHERE cpn.vapi_phone_number_id = ?
+    `, [vapiPhoneNumberId]);
+
+    // Fallback to default client if not found
+    if (!result) {
+      return await this.getClientById('tex-intel-primary');
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the client a call belongs to (phone number mapping first, then assistant)
+   * Unlike getClientByPhoneNumberId, never falls back to a default client
+   */
+  async getClientForCall(phoneNumberId?: string, assistantId?: string): Promise<any | null> {
+    const db = this.getDb();
+
+    if (phoneNumberId) {
+      const client = await db.get(`
+        SELECT c.* FROM clients c
+        INNER JOIN client_phone_numbers cpn ON c.id = cpn.client_id
+        WHERE cpn.vapi_phone_number_id = ?
+      `, [phoneNumberId]);
+      if (client) return client;
+    }
+
+    if (assistantId) {
+      return await this.getClientByAssistantId(assistantId) || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get client by VAPI assistant ID
+   */
+  async getClientByAssistantId(vapiAssistantId: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM clients WHERE vapi_assistant_id = ?', [vapiAssistantId]);
+  }
+
+  /**
+   * Set the shared secret used to verify a client's webhooks
+   */
+  async updateClientWebhookSecret(clientId: string, secret: string | null): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE clients
+      SET webhook_secret = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [secret, clientId]);
+  }
+
+  /**
+   * Update client's VAPI assistant ID
+   */
+  async updateClientAssistantId(clientId: string, assistantId: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE clients
+      SET vapi_assistant_id = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [assistantId, clientId]);
+  }
+
+  /**
+   * Add or update phone number mapping to client
+   * Returns false (and changes nothing) if the number belongs to another client
+   */
+  async addClientPhoneNumber(
+    clientId: string,
+    vapiPhoneNumberId: string,
+    phoneNumber: string
+  ): Promise<boolean> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO client_phone_numbers
+      (client_id, vapi_phone_number_id, phone_number)
+      VALUES (?, ?, ?)
+      ON CONFLICT (vapi_phone_number_id) DO UPDATE SET
+        phone_number = excluded.phone_number
+      WHERE client_phone_numbers.client_id = excluded.client_id
+    `, [clientId, vapiPhoneNumberId, phoneNumber]);
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Create or update client configuration
+   */
+  async upsertClient(clientData: ClientInput): Promise<void> {
+    const db = this.getDb();
+
+    // Check if client exists
+    const existing = await db.get('SELECT id FROM clients WHERE id = ?', [clientData.id]);
+
+    if (existing) {
+      // Update existing client
+      await db.run(`
+        UPDATE clients
+        SET
+          name = ?,
+          company = ?,
+          sales_phone = ?,
+          service_phone = ?,
+          parts_phone = ?,
+          custom_prompt = ?,
+          additional_context = ?,
+          first_message_template = ?,
+          enable_inventory = ?,
+          enable_transfers = ?,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [
+        clientData.name,
+        clientData.company || null,
+        clientData.salesPhone || null,
+        clientData.servicePhone || null,
+        clientData.partsPhone || null,
+        clientData.customPrompt || null,
+        clientData.additionalContext || null,
+        clientData.firstMessageTemplate || null,
+        clientData.enableInventory ? 1 : 0,
+        clientData.enableTransfers ? 1 : 0,
+        clientData.id
+      ]);
+    } else {
+      // Create new client
+      await db.run(`
+        INSERT INTO clients (
+          id, name, company,
+          sales_phone, service_phone, parts_phone,
+          custom_prompt, additional_context, first_message_template,
+          enable_inventory, enable_transfers
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        clientData.id,
+        clientData.name,
+        clientData.company || null,
+        clientData.salesPhone || null,
+        clientData.servicePhone || null,
+        clientData.partsPhone || null,
+        clientData.customPrompt || null,
+        clientData.additionalContext || null,
+        clientData.firstMessageTemplate || null,
+        clientData.enableInventory ? 1 : 0,
+        clientData.enableTransfers ? 1 : 0
+      ]);
+    }
+  }
+
+  /**
+   * Get client configuration with phone number mapping
+   */
+  async getClientConfig(clientId: string): Promise<any> {
+    const db = this.getDb();
+
+    // Get client details
+    const client = await db.get('SELECT * FROM clients WHERE id = ?', [clientId]);
+
+    if (!client) {
+      return null;
+    }
+
+    // Get phone number mapping
+    const phoneMapping = await db.get(`
+      SELECT vapi_phone_number_id, phone_number
+      FROM client_phone_numbers
+      WHERE client_id = ?
+    `, [clientId]);
+
+    return {
+      ...client,
+      vapi_phone_number_id: phoneMapping?.vapi_phone_number_id || null,
+      phone_number: phoneMapping?.phone_number || null
+    };
+  }
+
+  // ==================== BUSINESS HOURS QUERIES ====================
+
+  /**
+   * Get a client's timezone, weekly hours and holiday/special-hours rows
+   */
+  async getClientBusinessHours(clientId: string): Promise<StoredBusinessHours> {
+    const db = this.getDb();
+
+    const client = await db.get('SELECT timezone FROM clients WHERE id = ?', [clientId]);
+    const weekly = await db.all(
+      'SELECT day_of_week, open_time, close_time FROM client_business_hours WHERE client_id = ? ORDER BY day_of_week',
+      [clientId]
+    );
+    const exceptions = await db.all(
+      'SELECT date, is_closed, open_time, close_time, label FROM client_hours_exceptions WHERE client_id = ? ORDER BY date',
+      [clientId]
+    );
+
+    return {
+      timezone: client?.timezone || null,
+      weekly,
+      exceptions
+    };
+  }
+
+  /**
+   * Replace a client's business hours configuration
+   * Only the parts provided are replaced (timezone, weekly hours, exceptions)
+   */
+  async saveClientBusinessHours(clientId: string, data: BusinessHoursInput): Promise<void> {
+    const db = this.getDb();
+
+    if (data.timezone) {
+      await db.run(
+        'UPDATE clients SET timezone = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [data.timezone, clientId]
+      );
+    }
+
+    if (data.weekly) {
+      await db.run('DELETE FROM client_business_hours WHERE client_id = ?', [clientId]);
+
+      for (let dayOfWeek = 0; dayOfWeek < data.weekly.length; dayOfWeek++) {
+        const hours = data.weekly[dayOfWeek];
+        if (!hours) continue;
+
+        await db.run(`
+          INSERT INTO client_business_hours (client_id, day_of_week, open_time, close_time)
+          VALUES (?, ?, ?, ?)
+        `, [clientId, dayOfWeek, hours.open, hours.close]);
+      }
+    }
+
+    if (data.exceptions) {
+      await db.run('DELETE FROM client_hours_exceptions WHERE client_id = ?', [clientId]);
+
+      for (const exception of data.exceptions) {
+        await db.run(`
+          INSERT OR REPLACE INTO client_hours_exceptions (
+            client_id, date, is_closed, open_time, close_time, label
+          ) VALUES (?, ?, ?, ?, ?, ?)
+        `, [
+          clientId,
+          exception.date,
+          exception.closed ? 1 : 0,
+          exception.closed ? null : exception.open || null,
+          exception.closed ? null : exception.close || null,
+          exception.label || null
+        ]);
+      }
+    }
+  }
+
+  // ==================== DEPARTMENT ROUTING QUERIES ====================
+
+  /**
+   * Get routing settings and custom hours for a client's departments
+   */
+  async getDepartmentRouting(clientId: string): Promise<StoredDepartmentRouting> {
+    const db = this.getDb();
+
+    const routing = await db.all(`
+      SELECT department, after_hours_action, on_call_phone, overflow_phone, voicemail_phone
+      FROM department_routing
+      WHERE client_id = ?
+    `, [clientId]);
+
+    const hours = await db.all(`
+      SELECT department, day_of_week, open_time, close_time
+      FROM department_hours
+      WHERE client_id = ?
+      ORDER BY department, day_of_week
+    `, [clientId]);
+
+    return { routing, hours };
+  }
+
+  /**
+   * Create or replace routing settings for one department
+   * weekly = null clears custom hours (department follows main business hours)
+   */
+  async saveDepartmentRouting(clientId: string, data: DepartmentRoutingInput): Promise<void> {
+    const db = this.getDb();
+
+    await db.run(`
+      INSERT INTO department_routing (
+        client_id, department, after_hours_action, on_call_phone, overflow_phone, voicemail_phone
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(client_id, department) DO UPDATE SET
+        after_hours_action = excluded.after_hours_action,
+        on_call_phone = excluded.on_call_phone,
+        overflow_phone = excluded.overflow_phone,
+        voicemail_phone = excluded.voicemail_phone,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      clientId,
+      data.department,
+      data.afterHoursAction,
+      data.onCallPhone || null,
+      data.overflowPhone || null,
+      data.voicemailPhone || null
+    ]);
+
+    await db.run(
+      'DELETE FROM department_hours WHERE client_id = ? AND department = ?',
+      [clientId, data.department]
+    );
+
+    if (data.weekly) {
+      for (let dayOfWeek = 0; dayOfWeek < data.weekly.length; dayOfWeek++) {
+        const hours = data.weekly[dayOfWeek];
+        if (!hours) continue;
+
+        await db.run(`
+          INSERT INTO department_hours (client_id, department, day_of_week, open_time, close_time)
+          VALUES (?, ?, ?, ?, ?)
+        `, [clientId, data.department, dayOfWeek, hours.open, hours.close]);
+      }
+    }
+  }
+
+  // ==================== PORTAL AUTH QUERIES ====================
+
+  /**
+   * Create a portal user for a client
+   */
+  async createPortalUser(data: { username: string; passwordHash: string; clientId: string }): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO portal_users (username, password_hash, client_id)
+      VALUES (?, ?, ?)
+    `, [data.username, data.passwordHash, data.clientId]);
+    return result.lastID!;
+  }
+
+  /**
+   * Get portal user by username
+   */
+  async getPortalUserByUsername(username: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM portal_users WHERE username = ?', [username]);
+  }
+
+  /**
+   * Replace a portal user's password hash
+   */
+  async updatePortalUserPassword(userId: number, passwordHash: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE portal_users
+      SET password_hash = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [passwordHash, userId]);
+  }
+
+  /**
+   * Record a session and the user's last login time
+   */
+  async createPortalSession(sessionId: string, userId: number, expiresAt: Date): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO portal_sessions (id, user_id, expires_at)
+      VALUES (?, ?, ?)
+    `, [sessionId, userId, expiresAt.toISOString()]);
+    await db.run('UPDATE portal_users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?', [userId]);
+  }
+
+  /**
+   * Get a session with its user (null if unknown)
+   */
+  async getPortalSession(sessionId: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get(`
+      SELECT s.id, s.user_id, s.expires_at, s.revoked_at, u.username, u.client_id
+      FROM portal_sessions s
+      INNER JOIN portal_users u ON u.id = s.user_id
+      WHERE s.id = ?
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke a single session (logout)
+   */
+  async revokePortalSession(sessionId: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE portal_sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND revoked_at IS NULL
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke every session for a user (e.g., after a password reset)
+   */
+  async revokePortalUserSessions(userId: number): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE portal_sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND revoked_at IS NULL
+    `, [userId]);
+  }
+
+  // ==================== ADMIN AUTH QUERIES ====================
+
+  /**
+   * Create an admin user
+   */
+  async createAdminUser(data: {
+    username: string;
+    passwordHash: string;
+    role: string;
+    clientId?: string | null;
+  }): Promise<number> {
+    const db = this.getDb();
+    const result = await db.run(`
+      INSERT INTO admin_users (username, password_hash, role, client_id)
+      VALUES (?, ?, ?, ?)
+    `, [data.username, data.passwordHash, data.role, data.clientId || null]);
+    return result.lastID!;
+  }
+
+  /**
+   * Get admin user by username
+   */
+  async getAdminUserByUsername(username: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get('SELECT * FROM admin_users WHERE username = ?', [username]);
+  }
+
+  /**
+   * Replace an admin user's password hash
+   */
+  async updateAdminUserPassword(userId: number, passwordHash: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE admin_users
+      SET password_hash = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [passwordHash, userId]);
+  }
+
+  /**
+   * Record an admin session and the user's last login time
+   */
+  async createAdminSession(sessionId: string, userId: number, expiresAt: Date): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO admin_sessions (id, user_id, expires_at)
+      VALUES (?, ?, ?)
+    `, [sessionId, userId, expiresAt.toISOString()]);
+    await db.run('UPDATE admin_users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?', [userId]);
+  }
+
+  /**
+   * Get an admin session with its user (null if unknown)
+   */
+  async getAdminSession(sessionId: string): Promise<any | null> {
+    const db = this.getDb();
+    return await db.get(`
+      SELECT s.id, s.user_id, s.expires_at, s.revoked_at, u.username, u.role, u.client_id
+      FROM admin_sessions s
+      INNER JOIN admin_users u ON u.id = s.user_id
+      WHERE s.id = ?
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke a single admin session (logout)
+   */
+  async revokeAdminSession(sessionId: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE admin_sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND revoked_at IS NULL
+    `, [sessionId]);
+  }
+
+  /**
+   * Revoke every session for an admin user (e.g., after a password reset)
+   */
+  async revokeAdminUserSessions(userId: number): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE admin_sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND revoked_at IS NULL
+    `, [userId]);
+  }
+
+  // ==================== CALLBACK QUERIES ====================
+
+  /**
+   * Get callback requests across all clients (optionally filtered by status)
+   */
+  async getCallbackRequests(opts?: { status?: string; limit?: number }) {
+    const db = this.getDb();
+    const statusFilter = opts?.status ? `WHERE status = ?` : '';
+    const params: any[] = [];
+    if (opts?.status) params.push(opts.status);
+    const limit = opts?.limit || 50;
+
+    const rows = await db.all(
+      `SELECT id, client_id, customer_name, customer_phone, preferred_time, reason, department, status, created_at, completed_at
+      FROM callback_requests
+      ${statusFilter}
+      ORDER BY created_at DESC
+      LIMIT ?`,
+      [...params, limit]
+    );
+
+    return rows;
+  }
+  /**
+   * Save callback request
+   * Returns the new callback id (also records the 'created' audit event)
+   */
+  async saveCallbackRequest(data: CallbackRequestInput): Promise<number> {
+    const db = this.getDb();
+
+    const result = await db.run(`
+      INSERT INTO callback_requests (
+        client_id, customer_name, customer_phone, preferred_time, reason, department, scheduled_for
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      data.clientId,
+      data.customerName,
+      data.customerPhone,
+      data.preferredTime,
+      data.reason,
+      data.department,
+      data.scheduledFor ? data.scheduledFor.toISOString() : null
+    ]);
+
+    const callbackId = result.lastID!;
+    await this.addCallbackEvent(callbackId, {
+      action: 'created',
+      actor: 'assistant',
+      toStatus: 'pending',
+      details: {
+        preferredTime: data.preferredTime,
+        scheduledFor: data.scheduledFor ? data.scheduledFor.toISOString() : null
+      }
+    });
+
+    return callbackId;
+  }
+
+  /**
+   * Get callback requests for a specific client
+   * - status: pending/completed/cancelled ('all' or omitted = any)
+   * - assignedTo: only callbacks assigned to this staff member
+   * - overdue: only pending callbacks past their due time (see CALLBACK_DUE_SQL)
+   */
+  async getCallbackRequestsByClient(
+    clientId: string,
+    opts?: { status?: string; assignedTo?: string; overdue?: boolean; limit?: number }
+  ) {
+    const db = this.getDb();
+    const conditions = ['client_id = ?'];
+    const params: any[] = [clientId];
+
+    if (opts?.status && opts.status !== 'all') {
+      conditions.push('status = ?');
+      params.push(opts.status);
+    }
+    if (opts?.assignedTo) {
+      conditions.push('assigned_to = ?');
+      params.push(opts.assignedTo);
+    }
+    if (opts?.overdue) {
+      conditions.push(`status = 'pending' AND ${CALLBACK_DUE_SQL} < datetime('now')`);
+    }
+
+    const rows = await db.all(
+      `
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${opts?.overdue ? `${CALLBACK_DUE_SQL} ASC` : 'created_at DESC'}
+      LIMIT ?
+      `,
+      [...params, opts?.limit || 50]
+    );
+
+    return rows;
+  }
+
+  /**
+   * Get one callback request (scoped to its client)
+   */
+  async getCallbackRequest(clientId: string, callbackId: number) {
+    const db = this.getDb();
+    return await db.get(`
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE id = ? AND client_id = ?
+    `, [callbackId, clientId]);
+  }
+
+  /**
+   * Update a pending callback request
+   * Only applies if the row is still pending (and, with `unlessClaimedByOther`,
+   * not assigned to someone else) so concurrent edits can't overwrite each other
+   * A new scheduled_for clears the callback's reminders so they follow the reschedule
+   * Returns false if nothing was updated
+   */
+  async updatePendingCallbackRequest(
+    callbackId: number,
+    changes: CallbackChanges,
+    opts?: { unlessClaimedByOther?: string }
+  ): Promise<boolean> {
+    const db = this.getDb();
+    const columns = Object.keys(changes);
+    const guard = opts?.unlessClaimedByOther ? 'AND (assigned_to IS NULL OR assigned_to = ?)' : '';
+
+    const result = await db.run(`
+      UPDATE callback_requests
+      SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'pending' ${guard}
+    `, [
+      ...columns.map(column => (changes as any)[column]),
+      callbackId,
+      ...(opts?.unlessClaimedByOther ? [opts.unlessClaimedByOther] : [])
+    ]);
+
+    const updated = (result.changes || 0) > 0;
+    if (updated && 'scheduled_for' in changes) {
+      // Reminders were for the old time; the scheduler queues new ones for the new time
+      await db.run('DELETE FROM callback_reminders WHERE callback_id = ?', [callbackId]);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record an audit event for a callback
+   */
+  async addCallbackEvent(callbackId: number, event: CallbackEventInput): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO callback_events (callback_id, action, actor, from_status, to_status, note, details)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      callbackId,
+      event.action,
+      event.actor,
+      event.fromStatus || null,
+      event.toStatus || null,
+      event.note || null,
+      event.details ? JSON.stringify(event.details) : null
+    ]);
+  }
+
+  /**
+   * Audit trail for a callback, oldest first
+   */
+  async getCallbackEvents(callbackId: number) {
+    const db = this.getDb();
+    const rows = await db.all(`
+      SELECT id, action, actor, from_status, to_status, note, details, created_at
+      FROM callback_events
+      WHERE callback_id = ?
+      ORDER BY created_at ASC, id ASC
+    `, [callbackId]);
+
+    return rows.map((row: any) => ({
+      ...row,
+      details: row.details ? JSON.parse(row.details) : null
+    }));
+  }
+
+  // ==================== OUTBOUND CALLBACK QUERIES ====================
+
+  /**
+   * Mark a pending callback as dialing (one outbound call at a time)
+   * A call still dialing after `dialingTimeoutMinutes` lost its end-of-call report and no longer blocks
+   * Returns false if it is closed or a call is already being placed
+   */
+  async startOutboundCallback(callbackId: number, now: Date, dialingTimeoutMinutes: number): Promise<boolean> {
+    const db = this.getDb();
+    const result = await db.run(`
+      UPDATE callback_requests
+      SET outbound_status = 'dialing',
+          outbound_attempts = COALESCE(outbound_attempts, 0) + 1,
+          outbound_attempted_at = ?,
+          outbound_call_id = NULL,
+          outbound_ended_reason = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'pending'
+        AND (outbound_status IS NULL OR outbound_status != 'dialing'
+          OR datetime(outbound_attempted_at) <= datetime(?, '-' || ? || ' minutes'))
+    `, [now.toISOString(), callbackId, now.toISOString(), dialingTimeoutMinutes]);
+
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Link the Vapi call that was placed for a callback
+   */
+  async setOutboundCallbackCall(callbackId: number, callId: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE callback_requests
+      SET outbound_call_id = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [callId, callbackId]);
+  }
+
+  /**
+   * Record how the latest outbound call ended
+   */
+  async finishOutboundCallback(
+    callbackId: number,
+    outboundStatus: 'completed' | 'failed',
+    endedReason: string | null
+  ): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE callback_requests
+      SET outbound_status = ?, outbound_ended_reason = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [outboundStatus, endedReason, callbackId]);
+  }
+
+  /**
+   * Find the callback an outbound call was placed for
+   */
+  async getCallbackByOutboundCallId(callId: string) {
+    const db = this.getDb();
+    return await db.get(`
+      SELECT ${CALLBACK_COLUMNS}
+      FROM callback_requests
+      WHERE outbound_call_id = ?
+    `, [callId]);
+  }
+
+  /**
+   * Unassigned pending callbacks whose scheduled time has arrived and that
+   * haven't been dialed yet (callbacks without a scheduled time are left to staff)
+   * A dial that timed out before a call was placed counts as not dialed
+   * Callbacks due more than `windowHours` ago are stale and left to staff
+   * Only clients with an assistant and a phone number can place calls
+   */
+  async getCallbacksDueForDial(now: Date, limit: number, dialingTimeoutMinutes: number, windowHours: number) {
+    const db = this.getDb();
+    return await db.all(`
+      SELECT cr.id, cr.client_id
+      FROM callback_requests cr
+      INNER JOIN clients c ON c.id = cr.client_id
+      WHERE cr.status = 'pending'
+        AND cr.assigned_to IS NULL
+        AND cr.scheduled_for IS NOT NULL
+        AND datetime(cr.scheduled_for) <= datetime(?)
+        AND datetime(cr.scheduled_for) > datetime(?, '-' || ? || ' hours')
+        AND (COALESCE(cr.outbound_attempts, 0) = 0
+          OR (cr.outbound_status = 'dialing' AND cr.outbound_call_id IS NULL
+            AND datetime(cr.outbound_attempted_at) <= datetime(?, '-' || ? || ' minutes')))
+        AND c.vapi_assistant_id IS NOT NULL
+        AND EXISTS (SELECT 1 FROM client_phone_numbers cpn WHERE cpn.client_id = cr.client_id)
+      ORDER BY datetime(cr.scheduled_for) ASC
+      LIMIT ?
+    `, [now.toISOString(), now.toISOString(), windowHours, now.toISOString(), dialingTimeoutMinutes, limit]);
+  }
+
+  // ==================== CALLBACK REMINDER QUERIES ====================
+
+  /**
+   * Queue reminders for pending callbacks (idempotent - UNIQUE(callback_id, kind))
+   * - due: due within the next `windowMinutes` (and not yet escalation-late)
+   * - escalation: still pending `escalateAfterMinutes` after it was due
+   * Returns how many new reminders were queued
+   */
+  async enqueueCallbackReminders(now: Date, windowMinutes: number, escalateAfterMinutes: number): Promise<number> {
+    const db = this.getDb();
+    const at = now.toISOString();
+
+    const due = await db.run(`
+      INSERT OR IGNORE INTO callback_reminders (callback_id, kind, next_attempt_at)
+      SELECT id, 'due', datetime(?)
+      FROM callback_requests
+      WHERE status = 'pending'
+        AND ${CALLBACK_DUE_SQL} <= datetime(?, '+' || ? || ' minutes')
+        AND ${CALLBACK_DUE_SQL} > datetime(?, '-' || ? || ' minutes')
+    `, [at, at, windowMinutes, at, escalateAfterMinutes]);
+
+    const escalation = await db.run(`
+      INSERT OR IGNORE INTO callback_reminders (callback_id, kind, next_attempt_at)
+      SELECT id, 'escalation', datetime(?)
+      FROM callback_requests
+      WHERE status = 'pending'
+        AND ${CALLBACK_DUE_SQL} <= datetime(?, '-' || ? || ' minutes')
+    `, [at, at, escalateAfterMinutes]);
+
+    return (due.changes || 0) + (escalation.changes || 0);
+  }
+
+  /**
+   * Lease up to `limit` reminders that are ready to send
+   * The lease is taken in one UPDATE, so two instances never get the same row;
+   * an instance that dies mid-send releases it when the lease expires
+   * Returns the leased reminders joined with their callback and client
+   */
+  async claimCallbackReminders(claimToken: string, now: Date, leaseSeconds: number, limit: number) {
+    const db = this.getDb();
+    const at = now.toISOString();
+
+    await db.run(`
+      UPDATE callback_reminders
+      SET claimed_by = ?, lease_until = datetime(?, '+' || ? || ' seconds')
+      WHERE id IN (
+        SELECT id FROM callback_reminders
+        WHERE status = 'pending'
+          AND datetime(next_attempt_at) <= datetime(?)
+          AND (lease_until IS NULL OR datetime(lease_until) <= datetime(?))
+        ORDER BY id
+        LIMIT ?
+      )
+    `, [claimToken, at, leaseSeconds, at, at, limit]);
+
+    return await db.all(`
+      SELECT
+        r.id, r.callback_id, r.kind, r.attempts,
+        c.client_id, c.customer_name, c.customer_phone, c.preferred_time, c.reason, c.department,
+        c.status AS callback_status, c.assigned_to, c.scheduled_for,
+        ${callbackDueSql('c.')} AS due_at,
+        cl.name AS client_name
+      FROM callback_reminders r
+      JOIN callback_requests c ON c.id = r.callback_id
+      LEFT JOIN clients cl ON cl.id = c.client_id
+      WHERE r.claimed_by = ? AND r.status = 'pending'
+      ORDER BY r.id
+    `, [claimToken]);
+  }
+
+  /**
+   * Notifiers that already delivered a reminder (skipped on retry)
+   */
+  async getDeliveredReminderNotifiers(reminderId: number): Promise<string[]> {
+    const db = this.getDb();
+    const rows = await db.all(`
+      SELECT DISTINCT notifier FROM callback_reminder_attempts
+      WHERE reminder_id = ? AND success = 1
+    `, [reminderId]);
+    return rows.map((row: any) => row.notifier);
+  }
+
+  /**
+   * Log one delivery attempt
+   */
+  async recordCallbackReminderAttempt(reminderId: number, notifier: string, error: string | null): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      INSERT INTO callback_reminder_attempts (reminder_id, notifier, success, error)
+      VALUES (?, ?, ?, ?)
+    `, [reminderId, notifier, error ? 0 : 1, error]);
+  }
+
+  /**
+   * Close out a reminder (sent, skipped or permanently failed) and release its lease
+   */
+  async finishCallbackReminder(
+    reminderId: number,
+    status: 'sent' | 'skipped' | 'failed',
+    attempts: number,
+    error: string | null = null
+  ): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE callback_reminders
+      SET status = ?, attempts = ?, last_error = ?, claimed_by = NULL, lease_until = NULL,
+          sent_at = CASE WHEN ? = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END
+      WHERE id = ?
+    `, [status, attempts, error, status, reminderId]);
+  }
+
+  /**
+   * Release a reminder for another try after `nextAttemptAt`
+   */
+  async retryCallbackReminder(reminderId: number, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    const db = this.getDb();
+    await db.run(`
+      UPDATE callback_reminders
+      SET attempts = ?, next_attempt_at = datetime(?), last_error = ?, claimed_by = NULL, lease_until = NULL
+      WHERE id = ?
+    `, [attempts, nextAttemptAt.toISOString(), error, reminderId]);
+  }
+
+  /**
+   * Reminders and delivery attempts for a callback
+   */
+  async getCallbackReminders(callbackId: number) {
+    const db = this.getDb();
+    const reminders = await db.all(`
+      SELECT id, kind, status, attempts, next_attempt_at, last_error, sent_at, created_at
+      FROM callback_reminders
+      WHERE callback_id = ?
+      ORDER BY id
+    `, [callbackId]);
+
+    for (const reminder of reminders) {
+      reminder.deliveries = await db.all(`
+        SELECT notifier, success, error, attempted_at
+        FROM callback_reminder_attempts
+        WHERE reminder_id = ?
+        ORDER BY id
+      `, [reminder.id]);
+    }
+
+    return reminders;
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+    }
+  }
+}
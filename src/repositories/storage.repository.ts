@@ -0,0 +1,486 @@
+// src/repositories/storage.repository.ts
+import { Migration, MigrationStatus } from '../services/migration.service';
+
+/**
+ * Storage backend settings (env vars in brackets)
+ */
+export type StorageDriver = 'sqlite' | 'postgres';
+
+export interface StorageSettings {
+  driver: StorageDriver;   // [DATABASE_DRIVER=sqlite]
+  url?: string;            // PostgreSQL connection string, required for postgres [DATABASE_URL]
+  path?: string;           // SQLite file, or :memory: (default calls.db in the project root) [DATABASE_PATH]
+}
+
+export function loadStorageSettings(env: NodeJS.ProcessEnv = process.env): StorageSettings {
+  const driver = (env.DATABASE_DRIVER || 'sqlite').toLowerCase();
+
+  if (driver !== 'sqlite' && driver !== 'postgres') {
+    throw new Error(`Unknown DATABASE_DRIVER "${env.DATABASE_DRIVER}" (expected sqlite or postgres)`);
+  }
+
+  return {
+    driver,
+    url: env.DATABASE_URL || undefined,
+    path: env.DATABASE_PATH || undefined
+  };
+}
+
+/**
+ * When a pending callback is due: its scheduled time, or CALLBACK_OVERDUE_HOURS
+ * after it was taken if nobody has scheduled it yet
+ */
+export const CALLBACK_OVERDUE_HOURS = 24;
+
+// ==================== INPUT TYPES ====================
+
+/**
+ * A call as reported by its end-of-call-report
+ */
+export interface CallReport {
+  id: string;
+  clientId?: string;
+  phoneNumberId?: string;
+  callerPhone?: string;
+  callType?: string;
+  startedAt?: string;
+  endedAt?: string;
+  status: string;
+  endedReason?: string;
+  transcript?: string;
+  summary?: string;
+  recordingUrl?: string;
+  stereoRecordingUrl?: string;
+  successScore?: number;
+  cost?: number;
+  costBreakdown?: {
+    transport?: number;
+    stt?: number;
+    llm?: number;
+    tts?: number;
+    vapi?: number;
+    llmPromptTokens?: number;
+    llmCompletionTokens?: number;
+    ttsCharacters?: number;
+  };
+}
+
+export interface CallStart {
+  id: string;
+  clientId?: string;
+  phoneNumberId?: string;
+  callerPhone?: string;
+  callType?: string;
+  status?: string;
+  controlUrl?: string;
+}
+
+export interface CallStatusUpdate {
+  id: string;
+  status: string;
+  at: Date;
+  endedReason?: string;
+  clientId?: string;
+  phoneNumberId?: string;
+  callerPhone?: string;
+  callType?: string;
+  controlUrl?: string;
+}
+
+export interface CallMessageInput {
+  role: string;
+  message: string | null;
+  secondsFromStart?: number;
+  time?: number;
+}
+
+export interface BillingSummary {
+  totalCost: number;
+  callCount: number;
+  calls: any[];
+}
+
+export interface ContactUpdate {
+  name?: string;
+  company?: string;
+  email?: string;
+  lastMachine?: string;
+}
+
+export interface WebhookEventInput {
+  callId: string;
+  eventType: string;
+  eventKey: string;
+  payload: string;
+}
+
+export interface SupervisorActionInput {
+  callId: string;
+  clientId: string | null;
+  actor: string;
+  action: string;
+  details?: Record<string, any>;
+  success: boolean;
+  error?: string;
+}
+
+export interface InventoryItemInput {
+  stockNumber?: string | null;
+  model: string;
+  category: string;
+  available: number;
+  pricePerDay: number;
+  pricePerWeek?: number | null;
+  pricePerMonth?: number | null;
+  condition?: string | null;
+  year?: number | null;
+  specs?: string | null;
+  operatingWeight?: number | null;
+  horsepower?: number | null;
+  digDepth?: number | null;
+  liftCapacity?: number | null;
+  bucketSize?: number | null;
+  fuelType?: string | null;
+  attachments?: string | null;
+}
+
+export type InventoryChanges = Partial<Record<
+  | 'stock_number' | 'model' | 'category' | 'available' | 'price_per_day' | 'price_per_week' | 'price_per_month' | 'condition' | 'year' | 'specs'
+  | 'operating_weight' | 'horsepower' | 'dig_depth' | 'lift_capacity' | 'bucket_size' | 'fuel_type' | 'attachments',
+  string | number | null
+>>;
+
+export interface SalesListingInput {
+  stockNumber?: string | null;
+  model: string;
+  category: string;
+  year?: number | null;
+  condition?: string | null;
+  askingPrice: number;
+  hours?: number | null;
+  serialNumber?: string | null;
+  location?: string | null;
+  photosUrl?: string | null;
+  description?: string | null;
+}
+
+export type SalesListingChanges = Partial<Record<
+  | 'stock_number' | 'model' | 'category' | 'year' | 'condition' | 'asking_price' | 'hours'
+  | 'serial_number' | 'location' | 'photos_url' | 'description' | 'status' | 'sold_at',
+  string | number | null
+>>;
+
+export interface ReservationInput {
+  clientId: string;
+  inventoryId: number;
+  callId?: string | null;
+  quantity: number;
+  startDate: string;   // YYYY-MM-DD
+  endDate: string;     // YYYY-MM-DD, inclusive
+  customerName?: string | null;
+  customerPhone?: string | null;
+  jobsite?: string | null;
+  holdExpiresAt: Date;
+}
+
+/**
+ * Whether a new hold still fits alongside the item's reservations booked on its dates
+ */
+export type ReservationFit = (booked: any[]) => boolean;
+
+export type ReservationChanges = Partial<Record<
+  'status' | 'confirmed_by' | 'confirmed_at' | 'cancelled_by' | 'cancelled_at',
+  string | null
+>>;
+
+export interface ClientInput {
+  id: string;
+  name: string;
+  company?: string;
+  salesPhone?: string;
+  servicePhone?: string;
+  partsPhone?: string;
+  customPrompt?: string;
+  additionalContext?: string;
+  firstMessageTemplate?: string;
+  enableInventory: boolean;
+  enableTransfers: boolean;
+}
+
+export interface StoredBusinessHours {
+  timezone: string | null;
+  weekly: Array<{ day_of_week: number; open_time: string; close_time: string }>;
+  exceptions: Array<{ date: string; is_closed: number; open_time: string | null; close_time: string | null; label: string | null }>;
+}
+
+export interface BusinessHoursInput {
+  timezone?: string;
+  weekly?: Array<{ open: string; close: string } | null>;
+  exceptions?: Array<{ date: string; closed: boolean; open?: string; close?: string; label?: string }>;
+}
+
+export interface StoredDepartmentRouting {
+  routing: Array<{
+    department: string;
+    after_hours_action: string;
+    on_call_phone: string | null;
+    overflow_phone: string | null;
+    voicemail_phone: string | null;
+  }>;
+  hours: Array<{ department: string; day_of_week: number; open_time: string; close_time: string }>;
+}
+
+export interface DepartmentRoutingInput {
+  department: string;
+  weekly: Array<{ open: string; close: string } | null> | null;
+  afterHoursAction: string;
+  onCallPhone?: string;
+  overflowPhone?: string;
+  voicemailPhone?: string;
+}
+
+export interface StoredRentalPricing {
+  damage_waiver_percent: number | null;
+  rental_tax_percent: number | null;
+  delivery_zones: Array<{ max_miles: number; fee: number; label: string | null }>;
+}
+
+export interface RentalPricingInput {
+  damageWaiverPercent: number | null;
+  taxPercent: number | null;
+  deliveryZones: Array<{ maxMiles: number; fee: number; label?: string }>;
+}
+
+export interface QuoteInput {
+  clientId: string;
+  callId?: string | null;
+  inventoryId?: number | null;
+  model: string;
+  quantity: number;
+  rentalDays: number;
+  startDate?: string | null;   // YYYY-MM-DD
+  endDate?: string | null;
+  deliveryMiles?: number | null;
+  rentalAmount: number;
+  damageWaiverAmount: number;
+  deliveryFee?: number | null;
+  taxAmount: number;
+  total: number;
+  breakdown?: Record<string, any> | null;
+}
+
+export interface CallbackRequestInput {
+  clientId: string;
+  customerName: string;
+  customerPhone: string;
+  preferredTime: string;
+  reason: string;
+  department: string;
+  scheduledFor?: Date;
+}
+
+export type CallbackChanges = Partial<Record<
+  'status' | 'assigned_to' | 'claimed_at' | 'scheduled_for' | 'completed_at' | 'cancelled_at',
+  string | null
+>>;
+
+export interface CallbackEventInput {
+  action: string;
+  actor: string;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  note?: string | null;
+  details?: Record<string, any> | null;
+}
+
+// ==================== REPOSITORIES ====================
+
+/**
+ * Calls, their live conversation and extracted structured data
+ */
+export interface CallRepository {
+  saveCall(callData: CallReport): Promise<void>;
+  recordCallStart(callData: CallStart): Promise<void>;
+  updateCallStatus(callData: CallStatusUpdate): Promise<void>;
+  saveCallMessages(callId: string, messages: CallMessageInput[]): Promise<number>;
+  getCallMessages(callId: string): Promise<any[]>;
+  saveStructuredData(callId: string, data: any): Promise<void>;
+  hasStructuredData(callId: string): Promise<boolean>;
+  getCall(callId: string): Promise<any>;
+  getCallsByIds(callIds: string[]): Promise<any[]>;
+  getRecentCalls(limit?: number, clientId?: string): Promise<any[]>;
+  getBillingSummary(params?: { clientId?: string; startDate?: string; endDate?: string; limit?: number }): Promise<BillingSummary>;
+  getDailyStats(days?: number, clientId?: string): Promise<any[]>;
+  getIntentBreakdown(clientId?: string): Promise<any[]>;
+}
+
+/**
+ * Webhook inbox (idempotent call event processing) and supervisor audit log
+ */
+export interface CallEventRepository {
+  recordWebhookEvent(data: WebhookEventInput): Promise<{ id: number; status: string }>;
+  claimWebhookEvent(id: number, staleMinutes: number): Promise<boolean>;
+  finishWebhookEvent(id: number, status: 'processed' | 'dead', error?: string): Promise<void>;
+  getWebhookEvent(id: number): Promise<any>;
+  getWebhookEvents(filters?: { status?: string; callId?: string; limit?: number }): Promise<any[]>;
+  saveSupervisorAction(data: SupervisorActionInput): Promise<number>;
+  getSupervisorActions(callId: string): Promise<any[]>;
+}
+
+export interface ContactRepository {
+  updateContact(phoneNumber: string, data: ContactUpdate): Promise<void>;
+  getContact(phoneNumber: string): Promise<any | null>;
+  getAllContacts(): Promise<any[]>;
+  searchContacts(query: string): Promise<any[]>;
+}
+
+/**
+ * Equipment fleets (one per client); retired items are left out of every search
+ */
+export interface InventoryRepository {
+  getAllInventory(): Promise<any[]>;
+  getAvailableInventory(clientId?: string): Promise<any[]>;
+  searchInventory(query: string): Promise<any[]>;
+  searchInventoryWithVariations(queryVariations: string[], clientId?: string): Promise<any[]>;
+  getInventoryByCategory(category: string, clientId?: string): Promise<any[]>;
+  updateInventoryAvailability(model: string, available: number): Promise<void>;
+  getClientInventory(clientId: string, opts?: { includeRetired?: boolean }): Promise<any[]>;
+  getInventoryItem(clientId: string, itemId: number): Promise<any>;
+  createInventoryItem(clientId: string, item: InventoryItemInput): Promise<number>;
+  updateInventoryItem(clientId: string, itemId: number, changes: InventoryChanges): Promise<boolean>;
+  retireInventoryItem(clientId: string, itemId: number): Promise<boolean>;
+  getInventoryAliases(clientId: string): Promise<Array<{ alias: string; canonical: string }>>;
+  saveInventoryAliases(clientId: string, aliases: Array<{ alias: string; canonical: string }>): Promise<void>;
+}
+
+/**
+ * Machines for sale (separate from the rental fleet) and the calls they came up on
+ */
+export interface SalesRepository {
+  getSalesListings(clientId: string, opts?: { includeSold?: boolean }): Promise<any[]>;
+  getSalesListing(clientId: string, listingId: number): Promise<any>;
+  createSalesListing(clientId: string, listing: SalesListingInput): Promise<number>;
+  updateSalesListing(clientId: string, listingId: number, changes: SalesListingChanges): Promise<boolean>;
+  linkCallSalesListings(callId: string, clientId: string, listingIds: number[], source: 'offered' | 'mentioned'): Promise<void>;
+  getCallSalesListings(callIds: string[]): Promise<any[]>;
+  getSalesListingCalls(clientId: string, opts?: { listingId?: number; limit?: number }): Promise<any[]>;
+}
+
+/**
+ * Rental reservations against fleet items
+ * A reservation blocks units while it is confirmed, or a hold that hasn't expired
+ */
+export interface ReservationRepository {
+  createReservation(data: ReservationInput): Promise<number>;
+  holdReservation(data: ReservationInput, now: Date, fits: ReservationFit): Promise<number | null>;
+  getReservation(clientId: string, reservationId: number): Promise<any>;
+  getReservations(clientId: string, opts?: { status?: string; limit?: number }): Promise<any[]>;
+  getBookedReservations(clientId: string, startDate: string, endDate: string, now: Date): Promise<any[]>;
+  updateReservationStatus(reservationId: number, fromStatus: string, changes: ReservationChanges): Promise<boolean>;
+}
+
+/**
+ * Rental pricing settings (waiver, tax, delivery zones) and the quotes given on calls
+ */
+export interface PricingRepository {
+  getClientRentalPricing(clientId: string): Promise<StoredRentalPricing>;
+  saveClientRentalPricing(clientId: string, data: RentalPricingInput): Promise<void>;
+  saveQuote(data: QuoteInput): Promise<number>;
+  getQuotes(clientId: string, opts?: { callId?: string; limit?: number }): Promise<any[]>;
+}
+
+/**
+ * Clients with their phone numbers, business hours and department routing
+ */
+export interface ClientRepository {
+  getClientById(clientId: string): Promise<any | null>;
+  getAllClients(): Promise<any[]>;
+  getClientByPhoneNumberId(vapiPhoneNumberId: string): Promise<any | null>;
+  getClientForCall(phoneNumberId?: string, assistantId?: string): Promise<any | null>;
+  getClientByAssistantId(vapiAssistantId: string): Promise<any | null>;
+  updateClientWebhookSecret(clientId: string, secret: string | null): Promise<void>;
+  updateClientAssistantId(clientId: string, assistantId: string): Promise<void>;
+  addClientPhoneNumber(clientId: string, vapiPhoneNumberId: string, phoneNumber: string): Promise<boolean>;
+  upsertClient(clientData: ClientInput): Promise<void>;
+  getClientConfig(clientId: string): Promise<any>;
+  getClientBusinessHours(clientId: string): Promise<StoredBusinessHours>;
+  saveClientBusinessHours(clientId: string, data: BusinessHoursInput): Promise<void>;
+  getDepartmentRouting(clientId: string): Promise<StoredDepartmentRouting>;
+  saveDepartmentRouting(clientId: string, data: DepartmentRoutingInput): Promise<void>;
+}
+
+/**
+ * Portal and admin logins and sessions
+ */
+export interface AuthRepository {
+  createPortalUser(data: { username: string; passwordHash: string; clientId: string }): Promise<number>;
+  getPortalUserByUsername(username: string): Promise<any | null>;
+  updatePortalUserPassword(userId: number, passwordHash: string): Promise<void>;
+  createPortalSession(sessionId: string, userId: number, expiresAt: Date): Promise<void>;
+  getPortalSession(sessionId: string): Promise<any | null>;
+  revokePortalSession(sessionId: string): Promise<void>;
+  revokePortalUserSessions(userId: number): Promise<void>;
+  createAdminUser(data: { username: string; passwordHash: string; role: string; clientId?: string | null }): Promise<number>;
+  getAdminUserByUsername(username: string): Promise<any | null>;
+  updateAdminUserPassword(userId: number, passwordHash: string): Promise<void>;
+  createAdminSession(sessionId: string, userId: number, expiresAt: Date): Promise<void>;
+  getAdminSession(sessionId: string): Promise<any | null>;
+  revokeAdminSession(sessionId: string): Promise<void>;
+  revokeAdminUserSessions(userId: number): Promise<void>;
+}
+
+/**
+ * Callback requests with their audit trail, outbound calls and reminders
+ */
+export interface CallbackRepository {
+  getCallbackRequests(opts?: { status?: string; limit?: number }): Promise<any[]>;
+  saveCallbackRequest(data: CallbackRequestInput): Promise<number>;
+  getCallbackRequestsByClient(
+    clientId: string,
+    opts?: { status?: string; assignedTo?: string; overdue?: boolean; limit?: number }
+  ): Promise<any[]>;
+  getCallbackRequest(clientId: string, callbackId: number): Promise<any>;
+  updatePendingCallbackRequest(
+    callbackId: number,
+    changes: CallbackChanges,
+    opts?: { unlessClaimedByOther?: string }
+  ): Promise<boolean>;
+  addCallbackEvent(callbackId: number, event: CallbackEventInput): Promise<void>;
+  getCallbackEvents(callbackId: number): Promise<any[]>;
+  startOutboundCallback(callbackId: number, now: Date, dialingTimeoutMinutes: number): Promise<boolean>;
+  setOutboundCallbackCall(callbackId: number, callId: string): Promise<void>;
+  finishOutboundCallback(callbackId: number, outboundStatus: 'completed' | 'failed', endedReason: string | null): Promise<void>;
+  getCallbackByOutboundCallId(callId: string): Promise<any>;
+  getCallbacksDueForDial(now: Date, limit: number, dialingTimeoutMinutes: number, windowHours: number): Promise<any[]>;
+  enqueueCallbackReminders(now: Date, windowMinutes: number, escalateAfterMinutes: number): Promise<number>;
+  claimCallbackReminders(claimToken: string, now: Date, leaseSeconds: number, limit: number): Promise<any[]>;
+  getDeliveredReminderNotifiers(reminderId: number): Promise<string[]>;
+  recordCallbackReminderAttempt(reminderId: number, notifier: string, error: string | null): Promise<void>;
+  finishCallbackReminder(reminderId: number, status: 'sent' | 'skipped' | 'failed', attempts: number, error?: string | null): Promise<void>;
+  retryCallbackReminder(reminderId: number, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+  getCallbackReminders(callbackId: number): Promise<any[]>;
+}
+
+/**
+ * Everything the app stores, implemented once per database (see database.service.ts)
+ * init() connects and applies pending migrations; `migrate: false` only connects
+ */
+export interface StorageRepository extends
+  CallRepository,
+  CallEventRepository,
+  ContactRepository,
+  InventoryRepository,
+  SalesRepository,
+  ReservationRepository,
+  PricingRepository,
+  ClientRepository,
+  AuthRepository,
+  CallbackRepository {
+  readonly driver: StorageDriver;
+  init(options?: { migrate?: boolean }): Promise<void>;
+  close(): Promise<void>;
+  migrate(options?: { to?: number }): Promise<Migration[]>;
+  rollback(steps?: number): Promise<Migration[]>;
+  migrationStatus(): Promise<MigrationStatus[]>;
+  seed(): Promise<void>;
+}
@@ -1,32 +1,225 @@
 // src/routes/admin.ts
 import { FastifyInstance } from 'fastify';
 import { AdminController } from '../controllers/admin.controller';
+import { requireAdmin } from '../hooks/admin-auth';
+import { AdminRole } from '../types';
 
 const controller = new AdminController();
 
+const ALL_ROLES: AdminRole[] = ['super_admin', 'client_admin', 'analyst'];
+
+/**
+ * Swagger schema for an authenticated admin route
+ * Lists the roles allowed and how results are scoped
+ */
+function adminSchema(description: string, roles: AdminRole[] = ALL_ROLES, extra: Record<string, any> = {}) {
+  return {
+    tags: ['admin'],
+    description: `${description}\n\n**Roles:** ${roles.join(', ')}. Client-scoped users only see their own client's data.`,
+    security: [{ adminBearer: [] }],
+    ...extra
+  };
+}
+
+const clientScopeQuery = {
+  type: 'object',
+  properties: {
+    clientId: { type: 'string', description: 'Filter to one client (ignored for client-scoped users)' }
+  }
+};
+
 /**
  * Admin routes for Vapi management and analytics
  * Thin routing layer - delegates to controller
+ * Every route except /admin/login requires an admin bearer token
  */
 export async function adminRoutes(fastify: FastifyInstance) {
 
+  // Auth
+  fastify.post('/admin/login', {
+    schema: {
+      tags: ['admin'],
+      description: 'Exchange admin credentials for a bearer token',
+      body: {
+        type: 'object',
+        required: ['username', 'password'],
+        properties: {
+          username: { type: 'string' },
+          password: { type: 'string' }
+        }
+      }
+    }
+  }, controller.login.bind(controller));
+  fastify.post('/admin/logout', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Revoke the current admin token')
+  }, controller.logout.bind(controller));
+  fastify.get('/admin/me', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Current admin user, role and client scope')
+  }, controller.getMe.bind(controller));
+
   // Call logs
-  fastify.get('/admin/calls', controller.getCalls.bind(controller));
-  fastify.get('/admin/calls/:callId', controller.getCall.bind(controller));
-  fastify.get('/admin/calls/:callId/transcript', controller.getCallTranscript.bind(controller));
+  fastify.get('/admin/calls', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('List calls from Vapi', ALL_ROLES, {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...clientScopeQuery.properties,
+          limit: { type: 'string' },
+          createdAtGt: { type: 'string' },
+          createdAtLt: { type: 'string' }
+        }
+      }
+    })
+  }, controller.getCalls.bind(controller));
+  fastify.get('/admin/calls/:callId', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Get call details from Vapi (transcript, recording, costs)')
+  }, controller.getCall.bind(controller));
+  fastify.get('/admin/calls/:callId/transcript', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Get a call transcript')
+  }, controller.getCallTranscript.bind(controller));
 
   // Billing
-  fastify.get('/admin/billing', controller.getBilling.bind(controller));
+  fastify.get('/admin/billing', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Call costs from the local database', ALL_ROLES, {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...clientScopeQuery.properties,
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+          limit: { type: 'string' }
+        }
+      }
+    })
+  }, controller.getBilling.bind(controller));
+
+  // Tools management (account-wide Vapi resources)
+  fastify.get('/admin/tools', {
+    preHandler: requireAdmin({ roles: ['super_admin'] }),
+    schema: adminSchema('List all tools in Vapi', ['super_admin'])
+  }, controller.getTools.bind(controller));
+
+  // Live call monitoring (Server-Sent Events)
+  fastify.get('/admin/live', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Stream calls in progress as Server-Sent Events: a `snapshot` of active calls, then call-started, status, transcript, tool, supervisor and call-ended events', ALL_ROLES, { querystring: clientScopeQuery })
+  }, controller.streamLiveCalls.bind(controller));
+
+  // Supervisor Live Call Control (analysts are read-only)
+  fastify.post('/admin/live/:callId/:action', {
+    preHandler: requireAdmin({ roles: ['super_admin', 'client_admin'] }),
+    schema: adminSchema('Take over a call in progress: `say` a message, `transfer` to any number, `mute`/`unmute` the assistant or `end` the call. Every action is audited.', ['super_admin', 'client_admin'], {
+      params: {
+        type: 'object',
+        required: ['callId', 'action'],
+        properties: {
+          callId: { type: 'string' },
+          action: { type: 'string', enum: ['say', 'transfer', 'mute', 'unmute', 'end'] }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          message: { type: 'string', description: 'say: what the assistant says. transfer: what the caller hears first' },
+          number: { type: 'string', description: 'transfer: destination in E.164' },
+          endCallAfterSpoken: { type: 'boolean', description: 'say: hang up once the message is spoken' }
+        }
+      }
+    })
+  }, controller.controlLiveCall.bind(controller));
+  fastify.get('/admin/live/:callId/actions', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Audit log of supervisor actions on a call')
+  }, controller.getSupervisorActions.bind(controller));
+
+  // Open streams never finish on their own - end them so the server can close
+  fastify.addHook('preClose', async () => {
+    controller.closeLiveStreams();
+  });
+
+  // Webhook inbox and dead-letter queue (raw payloads span every client)
+  fastify.get('/admin/webhooks', {
+    preHandler: requireAdmin({ roles: ['super_admin'] }),
+    schema: adminSchema('Webhook inbox events, newest first. `status=dead` lists the dead-letter queue.', ['super_admin'], {
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'processing', 'processed', 'dead'] },
+          callId: { type: 'string' },
+          limit: { type: 'string' }
+        }
+      }
+    })
+  }, controller.getWebhookEvents.bind(controller));
+  fastify.get('/admin/webhooks/:eventId', {
+    preHandler: requireAdmin({ roles: ['super_admin'] }),
+    schema: adminSchema('One webhook event with its raw payload', ['super_admin'])
+  }, controller.getWebhookEvent.bind(controller));
+  fastify.post('/admin/webhooks/:eventId/replay', {
+    preHandler: requireAdmin({ roles: ['super_admin'] }),
+    schema: adminSchema('Process a dead-lettered webhook event again', ['super_admin'])
+  }, controller.replayWebhookEvent.bind(controller));
 
-  // Tools management
-  fastify.get('/admin/tools', controller.getTools.bind(controller));
+  // Backfill the local calls table from Vapi
+  fastify.post('/admin/reconcile', {
+    preHandler: requireAdmin({ roles: ['super_admin', 'client_admin'] }),
+    schema: adminSchema('Reconcile local calls with Vapi for a date range: missing or incomplete ended calls are saved the same way as an end-of-call report. Returns what was created, updated, skipped or failed.', ['super_admin', 'client_admin'], {
+      body: {
+        type: 'object',
+        required: ['from'],
+        properties: {
+          from: { type: 'string', description: 'ISO 8601 start (calls created after)' },
+          to: { type: 'string', description: 'ISO 8601 end (default now)' },
+          clientId: { type: 'string', description: 'Only this client\'s assistant (ignored for client-scoped users)' },
+          dryRun: { type: 'boolean', description: 'Report what would change without saving' }
+        }
+      }
+    })
+  }, controller.reconcileCalls.bind(controller));
 
   // Health check
-  fastify.get('/admin/health', controller.getHealth.bind(controller));
+  fastify.get('/admin/health', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Check that the Vapi API is reachable')
+  }, controller.getHealth.bind(controller));
 
   // Local database endpoints (with structured data)
-  fastify.get('/admin/db/calls', controller.getLocalCalls.bind(controller));
-  fastify.get('/admin/db/calls/:callId', controller.getLocalCall.bind(controller));
-  fastify.get('/admin/db/stats/daily', controller.getDailyStats.bind(controller));
-  fastify.get('/admin/db/stats/intents', controller.getIntentStats.bind(controller));
+  fastify.get('/admin/db/calls', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Calls from the local database with structured data', ALL_ROLES, {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...clientScopeQuery.properties,
+          limit: { type: 'string' }
+        }
+      }
+    })
+  }, controller.getLocalCalls.bind(controller));
+  fastify.get('/admin/db/calls/:callId', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('One call from the local database')
+  }, controller.getLocalCall.bind(controller));
+  fastify.get('/admin/db/stats/daily', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Daily call statistics', ALL_ROLES, {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...clientScopeQuery.properties,
+          days: { type: 'string' }
+        }
+      }
+    })
+  }, controller.getDailyStats.bind(controller));
+  fastify.get('/admin/db/stats/intents', {
+    preHandler: requireAdmin(),
+    schema: adminSchema('Intent breakdown analytics', ALL_ROLES, { querystring: clientScopeQuery })
+  }, controller.getIntentStats.bind(controller));
 }
@@ -2,18 +2,44 @@
 import { FastifyInstance } from 'fastify';
 import {
   handleLogin,
+  handleLogout,
   getClientConfig,
   saveClientConfig,
   syncClientConfig,
+  rotateWebhookSecret,
   getVapiPhoneNumbers,
   getClientCalls,
-  getClientCallbacks
+  getClientCallbacks,
+  getClientCallback,
+  updateClientCallback,
+  callClientCallback,
+  getClientInventory,
+  createClientInventoryItem,
+  updateClientInventoryItem,
+  retireClientInventoryItem,
+  importClientInventory,
+  exportClientInventory,
+  getClientInventoryAliases,
+  saveClientInventoryAliases,
+  getClientReservations,
+  updateClientReservation,
+  getClientQuotes,
+  getClientSalesListings,
+  createClientSalesListing,
+  updateClientSalesListing,
+  getClientSalesListingCalls
 } from '../controllers/client.controller';
 
 export async function clientRoutes(fastify: FastifyInstance) {
+  // CSV uploads (inventory import) arrive as plain text
+  fastify.addContentTypeParser('text/csv', { parseAs: 'string' }, (_request, body, done) => done(null, body));
+
   // Login endpoint (public)
   fastify.post('/login', handleLogin);
 
+  // Revoke the current session (authenticated)
+  fastify.post('/logout', handleLogout);
+
   // Get client configuration (authenticated)
   fastify.get('/config', getClientConfig);
 
@@ -23,6 +49,9 @@ export async function clientRoutes(fastify: FastifyInstance) {
   // Sync configuration with Vapi (authenticated)
   fastify.post('/sync', syncClientConfig);
 
+  // Generate a new webhook signing secret (authenticated)
+  fastify.post('/webhook-secret', rotateWebhookSecret);
+
   // Get available Vapi phone numbers (authenticated)
   fastify.get('/phone-numbers', getVapiPhoneNumbers);
 
@@ -31,4 +60,42 @@ export async function clientRoutes(fastify: FastifyInstance) {
 
   // Get callbacks for this client (authenticated)
   fastify.get('/callbacks', getClientCallbacks);
+
+  // Callback detail + audit trail (authenticated)
+  fastify.get('/callbacks/:id', getClientCallback);
+
+  // Work the callback queue (authenticated)
+  fastify.post('/callbacks/:id/claim', updateClientCallback('claim'));
+  fastify.post('/callbacks/:id/assign', updateClientCallback('assign'));
+  fastify.post('/callbacks/:id/reschedule', updateClientCallback('reschedule'));
+  fastify.post('/callbacks/:id/complete', updateClientCallback('complete'));
+  fastify.post('/callbacks/:id/cancel', updateClientCallback('cancel'));
+  fastify.post('/callbacks/:id/notes', updateClientCallback('note'));
+
+  // Have the assistant call the customer back now (authenticated)
+  fastify.post('/callbacks/:id/call', callClientCallback);
+
+  // Manage this client's equipment fleet (authenticated)
+  fastify.get('/inventory', getClientInventory);
+  fastify.post('/inventory', createClientInventoryItem);
+  fastify.get('/inventory/export', exportClientInventory);
+  fastify.post('/inventory/import', importClientInventory);
+  fastify.get('/inventory/aliases', getClientInventoryAliases);
+  fastify.post('/inventory/aliases', saveClientInventoryAliases);
+  fastify.post('/inventory/:id', updateClientInventoryItem);
+  fastify.post('/inventory/:id/retire', retireClientInventoryItem);
+
+  // Rental reservations: confirm the assistant's holds (authenticated)
+  fastify.get('/reservations', getClientReservations);
+  fastify.post('/reservations/:id/confirm', updateClientReservation('confirm'));
+  fastify.post('/reservations/:id/cancel', updateClientReservation('cancel'));
+
+  // Rental quotes the assistant gave on calls (authenticated)
+  fastify.get('/quotes', getClientQuotes);
+
+  // Machines for sale, and the calls they came up on (authenticated)
+  fastify.get('/sales-listings', getClientSalesListings);
+  fastify.post('/sales-listings', createClientSalesListing);
+  fastify.get('/sales-listings/calls', getClientSalesListingCalls);
+  fastify.post('/sales-listings/:id', updateClientSalesListing);
 }
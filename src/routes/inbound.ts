@@ -1,12 +1,16 @@
 // src/routes/inbound.ts
 import { FastifyInstance } from 'fastify';
 import { handleInboundCall } from '../controllers/inbound.controller';
+import { registerRawBodyParser, verifyWebhookSignature } from '../hooks/verify-webhook';
 
 /**
  * Register inbound call routes
  * Thin routing layer - delegates to controller
+ * POST requests must carry a valid Vapi webhook signature
  */
 export async function inboundRoutes(fastify: FastifyInstance) {
+  registerRawBodyParser(fastify);
+
   // Test endpoint to verify route is working
   fastify.get('/inbound', async (request, reply) => {
     return reply.send({
@@ -17,6 +21,7 @@ export async function inboundRoutes(fastify: FastifyInstance) {
   });
 
   fastify.post('/inbound', {
+    preHandler: verifyWebhookSignature,
     schema: {
       tags: ['vapi'],
       description: 'Handle inbound call webhook from Vapi',
@@ -1,13 +1,18 @@
 // src/routes/tools.ts
 import { FastifyInstance } from 'fastify';
 import { handleToolExecution } from '../controllers/tools.controller';
+import { registerRawBodyParser, verifyWebhookSignature } from '../hooks/verify-webhook';
 
 /**
  * Register tool execution routes
  * Thin routing layer - delegates to controller
+ * POST requests must carry a valid Vapi webhook signature
  */
 export async function toolRoutes(fastify: FastifyInstance) {
+  registerRawBodyParser(fastify);
+
   fastify.post('/tools', {
+    preHandler: verifyWebhookSignature,
     schema: {
       tags: ['vapi'],
       description: 'Execute tool calls from Vapi assistant',
@@ -0,0 +1,136 @@
+// src/services/admin-auth.service.ts
+import crypto from 'crypto';
+import { databaseService } from './database.service';
+import { portalAuthService, SESSION_TTL_HOURS } from './portal-auth.service';
+import { AdminRole, AdminSession } from '../types';
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'client_admin', 'analyst'];
+
+/**
+ * Admin authentication and role checks
+ * Password hashing and token signing are shared with the client portal;
+ * sessions live in their own table so portal tokens never grant admin access
+ */
+export class AdminAuthService {
+  /**
+   * Create an admin user
+   * client_admin must belong to a client; super_admin never does
+   */
+  async createUser(username: string, password: string, role: AdminRole, clientId?: string | null): Promise<number> {
+    if (!ADMIN_ROLES.includes(role)) {
+      throw new Error(`Role must be one of ${ADMIN_ROLES.join(', ')}`);
+    }
+    if (role === 'client_admin' && !clientId) {
+      throw new Error('client_admin users need a client');
+    }
+
+    const passwordHash = await portalAuthService.hashPassword(password);
+    return await databaseService.createAdminUser({
+      username,
+      passwordHash,
+      role,
+      clientId: role === 'super_admin' ? null : clientId
+    });
+  }
+
+  /**
+   * Change an admin's password and sign them out everywhere
+   */
+  async setPassword(username: string, password: string): Promise<boolean> {
+    const user = await databaseService.getAdminUserByUsername(username);
+    if (!user) return false;
+
+    await databaseService.updateAdminUserPassword(user.id, await portalAuthService.hashPassword(password));
+    await databaseService.revokeAdminUserSessions(user.id);
+    return true;
+  }
+
+  /**
+   * Check credentials and start a session
+   * Returns null for an unknown user or wrong password
+   */
+  async login(username: string, password: string): Promise<{ token: string; session: AdminSession } | null> {
+    const user = await databaseService.getAdminUserByUsername(username);
+
+    if (!user) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await portalAuthService.hashPassword(password);
+      return null;
+    }
+
+    if (!(await portalAuthService.verifyPassword(password, user.password_hash))) {
+      return null;
+    }
+
+    const session: AdminSession = {
+      sessionId: crypto.randomBytes(16).toString('hex'),
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      clientId: user.client_id || null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000)
+    };
+
+    await databaseService.createAdminSession(session.sessionId, session.userId, session.expiresAt);
+
+    return { token: portalAuthService.signSessionToken(session.sessionId, session.expiresAt), session };
+  }
+
+  /**
+   * Resolve a bearer token to its admin session
+   * Returns null if the token is forged, expired or revoked
+   */
+  async verifyToken(token: string): Promise<AdminSession | null> {
+    const payload = portalAuthService.readSessionToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    const row = await databaseService.getAdminSession(payload.sid);
+    if (!row || row.revoked_at || new Date(row.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return {
+      sessionId: row.id,
+      userId: row.user_id,
+      username: row.username,
+      role: row.role,
+      clientId: row.client_id || null,
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+
+  /**
+   * Revoke an admin session
+   */
+  async logout(session: AdminSession): Promise<void> {
+    await databaseService.revokeAdminSession(session.sessionId);
+  }
+
+  /**
+   * Whether the role may call endpoints that change data
+   */
+  canWrite(session: AdminSession): boolean {
+    return session.role === 'super_admin' || session.role === 'client_admin';
+  }
+
+  /**
+   * Client whose data a request may see
+   * - Users tied to a client always get that client (requested client is ignored)
+   * - Users with access to every client get the requested client, or undefined for all
+   */
+  resolveClientScope(session: AdminSession, requestedClientId?: string): string | undefined {
+    return session.clientId || requestedClientId || undefined;
+  }
+
+  /**
+   * Whether a record belonging to `clientId` is visible to the session
+   */
+  canAccessClient(session: AdminSession, clientId: string | null | undefined): boolean {
+    return !session.clientId || session.clientId === clientId;
+  }
+}
+
+// Export singleton instance
+export const adminAuthService = new AdminAuthService();
@@ -0,0 +1,358 @@
+// src/services/business-hours.service.ts
+import { databaseService } from './database.service';
+import {
+  DayHours,
+  WeeklyHours,
+  BusinessHoursException,
+  BusinessHoursSchedule
+} from '../types';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_TIMEZONE = 'America/Phoenix';
+
+/**
+ * Fallback schedule for clients that haven't configured their own hours
+ * Monday-Friday 8am-12pm, Saturday 9am-3pm, Sunday closed
+ */
+export const DEFAULT_WEEKLY_HOURS: WeeklyHours = [
+  null,
+  { open: '08:00', close: '12:00' },
+  { open: '08:00', close: '12:00' },
+  { open: '08:00', close: '12:00' },
+  { open: '08:00', close: '12:00' },
+  { open: '08:00', close: '12:00' },
+  { open: '09:00', close: '15:00' }
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Calendar date in a client's local timezone
+ */
+export interface LocalDate {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+}
+
+/**
+ * Wall-clock date and time in a client's local timezone
+ */
+export interface LocalDateTime extends LocalDate {
+  hour: number;
+  minute: number;
+}
+
+export interface BusinessHoursStatus {
+  isOpen: boolean;
+  now: LocalDateTime;
+  todayHours: DayHours | null;
+  nextOpenTime?: string;
+}
+
+export class BusinessHoursService {
+  /**
+   * Load a client's schedule from the database
+   * Falls back to the default weekly hours when none are configured
+   */
+  async getSchedule(clientId: string): Promise<BusinessHoursSchedule> {
+    const stored = await databaseService.getClientBusinessHours(clientId);
+
+    const weekly: WeeklyHours = stored.weekly.length > 0
+      ? DAY_NAMES.map((_, dayOfWeek) => {
+          const row = stored.weekly.find(r => r.day_of_week === dayOfWeek);
+          return row ? { open: row.open_time, close: row.close_time } : null;
+        })
+      : [...DEFAULT_WEEKLY_HOURS];
+
+    return {
+      timezone: stored.timezone || DEFAULT_TIMEZONE,
+      weekly,
+      exceptions: stored.exceptions.map(row => ({
+        date: row.date,
+        closed: Boolean(row.is_closed),
+        open: row.open_time || undefined,
+        close: row.close_time || undefined,
+        label: row.label || undefined
+      }))
+    };
+  }
+
+  /**
+   * Get current wall-clock time in the given IANA timezone
+   */
+  getLocalDateTime(date: Date, timezone: string): LocalDateTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute')
+    };
+  }
+
+  /**
+   * Convert a wall-clock time in the given IANA timezone to a UTC instant
+   * (for nonexistent DST times, lands on the equivalent time after the jump)
+   */
+  toUtc(local: LocalDateTime, timezone: string): Date {
+    const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+    // Offset at the guessed instant, then re-check in case it crossed a DST boundary
+    let utc = wallClock;
+    for (let i = 0; i < 2; i++) {
+      const seen = this.getLocalDateTime(new Date(utc), timezone);
+      const seenWallClock = Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute);
+      utc += wallClock - seenWallClock;
+    }
+
+    return new Date(utc);
+  }
+
+  /**
+   * Day of week for a local date (0 = Sunday)
+   */
+  getDayOfWeek(date: LocalDate): number {
+    return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  }
+
+  /**
+   * Shift a local date by a number of days (handles month/year rollover)
+   */
+  addDays(date: LocalDate, days: number): LocalDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate()
+    };
+  }
+
+  /**
+   * Format a local date as YYYY-MM-DD (the key used for holiday/special-hours rows)
+   */
+  toDateKey(date: LocalDate): string {
+    return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+  }
+
+  /**
+   * Format a local date for speech (e.g., "Friday, January 2")
+   */
+  formatDate(date: LocalDate, options: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'long', day: 'numeric' }): string {
+    // Noon UTC keeps the calendar date stable regardless of offset
+    return new Date(Date.UTC(date.year, date.month - 1, date.day, 12))
+      .toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+  }
+
+  /**
+   * Format a 24h "HH:MM" time for speech (e.g., "08:00" -> "8:00 AM")
+   */
+  formatTime(time: string): string {
+    const [hour, minute] = time.split(':').map(Number);
+    const suffix = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}`;
+  }
+
+  /**
+   * Get opening hours for a specific local date
+   * Holidays and special one-off hours override the weekly schedule
+   */
+  getHoursForDate(schedule: BusinessHoursSchedule, date: LocalDate): DayHours | null {
+    const exception = schedule.exceptions.find(e => e.date === this.toDateKey(date));
+
+    if (exception) {
+      if (exception.closed || !exception.open || !exception.close) {
+        return null;
+      }
+      return { open: exception.open, close: exception.close };
+    }
+
+    return schedule.weekly[this.getDayOfWeek(date)] || null;
+  }
+
+  /**
+   * Whether the business is open at a local wall-clock time
+   */
+  isOpenAt(schedule: BusinessHoursSchedule, local: LocalDateTime): boolean {
+    const hours = this.getHoursForDate(schedule, local);
+    const minutes = local.hour * 60 + local.minute;
+
+    return hours !== null &&
+      minutes >= toMinutes(hours.open) &&
+      minutes < toMinutes(hours.close);
+  }
+
+  /**
+   * Check whether the business is open and when it next opens
+   */
+  getStatus(schedule: BusinessHoursSchedule, at: Date = new Date()): BusinessHoursStatus {
+    const now = this.getLocalDateTime(at, schedule.timezone);
+    const minutes = now.hour * 60 + now.minute;
+    const todayHours = this.getHoursForDate(schedule, now);
+
+    const isOpen = this.isOpenAt(schedule, now);
+
+    let nextOpenTime: string | undefined;
+
+    if (!isOpen) {
+      if (todayHours && minutes < toMinutes(todayHours.open)) {
+        nextOpenTime = `Today at ${this.formatTime(todayHours.open)}`;
+      } else {
+        // Look ahead up to two weeks to cover long holiday closures
+        for (let offset = 1; offset <= 14; offset++) {
+          const date = this.addDays(now, offset);
+          const hours = this.getHoursForDate(schedule, date);
+          if (!hours) continue;
+
+          const time = this.formatTime(hours.open);
+          if (offset === 1) {
+            nextOpenTime = `Tomorrow at ${time}`;
+          } else if (offset < 7) {
+            nextOpenTime = `${DAY_NAMES[this.getDayOfWeek(date)]} at ${time}`;
+          } else {
+            nextOpenTime = `${this.formatDate(date)} at ${time}`;
+          }
+          break;
+        }
+      }
+    }
+
+    return { isOpen, now, todayHours, nextOpenTime };
+  }
+
+  /**
+   * Describe the weekly schedule, grouping consecutive days with the same hours
+   * e.g., ["Monday-Friday: 8:00 AM to 5:00 PM", "Saturday: 9:00 AM to 3:00 PM", "Sunday: CLOSED"]
+   */
+  describeWeeklyHours(schedule: BusinessHoursSchedule): string[] {
+    // Monday-first ordering reads more naturally to callers
+    const order = [1, 2, 3, 4, 5, 6, 0];
+    const describe = (hours: DayHours | null) =>
+      hours ? `${this.formatTime(hours.open)} to ${this.formatTime(hours.close)}` : 'CLOSED';
+
+    const lines: string[] = [];
+    let start = 0;
+
+    for (let i = 1; i <= order.length; i++) {
+      const current = describe(schedule.weekly[order[start]]);
+      if (i < order.length && describe(schedule.weekly[order[i]]) === current) {
+        continue;
+      }
+
+      const days = i - 1 === start
+        ? DAY_NAMES[order[start]]
+        : `${DAY_NAMES[order[start]]}-${DAY_NAMES[order[i - 1]]}`;
+      lines.push(`${days}: ${current}`);
+      start = i;
+    }
+
+    return lines;
+  }
+
+  /**
+   * Describe holidays and special hours falling within the next few days
+   */
+  describeUpcomingExceptions(schedule: BusinessHoursSchedule, at: Date = new Date(), days: number = 14): string[] {
+    const today = this.getLocalDateTime(at, schedule.timezone);
+    const lines: string[] = [];
+
+    for (let offset = 0; offset < days; offset++) {
+      const date = this.addDays(today, offset);
+      const exception = schedule.exceptions.find(e => e.date === this.toDateKey(date));
+      if (!exception) continue;
+
+      const label = exception.label ? ` (${exception.label})` : '';
+      const hours = this.getHoursForDate(schedule, date);
+      const description = hours
+        ? `special hours ${this.formatTime(hours.open)} to ${this.formatTime(hours.close)}`
+        : 'CLOSED';
+      lines.push(`${this.formatDate(date)}${label}: ${description}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Validate a schedule submitted from the client portal
+   * Returns an error message, or null if the schedule is valid
+   */
+  validate(schedule: {
+    timezone?: string;
+    weekly?: WeeklyHours;
+    exceptions?: BusinessHoursException[];
+  }): string | null {
+    if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+      return `Unknown timezone: ${schedule.timezone}`;
+    }
+
+    if (schedule.weekly !== undefined) {
+      if (!Array.isArray(schedule.weekly) || schedule.weekly.length !== 7) {
+        return 'Weekly hours must list all 7 days (Sunday first)';
+      }
+
+      for (let day = 0; day < 7; day++) {
+        const hours = schedule.weekly[day];
+        if (!hours) continue;
+        const error = validateHours(hours);
+        if (error) return `${DAY_NAMES[day]}: ${error}`;
+      }
+    }
+
+    for (const exception of schedule.exceptions || []) {
+      if (!DATE_PATTERN.test(exception.date || '')) {
+        return `Invalid holiday/special hours date: ${exception.date} (use YYYY-MM-DD)`;
+      }
+      if (!exception.closed) {
+        const error = validateHours({ open: exception.open || '', close: exception.close || '' });
+        if (error) return `${exception.date}: ${error}`;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Convert "HH:MM" to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+function validateHours(hours: DayHours): string | null {
+  if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+    return 'times must be in 24-hour HH:MM format';
+  }
+  if (toMinutes(hours.open) >= toMinutes(hours.close)) {
+    return 'opening time must be before closing time';
+  }
+  return null;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Export singleton instance
+export const businessHoursService = new BusinessHoursService();
@@ -0,0 +1,29 @@
+// src/services/call-control.service.ts
+import axios from 'axios';
+
+/**
+ * Message accepted by Vapi's Live Call Control endpoint (`${monitor.controlUrl}/control`)
+ */
+export type CallControlMessage =
+  | { type: 'say'; content: string; endCallAfterSpoken?: boolean }
+  | { type: 'transfer'; destination: { type: 'number'; number: string; message?: string }; content?: string }
+  | { type: 'control'; control: 'mute-assistant' | 'unmute-assistant' }
+  | { type: 'end-call' };
+
+/**
+ * Sends Live Call Control messages to a call in progress
+ * Used by the transfer_call tool and by supervisor actions from the dashboard
+ */
+export class CallControlService {
+  /**
+   * POST one control message; throws if Vapi rejects it
+   */
+  async send(controlUrl: string, message: CallControlMessage): Promise<void> {
+    await axios.post(`${controlUrl}/control`, message, {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Export singleton instance
+export const callControlService = new CallControlService();
@@ -0,0 +1,144 @@
+// src/services/call-events.service.ts
+import { StatusUpdateMessage, EndOfCallReportMessage } from '../types';
+import { databaseService } from './database.service';
+import { outboundCallbackService } from './outbound-callback.service';
+import { liveCallService } from './live-call.service';
+import { salesListingService } from './sales-listing.service';
+
+/**
+ * Applies call lifecycle webhooks (status-update, end-of-call-report) to the database
+ * Runs from the webhook inbox - errors are thrown, not swallowed, so a failed event
+ * is dead-lettered and can be replayed
+ */
+export class CallEventsService {
+  /**
+   * Persist a status change and its start/end timestamps
+   */
+  async processStatusUpdate(message: StatusUpdateMessage): Promise<void> {
+    if (!message.call?.id) return;
+
+    const client = await databaseService.getClientForCall(message.call.phoneNumberId, message.call.assistantId);
+    await databaseService.updateCallStatus({
+      id: message.call.id,
+      status: message.status,
+      at: message.timestamp ? new Date(message.timestamp) : new Date(),
+      endedReason: message.endedReason,
+      clientId: client?.id,
+      phoneNumberId: message.call.phoneNumberId,
+      callerPhone: message.call.customer?.number,
+      callType: message.call.type,
+      controlUrl: message.call.monitor?.controlUrl
+    });
+    liveCallService.statusChanged(message.call.id, client?.id || null, message.status, message.endedReason);
+  }
+
+  /**
+   * Save the final call record, structured data and caller contact, and link a
+   * sales call to the listings it was about
+   * Must run once per call - updateContact counts the call towards the caller's total.
+   * `options.countCall: false` re-applies a report to a call that was already
+   * counted (settling callbacks and the caller's contact are skipped)
+   */
+  async processEndOfCallReport(message: EndOfCallReportMessage, options: { countCall?: boolean } = {}): Promise<void> {
+    const countCall = options.countCall !== false;
+
+    // Extract structured data from artifact
+    let structuredData = null;
+
+    if ((message as any).artifact?.structuredOutputs) {
+      const structuredOutputs = (message as any).artifact.structuredOutputs;
+
+      // structuredOutputs is an object keyed by structured output ID
+      // Get the first structured output (or use the known ID)
+      const structuredOutputValues = Object.values(structuredOutputs);
+
+      if (structuredOutputValues.length > 0) {
+        const structuredOutput: any = structuredOutputValues[0];
+        if (!structuredOutput.error && structuredOutput.result) {
+          structuredData = structuredOutput.result;
+        }
+      }
+    }
+
+    // Parse success score if it's a string like "8/10"
+    let successScore: number | undefined;
+    if (message.analysis?.successEvaluation) {
+      const score = message.analysis.successEvaluation.toString();
+      const match = score.match(/(\d+)/);
+      if (match) {
+        successScore = parseInt(match[1]);
+      }
+    }
+
+    // Attribute the call to its client so admin views can be scoped
+    const client = await databaseService.getClientForCall(
+      (message as any).call?.phoneNumberId,
+      (message as any).call?.assistantId
+    );
+
+    // Save call record
+    await databaseService.saveCall({
+      id: message.call.id,
+      clientId: client?.id,
+      phoneNumberId: (message as any).call?.phoneNumberId,
+      callerPhone: (message as any).call?.customer?.number,
+      callType: (message as any).call?.type,
+      startedAt: message.call.startedAt,
+      endedAt: message.call.endedAt,
+      status: message.call.status,
+      endedReason: message.call.endedReason,
+      transcript: message.transcript,
+      summary: message.summary,
+      recordingUrl: message.recordingUrl,
+      stereoRecordingUrl: message.stereoRecordingUrl,
+      successScore,
+      cost: message.cost,
+      costBreakdown: message.costBreakdown
+    });
+
+    // Settle the callback if this was an outbound callback call
+    if (countCall) {
+      await outboundCallbackService.handleCallEnded(message.call.id, message.call.endedReason);
+    }
+
+    liveCallService.callEnded(message.call.id, client?.id || null, {
+      endedReason: message.call.endedReason,
+      summary: message.summary,
+      durationSeconds: message.call.startedAt && message.call.endedAt
+        ? Math.floor((new Date(message.call.endedAt).getTime() - new Date(message.call.startedAt).getTime()) / 1000)
+        : undefined
+    });
+
+    // Save structured data if available
+    if (structuredData) {
+      await databaseService.saveStructuredData(
+        message.call.id,
+        structuredData
+      );
+
+      // Link a sales call to the machines for sale it was about
+      if (client) {
+        await salesListingService.linkCall(message.call.id, client.id, structuredData);
+      }
+
+      // Update contact if we have caller info
+      const callerPhone = structuredData.caller?.phone || (message as any).call?.customer?.number;
+
+      if (callerPhone && countCall) {
+        const machineMention = structuredData.machine?.make && structuredData.machine?.model
+          ? `${structuredData.machine.make} ${structuredData.machine.model}`
+          : structuredData.machine?.category || null;
+
+        await databaseService.updateContact(callerPhone, {
+          name: structuredData.caller?.name,
+          company: structuredData.caller?.company,
+          email: structuredData.caller?.email,
+          lastMachine: machineMention
+        });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const callEventsService = new CallEventsService();
@@ -0,0 +1,274 @@
+// src/services/call-reconcile.service.ts
+import { databaseService } from './database.service';
+import { vapiClient, VapiClient } from './vapi-client.service';
+import { webhookInboxService } from './webhook-inbox.service';
+import { callEventsService } from './call-events.service';
+import { EndOfCallReportMessage } from '../types';
+
+/**
+ * Reconciliation job settings (env vars in brackets)
+ */
+export interface CallReconcileSettings {
+  intervalMinutes: number;   // how often to reconcile; 0 disables [CALL_RECONCILE_INTERVAL_MINUTES=60]
+  lookbackHours: number;     // each run covers calls created this far back [CALL_RECONCILE_LOOKBACK_HOURS=24]
+  pageSize: number;          // calls per Vapi list request
+}
+
+export function loadReconcileSettings(env: NodeJS.ProcessEnv = process.env): CallReconcileSettings {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+  return {
+    intervalMinutes: number(env.CALL_RECONCILE_INTERVAL_MINUTES, 60),
+    lookbackHours: number(env.CALL_RECONCILE_LOOKBACK_HOURS, 24),
+    pageSize: 100
+  };
+}
+
+/**
+ * What a reconciliation run found (or, with dryRun, would change)
+ * - created: calls Vapi has that were missing locally
+ * - updated: local calls that were incomplete, with the columns that changed
+ * - skipped: calls not finished yet
+ */
+export interface CallReconcileReport {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  scanned: number;
+  created: string[];
+  updated: Array<{ id: string; fields: string[] }>;
+  unchanged: number;
+  skipped: Array<{ id: string; reason: string }>;
+  failed: Array<{ id: string; error: string }>;
+}
+
+// Columns compared to report what a run changed
+const TRACKED_FIELDS = [
+  'client_id', 'status', 'ended_reason', 'started_at', 'ended_at', 'duration_seconds',
+  'transcript', 'summary', 'recording_url', 'stereo_recording_url', 'success_score',
+  'cost_total', 'cost_transport', 'cost_stt', 'cost_llm', 'cost_tts', 'cost_vapi',
+  'caller_name', 'caller_company', 'intent_category', 'urgency', 'outcome_type'
+];
+
+/**
+ * Backfills the local calls table from Vapi
+ * Pages through vapiClient.listCalls for a date range; ended calls that are missing
+ * locally, or stored without their end-of-call data, are run through the same path
+ * as an end-of-call-report webhook (via the webhook inbox, so nothing is counted twice)
+ */
+export class CallReconcileService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<CallReconcileReport> | null = null;
+  private settings: CallReconcileSettings;
+
+  constructor(private vapi: VapiClient = vapiClient, settings?: Partial<CallReconcileSettings>) {
+    this.settings = { ...loadReconcileSettings(), ...settings };
+  }
+
+  /**
+   * Reconcile on an interval (no-op if disabled, without a Vapi key, or already started)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    if (this.settings.intervalMinutes <= 0 || !process.env.VAPI_API_KEY) {
+      console.log('[CallReconcile] Disabled (CALL_RECONCILE_INTERVAL_MINUTES=0 or no VAPI_API_KEY)');
+      return;
+    }
+
+    console.log(`[CallReconcile] Reconciling the last ${this.settings.lookbackHours}h every ${this.settings.intervalMinutes}m`);
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[CallReconcile] Run failed:', error.message));
+    }, this.settings.intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for reconciliation
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the interval and wait for an in-flight run
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * One scheduled pass over the lookback window (overlapping calls share the in-flight run)
+   */
+  async runOnce(now: Date = new Date()): Promise<CallReconcileReport> {
+    if (!this.running) {
+      const from = new Date(now.getTime() - this.settings.lookbackHours * 60 * 60 * 1000);
+      this.running = this.reconcile({ from, to: now }).then(report => {
+        if (report.created.length || report.updated.length || report.failed.length) {
+          console.log(`[CallReconcile] ${report.created.length} created, ${report.updated.length} updated, ${report.failed.length} failed`);
+        }
+        return report;
+      }).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Reconcile calls created in [from, to)
+   * `assistantId` limits the run to one client's assistant; `dryRun` only reports
+   */
+  async reconcile(options: { from: Date; to: Date; assistantId?: string; dryRun?: boolean }): Promise<CallReconcileReport> {
+    const report: CallReconcileReport = {
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      dryRun: options.dryRun === true,
+      scanned: 0,
+      created: [],
+      updated: [],
+      unchanged: 0,
+      skipped: [],
+      failed: []
+    };
+
+    for await (const call of this.listCalls(options.from, options.to, options.assistantId)) {
+      report.scanned++;
+
+      if (call.status !== 'ended') {
+        report.skipped.push({ id: call.id, reason: `status ${call.status}` });
+        continue;
+      }
+
+      try {
+        await this.reconcileCall(call, report);
+      } catch (error: any) {
+        console.error(`[CallReconcile] Call ${call.id} failed:`, error.message);
+        report.failed.push({ id: call.id, error: error.message });
+      }
+    }
+
+    return report;
+  }
+
+  private async reconcileCall(call: any, report: CallReconcileReport): Promise<void> {
+    const before = await databaseService.getCall(call.id);
+    const missing = this.missingFields(call, before, await databaseService.hasStructuredData(call.id));
+
+    if (missing.length === 0) {
+      report.unchanged++;
+      return;
+    }
+
+    if (report.dryRun) {
+      if (before) report.updated.push({ id: call.id, fields: missing });
+      else report.created.push(call.id);
+      return;
+    }
+
+    const message = this.toEndOfCallReport(call);
+    const result = await webhookInboxService.receive({ message });
+
+    if (result.status === 'dead') {
+      throw new Error(result.error);
+    }
+    if (result.status === 'duplicate') {
+      // The end-of-call report was processed, but Vapi has more now (e.g. final costs)
+      await callEventsService.processEndOfCallReport(message, { countCall: false });
+    }
+
+    if (!before) {
+      report.created.push(call.id);
+      return;
+    }
+
+    const after = await databaseService.getCall(call.id);
+    const fields = TRACKED_FIELDS.filter(field => before[field] !== after[field]);
+    if (fields.length > 0) {
+      report.updated.push({ id: call.id, fields });
+    } else {
+      report.unchanged++;
+    }
+  }
+
+  /**
+   * Page through Vapi's calls, newest first
+   * Vapi lists by createdAt without a cursor, so each page ends at the oldest call
+   * seen so far (inclusive, de-duplicated, in case several share a timestamp)
+   */
+  private async *listCalls(from: Date, to: Date, assistantId?: string): AsyncGenerator<any> {
+    const seen = new Set<string>();
+    let upTo = new Date(to.getTime() - 1).toISOString();
+
+    while (true) {
+      const { results } = await this.vapi.listCalls({
+        createdAtGt: from.toISOString(),
+        createdAtLe: upTo,
+        limit: this.settings.pageSize,
+        ...(assistantId ? { assistantId } : {})
+      });
+
+      const fresh = results.filter((call: any) => !seen.has(call.id));
+      for (const call of fresh) {
+        seen.add(call.id);
+        yield call;
+      }
+
+      if (results.length < this.settings.pageSize || fresh.length === 0) return;
+      upTo = results.reduce((oldest: string, call: any) => call.createdAt < oldest ? call.createdAt : oldest, upTo);
+    }
+  }
+
+  /**
+   * Local columns that are empty although Vapi has the data (all of them if the call is missing)
+   */
+  private missingFields(call: any, local: any, hasStructuredData: boolean): string[] {
+    if (!local) return ['call'];
+
+    const missing: string[] = [];
+    if (local.status !== 'ended') missing.push('status');
+    if (call.endedAt && !local.ended_at) missing.push('ended_at');
+    if (call.cost != null && local.cost_total == null) missing.push('cost_total');
+    if (this.transcript(call) && !local.transcript) missing.push('transcript');
+    if (this.summary(call) && !local.summary) missing.push('summary');
+    if (this.recordingUrl(call) && !local.recording_url) missing.push('recording_url');
+    if (call.artifact?.structuredOutputs && !hasStructuredData) missing.push('structured_data');
+    return missing;
+  }
+
+  /**
+   * Shape a Vapi call like the end-of-call-report webhook for the same call
+   */
+  private toEndOfCallReport(call: any): EndOfCallReportMessage {
+    return {
+      type: 'end-of-call-report',
+      call,
+      transcript: this.transcript(call),
+      summary: this.summary(call),
+      recordingUrl: this.recordingUrl(call),
+      stereoRecordingUrl: call.artifact?.stereoRecordingUrl ?? call.stereoRecordingUrl,
+      analysis: call.analysis,
+      cost: call.cost,
+      costBreakdown: call.costBreakdown,
+      artifact: call.artifact
+    } as EndOfCallReportMessage;
+  }
+
+  private transcript(call: any): string | undefined {
+    return call.artifact?.transcript ?? call.transcript;
+  }
+
+  private summary(call: any): string | undefined {
+    return call.analysis?.summary ?? call.summary;
+  }
+
+  private recordingUrl(call: any): string | undefined {
+    return call.artifact?.recordingUrl ?? call.recordingUrl;
+  }
+}
+
+// Export singleton instance
+export const callReconcileService = new CallReconcileService();
@@ -0,0 +1,142 @@
+// src/services/callback-notifier.service.ts
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import crypto from 'crypto';
+import axios from 'axios';
+import nodemailer, { Transporter } from 'nodemailer';
+import { CallbackNotification, CallbackNotifier } from '../types';
+
+export const NOTIFIER_NAMES = ['console', 'file', 'smtp', 'webhook'];
+
+const DEFAULT_NOTIFY_FILE = 'logs/callback-reminders.log';
+
+/**
+ * Header carrying the HMAC-SHA256 (hex) of the webhook body when a secret is set
+ */
+export const NOTIFY_SIGNATURE_HEADER = 'x-callback-signature';
+
+/**
+ * Logs reminders to stdout
+ */
+export class ConsoleNotifier implements CallbackNotifier {
+  readonly name = 'console';
+
+  async send(notification: CallbackNotification): Promise<void> {
+    console.log(`[CallbackReminder] ${notification.subject}\n${notification.text}`);
+  }
+}
+
+/**
+ * Appends reminders to a file, one JSON object per line
+ */
+export class FileNotifier implements CallbackNotifier {
+  readonly name = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async send(notification: CallbackNotification): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify({ sentAt: new Date().toISOString(), ...notification }) + '\n');
+  }
+}
+
+/**
+ * Emails reminders; escalations go to a separate address when one is configured
+ */
+export class SmtpNotifier implements CallbackNotifier {
+  readonly name = 'smtp';
+
+  constructor(
+    private readonly transporter: Pick<Transporter, 'sendMail'>,
+    private readonly options: { from: string; to: string; escalationTo?: string }
+  ) {}
+
+  async send(notification: CallbackNotification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: notification.kind === 'escalation' && this.options.escalationTo
+        ? this.options.escalationTo
+        : this.options.to,
+      subject: notification.subject,
+      text: notification.text
+    });
+  }
+}
+
+/**
+ * POSTs the notification as JSON to any URL (Slack/Teams relays, Zapier, a CRM...)
+ */
+export class WebhookNotifier implements CallbackNotifier {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string, private readonly secret?: string) {}
+
+  async send(notification: CallbackNotification): Promise<void> {
+    const body = JSON.stringify(notification);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.secret) {
+      headers[NOTIFY_SIGNATURE_HEADER] = crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+    }
+
+    await axios.post(this.url, body, { headers, timeout: 10000 });
+  }
+}
+
+/**
+ * Build the notifiers listed in CALLBACK_NOTIFIERS (comma-separated, default "console")
+ * Notifiers missing required settings are skipped with a warning
+ */
+export function buildNotifiers(env: NodeJS.ProcessEnv = process.env): CallbackNotifier[] {
+  const names = (env.CALLBACK_NOTIFIERS || 'console')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const notifiers: CallbackNotifier[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'console':
+        notifiers.push(new ConsoleNotifier());
+        break;
+
+      case 'file':
+        notifiers.push(new FileNotifier(resolve(env.CALLBACK_NOTIFY_FILE || DEFAULT_NOTIFY_FILE)));
+        break;
+
+      case 'smtp':
+        if (!env.SMTP_HOST || !env.CALLBACK_NOTIFY_EMAIL_TO) {
+          console.warn('[CallbackReminder] smtp notifier needs SMTP_HOST and CALLBACK_NOTIFY_EMAIL_TO - skipping');
+          break;
+        }
+        notifiers.push(new SmtpNotifier(
+          nodemailer.createTransport({
+            host: env.SMTP_HOST,
+            port: parseInt(env.SMTP_PORT || '587'),
+            secure: env.SMTP_SECURE === 'true',
+            auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS || '' } : undefined
+          }),
+          {
+            from: env.CALLBACK_NOTIFY_EMAIL_FROM || env.SMTP_USER || 'callbacks@localhost',
+            to: env.CALLBACK_NOTIFY_EMAIL_TO,
+            escalationTo: env.CALLBACK_ESCALATION_EMAIL_TO
+          }
+        ));
+        break;
+
+      case 'webhook':
+        if (!env.CALLBACK_NOTIFY_WEBHOOK_URL) {
+          console.warn('[CallbackReminder] webhook notifier needs CALLBACK_NOTIFY_WEBHOOK_URL - skipping');
+          break;
+        }
+        notifiers.push(new WebhookNotifier(env.CALLBACK_NOTIFY_WEBHOOK_URL, env.CALLBACK_NOTIFY_WEBHOOK_SECRET));
+        break;
+
+      default:
+        console.warn(`[CallbackReminder] Unknown notifier "${name}" (expected ${NOTIFIER_NAMES.join(', ')}) - skipping`);
+    }
+  }
+
+  return notifiers;
+}
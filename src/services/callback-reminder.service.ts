@@ -0,0 +1,251 @@
+// src/services/callback-reminder.service.ts
+import crypto from 'crypto';
+import { hostname } from 'os';
+import { databaseService } from './database.service';
+import { buildNotifiers } from './callback-notifier.service';
+import { outboundCallbackService } from './outbound-callback.service';
+import { CallbackNotification, CallbackNotifier, CallbackReminderKind } from '../types';
+
+/**
+ * Scheduler settings (env vars in brackets)
+ */
+export interface CallbackReminderSettings {
+  intervalSeconds: number;        // how often to check; 0 disables [CALLBACK_REMINDER_INTERVAL_SECONDS=60]
+  windowMinutes: number;          // remind this long before a callback is due [CALLBACK_REMINDER_WINDOW_MINUTES=15]
+  escalateAfterMinutes: number;   // escalate once this late [CALLBACK_ESCALATE_AFTER_MINUTES=60]
+  maxAttempts: number;            // give up on a reminder after this many tries [CALLBACK_REMINDER_MAX_ATTEMPTS=5]
+  autoDial: boolean;              // call customers back through Vapi at their scheduled time [CALLBACK_AUTO_DIAL=false]
+  leaseSeconds: number;           // how long an instance holds a reminder while sending
+  batchSize: number;
+}
+
+export function loadReminderSettings(env: NodeJS.ProcessEnv = process.env): CallbackReminderSettings {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+  return {
+    intervalSeconds: number(env.CALLBACK_REMINDER_INTERVAL_SECONDS, 60),
+    windowMinutes: number(env.CALLBACK_REMINDER_WINDOW_MINUTES, 15),
+    escalateAfterMinutes: number(env.CALLBACK_ESCALATE_AFTER_MINUTES, 60),
+    maxAttempts: number(env.CALLBACK_REMINDER_MAX_ATTEMPTS, 5),
+    autoDial: env.CALLBACK_AUTO_DIAL === 'true',
+    leaseSeconds: 120,
+    batchSize: 50
+  };
+}
+
+export interface CallbackReminderRunResult {
+  dialed: number;
+  enqueued: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Background scheduler for callback reminders
+ * - Each tick queues reminders in callback_reminders (due soon / escalation), then
+ *   leases a batch and sends it through every notifier
+ * - All state is in SQLite, so restarts pick up where they left off; the UNIQUE queue
+ *   and lease mean instances sharing a database never send the same reminder twice
+ * - A notifier that fails is retried with backoff; notifiers that already delivered are not repeated
+ * - With autoDial, unassigned callbacks are also dialed through Vapi once their scheduled time arrives
+ */
+export class CallbackReminderService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<CallbackReminderRunResult> | null = null;
+  private notifiers: CallbackNotifier[] | null;
+  private settings: CallbackReminderSettings;
+
+  readonly instanceId = `${hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+  constructor(notifiers?: CallbackNotifier[], settings?: Partial<CallbackReminderSettings>) {
+    this.notifiers = notifiers || null;
+    this.settings = { ...loadReminderSettings(), ...settings };
+  }
+
+  /**
+   * Start checking on an interval (no-op if disabled or already started)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    if (this.settings.intervalSeconds <= 0) {
+      console.log('[CallbackReminder] Disabled (CALLBACK_REMINDER_INTERVAL_SECONDS=0)');
+      return;
+    }
+
+    const names = this.getNotifiers().map(n => n.name).join(', ') || 'none';
+    console.log(`[CallbackReminder] Checking every ${this.settings.intervalSeconds}s (notifiers: ${names}${this.settings.autoDial ? ', auto-dial on' : ''})`);
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[CallbackReminder] Run failed:', error.message));
+    }, this.settings.intervalSeconds * 1000);
+
+    // Don't keep the process alive just for reminders
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the interval and wait for an in-flight run
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * One scheduler pass (overlapping calls share the in-flight run)
+   */
+  async runOnce(now: Date = new Date()): Promise<CallbackReminderRunResult> {
+    if (!this.running) {
+      this.running = this.run(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(now: Date): Promise<CallbackReminderRunResult> {
+    const { windowMinutes, escalateAfterMinutes, leaseSeconds, batchSize } = this.settings;
+    const result: CallbackReminderRunResult = { dialed: 0, enqueued: 0, sent: 0, retrying: 0, failed: 0, skipped: 0 };
+
+    if (this.settings.autoDial) {
+      result.dialed = await outboundCallbackService.dialDue(now);
+    }
+
+    result.enqueued = await databaseService.enqueueCallbackReminders(now, windowMinutes, escalateAfterMinutes);
+
+    const claimToken = `${this.instanceId}:${crypto.randomBytes(4).toString('hex')}`;
+    const reminders = await databaseService.claimCallbackReminders(claimToken, now, leaseSeconds, batchSize);
+
+    for (const reminder of reminders) {
+      const outcome = await this.deliver(reminder, now);
+      result[outcome]++;
+    }
+
+    if (reminders.length > 0) {
+      console.log(`[CallbackReminder] ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${result.skipped} skipped`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one leased reminder through every notifier that hasn't delivered it yet
+   */
+  private async deliver(reminder: any, now: Date): Promise<'sent' | 'retrying' | 'failed' | 'skipped'> {
+    const attempts = reminder.attempts + 1;
+
+    // Worked (or cancelled) since it was queued
+    if (reminder.callback_status !== 'pending') {
+      await databaseService.finishCallbackReminder(reminder.id, 'skipped', reminder.attempts);
+      return 'skipped';
+    }
+
+    const notification = this.buildNotification(reminder);
+    const delivered = await databaseService.getDeliveredReminderNotifiers(reminder.id);
+    const errors: string[] = [];
+
+    for (const notifier of this.getNotifiers()) {
+      if (delivered.includes(notifier.name)) continue;
+
+      try {
+        await notifier.send(notification);
+        await databaseService.recordCallbackReminderAttempt(reminder.id, notifier.name, null);
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        errors.push(`${notifier.name}: ${message}`);
+        await databaseService.recordCallbackReminderAttempt(reminder.id, notifier.name, message);
+        console.error(`[CallbackReminder] ${notifier.name} failed for reminder ${reminder.id}:`, message);
+      }
+    }
+
+    if (errors.length === 0) {
+      await databaseService.finishCallbackReminder(reminder.id, 'sent', attempts);
+
+      if (reminder.kind === 'escalation') {
+        await databaseService.addCallbackEvent(reminder.callback_id, {
+          action: 'escalated',
+          actor: 'scheduler',
+          fromStatus: 'pending',
+          toStatus: 'pending',
+          details: { dueAt: notification.dueAt }
+        });
+      }
+      return 'sent';
+    }
+
+    if (attempts >= this.settings.maxAttempts) {
+      await databaseService.finishCallbackReminder(reminder.id, 'failed', attempts, errors.join('; '));
+      return 'failed';
+    }
+
+    // 1, 2, 4, 8... minutes, capped at an hour
+    const backoffMinutes = Math.min(2 ** (attempts - 1), 60);
+    await databaseService.retryCallbackReminder(
+      reminder.id,
+      attempts,
+      new Date(now.getTime() + backoffMinutes * 60 * 1000),
+      errors.join('; ')
+    );
+    return 'retrying';
+  }
+
+  private buildNotification(reminder: any): CallbackNotification {
+    const kind: CallbackReminderKind = reminder.kind;
+    // SQLite datetime() output is UTC without a zone marker; PostgreSQL's is ISO
+    const dueAt = new Date(reminder.due_at.endsWith('Z') ? reminder.due_at : `${reminder.due_at.replace(' ', 'T')}Z`).toISOString();
+    const who = reminder.customer_name || reminder.customer_phone;
+    const clientName = reminder.client_name || reminder.client_id;
+
+    const subject = kind === 'escalation'
+      ? `OVERDUE callback: ${who} (${reminder.department}) - ${clientName}`
+      : `Callback due: ${who} (${reminder.department}) - ${clientName}`;
+
+    const text = [
+      kind === 'escalation'
+        ? `This callback was due at ${dueAt} and is still pending.`
+        : `This callback is due at ${dueAt}.`,
+      `Customer: ${who}`,
+      `Phone: ${reminder.customer_phone}`,
+      `Department: ${reminder.department}`,
+      `Requested time: ${reminder.preferred_time}`,
+      `Reason: ${reminder.reason}`,
+      `Assigned to: ${reminder.assigned_to || 'unassigned'}`
+    ].join('\n');
+
+    return {
+      kind,
+      reminderId: reminder.id,
+      callbackId: reminder.callback_id,
+      clientId: reminder.client_id,
+      clientName,
+      customerName: reminder.customer_name,
+      customerPhone: reminder.customer_phone,
+      department: reminder.department,
+      reason: reminder.reason,
+      preferredTime: reminder.preferred_time,
+      dueAt,
+      assignedTo: reminder.assigned_to || null,
+      subject,
+      text
+    };
+  }
+
+  private getNotifiers(): CallbackNotifier[] {
+    if (!this.notifiers) {
+      this.notifiers = buildNotifiers();
+    }
+    return this.notifiers;
+  }
+}
+
+// Export singleton instance
+export const callbackReminderService = new CallbackReminderService();
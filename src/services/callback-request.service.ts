@@ -0,0 +1,170 @@
+// src/services/callback-request.service.ts
+import { databaseService } from './database.service';
+import { CallbackAction, CallbackActionResult } from '../types';
+
+/**
+ * Audit event name recorded for each action
+ */
+const EVENT_NAMES: Record<CallbackAction, string> = {
+  claim: 'claimed',
+  assign: 'assigned',
+  reschedule: 'rescheduled',
+  complete: 'completed',
+  cancel: 'cancelled',
+  note: 'note'
+};
+
+/**
+ * An outbound callback call still 'dialing' this long after it was placed lost its
+ * end-of-call report; it can be dialed again
+ */
+export const DIALING_TIMEOUT_MINUTES = 30;
+
+/**
+ * Callback queue workflow for the client portal
+ *
+ *   pending ──claim/assign/reschedule/note──▶ pending
+ *   pending ──complete──▶ completed
+ *   pending ──cancel────▶ cancelled
+ *
+ * Closed callbacks only accept notes. Every action is written to callback_events.
+ */
+export class CallbackRequestService {
+  /**
+   * List a client's callbacks
+   */
+  async list(clientId: string, filters: { status?: string; assignedTo?: string; overdue?: boolean; limit?: number }) {
+    const rows = await databaseService.getCallbackRequestsByClient(clientId, filters);
+    return rows.map(row => this.format(row));
+  }
+
+  /**
+   * One callback with its audit trail and reminder deliveries, or null if it isn't this client's
+   */
+  async get(clientId: string, callbackId: number) {
+    const row = await databaseService.getCallbackRequest(clientId, callbackId);
+    if (!row) return null;
+
+    return {
+      ...this.format(row),
+      events: await databaseService.getCallbackEvents(callbackId),
+      reminders: await databaseService.getCallbackReminders(callbackId)
+    };
+  }
+
+  /**
+   * Apply a portal action to a callback
+   * - claim: assign to the acting user (fails if someone else has it)
+   * - assign: hand to `input.assignee` (null/empty unassigns)
+   * - reschedule: set `input.scheduledFor` (ISO date-time in the future)
+   * - complete / cancel: close the callback
+   * - note: add `input.note` to the audit trail
+   * `input.note` is recorded with any action
+   */
+  async apply(
+    clientId: string,
+    callbackId: number,
+    action: CallbackAction,
+    actor: string,
+    input: { assignee?: string | null; scheduledFor?: string; note?: string } = {}
+  ): Promise<CallbackActionResult> {
+    const callback = await databaseService.getCallbackRequest(clientId, callbackId);
+    if (!callback) {
+      return { ok: false, statusCode: 404, message: 'Callback not found' };
+    }
+
+    const note = typeof input.note === 'string' ? input.note.trim() : '';
+
+    if (action === 'note') {
+      if (!note) {
+        return { ok: false, statusCode: 400, message: 'Note is required' };
+      }
+      await databaseService.addCallbackEvent(callbackId, {
+        action: 'note',
+        actor,
+        note
+      });
+      return { ok: true, callback: await this.get(clientId, callbackId) };
+    }
+
+    if (callback.status !== 'pending') {
+      return { ok: false, statusCode: 409, message: `Callback is already ${callback.status}` };
+    }
+
+    const now = new Date().toISOString();
+    let changes: Parameters<typeof databaseService.updatePendingCallbackRequest>[1];
+    let details: Record<string, any> | null = null;
+
+    switch (action) {
+      case 'claim':
+        if (callback.assigned_to && callback.assigned_to !== actor) {
+          return { ok: false, statusCode: 409, message: `Callback is assigned to ${callback.assigned_to}` };
+        }
+        changes = { assigned_to: actor, claimed_at: now };
+        break;
+
+      case 'assign': {
+        const assignee = typeof input.assignee === 'string' ? input.assignee.trim() : '';
+        // The assignee picks it up themselves (claim); assigning to yourself counts as claiming
+        changes = { assigned_to: assignee || null, claimed_at: assignee === actor ? now : null };
+        details = { assignedTo: assignee || null, previouslyAssignedTo: callback.assigned_to || null };
+        break;
+      }
+
+      case 'reschedule': {
+        const scheduledFor = input.scheduledFor ? new Date(input.scheduledFor) : null;
+        if (!scheduledFor || isNaN(scheduledFor.getTime())) {
+          return { ok: false, statusCode: 400, message: 'scheduledFor must be an ISO 8601 date-time' };
+        }
+        if (scheduledFor.getTime() <= Date.now()) {
+          return { ok: false, statusCode: 400, message: 'scheduledFor must be in the future' };
+        }
+        changes = { scheduled_for: scheduledFor.toISOString() };
+        details = { scheduledFor: scheduledFor.toISOString(), previouslyScheduledFor: callback.scheduled_for || null };
+        break;
+      }
+
+      case 'complete':
+        changes = { status: 'completed', completed_at: now };
+        break;
+
+      case 'cancel':
+        changes = { status: 'cancelled', cancelled_at: now };
+        break;
+
+      default:
+        return { ok: false, statusCode: 400, message: `Unknown action: ${action}` };
+    }
+
+    const updated = await databaseService.updatePendingCallbackRequest(
+      callbackId,
+      changes,
+      action === 'claim' ? { unlessClaimedByOther: actor } : undefined
+    );
+    if (!updated) {
+      // Someone else closed or claimed it between our read and write
+      return { ok: false, statusCode: 409, message: 'Callback was changed by someone else - reload and try again' };
+    }
+
+    await databaseService.addCallbackEvent(callbackId, {
+      action: EVENT_NAMES[action],
+      actor,
+      fromStatus: callback.status,
+      toStatus: changes.status || callback.status,
+      note: note || null,
+      details
+    });
+
+    return { ok: true, callback: await this.get(clientId, callbackId) };
+  }
+
+  private format(row: any) {
+    const dialingTimedOut = row.outbound_status === 'dialing' && row.outbound_attempted_at &&
+      Date.now() - new Date(row.outbound_attempted_at).getTime() > DIALING_TIMEOUT_MINUTES * 60 * 1000;
+
+    return { ...row, overdue: Boolean(row.overdue), outbound_timed_out: Boolean(dialingTimedOut) };
+  }
+}
+
+// Export singleton instance
+export const callbackRequestService = new CallbackRequestService();
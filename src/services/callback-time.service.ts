@@ -0,0 +1,277 @@
+// src/services/callback-time.service.ts
+import { businessHoursService, DAY_NAMES, LocalDate, LocalDateTime } from './business-hours.service';
+import { departmentRoutingService, DEPARTMENTS } from './department-routing.service';
+import { BusinessHoursSchedule, Department } from '../types';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Month names (or 3+ letter abbreviations, "sept") followed by a day: "january 2nd", "jan 2", "jan. 2, 2026"
+const MONTH_DAY_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:\s*,?\s*(\d{4}))?\b/;
+// Day then month: "2nd of january", "the 2nd of jan"
+const DAY_MONTH_PATTERN = /\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\b/;
+// Numeric US dates: "1/2", "1/2/26", "01/02/2026"
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/;
+// Times: "9am", "9 am", "9:30 pm", "14:00", "9 o'clock"
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|o'?clock)?\b/g;
+
+/**
+ * Outcome of resolving a caller's preferred callback time
+ * - scheduled: `scheduledFor` is the UTC instant, `spoken` the confirmed local time
+ * - unparseable / past / closed: ask the caller again (`message` is for the assistant)
+ */
+export type CallbackTimeResolution =
+  | { ok: true; scheduledFor: Date; local: LocalDateTime; spoken: string }
+  | { ok: false; reason: 'unparseable' | 'past' | 'closed'; message: string };
+
+/**
+ * Turns the spoken callback time the prompt asks for ("tomorrow, January 2nd at 9am",
+ * "Monday at 2pm", "today at 3:30pm") into a timestamp in the client's timezone
+ */
+export class CallbackTimeService {
+  /**
+   * Resolve preferred_time for a client's department, relative to the call time
+   */
+  async resolve(clientId: string, department: string, text: string, at: Date = new Date()): Promise<CallbackTimeResolution> {
+    const clientSchedule = await businessHoursService.getSchedule(clientId);
+    let schedule = clientSchedule;
+
+    // 'general' callbacks (and unknown departments) follow the main office hours
+    if (DEPARTMENTS.includes(department as Department)) {
+      const routing = (await departmentRoutingService.getRouting(clientId)).find(r => r.department === department);
+      if (routing) {
+        schedule = departmentRoutingService.getDepartmentSchedule(clientSchedule, routing);
+      }
+    }
+
+    return this.check(text, schedule, at);
+  }
+
+  /**
+   * Parse and validate against a schedule (pure - no database access)
+   */
+  check(text: string, schedule: BusinessHoursSchedule, at: Date): CallbackTimeResolution {
+    const local = this.parse(text, businessHoursService.getLocalDateTime(at, schedule.timezone));
+
+    if (!local) {
+      return {
+        ok: false,
+        reason: 'unparseable',
+        message: `I couldn't work out an exact date and time from "${text}". Ask the caller for a specific day and time${this.example(schedule, at)}, confirm it back to them, then call schedule_callback again with the full date and time.`
+      };
+    }
+
+    const scheduledFor = businessHoursService.toUtc(local, schedule.timezone);
+    const spoken = this.describe(local);
+
+    if (scheduledFor.getTime() <= at.getTime()) {
+      return {
+        ok: false,
+        reason: 'past',
+        message: `${spoken} has already passed. Ask the caller for a time in the future${this.example(schedule, at)}, confirm it, then call schedule_callback again.`
+      };
+    }
+
+    if (!businessHoursService.isOpenAt(schedule, local)) {
+      const hours = businessHoursService.getHoursForDate(schedule, local);
+      const hoursThatDay = hours
+        ? `we're open ${businessHoursService.formatTime(hours.open)} to ${businessHoursService.formatTime(hours.close)} that day`
+        : "we're closed that day";
+
+      return {
+        ok: false,
+        reason: 'closed',
+        message: `${spoken} is outside business hours - ${hoursThatDay}. Offer the caller a time when we're open${this.example(schedule, at)}, confirm it, then call schedule_callback again.`
+      };
+    }
+
+    return { ok: true, scheduledFor, local, spoken };
+  }
+
+  /**
+   * Parse spoken date/time text relative to "now" in the client's timezone
+   * Needs both a day and a time; returns null if either is missing or they contradict
+   * (e.g. "Monday, January 2nd" when January 2nd is a Friday)
+   */
+  parse(text: string, now: LocalDateTime): LocalDateTime | null {
+    const normalized = text
+      .toLowerCase()
+      .replace(/(?<![a-z])([ap])\.\s?m\b\.?/g, '$1m')
+      .replace(/[,]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const time = this.parseTime(normalized);
+    const date = this.parseDate(normalized, now, time);
+    if (!time || !date) {
+      return null;
+    }
+
+    return { ...date, ...time };
+  }
+
+  private parseTime(text: string): { hour: number; minute: number } | null {
+    if (/\bnoon\b|\bmidday\b/.test(text)) {
+      return { hour: 12, minute: 0 };
+    }
+
+    // Skip numbers that are part of a date ("january 2nd", "1/2")
+    const withoutDates = text
+      .replace(MONTH_DAY_PATTERN, ' ')
+      .replace(DAY_MONTH_PATTERN, ' ')
+      .replace(NUMERIC_DATE_PATTERN, ' ');
+
+    for (const match of withoutDates.matchAll(TIME_PATTERN)) {
+      const [, hourText, minuteText, suffix] = match;
+      let hour = parseInt(hourText);
+      const minute = minuteText ? parseInt(minuteText) : 0;
+
+      // A bare number is only a time with "at" in front of it ("at 9") or a colon ("9:30")
+      const bare = !suffix && !minuteText;
+      if (bare && !/\bat\s*$/.test(withoutDates.slice(0, match.index))) continue;
+      if (minute > 59 || hour > 23) continue;
+
+      const meridiem = suffix === 'am' || suffix === 'pm'
+        ? suffix
+        : /\b(morning)\b/.test(withoutDates) ? 'am'
+        : /\b(afternoon|evening|tonight)\b/.test(withoutDates) ? 'pm'
+        : null;
+
+      if (meridiem) {
+        if (hour < 1 || hour > 12) continue;
+        if (meridiem === 'pm' && hour !== 12) hour += 12;
+        if (meridiem === 'am' && hour === 12) hour = 0;
+      } else if (hour >= 1 && hour <= 6) {
+        // "at 2" during business hours means 2 PM
+        hour += 12;
+      }
+
+      return { hour, minute };
+    }
+
+    return null;
+  }
+
+  private parseDate(text: string, now: LocalDateTime, time: { hour: number; minute: number } | null): LocalDate | null {
+    const today: LocalDate = { year: now.year, month: now.month, day: now.day };
+
+    // Explicit calendar date
+    let explicit: LocalDate | null = null;
+    let explicitYear = false;
+
+    const monthDay = text.match(MONTH_DAY_PATTERN);
+    const dayMonth = text.match(DAY_MONTH_PATTERN);
+    const numeric = text.match(NUMERIC_DATE_PATTERN);
+
+    if (monthDay) {
+      explicit = { year: now.year, month: monthIndex(monthDay[1]) + 1, day: parseInt(monthDay[2]) };
+      if (monthDay[3]) {
+        explicit.year = parseInt(monthDay[3]);
+        explicitYear = true;
+      }
+    } else if (dayMonth) {
+      explicit = { year: now.year, month: monthIndex(dayMonth[2]) + 1, day: parseInt(dayMonth[1]) };
+    } else if (numeric) {
+      explicit = { year: now.year, month: parseInt(numeric[1]), day: parseInt(numeric[2]) };
+      if (numeric[3]) {
+        explicit.year = numeric[3].length === 2 ? 2000 + parseInt(numeric[3]) : parseInt(numeric[3]);
+        explicitYear = true;
+      }
+    }
+
+    if (explicit) {
+      if (!isValidDate(explicit)) {
+        return null;
+      }
+      // "January 2nd" said in December means next year; a date a few days back is a
+      // mistake the caller should correct, not a booking eleven months out
+      if (!explicitYear && compareDates(explicit, businessHoursService.addDays(today, -180)) < 0) {
+        explicit.year += 1;
+      }
+    }
+
+    // Relative day ("today", "tomorrow", "monday", "next monday")
+    let relative: LocalDate | null = null;
+    let weekday: number | null = null;
+
+    if (/\bday after tomorrow\b/.test(text)) {
+      relative = businessHoursService.addDays(today, 2);
+    } else if (/\btomorrow\b/.test(text)) {
+      relative = businessHoursService.addDays(today, 1);
+    } else if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(text)) {
+      relative = today;
+    } else {
+      const weekdayMatch = text.match(/\b(next\s+)?(sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?\b/);
+      if (weekdayMatch) {
+        weekday = weekdayIndex(weekdayMatch[2]);
+        const todayIndex = businessHoursService.getDayOfWeek(today);
+        let offset = (weekday - todayIndex + 7) % 7;
+
+        // "Monday" said on a Monday means today only if the time is still ahead
+        const laterToday = time !== null && (time.hour * 60 + time.minute) > (now.hour * 60 + now.minute);
+        if (offset === 0 && (weekdayMatch[1] || !laterToday)) {
+          offset = 7;
+        }
+        relative = businessHoursService.addDays(today, offset);
+      }
+    }
+
+    if (explicit && relative) {
+      // Both given ("tomorrow, January 2nd") - they must agree
+      if (weekday !== null) {
+        return businessHoursService.getDayOfWeek(explicit) === weekday ? explicit : null;
+      }
+      return compareDates(explicit, relative) === 0 ? explicit : null;
+    }
+
+    return explicit || relative;
+  }
+
+  /**
+   * Speakable local time (e.g., "Friday, January 2 at 9:00 AM")
+   */
+  describe(local: LocalDateTime): string {
+    const time = `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+    return `${businessHoursService.formatDate(local)} at ${businessHoursService.formatTime(time)}`;
+  }
+
+  /**
+   * An example the assistant can offer: the next opening time after today, written out in full
+   * (empty if nothing opens in the next two weeks)
+   */
+  private example(schedule: BusinessHoursSchedule, at: Date): string {
+    const today = businessHoursService.getLocalDateTime(at, schedule.timezone);
+
+    for (let offset = 1; offset <= 14; offset++) {
+      const date = businessHoursService.addDays(today, offset);
+      const hours = businessHoursService.getHoursForDate(schedule, date);
+      if (hours) {
+        const [hour, minute] = hours.open.split(':').map(Number);
+        return ` (for example "${this.describe({ ...date, hour, minute })}")`;
+      }
+    }
+
+    return '';
+  }
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.slice(0, 3)));
+}
+
+function weekdayIndex(name: string): number {
+  return DAY_NAMES.findIndex(day => day.toLowerCase().startsWith(name.slice(0, 3)));
+}
+
+function isValidDate(date: LocalDate): boolean {
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  return date.month >= 1 && date.month <= 12 &&
+    check.getUTCMonth() === date.month - 1 &&
+    check.getUTCDate() === date.day;
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+// Export singleton instance
+export const callbackTimeService = new CallbackTimeService();
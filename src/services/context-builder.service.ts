@@ -1,5 +1,8 @@
 // src/services/context-builder.service.ts
 import { databaseService } from './database.service';
+import { businessHoursService, DAY_NAMES, LocalDate } from './business-hours.service';
+import { departmentRoutingService } from './department-routing.service';
+import { BusinessHoursSchedule } from '../types';
 
 /**
  * Context Builder Service
@@ -29,6 +32,7 @@ interface CallerHistory {
 
 interface BusinessHoursInfo {
   isOpen: boolean;
+  timezone: string;
   currentDay: string;
   currentDate: string;
   currentTime: string;
@@ -61,8 +65,9 @@ export async function buildDynamicContext(context: CallContext): Promise<{
   // 2. Look up caller history
   const callerHistory = await getCallerHistory(callerPhone);
 
-  // 3. Check business hours
-  const businessHours = getBusinessHoursInfo();
+  // 3. Check business hours (client's own schedule and timezone)
+  const schedule = await businessHoursService.getSchedule(clientId);
+  const businessHours = getBusinessHoursInfo(schedule);
 
   // 4. Build caller context variable
   let callerContext = '';
@@ -87,10 +92,24 @@ export async function buildDynamicContext(context: CallContext): Promise<{
   businessHoursContext += `Today's date: ${businessHours.currentDate}\n`;
   businessHoursContext += `Current time: ${businessHours.currentDay}, ${businessHours.currentTime}\n`;
   businessHoursContext += `Office status: ${businessHours.isOpen ? 'OPEN' : 'CLOSED'}\n`;
+  businessHoursContext += `Timezone: ${businessHours.timezone}\n`;
   businessHoursContext += `\nBUSINESS HOURS SCHEDULE:\n`;
-  businessHoursContext += `- Monday-Friday: 8:00 AM to 12:00 PM (noon)\n`;
-  businessHoursContext += `- Saturday: 9:00 AM to 3:00 PM\n`;
-  businessHoursContext += `- Sunday: CLOSED`;
+  businessHoursContext += businessHoursService.describeWeeklyHours(schedule).map(line => `- ${line}`).join('\n');
+
+  const upcomingExceptions = businessHoursService.describeUpcomingExceptions(schedule);
+  if (upcomingExceptions.length > 0) {
+    businessHoursContext += `\n\nHOLIDAYS & SPECIAL HOURS:\n`;
+    businessHoursContext += upcomingExceptions.map(line => `- ${line}`).join('\n');
+  }
+
+  const departmentLines = departmentRoutingService.describeDepartments(
+    schedule,
+    await departmentRoutingService.getRouting(clientId)
+  );
+  if (departmentLines.length > 0) {
+    businessHoursContext += `\n\nDEPARTMENT HOURS (differ from main office):\n`;
+    businessHoursContext += departmentLines.map(line => `- ${line}`).join('\n');
+  }
   if (!businessHours.isOpen && businessHours.nextOpenTime) {
     businessHoursContext += `\n\nNext open: ${businessHours.nextOpenTime}`;
   }
@@ -143,141 +162,72 @@ async function getCallerHistory(phoneNumber: string): Promise<CallerHistory> {
 
 /**
  * Calculate upcoming business days to avoid AI calendar math errors
+ * Days the client is closed (weekly schedule or holidays) are skipped
  */
-function calculateUpcomingBusinessDays(currentDate: Date): {
+function calculateUpcomingBusinessDays(schedule: BusinessHoursSchedule, today: LocalDate): {
   tomorrow?: string;
   nextBusinessDay: string;
   nextMonday: string;
   nextTuesday: string;
 } {
-  const tomorrow = new Date(currentDate);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  const tomorrowFormatted = tomorrow.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'long',
-    day: 'numeric',
-    timeZone: 'America/Phoenix'
-  });
-
-  // Find next business day (Monday-Saturday)
-  let nextBusinessDay = new Date(currentDate);
-  do {
-    nextBusinessDay.setDate(nextBusinessDay.getDate() + 1);
-  } while (nextBusinessDay.getDay() === 0); // Skip Sundays
-  
-  const nextBusinessDayFormatted = nextBusinessDay.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'long', 
-    day: 'numeric',
-    timeZone: 'America/Phoenix'
-  });
-
-  // Find next Monday
-  let nextMonday = new Date(currentDate);
-  while (nextMonday.getDay() !== 1) {
-    nextMonday.setDate(nextMonday.getDate() + 1);
-  }
-  if (nextMonday.getTime() <= currentDate.getTime()) {
-    nextMonday.setDate(nextMonday.getDate() + 7);
+  const tomorrow = businessHoursService.addDays(today, 1);
+
+  // Find next business day (first day with opening hours)
+  let nextBusinessDay = tomorrow;
+  for (let offset = 1; offset <= 14; offset++) {
+    const candidate = businessHoursService.addDays(today, offset);
+    if (businessHoursService.getHoursForDate(schedule, candidate)) {
+      nextBusinessDay = candidate;
+      break;
+    }
   }
-  
-  const nextMondayFormatted = nextMonday.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'long',
-    day: 'numeric', 
-    timeZone: 'America/Phoenix'
-  });
 
-  // Find next Tuesday
-  let nextTuesday = new Date(currentDate);
-  while (nextTuesday.getDay() !== 2) {
-    nextTuesday.setDate(nextTuesday.getDate() + 1);
-  }
-  if (nextTuesday.getTime() <= currentDate.getTime()) {
-    nextTuesday.setDate(nextTuesday.getDate() + 7);
-  }
-  
-  const nextTuesdayFormatted = nextTuesday.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'long',
-    day: 'numeric',
-    timeZone: 'America/Phoenix'
-  });
+  // Find next Monday / Tuesday (always at least one day ahead)
+  const nextWeekday = (dayOfWeek: number): LocalDate => {
+    const daysAhead = (dayOfWeek - businessHoursService.getDayOfWeek(today) + 7) % 7 || 7;
+    return businessHoursService.addDays(today, daysAhead);
+  };
 
   return {
-    tomorrow: tomorrow.getDay() === 0 ? undefined : tomorrowFormatted, // Don't suggest Sunday
-    nextBusinessDay: nextBusinessDayFormatted,
-    nextMonday: nextMondayFormatted,
-    nextTuesday: nextTuesdayFormatted
+    // Don't suggest tomorrow if we're closed
+    tomorrow: businessHoursService.getHoursForDate(schedule, tomorrow)
+      ? businessHoursService.formatDate(tomorrow)
+      : undefined,
+    nextBusinessDay: businessHoursService.formatDate(nextBusinessDay),
+    nextMonday: businessHoursService.formatDate(nextWeekday(1)),
+    nextTuesday: businessHoursService.formatDate(nextWeekday(2))
   };
 }
 
 /**
- * Get business hours information
- * TODO: Make this configurable per client in database
+ * Get business hours information for a client's schedule
+ * Evaluated in the client's timezone (servers run in UTC)
  */
-function getBusinessHoursInfo(): BusinessHoursInfo {
-  // Get current time in Arizona (MST/UTC-7, no DST)
-  // Railway servers run in UTC, so we need to convert
-  const now = new Date();
-  const arizonaTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Phoenix' }));
+function getBusinessHoursInfo(schedule: BusinessHoursSchedule, at: Date = new Date()): BusinessHoursInfo {
+  const status = businessHoursService.getStatus(schedule, at);
+  const now = status.now;
 
-  const day = arizonaTime.getDay(); // 0 = Sunday, 6 = Saturday
-  const hour = arizonaTime.getHours();
-
-  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const currentDay = dayNames[day];
+  const currentDay = DAY_NAMES[businessHoursService.getDayOfWeek(now)];
 
   // Get full date string (e.g., "January 2, 2026")
-  const currentDate = arizonaTime.toLocaleDateString('en-US', {
+  const currentDate = businessHoursService.formatDate(now, {
     year: 'numeric',
     month: 'long',
-    day: 'numeric',
-    timeZone: 'America/Phoenix'
+    day: 'numeric'
   });
 
-  const currentTime = arizonaTime.toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true,
-    timeZone: 'America/Phoenix'
-  });
-
-  // Business hours: Monday-Friday 8am-12pm, Saturday 9am-3pm (TESTING: shortened to 12pm for callback testing)
-  let isOpen = false;
-  let nextOpenTime: string | undefined;
-
-  if (day >= 1 && day <= 5) {
-    // Monday-Friday
-    isOpen = hour >= 8 && hour < 12;  // TESTING: changed to 12pm (noon) for callback testing
-    if (!isOpen && hour < 8) {
-      nextOpenTime = `Today at 8:00 AM`;
-    } else if (!isOpen && hour >= 12) {
-      nextOpenTime = day === 5 ? 'Saturday at 9:00 AM' : 'Tomorrow at 8:00 AM';
-    }
-  } else if (day === 6) {
-    // Saturday
-    isOpen = hour >= 9 && hour < 15;
-    if (!isOpen && hour < 9) {
-      nextOpenTime = `Today at 9:00 AM`;
-    } else if (!isOpen && hour >= 15) {
-      nextOpenTime = 'Monday at 8:00 AM';
-    }
-  } else {
-    // Sunday
-    nextOpenTime = 'Monday at 8:00 AM';
-  }
-
-  const upcomingBusinessDays = calculateUpcomingBusinessDays(arizonaTime);
+  const currentTime = businessHoursService.formatTime(
+    `${String(now.hour).padStart(2, '0')}:${String(now.minute).padStart(2, '0')}`
+  );
 
   return {
-    isOpen,
+    isOpen: status.isOpen,
+    timezone: schedule.timezone,
     currentDay,
     currentDate,
     currentTime,
-    nextOpenTime,
-    upcomingBusinessDays
+    nextOpenTime: status.nextOpenTime,
+    upcomingBusinessDays: calculateUpcomingBusinessDays(schedule, now)
   };
 }
 
@@ -302,3 +252,15 @@ export function buildFirstMessage(
 
   return `Thanks for calling ${clientName}. This is Tex, how can I help you today?`;
 }
+
+/**
+ * Build the opening line for an outbound callback call
+ */
+export function buildOutboundFirstMessage(
+  clientName: string,
+  customerName: string | null,
+  reason: string
+): string {
+  const greeting = customerName ? `Hi ${customerName}` : 'Hi';
+  return `${greeting}, this is Tex calling back from ${clientName} about ${reason.replace(/[.!?\s]+$/, '')}. Is now still a good time?`;
+}
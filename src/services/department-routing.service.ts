@@ -0,0 +1,203 @@
+// src/services/department-routing.service.ts
+import { databaseService } from './database.service';
+import { businessHoursService } from './business-hours.service';
+import {
+  AfterHoursAction,
+  BusinessHoursSchedule,
+  Department,
+  DepartmentRouting,
+  WeeklyHours
+} from '../types';
+
+export const DEPARTMENTS: Department[] = ['sales', 'rentals', 'service', 'parts', 'billing'];
+
+const AFTER_HOURS_ACTIONS: AfterHoursAction[] = ['callback', 'on_call', 'overflow', 'voicemail'];
+
+/**
+ * Where transfer_call should send the caller right now
+ * - transfer: dial `number` (primary line, on-call line or overflow)
+ * - voicemail: dial the department's voicemail box
+ * - closed: no one can take the call; the assistant should offer a callback
+ * `fallback` is tried if the transfer itself fails
+ */
+export type TransferDecision =
+  | { action: 'transfer'; number: string; line: 'primary' | 'on_call' | 'overflow'; fallback?: TransferDecision }
+  | { action: 'voicemail'; number: string }
+  | { action: 'closed'; nextOpenTime?: string };
+
+export class DepartmentRoutingService {
+  /**
+   * Load routing settings for every department of a client
+   * Departments without a row get the default (follow main hours, offer callback)
+   */
+  async getRouting(clientId: string): Promise<DepartmentRouting[]> {
+    const stored = await databaseService.getDepartmentRouting(clientId);
+
+    return DEPARTMENTS.map(department => {
+      const row = stored.routing.find(r => r.department === department);
+      const hours = stored.hours.filter(h => h.department === department);
+
+      return {
+        department,
+        weekly: hours.length > 0
+          ? [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => {
+              const day = hours.find(h => h.day_of_week === dayOfWeek);
+              return day ? { open: day.open_time, close: day.close_time } : null;
+            })
+          : null,
+        afterHoursAction: (row?.after_hours_action as AfterHoursAction) || 'callback',
+        onCallPhone: row?.on_call_phone || undefined,
+        overflowPhone: row?.overflow_phone || undefined,
+        voicemailPhone: row?.voicemail_phone || undefined
+      };
+    });
+  }
+
+  /**
+   * Build the effective schedule for a department
+   * Custom department hours replace the weekly hours; holidays and timezone come from the client
+   */
+  getDepartmentSchedule(clientSchedule: BusinessHoursSchedule, routing: DepartmentRouting): BusinessHoursSchedule {
+    return {
+      ...clientSchedule,
+      weekly: routing.weekly || clientSchedule.weekly
+    };
+  }
+
+  /**
+   * Decide where a transfer to `department` should go at the given time
+   */
+  async resolveTransfer(
+    client: { id: string; [key: string]: any },
+    department: Department,
+    at: Date = new Date()
+  ): Promise<TransferDecision> {
+    const clientSchedule = await businessHoursService.getSchedule(client.id);
+    const routing = (await this.getRouting(client.id)).find(r => r.department === department);
+
+    if (!routing) {
+      return { action: 'closed' };
+    }
+
+    return this.decide(client[`${department}_phone`] || undefined, routing, clientSchedule, at);
+  }
+
+  /**
+   * Apply a department's routing rules to its primary line
+   * - Open: primary line, then overflow, then voicemail
+   * - Closed: follow the after-hours action, otherwise report closed
+   */
+  decide(
+    primaryPhone: string | undefined,
+    routing: DepartmentRouting,
+    clientSchedule: BusinessHoursSchedule,
+    at: Date = new Date()
+  ): TransferDecision {
+    const status = businessHoursService.getStatus(this.getDepartmentSchedule(clientSchedule, routing), at);
+
+    const voicemail: TransferDecision | undefined = routing.voicemailPhone
+      ? { action: 'voicemail', number: routing.voicemailPhone }
+      : undefined;
+    const overflow: TransferDecision | undefined = routing.overflowPhone
+      ? { action: 'transfer', number: routing.overflowPhone, line: 'overflow', fallback: voicemail }
+      : undefined;
+
+    if (status.isOpen) {
+      if (primaryPhone) {
+        return { action: 'transfer', number: primaryPhone, line: 'primary', fallback: overflow || voicemail };
+      }
+      return overflow || voicemail || { action: 'closed', nextOpenTime: status.nextOpenTime };
+    }
+
+    switch (routing.afterHoursAction) {
+      case 'on_call':
+        if (routing.onCallPhone) {
+          return { action: 'transfer', number: routing.onCallPhone, line: 'on_call', fallback: voicemail };
+        }
+        break;
+      case 'overflow':
+        if (overflow) {
+          return overflow;
+        }
+        break;
+      case 'voicemail':
+        if (voicemail) {
+          return voicemail;
+        }
+        break;
+    }
+
+    return { action: 'closed', nextOpenTime: status.nextOpenTime };
+  }
+
+  /**
+   * Describe departments whose hours or after-hours handling differ from the main office
+   * Used in {{business_hours_context}} so the assistant knows e.g. service has a 24/7 line
+   */
+  describeDepartments(clientSchedule: BusinessHoursSchedule, routing: DepartmentRouting[]): string[] {
+    const lines: string[] = [];
+
+    for (const dept of routing) {
+      const notes: string[] = [];
+      const name = dept.department.charAt(0).toUpperCase() + dept.department.slice(1);
+
+      if (dept.weekly) {
+        const hours = businessHoursService.describeWeeklyHours(this.getDepartmentSchedule(clientSchedule, dept));
+        notes.push(hours.join(', '));
+      }
+
+      if (dept.afterHoursAction === 'on_call' && dept.onCallPhone) {
+        notes.push('on-call line available after hours (transfer_call still works)');
+      } else if (dept.afterHoursAction === 'overflow' && dept.overflowPhone) {
+        notes.push('after-hours calls go to an overflow line (transfer_call still works)');
+      } else if (dept.afterHoursAction === 'voicemail' && dept.voicemailPhone) {
+        notes.push('after hours, transfer_call sends the caller to voicemail');
+      }
+
+      if (notes.length > 0) {
+        lines.push(`${name}: ${notes.join('; ')}`);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Validate department settings submitted from the client portal
+   * Returns an error message, or null if valid
+   */
+  validate(department: string, settings: {
+    weekly?: WeeklyHours | null;
+    afterHoursAction?: string;
+    onCallPhone?: string;
+    overflowPhone?: string;
+    voicemailPhone?: string;
+  }): string | null {
+    if (!DEPARTMENTS.includes(department as Department)) {
+      return `Unknown department: ${department}`;
+    }
+
+    if (settings.afterHoursAction && !AFTER_HOURS_ACTIONS.includes(settings.afterHoursAction as AfterHoursAction)) {
+      return `${department}: after-hours action must be one of ${AFTER_HOURS_ACTIONS.join(', ')}`;
+    }
+
+    const requiredPhone: Record<string, string | undefined> = {
+      on_call: settings.onCallPhone,
+      overflow: settings.overflowPhone,
+      voicemail: settings.voicemailPhone
+    };
+    if (settings.afterHoursAction && settings.afterHoursAction in requiredPhone && !requiredPhone[settings.afterHoursAction]) {
+      return `${department}: a ${settings.afterHoursAction.replace('_', '-')} number is required for that after-hours action`;
+    }
+
+    if (settings.weekly) {
+      const error = businessHoursService.validate({ weekly: settings.weekly });
+      if (error) return `${department}: ${error}`;
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const departmentRoutingService = new DepartmentRoutingService();
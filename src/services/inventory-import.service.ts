@@ -0,0 +1,348 @@
+// src/services/inventory-import.service.ts
+import { databaseService } from './database.service';
+import { inventoryService, INVENTORY_COLUMNS, INVENTORY_CONDITIONS, FUEL_TYPES } from './inventory.service';
+import { parseCsv, toCsv } from '../utils/csv';
+import { InventoryChanges } from '../repositories/storage.repository';
+import {
+  InventoryItemFields,
+  InventoryImportAction,
+  InventoryImportRow,
+  InventoryImportResult
+} from '../types';
+
+/**
+ * Columns of an export, in order (an export can be edited and imported again)
+ */
+export const INVENTORY_EXPORT_COLUMNS = [
+  'stock_number',
+  'model',
+  'category',
+  'available',
+  'price_per_day',
+  'price_per_week',
+  'price_per_month',
+  'condition',
+  'year',
+  'specs',
+  'operating_weight',
+  'horsepower',
+  'dig_depth',
+  'lift_capacity',
+  'bucket_size',
+  'fuel_type',
+  'attachments'
+] as const;
+
+/**
+ * Accepted column names / JSON keys, lowercased with everything but letters and
+ * digits removed (so "Price per Day", "price_per_day" and "pricePerDay" all match)
+ */
+const FIELD_ALIASES: Record<string, keyof InventoryItemFields> = {
+  stocknumber: 'stockNumber',
+  stockno: 'stockNumber',
+  stock: 'stockNumber',
+  model: 'model',
+  category: 'category',
+  available: 'available',
+  quantity: 'available',
+  qty: 'available',
+  priceperday: 'pricePerDay',
+  dailyrate: 'pricePerDay',
+  price: 'pricePerDay',
+  priceperweek: 'pricePerWeek',
+  weeklyrate: 'pricePerWeek',
+  pricepermonth: 'pricePerMonth',
+  monthlyrate: 'pricePerMonth',
+  condition: 'condition',
+  year: 'year',
+  specs: 'specs',
+  operatingweight: 'operatingWeight',
+  weight: 'operatingWeight',
+  horsepower: 'horsepower',
+  hp: 'horsepower',
+  digdepth: 'digDepth',
+  liftcapacity: 'liftCapacity',
+  ratedoperatingcapacity: 'liftCapacity',
+  roc: 'liftCapacity',
+  bucketsize: 'bucketSize',
+  bucket: 'bucketSize',
+  fueltype: 'fuelType',
+  fuel: 'fuelType',
+  attachments: 'attachments'
+};
+
+/**
+ * Export columns an import ignores (a JSON export re-imports as-is)
+ */
+const IGNORED_FIELDS = new Set(['id', 'clientid', 'createdat', 'updatedat', 'retiredat']);
+
+/**
+ * Bulk inventory import/export for the client portal
+ *
+ * Each row is matched to the client's active fleet by stock number, then by model:
+ * - no match: the row is created (model, category, available and price_per_day required)
+ * - match: only the cells that are filled in are compared and updated
+ * Rows that fail validation are reported and skipped; the other rows still apply.
+ * A dry run reports the same per-row diff without writing anything.
+ */
+export class InventoryImportService {
+  /**
+   * Read rows from a CSV upload (first line is the header)
+   * Returns an error message instead if the file can't be used at all
+   */
+  readCsv(text: string): { rows: Array<Record<string, string>> } | { error: string } {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) {
+      return { error: 'The file is empty' };
+    }
+
+    const fields = header.map(name => name.trim());
+    const unknown = fields.filter(name => name && !this.fieldFor(name) && !IGNORED_FIELDS.has(this.normalizeKey(name)));
+    if (unknown.length > 0) {
+      return { error: `Unknown column${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}` };
+    }
+    if (!fields.some(name => this.fieldFor(name) === 'model') && !fields.some(name => this.fieldFor(name) === 'stockNumber')) {
+      return { error: 'A model or stock number column is required' };
+    }
+
+    const rows = lines
+      .filter(cells => cells.some(cell => cell.trim() !== ''))
+      .map(cells => Object.fromEntries(fields.map((name, i) => [name, cells[i] ?? ''])));
+
+    return { rows };
+  }
+
+  /**
+   * Read rows from a JSON upload: an array of items, or { items: [...] }
+   */
+  readJson(body: any): { rows: Array<Record<string, unknown>> } | { error: string } {
+    const rows = Array.isArray(body) ? body : body?.items;
+
+    if (!Array.isArray(rows)) {
+      return { error: 'Expected an array of items, or { "items": [...] }' };
+    }
+    if (rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      return { error: 'Every item must be an object' };
+    }
+
+    return { rows };
+  }
+
+  /**
+   * Validate rows and apply them to a client's fleet (or only preview with dryRun)
+   */
+  async import(clientId: string, rows: Array<Record<string, unknown>>, dryRun: boolean): Promise<InventoryImportResult> {
+    const fleet = await databaseService.getClientInventory(clientId);
+    const byStockNumber = new Map<string, any>();
+    const byModel = new Map<string, any>();
+    for (const item of fleet) {
+      if (item.stock_number) byStockNumber.set(item.stock_number.toLowerCase(), item);
+      byModel.set(item.model.toLowerCase(), item);
+    }
+
+    // Which row already used a stock number / model, to catch duplicates in the file
+    const seenStockNumbers = new Map<string, number>();
+    const seenModels = new Map<string, number>();
+    const results: InventoryImportRow[] = [];
+
+    for (const [index, raw] of rows.entries()) {
+      const row = index + 1;
+      const { fields, errors } = this.toFields(raw);
+      const stockKey = fields.stockNumber?.toLowerCase();
+      const modelKey = fields.model?.toLowerCase();
+
+      // Match: stock number first, then model
+      let existing = stockKey ? byStockNumber.get(stockKey) : undefined;
+      if (!existing && modelKey) {
+        existing = byModel.get(modelKey);
+        if (existing?.stock_number && stockKey) {
+          errors.push(`${existing.model} is already listed under stock number ${existing.stock_number}`);
+        }
+      }
+
+      // A model that moves to another line can't collide with an existing one
+      if (existing && modelKey && modelKey !== existing.model.toLowerCase() && byModel.has(modelKey)) {
+        errors.push(`${fields.model} is already in your fleet`);
+      }
+
+      for (const [key, seen, label] of [
+        [stockKey, seenStockNumbers, 'stock number'],
+        [modelKey, seenModels, 'model']
+      ] as Array<[string | undefined, Map<string, number>, string]>) {
+        if (!key) continue;
+        if (seen.has(key)) {
+          errors.push(`Same ${label} as row ${seen.get(key)}`);
+        } else {
+          seen.set(key, row);
+        }
+      }
+
+      const validationError = inventoryService.validate(fields, { partial: Boolean(existing) });
+      if (validationError) {
+        errors.push(validationError);
+      }
+
+      const summary = { row, stockNumber: fields.stockNumber || existing?.stock_number || undefined, model: fields.model || existing?.model };
+
+      if (errors.length > 0) {
+        results.push({ ...summary, action: 'error', itemId: existing?.id, errors });
+        continue;
+      }
+
+      if (!existing) {
+        results.push({ ...summary, action: 'create', itemId: dryRun ? undefined : await this.create(clientId, fields) });
+        continue;
+      }
+
+      const changes = this.diff(existing, fields);
+      if (Object.keys(changes).length === 0) {
+        results.push({ ...summary, action: 'unchanged', itemId: existing.id });
+        continue;
+      }
+
+      if (!dryRun) {
+        const columns = Object.fromEntries(Object.entries(changes).map(([column, change]) => [column, change.to]));
+        await databaseService.updateInventoryItem(clientId, existing.id, columns);
+      }
+      results.push({ ...summary, action: 'update', itemId: existing.id, changes });
+    }
+
+    const summary: Record<InventoryImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+    results.forEach(result => summary[result.action]++);
+
+    console.log(`[InventoryImport] ${dryRun ? 'Dry run for' : 'Imported'} ${rows.length} rows for ${clientId}: ${JSON.stringify(summary)}`);
+
+    return { dryRun, summary, rows: results };
+  }
+
+  /**
+   * A client's active fleet as CSV
+   */
+  async exportCsv(clientId: string): Promise<string> {
+    const items = await databaseService.getClientInventory(clientId);
+    return toCsv([
+      [...INVENTORY_EXPORT_COLUMNS],
+      ...items.map(item => INVENTORY_EXPORT_COLUMNS.map(column => item[column]))
+    ]);
+  }
+
+  /**
+   * A client's active fleet as JSON items (same columns as the CSV)
+   */
+  async exportJson(clientId: string): Promise<Array<Record<string, any>>> {
+    const items = await databaseService.getClientInventory(clientId);
+    return items.map(item => Object.fromEntries(INVENTORY_EXPORT_COLUMNS.map(column => [column, item[column] ?? null])));
+  }
+
+  /**
+   * Convert a raw row (CSV strings or JSON values) to item fields
+   * Blank cells are left out, so an update only touches the cells filled in
+   */
+  private toFields(raw: Record<string, unknown>): { fields: InventoryItemFields; errors: string[] } {
+    const fields: Record<string, any> = {};
+    const errors: string[] = [];
+
+    for (const [key, value] of Object.entries(raw)) {
+      const field = this.fieldFor(key);
+      if (!field) {
+        if (!IGNORED_FIELDS.has(this.normalizeKey(key))) errors.push(`Unknown field: ${key}`);
+        continue;
+      }
+      if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+        continue;
+      }
+
+      switch (field) {
+        case 'available':
+        case 'year':
+          fields[field] = typeof value === 'string' ? Number(value.trim()) : value;
+          break;
+        case 'pricePerDay':
+        case 'pricePerWeek':
+        case 'pricePerMonth':
+          // Spreadsheets often format prices as "$1,200"
+          fields[field] = typeof value === 'string' ? Number(value.replace(/[$,\s]/g, '')) : value;
+          break;
+        case 'operatingWeight':
+        case 'horsepower':
+        case 'digDepth':
+        case 'liftCapacity':
+        case 'bucketSize':
+          // "3,000"
+          fields[field] = typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : value;
+          break;
+        case 'condition': {
+          const condition = INVENTORY_CONDITIONS.find(c => c.toLowerCase() === String(value).trim().toLowerCase());
+          fields[field] = condition || String(value).trim();
+          break;
+        }
+        case 'fuelType': {
+          const fuelType = FUEL_TYPES.find(f => f.toLowerCase() === String(value).trim().toLowerCase());
+          fields[field] = fuelType || String(value).trim();
+          break;
+        }
+        default:
+          fields[field] = typeof value === 'string' ? value.trim() : value;
+      }
+    }
+
+    return { fields, errors };
+  }
+
+  /**
+   * Columns of an existing item that a row would change
+   */
+  private diff(existing: any, fields: InventoryItemFields): Record<string, { from: any; to: any }> {
+    const changes: Record<string, { from: any; to: any }> = {};
+
+    for (const [field, column] of Object.entries(INVENTORY_COLUMNS) as Array<[keyof InventoryItemFields, keyof InventoryChanges]>) {
+      const value = fields[field];
+      if (value === undefined || value === existing[column]) continue;
+      changes[column] = { from: existing[column] ?? null, to: value };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Add a validated row to the fleet
+   */
+  private async create(clientId: string, fields: InventoryItemFields): Promise<number> {
+    return await databaseService.createInventoryItem(clientId, {
+      stockNumber: fields.stockNumber || null,
+      model: fields.model!,
+      category: fields.category!,
+      available: fields.available!,
+      pricePerDay: fields.pricePerDay!,
+      pricePerWeek: fields.pricePerWeek || null,
+      pricePerMonth: fields.pricePerMonth || null,
+      condition: fields.condition || null,
+      year: fields.year || null,
+      specs: fields.specs || null,
+      operatingWeight: fields.operatingWeight || null,
+      horsepower: fields.horsepower || null,
+      digDepth: fields.digDepth || null,
+      liftCapacity: fields.liftCapacity || null,
+      bucketSize: fields.bucketSize || null,
+      fuelType: fields.fuelType || null,
+      attachments: fields.attachments || null
+    });
+  }
+
+  /**
+   * Item field for a column name / JSON key
+   */
+  private fieldFor(key: string): keyof InventoryItemFields | undefined {
+    return FIELD_ALIASES[this.normalizeKey(key)];
+  }
+
+  /**
+   * Lowercase letters and digits only
+   */
+  private normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
+
+// Export singleton instance
+export const inventoryImportService = new InventoryImportService();
@@ -0,0 +1,332 @@
+// src/services/inventory-search.service.ts
+import { databaseService } from './database.service';
+import { normalizeSpokenNumbers } from '../utils/spoken-numbers';
+import { InventoryAlias } from '../types';
+
+/**
+ * Built-in aliases (what callers say -> what fleets call it)
+ * A client's own alias for the same words replaces the built-in one
+ */
+export const BUILT_IN_ALIASES: InventoryAlias[] = [
+  // Manufacturers
+  { alias: 'caterpillar', canonical: 'cat' },
+  { alias: 'catepillar', canonical: 'cat' },
+  { alias: 'deere', canonical: 'john deere' },
+  { alias: 'jd', canonical: 'john deere' },
+  { alias: 'linkbelt', canonical: 'link belt' },
+  { alias: 'jay cee bee', canonical: 'jcb' },
+  // Categories
+  { alias: 'bulldozer', canonical: 'dozer' },
+  { alias: 'bull dozer', canonical: 'dozer' },
+  { alias: 'crawler', canonical: 'dozer' },
+  { alias: 'mini ex', canonical: 'mini excavator' },
+  { alias: 'mini x', canonical: 'mini excavator' },
+  { alias: 'mini hoe', canonical: 'mini excavator' },
+  { alias: 'trackhoe', canonical: 'excavator' },
+  { alias: 'track hoe', canonical: 'excavator' },
+  { alias: 'digger', canonical: 'excavator' },
+  { alias: 'track loader', canonical: 'skid steer' },
+  { alias: 'compact track loader', canonical: 'skid steer' },
+  { alias: 'ctl', canonical: 'skid steer' },
+  { alias: 'skid loader', canonical: 'skid steer' },
+  { alias: 'skidsteer', canonical: 'skid steer' },
+  { alias: 'front end loader', canonical: 'loader' },
+  { alias: 'wheel loader', canonical: 'loader' },
+  { alias: 'rock truck', canonical: 'dump truck' },
+  { alias: 'haul truck', canonical: 'dump truck' },
+  { alias: 'articulated truck', canonical: 'dump truck' },
+  { alias: 'man lift', canonical: 'boom lift' },
+  { alias: 'manlift', canonical: 'boom lift' },
+  { alias: 'cherry picker', canonical: 'boom lift' },
+  { alias: 'reach forklift', canonical: 'telehandler' },
+  { alias: 'lull', canonical: 'telehandler' }
+];
+
+/**
+ * Words that don't describe a machine (smartSort reads "cheap", "newest", etc. from the raw query)
+ */
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'we', 'me', 'my', 'you', 'your', 'do', 'need', 'want', 'looking', 'got', 'have',
+  'any', 'some', 'for', 'to', 'of', 'in', 'on', 'is', 'are', 'there', 'what', 'about', 'like', 'please',
+  'rent', 'rental', 'renting', 'available', 'stock', 'machine', 'equipment', 'one',
+  'buy', 'buying', 'purchase', 'sale', 'sell', 'selling', 'used', 'low', 'hour',
+  'cheap', 'cheapest', 'affordable', 'budget', 'new', 'newest', 'latest', 'best', 'top', 'excellent'
+]);
+
+/**
+ * How much a match counts in each field
+ */
+const FIELD_WEIGHTS = {
+  model: 3, stock_number: 3, serial_number: 3, category: 2, specs: 1, attachments: 1, fuel_type: 1, description: 1
+} as const;
+const MAX_WEIGHT = 3;
+
+/**
+ * Items below MIN_SCORE, or below RELATIVE_CUTOFF of the best match, are left out
+ * ("Cat 336" shouldn't also offer every other Cat)
+ */
+const MIN_SCORE = 0.2;
+const RELATIVE_CUTOFF = 0.75;
+
+/**
+ * Trigram similarity a word needs to count as a typo of another
+ */
+const TYPO_SIMILARITY = 0.35;
+
+/**
+ * Most query variants tried (each alias that applies adds one)
+ */
+const MAX_VARIANTS = 16;
+
+const MAX_ALIASES = 200;
+
+/**
+ * Typo- and synonym-tolerant inventory search
+ *
+ * The query and each item (model, stock and serial number, category, specs,
+ * attachments, fuel, description) go through the same normalization: lowercase words, spoken numbers as digits
+ * ("three thirty six" -> 336), plurals trimmed. Aliases expand the query into
+ * variants ("caterpillar 336" also searches "cat 336"). Every query word is matched
+ * against each field:
+ * - exact word: 1
+ * - same model number ("336" and "336f", "d8" and "d8t"): 0.9
+ * - start of a word ("excav" -> "excavator"): 0.8
+ * - a typo (trigram similarity, words of 4+ letters): 0.5-1
+ * times the field weight. An item's score is its best variant's average over the
+ * query words (0-1). Scoring runs over the client's fleet (or sales listings) in
+ * memory, so SQLite and PostgreSQL rank the same way.
+ */
+export class InventorySearchService {
+  /**
+   * A client's active items matching the query, most relevant first
+   * Each item gets `relevance` (0-1)
+   */
+  async search(query: string, clientId: string): Promise<any[]> {
+    return await this.rank(query, clientId, await databaseService.getClientInventory(clientId));
+  }
+
+  /**
+   * Items matching the query (rental fleet items or sales listings), most relevant first,
+   * using the client's aliases. Each item gets `relevance` (0-1)
+   */
+  async rank(query: string, clientId: string, items: any[]): Promise<any[]> {
+    const aliases = await this.getAliases(clientId);
+    const variants = this.expand(query, aliases);
+    if (variants.length === 0) {
+      return [];
+    }
+
+    const scored = items
+      .map(item => ({ ...item, relevance: Math.max(...variants.map(words => this.score(words, item))) }))
+      .filter(item => item.relevance >= MIN_SCORE);
+
+    const best = Math.max(0, ...scored.map(item => item.relevance));
+
+    return scored
+      .filter(item => item.relevance >= best * RELATIVE_CUTOFF)
+      .map(item => ({ ...item, relevance: Math.round(item.relevance * 100) / 100 }))
+      .sort((a, b) => b.relevance - a.relevance || (b.available ?? 0) - (a.available ?? 0) || a.model.localeCompare(b.model));
+  }
+
+  /**
+   * Normalized words of a query or field
+   */
+  words(text: string | null | undefined): string[] {
+    if (!text) return [];
+
+    const cleaned = text
+      .toLowerCase()
+      .replace(/(\d),(\d)/g, '$1$2')      // 3,000lb
+      .replace(/[^a-z0-9]+/g, ' ');
+
+    return normalizeSpokenNumbers(cleaned)
+      .split(' ')
+      .filter(Boolean)
+      .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  }
+
+  /**
+   * Query variants: the query itself, then with each matching alias swapped in
+   */
+  expand(query: string, aliases: InventoryAlias[]): string[][] {
+    const base = this.keywords(query);
+    if (base.length === 0) {
+      return [];
+    }
+
+    // "d 8" -> "d8", "t 76" -> "t76" (callers say the letter and number apart)
+    const joined = base.join(' ').replace(/(^| )([a-z]) (\d+)(?= |$)/g, '$1$2$3');
+
+    let variants = [base.join(' '), joined];
+    for (const { alias, canonical } of aliases) {
+      const from = this.keywords(alias).join(' ');
+      const to = this.keywords(canonical).join(' ');
+      if (!from || !to) continue;
+
+      // Words are [a-z0-9] only, so they're safe in a pattern
+      const pattern = new RegExp(`(^| )${from}( |$)`);
+      for (const variant of variants) {
+        if (variants.length >= MAX_VARIANTS) break;
+        if (pattern.test(variant) && !hasPhrase(variant, to)) {
+          variants = [...variants, variant.replace(pattern, `$1${to}$2`)];
+        }
+      }
+    }
+
+    return [...new Set(variants)].map(variant => variant.split(' '));
+  }
+
+  /**
+   * How well an item matches a query variant (0-1)
+   */
+  score(queryWords: string[], item: any): number {
+    const fields = (Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>)
+      .map(field => ({ weight: FIELD_WEIGHTS[field], words: this.words(item[field]) }));
+
+    let total = 0;
+    for (const word of queryWords) {
+      let best = 0;
+      for (const field of fields) {
+        for (const candidate of field.words) {
+          best = Math.max(best, matchWord(word, candidate) * field.weight);
+        }
+      }
+      total += best;
+    }
+
+    return total / (queryWords.length * MAX_WEIGHT);
+  }
+
+  // ==================== ALIASES (client portal) ====================
+
+  /**
+   * Built-in aliases plus the client's own (theirs win for the same words)
+   */
+  async getAliases(clientId: string): Promise<InventoryAlias[]> {
+    const custom = await this.getClientAliases(clientId);
+    const overridden = new Set(custom.map(a => this.keywords(a.alias).join(' ')));
+
+    return [
+      ...custom,
+      ...BUILT_IN_ALIASES.filter(a => !overridden.has(this.keywords(a.alias).join(' ')))
+    ];
+  }
+
+  /**
+   * The aliases a client has added
+   */
+  async getClientAliases(clientId: string): Promise<InventoryAlias[]> {
+    const rows = await databaseService.getInventoryAliases(clientId);
+    return rows.map(row => ({ alias: row.alias, canonical: row.canonical }));
+  }
+
+  /**
+   * Validate aliases submitted from the client portal
+   * Returns an error message, or null if valid
+   */
+  validateAliases(aliases: unknown): string | null {
+    if (!Array.isArray(aliases)) {
+      return 'aliases must be a list';
+    }
+    if (aliases.length > MAX_ALIASES) {
+      return `Up to ${MAX_ALIASES} aliases are allowed`;
+    }
+
+    const seen = new Set<string>();
+    for (const entry of aliases) {
+      if (typeof entry?.alias !== 'string' || typeof entry?.canonical !== 'string' || !entry.alias.trim() || !entry.canonical.trim()) {
+        return 'Each alias needs what callers say and what it means';
+      }
+      if (entry.alias.length > 60 || entry.canonical.length > 60) {
+        return `"${entry.alias}" is too long (60 characters at most)`;
+      }
+
+      const key = this.keywords(entry.alias).join(' ');
+      if (!key) {
+        return `"${entry.alias}" has no words to search for`;
+      }
+      if (key === this.keywords(entry.canonical).join(' ')) {
+        return `"${entry.alias}" already means ${entry.canonical}`;
+      }
+      if (seen.has(key)) {
+        return `"${entry.alias}" is listed twice`;
+      }
+      seen.add(key);
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace a client's aliases
+   */
+  async saveAliases(clientId: string, aliases: InventoryAlias[]): Promise<InventoryAlias[]> {
+    await databaseService.saveInventoryAliases(clientId, aliases.map(a => ({ alias: a.alias.trim(), canonical: a.canonical.trim() })));
+    return await this.getClientAliases(clientId);
+  }
+
+  /**
+   * Query words without filler ("do you have any excavators" -> ["excavator"])
+   */
+  private keywords(text: string): string[] {
+    return this.words(text).filter(word => !STOPWORDS.has(word));
+  }
+}
+
+/**
+ * How closely a query word matches a field word (0-1)
+ */
+function matchWord(word: string, candidate: string): number {
+  if (word === candidate) {
+    return 1;
+  }
+
+  // Model numbers: "336" or "d8" for "336f" or "d8t"
+  const wordDigits = word.replace(/[a-z]/g, '');
+  const candidateDigits = candidate.replace(/[a-z]/g, '');
+  if (wordDigits && wordDigits === candidateDigits
+      && (wordDigits === word || candidateDigits === candidate || candidate.startsWith(word) || word.startsWith(candidate))) {
+    return 0.9;
+  }
+
+  if (!wordDigits && word.length >= 3 && candidate.startsWith(word)) {
+    return 0.8;
+  }
+
+  if (!wordDigits && word.length >= 4 && candidate.length >= 4) {
+    const similarity = trigramSimilarity(word, candidate);
+    if (similarity >= TYPO_SIMILARITY) {
+      return 0.5 + similarity / 2;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Whether a phrase appears as whole words in a query variant
+ */
+function hasPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * Shared trigrams over all trigrams (pg_trgm style: words padded with two leading spaces, one trailing)
+ */
+function trigramSimilarity(a: string, b: string): number {
+  const trigrams = (word: string) => {
+    const padded = `  ${word} `;
+    const set = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) set.add(padded.slice(i, i + 3));
+    return set;
+  };
+
+  const left = trigrams(a);
+  const right = trigrams(b);
+  const shared = [...left].filter(t => right.has(t)).length;
+
+  return shared / (left.size + right.size - shared);
+}
+
+// Export singleton instance
+export const inventorySearchService = new InventorySearchService();
@@ -1,60 +1,350 @@
 // src/services/inventory.service.ts
 import { databaseService } from './database.service';
-import { InventoryItem } from '../types';
+import { reservationService } from './reservation.service';
+import { inventorySearchService } from './inventory-search.service';
+import {
+  InventoryItem,
+  InventoryCondition,
+  InventoryItemFields,
+  InventoryItemResult,
+  InventorySpec,
+  FuelType,
+  SpecConstraints,
+  RentalWindow
+} from '../types';
+import { InventoryChanges } from '../repositories/storage.repository';
+
+export const INVENTORY_CONDITIONS: InventoryCondition[] = ['Excellent', 'Good', 'Fair', 'Poor'];
+
+export const FUEL_TYPES: FuelType[] = ['Diesel', 'Gas', 'Electric', 'Propane', 'Hybrid'];
+
+/**
+ * Typed specs: inventory column, check_inventory min/max key, and how to say a value
+ */
+const SPECS: Record<InventorySpec, { column: keyof InventoryChanges; arg: string; name: string; say: (value: number) => string }> = {
+  operatingWeight: { column: 'operating_weight', arg: 'operating_weight_lbs', name: 'operating weight', say: v => `an operating weight of ${number(v)} pounds` },
+  horsepower: { column: 'horsepower', arg: 'horsepower', name: 'horsepower', say: v => `${number(v)} horsepower` },
+  digDepth: { column: 'dig_depth', arg: 'dig_depth_ft', name: 'dig depth', say: v => `${number(v)} feet of dig depth` },
+  liftCapacity: { column: 'lift_capacity', arg: 'lift_capacity_lbs', name: 'lift capacity', say: v => `a ${number(v)}-pound lift capacity` },
+  bucketSize: { column: 'bucket_size', arg: 'bucket_size_cu_yd', name: 'bucket size', say: v => `a ${number(v)}-yard bucket` }
+};
+
+const FUEL_PHRASES: Record<FuelType, string> = {
+  Diesel: 'a diesel engine',
+  Gas: 'a gas engine',
+  Electric: 'an electric motor',
+  Propane: 'a propane engine',
+  Hybrid: 'a hybrid drive'
+};
+
+/**
+ * The specs callers care about for each kind of machine, most important first
+ * (first category pattern that matches wins)
+ */
+const CATEGORY_SPECS: Array<[RegExp, InventorySpec[]]> = [
+  [/mini|compact excavator/i, ['digDepth', 'operatingWeight']],
+  [/excavator|backhoe/i, ['digDepth', 'horsepower', 'operatingWeight']],
+  [/skid|track loader/i, ['liftCapacity', 'horsepower']],
+  [/loader/i, ['bucketSize', 'horsepower']],
+  [/dozer/i, ['horsepower', 'operatingWeight']],
+  [/telehandler|forklift|lift|crane/i, ['liftCapacity']]
+];
+const DEFAULT_SPECS: InventorySpec[] = ['horsepower', 'operatingWeight'];
+
+/**
+ * How many specs a spoken description mentions (more if the caller asked about more)
+ */
+const SPOKEN_SPECS = 2;
+
+/**
+ * Portal (and import) field -> inventory column
+ */
+export const INVENTORY_COLUMNS: Record<keyof InventoryItemFields, keyof InventoryChanges> = {
+  stockNumber: 'stock_number',
+  model: 'model',
+  category: 'category',
+  available: 'available',
+  pricePerDay: 'price_per_day',
+  pricePerWeek: 'price_per_week',
+  pricePerMonth: 'price_per_month',
+  condition: 'condition',
+  year: 'year',
+  specs: 'specs',
+  operatingWeight: 'operating_weight',
+  horsepower: 'horsepower',
+  digDepth: 'dig_depth',
+  liftCapacity: 'lift_capacity',
+  bucketSize: 'bucket_size',
+  fuelType: 'fuel_type',
+  attachments: 'attachments'
+};
 
 export class InventoryService {
   /**
-   * Search inventory by query string (from database)
-   * Handles smart matching with plurals and synonyms
+   * Search a client's inventory by query string
+   * Typo, synonym and spoken-number tolerant; most relevant first (see InventorySearchService)
    */
-  async search(query: string): Promise<any[]> {
+  async search(query: string, clientId: string): Promise<any[]> {
     if (!query) {
       return [];
     }
 
-    const normalizedQuery = query.toLowerCase();
+    return await inventorySearchService.search(query, clientId);
+  }
+
+  /**
+   * Get a client's available inventory
+   */
+  async getAvailable(clientId: string): Promise<any[]> {
+    return await databaseService.getAvailableInventory(clientId);
+  }
+
+  /**
+   * Get a client's inventory by category
+   */
+  async getByCategory(category: string, clientId: string): Promise<any[]> {
+    return await databaseService.getInventoryByCategory(category, clientId);
+  }
+
+  // ==================== FLEET MANAGEMENT (client portal) ====================
+
+  /**
+   * A client's fleet, optionally with retired items
+   */
+  async list(clientId: string, includeRetired: boolean = false): Promise<any[]> {
+    return await databaseService.getClientInventory(clientId, { includeRetired });
+  }
+
+  /**
+   * Validate item fields
+   * New items need model, category, available and pricePerDay; with `partial`
+   * (editing) only the fields present are checked
+   * Returns an error message, or null if valid
+   */
+  validate(fields: InventoryItemFields, opts: { partial?: boolean } = {}): string | null {
+    if (!opts.partial) {
+      for (const field of ['model', 'category', 'available', 'pricePerDay'] as const) {
+        if (fields[field] === undefined || fields[field] === null) {
+          return `${field} is required`;
+        }
+      }
+    }
+
+    for (const field of ['model', 'category'] as const) {
+      const value = fields[field];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        return `${field} can't be empty`;
+      }
+    }
+
+    if (fields.available !== undefined && (!Number.isInteger(fields.available) || fields.available < 0)) {
+      return 'available must be a whole number, 0 or more';
+    }
+
+    if (fields.pricePerDay !== undefined && (typeof fields.pricePerDay !== 'number' || !(fields.pricePerDay > 0) || !isFinite(fields.pricePerDay))) {
+      return 'pricePerDay must be more than 0';
+    }
+
+    // Weekly and monthly rates are optional (null clears them)
+    for (const field of ['pricePerWeek', 'pricePerMonth'] as const) {
+      const value = fields[field];
+      if (value != null && (typeof value !== 'number' || !(value > 0) || !isFinite(value))) {
+        return `${field} must be more than 0`;
+      }
+    }
+
+    if (fields.condition != null && !INVENTORY_CONDITIONS.includes(fields.condition)) {
+      return `condition must be one of ${INVENTORY_CONDITIONS.join(', ')}`;
+    }
+
+    const maxYear = new Date().getFullYear() + 1;
+    if (fields.year != null && (!Number.isInteger(fields.year) || fields.year < 1950 || fields.year > maxYear)) {
+      return `year must be between 1950 and ${maxYear}`;
+    }
+
+    if (fields.specs != null && typeof fields.specs !== 'string') {
+      return 'specs must be text';
+    }
+
+    // Typed specs are optional (null clears them)
+    for (const field of Object.keys(SPECS) as InventorySpec[]) {
+      const value = fields[field];
+      if (value != null && (typeof value !== 'number' || !(value > 0) || !isFinite(value))) {
+        return `${field} must be more than 0`;
+      }
+    }
+
+    if (fields.fuelType != null && !FUEL_TYPES.includes(fields.fuelType)) {
+      return `fuelType must be one of ${FUEL_TYPES.join(', ')}`;
+    }
+
+    if (fields.attachments != null && (typeof fields.attachments !== 'string' || fields.attachments.length > 200)) {
+      return 'attachments must be text of up to 200 characters';
+    }
 
-    // Smart matching: handle plurals, synonyms, common variations
-    const queryVariations = [
-      normalizedQuery,
-      normalizedQuery.replace(/s$/, ''),  // Remove trailing 's' (excavators -> excavator)
-      normalizedQuery.replace(/es$/, ''), // Remove trailing 'es' (dozers -> dozer)
-      normalizedQuery.replace(/bulldozer/g, 'dozer'), // bulldozer = dozer
-      normalizedQuery.replace(/loader/g, 'wheel loader'), // common variation
-    ];
+    if (fields.stockNumber != null && (typeof fields.stockNumber !== 'string' || fields.stockNumber.trim().length > 40)) {
+      return 'stockNumber must be text of up to 40 characters';
+    }
 
-    // Use optimized single-query search with all variations
-    // This is much faster than running 5 separate queries
-    return await databaseService.searchInventoryWithVariations(queryVariations);
+    return null;
   }
 
   /**
-   * Get all available inventory
+   * Add an item to a client's fleet
+   * A model (or stock number) can only be listed once (update its availability instead)
    */
-  async getAvailable(): Promise<any[]> {
-    return await databaseService.getAvailableInventory();
+  async create(clientId: string, fields: InventoryItemFields): Promise<InventoryItemResult> {
+    const error = this.validate(fields);
+    if (error) {
+      return { ok: false, statusCode: 400, message: error };
+    }
+
+    const model = fields.model!.trim();
+    if (await this.findByModel(clientId, model)) {
+      return { ok: false, statusCode: 409, message: `${model} is already in your fleet` };
+    }
+
+    const stockNumber = fields.stockNumber?.trim() || null;
+    if (stockNumber && await this.findByStockNumber(clientId, stockNumber)) {
+      return { ok: false, statusCode: 409, message: `Stock number ${stockNumber} is already in your fleet` };
+    }
+
+    const itemId = await databaseService.createInventoryItem(clientId, {
+      stockNumber,
+      model,
+      category: fields.category!.trim(),
+      available: fields.available!,
+      pricePerDay: fields.pricePerDay!,
+      pricePerWeek: fields.pricePerWeek || null,
+      pricePerMonth: fields.pricePerMonth || null,
+      condition: fields.condition || null,
+      year: fields.year || null,
+      specs: fields.specs?.trim() || null,
+      operatingWeight: fields.operatingWeight || null,
+      horsepower: fields.horsepower || null,
+      digDepth: fields.digDepth || null,
+      liftCapacity: fields.liftCapacity || null,
+      bucketSize: fields.bucketSize || null,
+      fuelType: fields.fuelType || null,
+      attachments: fields.attachments?.trim() || null
+    });
+
+    return { ok: true, item: await databaseService.getInventoryItem(clientId, itemId) };
   }
 
   /**
-   * Get inventory by category
+   * Change an item's price, condition, specs, availability (or any other field)
+   * Only the fields present are changed; condition, year and specs can be cleared with null
    */
-  async getByCategory(category: string): Promise<any[]> {
-    return await databaseService.getInventoryByCategory(category);
+  async update(clientId: string, itemId: number, fields: InventoryItemFields): Promise<InventoryItemResult> {
+    const item = await databaseService.getInventoryItem(clientId, itemId);
+    if (!item) {
+      return { ok: false, statusCode: 404, message: 'Item not found' };
+    }
+    if (item.retired_at) {
+      return { ok: false, statusCode: 409, message: 'Item is retired' };
+    }
+
+    const error = this.validate(fields, { partial: true });
+    if (error) {
+      return { ok: false, statusCode: 400, message: error };
+    }
+
+    const changes: InventoryChanges = {};
+    for (const [field, column] of Object.entries(INVENTORY_COLUMNS) as Array<[keyof InventoryItemFields, keyof InventoryChanges]>) {
+      const value = fields[field];
+      if (value === undefined) continue;
+      changes[column] = typeof value === 'string' ? value.trim() || null : value;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { ok: false, statusCode: 400, message: 'Nothing to update' };
+    }
+
+    if (typeof changes.model === 'string' && changes.model.toLowerCase() !== item.model.toLowerCase()) {
+      const existing = await this.findByModel(clientId, changes.model);
+      if (existing) {
+        return { ok: false, statusCode: 409, message: `${changes.model} is already in your fleet` };
+      }
+    }
+
+    if (typeof changes.stock_number === 'string' && changes.stock_number.toLowerCase() !== (item.stock_number || '').toLowerCase()) {
+      const existing = await this.findByStockNumber(clientId, changes.stock_number);
+      if (existing) {
+        return { ok: false, statusCode: 409, message: `Stock number ${changes.stock_number} is already in your fleet` };
+      }
+    }
+
+    if (!await databaseService.updateInventoryItem(clientId, itemId, changes)) {
+      return { ok: false, statusCode: 409, message: 'Item is retired' };
+    }
+
+    return { ok: true, item: await databaseService.getInventoryItem(clientId, itemId) };
+  }
+
+  /**
+   * Retire an item: check_inventory stops offering it, the row stays for history
+   */
+  async retire(clientId: string, itemId: number): Promise<InventoryItemResult> {
+    const item = await databaseService.getInventoryItem(clientId, itemId);
+    if (!item) {
+      return { ok: false, statusCode: 404, message: 'Item not found' };
+    }
+
+    if (!await databaseService.retireInventoryItem(clientId, itemId)) {
+      return { ok: false, statusCode: 409, message: 'Item is already retired' };
+    }
+
+    return { ok: true, item: await databaseService.getInventoryItem(clientId, itemId) };
+  }
+
+  /**
+   * Active items a caller could mean by `model`: the item with that model or stock
+   * number, otherwise every item whose model contains it (or is contained in it)
+   */
+  async matchModel(clientId: string, model: string): Promise<any[]> {
+    const wanted = model.trim().toLowerCase();
+    if (!wanted) return [];
+
+    const fleet = await databaseService.getClientInventory(clientId);
+    const exact = fleet.find(i => i.model.toLowerCase() === wanted || i.stock_number?.toLowerCase() === wanted);
+    if (exact) return [exact];
+
+    return fleet.filter(i => i.model.toLowerCase().includes(wanted) || wanted.includes(i.model.toLowerCase()));
+  }
+
+  /**
+   * A client's active item with this model (case-insensitive)
+   */
+  private async findByModel(clientId: string, model: string): Promise<any | undefined> {
+    const items = await databaseService.getClientInventory(clientId);
+    return items.find(item => item.model.toLowerCase() === model.toLowerCase());
+  }
+
+  /**
+   * A client's active item with this stock number (case-insensitive)
+   */
+  private async findByStockNumber(clientId: string, stockNumber: string): Promise<any | undefined> {
+    const items = await databaseService.getClientInventory(clientId);
+    return items.find(item => item.stock_number?.toLowerCase() === stockNumber.toLowerCase());
   }
 
   /**
    * Format a single item conversationally (not like a bullet list!)
    * This is the "One Smart Tool" approach - return everything in one shot
    */
-  formatItemRich(item: InventoryItem, isFirstInList: boolean = false): string {
+  formatItemRich(item: InventoryItem, isFirstInList: boolean = false, emphasis: Array<InventorySpec | 'fuelType'> = []): string {
     const parts: string[] = [];
 
     // Start conversationally
     const prefix = isFirstInList ? "We've got the" : "We also have the";
     parts.push(`${prefix} ${item.model}`);
 
-    // Price (most important to customers)
-    parts.push(`at $${item.price_per_day} a day`);
+    // Price (most important to customers), with the longer-term rates when set
+    const rates = [`$${item.price_per_day} a day`];
+    if (item.price_per_week) rates.push(`$${item.price_per_week} a week`);
+    if (item.price_per_month) rates.push(`$${item.price_per_month} a month`);
+    parts.push(`at ${rates.length > 1 ? `${rates.slice(0, -1).join(', ')} or ${rates[rates.length - 1]}` : rates[0]}`);
 
     // Year and condition together
     if (item.year && item.condition) {
@@ -65,10 +355,13 @@ export class InventoryService {
       parts.push(`- ${item.condition.toLowerCase()} condition`);
     }
 
-    // Add key specs naturally (extract most important detail)
-    if (item.specs) {
+    // Key specs for this kind of machine (those the caller asked about first)
+    const specs = this.describeSpecs(item, emphasis);
+    if (specs) {
+      parts.push(`with ${specs}`);
+    } else if (item.specs) {
+      // Not filled in yet: pick the size out of the free-text specs
       const specsLower = item.specs.toLowerCase();
-      // Extract capacity/weight if available
       if (specsLower.includes('ton')) {
         const tonMatch = specsLower.match(/(\d+)-ton/);
         if (tonMatch) {
@@ -82,6 +375,10 @@ export class InventoryService {
       }
     }
 
+    if (item.attachments) {
+      parts.push(`- it comes with ${speakList(item.attachments.split(',').map(a => a.trim()).filter(Boolean))}`);
+    }
+
     // Availability note (if multiple available)
     if (item.available > 1) {
       parts.push(`(we have ${item.available} of these)`);
@@ -90,11 +387,119 @@ export class InventoryService {
     return parts.join(' ');
   }
 
+  /**
+   * An item's key specs as a phrase ("24 feet of dig depth and 268 horsepower")
+   * The specs in `emphasis` come first, then the ones that matter for its category;
+   * a fuel other than diesel is always mentioned
+   */
+  describeSpecs(item: InventoryItem, emphasis: Array<InventorySpec | 'fuelType'> = []): string {
+    const categorySpecs = CATEGORY_SPECS.find(([pattern]) => pattern.test(item.category))?.[1] || DEFAULT_SPECS;
+    const fuel = item.fuel_type ? FUEL_PHRASES[item.fuel_type as FuelType] : undefined;
+
+    const phrases = [...new Set([...emphasis, ...categorySpecs])]
+      .map(spec => {
+        if (spec === 'fuelType') return fuel;
+        const value = item[SPECS[spec].column as keyof InventoryItem] as number | undefined;
+        return value ? SPECS[spec].say(value) : undefined;
+      })
+      .filter((phrase): phrase is string => Boolean(phrase))
+      .slice(0, Math.max(SPOKEN_SPECS, emphasis.length));
+
+    if (fuel && item.fuel_type !== 'Diesel' && !phrases.includes(fuel)) {
+      phrases.push(fuel);
+    }
+
+    return speakList(phrases);
+  }
+
+  /**
+   * Read check_inventory's spec limits: min/max by spec (e.g., { dig_depth_ft: 20 })
+   * and fuel_type. Numbers may come as text ("3,000")
+   */
+  parseSpecConstraints(args: { min?: any; max?: any; fuel_type?: any }): { ok: true; constraints?: SpecConstraints } | { ok: false; message: string } {
+    const constraints: SpecConstraints = {};
+
+    for (const bound of ['min', 'max'] as const) {
+      const given = args[bound];
+      if (given == null) continue;
+      if (typeof given !== 'object' || Array.isArray(given)) {
+        return { ok: false, message: `${bound} should list specs by name, like { "${SPECS.digDepth.arg}": 20 }.` };
+      }
+
+      for (const spec of Object.keys(SPECS) as InventorySpec[]) {
+        const { arg, name } = SPECS[spec];
+        const key = [arg, arg.replace(/_(lbs|ft|cu_yd)$/, ''), spec].find(k => given[k] != null && given[k] !== '');
+        if (!key) continue;
+
+        const raw = given[key];
+        const value = typeof raw === 'string' ? Number(raw.replace(/[,\s]/g, '')) : raw;
+        if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+          return { ok: false, message: `The ${bound === 'min' ? 'minimum' : 'maximum'} ${name} has to be a number. Check what the caller needs and search again.` };
+        }
+        constraints[bound] = { ...constraints[bound], [spec]: value };
+      }
+    }
+
+    if (args.fuel_type != null && args.fuel_type !== '') {
+      const wanted = String(args.fuel_type).trim().toLowerCase();
+      const fuelType = FUEL_TYPES.find(f => wanted.startsWith(f.toLowerCase()));
+      if (!fuelType) {
+        return { ok: false, message: `fuel_type must be one of ${FUEL_TYPES.join(', ').toLowerCase()}.` };
+      }
+      constraints.fuelType = fuelType;
+    }
+
+    return { ok: true, constraints: Object.keys(constraints).length > 0 ? constraints : undefined };
+  }
+
+  /**
+   * Whether an item meets every limit (an item without the spec filled in doesn't)
+   */
+  meetsSpecs(item: InventoryItem, constraints: SpecConstraints): boolean {
+    for (const { spec, value, atLeast } of specLimits(constraints)) {
+      const actual = item[SPECS[spec].column as keyof InventoryItem] as number | undefined;
+      if (actual == null || (atLeast ? actual < value : actual > value)) {
+        return false;
+      }
+    }
+
+    return !constraints.fuelType || item.fuel_type === constraints.fuelType;
+  }
+
+  /**
+   * Nothing meets the caller's limits: say so, with the closest machine for the first limit
+   */
+  private describeShortfall(items: InventoryItem[], constraints: SpecConstraints, what: string): string {
+    const limits = specLimits(constraints);
+    const wanted = limits.map(({ spec, value, atLeast }) => `${atLeast ? 'at least' : 'at most'} ${SPECS[spec].say(value)}`);
+    if (constraints.fuelType) {
+      wanted.push(FUEL_PHRASES[constraints.fuelType]);
+    }
+
+    const response = [`We don't have any ${what} with ${speakList(wanted)}.`];
+
+    const first = limits[0];
+    const column = first && (SPECS[first.spec].column as keyof InventoryItem);
+    const listed = column ? items.filter(item => item[column] != null) : [];
+
+    if (first && listed.length > 0) {
+      const closest = listed.reduce((best, item) => {
+        const [value, bestValue] = [item[column] as number, best[column] as number];
+        return (first.atLeast ? value > bestValue : value < bestValue) ? item : best;
+      });
+      response.push(`The closest is the ${closest.model} with ${SPECS[first.spec].say(closest[column] as number)} - ask if that would work, or offer to have someone from rentals call the customer back about other options.`);
+    } else {
+      response.push('Offer to have someone from rentals call the customer back about other options.');
+    }
+
+    return response.join(' ');
+  }
+
   /**
    * Smart sort items based on query intent
    * - "cheap" or "affordable" -> sort by price ascending
    * - "new" or "latest" -> sort by year descending
-   * - default -> sort by availability (most available first)
+   * - default -> best match first, then most available
    */
   smartSort(items: InventoryItem[], query: string): InventoryItem[] {
     const lowerQuery = query.toLowerCase();
@@ -118,15 +523,15 @@ export class InventoryService {
       });
     }
 
-    // Default: sort by availability (most available first)
-    return [...items].sort((a, b) => b.available - a.available);
+    // Default: best match first (search relevance), then most available
+    return [...items].sort((a, b) => (b.relevance || 0) - (a.relevance || 0) || b.available - a.available);
   }
 
   /**
    * Build summary response for large result sets (6+ items)
    * Returns: count, price range, top picks, clarifying question
    */
-  buildSummary(items: InventoryItem[], query: string): string {
+  buildSummary(items: InventoryItem[], query: string, emphasis: Array<InventorySpec | 'fuelType'> = []): string {
     const count = items.length;
     const prices = items.map(i => i.price_per_day);
     const minPrice = Math.min(...prices);
@@ -145,7 +550,7 @@ export class InventoryService {
     // Top picks - natural flow
     response.push(`Let me tell you about the top options.`);
     top3.forEach((item, idx) => {
-      response.push(this.formatItemRich(item, idx === 0));
+      response.push(this.formatItemRich(item, idx === 0, emphasis));
     });
 
     // Clarifying question - natural
@@ -164,23 +569,55 @@ export class InventoryService {
    * SMART SORTING:
    * - Detects "cheap" in query -> sorts by price
    * - Detects "new" in query -> sorts by year
-   * - Default -> sorts by availability
+   * - Default -> best match, then availability
+   *
+   * With a rental window, availability counts only units not reserved on those dates.
+   * With spec limits (e.g., at least 20ft dig depth), only items that meet them are
+   * offered; without a query, the whole fleet is checked against them
    */
-  async searchAndFormat(query: string): Promise<string> {
-    const matches = await this.search(query);
+  async searchAndFormat(
+    query: string,
+    clientId: string,
+    opts: { window?: RentalWindow; jobsite?: string; specs?: SpecConstraints } = {}
+  ): Promise<string> {
+    const what = query.trim() || 'equipment';
+    let matches = opts.specs && !query.trim()
+      ? await databaseService.getClientInventory(clientId)
+      : await this.search(query, clientId);
+
+    const emphasis: Array<InventorySpec | 'fuelType'> = opts.specs
+      ? [...specLimits(opts.specs).map(limit => limit.spec), ...(opts.specs.fuelType ? ['fuelType' as const] : [])]
+      : [];
+    if (opts.specs && matches.length > 0) {
+      const fitting = matches.filter(item => this.meetsSpecs(item, opts.specs!));
+      if (fitting.length === 0) {
+        return this.describeShortfall(matches, opts.specs, what);
+      }
+      matches = fitting;
+    }
+
+    if (opts.window && matches.length > 0) {
+      matches = await reservationService.applyWindow(clientId, matches, opts.window);
+    }
+    const dates = opts.window ? reservationService.describe(opts.window) : null;
 
     // TIER 1: No results
     if (matches.length === 0) {
-      return `I checked the lot, but I don't see any ${query} available right now. Want me to connect you with someone to check other options or put you on a waitlist?`;
+      return `I checked the lot, but I don't see any ${what} available right now. Want me to connect you with someone to check other options or put you on a waitlist?`;
     }
 
     // Separate available vs unavailable items
     const available = matches.filter(m => m.available > 0);
     const unavailable = matches.filter(m => m.available === 0);
 
+    // Everything matching is reserved for the requested dates
+    if (dates && available.length === 0) {
+      return `Every ${what} we have is booked ${dates}. Offer different dates, or to have someone from rentals call the customer back.`;
+    }
+
     // TIER 4: 6+ results -> Summary mode
     if (available.length >= 6) {
-      return this.buildSummary(available, query);
+      return this.withDates(this.buildSummary(available, what, emphasis), dates, opts.jobsite);
     }
 
     // TIER 2 & 3: 1-5 results -> Full details, conversational style
@@ -193,17 +630,17 @@ export class InventoryService {
       if (sorted.length === 1) {
         // Single item - direct and friendly
         const item = sorted[0];
-        response.push(`Yeah, ${this.formatItemRich(item, true).replace("We've got the", "we've got the")}.`);
+        response.push(`Yeah, ${this.formatItemRich(item, true, emphasis).replace("We've got the", "we've got the")}.`);
       } else if (sorted.length === 2) {
         // Two items - natural comparison
-        response.push(this.formatItemRich(sorted[0], true) + '.');
-        response.push(this.formatItemRich(sorted[1], false) + '.');
+        response.push(this.formatItemRich(sorted[0], true, emphasis) + '.');
+        response.push(this.formatItemRich(sorted[1], false, emphasis) + '.');
         response.push(`Which one sounds better for what you need?`);
       } else {
         // 3-5 items - conversational list
         response.push(`We've got ${sorted.length} options for you.`);
         sorted.forEach((item, idx) => {
-          response.push(this.formatItemRich(item, idx === 0) + '.');
+          response.push(this.formatItemRich(item, idx === 0, emphasis) + '.');
         });
         response.push(`Any of those catch your eye?`);
       }
@@ -212,13 +649,50 @@ export class InventoryService {
     // Mention unavailable items naturally
     if (unavailable.length > 0 && unavailable.length < 3) {
       unavailable.forEach(item => {
-        response.push(`The ${item.model} is out right now, but normally goes for $${item.price_per_day} a day if you want to wait.`);
+        response.push(dates
+          ? `The ${item.model} is booked ${dates}.`
+          : `The ${item.model} is out right now, but normally goes for $${item.price_per_day} a day if you want to wait.`);
       });
     }
 
-    return response.join(' ');
+    return this.withDates(response.join(' '), dates, opts.jobsite);
+  }
+
+  /**
+   * Note which dates (and jobsite) the availability is for, so the assistant can offer a hold
+   */
+  private withDates(response: string, dates: string | null, jobsite?: string): string {
+    if (!dates) {
+      return response;
+    }
+    const site = jobsite?.trim() ? ` for the job at ${jobsite.trim()}` : '';
+    return `${response} (Availability is ${dates}${site}. If they want one, use reserve_equipment to place a hold.)`;
   }
 }
 
+/**
+ * A caller's numeric limits, min before max
+ */
+function specLimits(constraints: SpecConstraints): Array<{ spec: InventorySpec; value: number; atLeast: boolean }> {
+  return [
+    ...(Object.entries(constraints.min || {}) as Array<[InventorySpec, number]>).map(([spec, value]) => ({ spec, value, atLeast: true })),
+    ...(Object.entries(constraints.max || {}) as Array<[InventorySpec, number]>).map(([spec, value]) => ({ spec, value, atLeast: false }))
+  ];
+}
+
+/**
+ * Speakable number: "3,000" or "2.5"
+ */
+function number(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+/**
+ * "a", "a and b", "a, b and c"
+ */
+function speakList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] || '';
+}
+
 // Export singleton instance
 export const inventoryService = new InventoryService();
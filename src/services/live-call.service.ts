@@ -0,0 +1,228 @@
+// src/services/live-call.service.ts
+import { EventEmitter } from 'events';
+
+/**
+ * One line of a live call's rolling transcript
+ */
+export interface LiveTranscriptTurn {
+  position: number;
+  role: string;
+  message: string;
+}
+
+/**
+ * What the dashboard knows about a call in progress
+ */
+export interface LiveCall {
+  callId: string;
+  clientId: string | null;
+  callerPhone: string | null;
+  status: string;
+  startedAt: string;            // ISO 8601, when we first saw the call
+  transcript: LiveTranscriptTurn[];
+}
+
+/**
+ * Events on the /admin/live stream
+ * - call-started: assistant-request for a new call
+ * - status: status-update (queued, ringing, in-progress, forwarding, ended)
+ * - transcript: new (or grown) conversation turns
+ * - tool: a tool the assistant invoked, with its result
+ * - supervisor: an admin took a Live Call Control action (say, transfer, mute, unmute, end)
+ * - call-ended: end-of-call report summary
+ */
+export type LiveCallEvent =
+  | { type: 'call-started'; callId: string; clientId: string | null; call: LiveCall }
+  | { type: 'status'; callId: string; clientId: string | null; status: string; endedReason?: string }
+  | { type: 'transcript'; callId: string; clientId: string | null; turns: LiveTranscriptTurn[] }
+  | { type: 'tool'; callId: string; clientId: string | null; name: string; arguments: any; result: string }
+  | { type: 'supervisor'; callId: string; clientId: string | null; action: string; actor: string }
+  | { type: 'call-ended'; callId: string; clientId: string | null; endedReason?: string; summary?: string; durationSeconds?: number };
+
+// Keep the tail of each transcript - the dashboard only shows a rolling window
+const MAX_TRANSCRIPT_TURNS = 50;
+
+// Forget calls whose end-of-call report never arrived
+const STALE_CALL_MS = 2 * 60 * 60 * 1000;
+
+// Remember ended calls this long, so late webhooks don't bring them back
+const ENDED_CALL_MS = 10 * 60 * 1000;
+
+/**
+ * In-process pub/sub for calls in progress
+ * Webhook handlers publish; /admin/live subscribers receive events for their client scope.
+ * Active calls are held in memory so a dashboard that connects mid-call gets a snapshot.
+ * Events that arrive after a call ended (webhooks aren't ordered) are dropped.
+ */
+export class LiveCallService {
+  private emitter = new EventEmitter();
+  private calls = new Map<string, LiveCall>();
+  private ended = new Map<string, { clientId: string | null; endedAt: number }>();
+
+  constructor() {
+    // One listener per open dashboard
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * A call was offered to the assistant
+   */
+  callStarted(callId: string, clientId: string | null, callerPhone: string | null, status: string = 'ringing'): void {
+    const call: LiveCall = {
+      callId,
+      clientId,
+      callerPhone,
+      status,
+      startedAt: new Date().toISOString(),
+      transcript: []
+    };
+    this.ended.delete(callId);
+    this.calls.set(callId, call);
+    this.publish({ type: 'call-started', callId, clientId, call });
+  }
+
+  /**
+   * Status changed (calls first seen here, e.g. outbound, are tracked from now on)
+   * 'ended' drops the call; the end-of-call report still follows with the summary
+   */
+  statusChanged(callId: string, clientId: string | null, status: string, endedReason?: string): void {
+    const call = this.track(callId, clientId);
+    if (!call) return;
+    call.status = status;
+    if (status === 'ended') this.end(call.callId, call.clientId);
+    this.publish({ type: 'status', callId, clientId: call.clientId, status, endedReason });
+  }
+
+  /**
+   * Conversation so far (Vapi resends the whole thing) - publishes only new or changed turns
+   */
+  conversationUpdated(callId: string, clientId: string | null, messages: Array<{ role: string; message: string }>): void {
+    const call = this.track(callId, clientId);
+    if (!call) return;
+    const known = new Map(call.transcript.map(turn => [turn.position, turn]));
+
+    // Turns older than the rolling window were published already
+    const from = call.transcript.length > 0 ? call.transcript[0].position : 0;
+
+    const changed: LiveTranscriptTurn[] = [];
+    messages.forEach((message, position) => {
+      if (position < from) return;
+      const previous = known.get(position);
+      if (!previous || previous.message !== message.message || previous.role !== message.role) {
+        changed.push({ position, role: message.role, message: message.message });
+      }
+    });
+
+    if (changed.length === 0) return;
+
+    call.transcript = messages
+      .map((message, position) => ({ position, role: message.role, message: message.message }))
+      .slice(-MAX_TRANSCRIPT_TURNS);
+    this.publish({ type: 'transcript', callId, clientId: call.clientId, turns: changed });
+  }
+
+  /**
+   * The assistant ran a tool
+   */
+  toolInvoked(callId: string, clientId: string | null, name: string, args: any, result: string): void {
+    const call = this.track(callId, clientId);
+    if (!call) return;
+    this.publish({ type: 'tool', callId, clientId: call.clientId, name, arguments: args, result });
+  }
+
+  /**
+   * A supervisor acted on the call (so every open dashboard sees it)
+   */
+  supervisorActed(callId: string, clientId: string | null, action: string, actor: string): void {
+    const call = this.track(callId, clientId);
+    if (!call) return;
+    this.publish({ type: 'supervisor', callId, clientId: call.clientId, action, actor });
+  }
+
+  /**
+   * End-of-call report arrived - the call is no longer live
+   */
+  callEnded(callId: string, clientId: string | null, report: { endedReason?: string; summary?: string; durationSeconds?: number }): void {
+    const known = this.calls.get(callId)?.clientId ?? this.ended.get(callId)?.clientId;
+    this.end(callId, known ?? clientId);
+    this.publish({ type: 'call-ended', callId, clientId: known ?? clientId, ...report });
+  }
+
+  /**
+   * Calls in progress visible to a client scope (undefined = all clients)
+   */
+  getActiveCalls(clientScope?: string): LiveCall[] {
+    this.pruneStale();
+    return [...this.calls.values()].filter(call => !clientScope || call.clientId === clientScope);
+  }
+
+  /**
+   * Receive events for a client scope (undefined = all clients)
+   * Returns the unsubscribe function
+   */
+  subscribe(listener: (event: LiveCallEvent) => void, clientScope?: string): () => void {
+    const scoped = (event: LiveCallEvent) => {
+      if (clientScope && event.clientId !== clientScope) return;
+      try {
+        listener(event);
+      } catch (error: any) {
+        // A broken subscriber must never fail the webhook that published (or other subscribers)
+        console.error('[LiveCall] Subscriber failed:', error.message);
+      }
+    };
+
+    this.emitter.on('event', scoped);
+    return () => {
+      this.emitter.off('event', scoped);
+    };
+  }
+
+  /**
+   * Number of open subscriptions (for health checks and tests)
+   */
+  subscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+
+  private pruneStale(now: number = Date.now()): void {
+    for (const [callId, call] of this.calls) {
+      if (now - new Date(call.startedAt).getTime() > STALE_CALL_MS) {
+        this.calls.delete(callId);
+      }
+    }
+    for (const [callId, { endedAt }] of this.ended) {
+      if (now - endedAt > ENDED_CALL_MS) {
+        this.ended.delete(callId);
+      }
+    }
+  }
+
+  private end(callId: string, clientId: string | null): void {
+    this.calls.delete(callId);
+    this.ended.set(callId, { clientId, endedAt: Date.now() });
+  }
+
+  /**
+   * The live call for an event, or null if the call already ended
+   */
+  private track(callId: string, clientId: string | null): LiveCall | null {
+    if (this.ended.has(callId)) return null;
+
+    let call = this.calls.get(callId);
+    if (!call) {
+      call = { callId, clientId, callerPhone: null, status: 'in-progress', startedAt: new Date().toISOString(), transcript: [] };
+      this.calls.set(callId, call);
+    } else if (!call.clientId && clientId) {
+      call.clientId = clientId;
+    }
+    return call;
+  }
+
+  private publish(event: LiveCallEvent): void {
+    this.pruneStale();
+    this.emitter.emit('event', event);
+  }
+}
+
+// Export singleton instance
+export const liveCallService = new LiveCallService();
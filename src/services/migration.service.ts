@@ -0,0 +1,287 @@
+// src/services/migration.service.ts
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * A numbered migration file from src/db/migrations (NNN_name.sql)
+ * The file has a `-- migrate:up` section and, unless it is irreversible, a `-- migrate:down` section
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+/**
+ * The queries the runner needs; a sqlite Database fits as-is, PostgreSQL gets a
+ * small adapter (see postgres.repository.ts). Parameters use `?` placeholders
+ */
+export interface MigrationConnection {
+  exec(sql: string): Promise<unknown>;
+  get(sql: string, params?: any[]): Promise<any>;
+  all(sql: string, params?: any[]): Promise<any[]>;
+  run(sql: string, params?: any[]): Promise<unknown>;
+}
+
+export type MigrationDialect = 'sqlite' | 'postgres';
+
+const FILE_PATTERN = /^(\d+)_(\w+)\.sql$/;
+const SECTION_PATTERN = /^--\s*migrate:(up|down)\s*$/m;
+
+/**
+ * Databases created before versioned migrations ran schema.sql on every boot, whose
+ * CREATE TABLE IF NOT EXISTS never altered a table that already existed. These are the
+ * columns such a database may be missing; they are added when it adopts the initial
+ * schema: [table, column, definition]
+ */
+const BASELINE_VERSION = 1;
+const LEGACY_COLUMNS: Array<[string, string, string]> = [
+  ['clients', 'vapi_assistant_id', 'TEXT'],
+  ['clients', 'custom_prompt', 'TEXT'],
+  ['clients', 'first_message_template', 'TEXT'],
+  ['clients', 'timezone', "TEXT DEFAULT 'America/Phoenix'"],
+  ['clients', 'webhook_secret', 'TEXT'],
+  ['calls', 'control_url', 'TEXT'],
+  ['callback_requests', 'assigned_to', 'TEXT'],
+  ['callback_requests', 'claimed_at', 'TIMESTAMP'],
+  ['callback_requests', 'scheduled_for', 'TIMESTAMP'],
+  ['callback_requests', 'cancelled_at', 'TIMESTAMP'],
+  ['callback_requests', 'updated_at', 'TIMESTAMP'],
+  ['callback_requests', 'outbound_call_id', 'TEXT'],
+  ['callback_requests', 'outbound_status', 'TEXT'],
+  ['callback_requests', 'outbound_attempts', 'INTEGER DEFAULT 0'],
+  ['callback_requests', 'outbound_attempted_at', 'TIMESTAMP'],
+  ['callback_requests', 'outbound_ended_reason', 'TEXT']
+];
+
+/**
+ * Versioned schema migrations
+ * Applied versions are recorded in schema_migrations; each migration runs in its
+ * own transaction, so a failed one leaves the database at the previous version
+ * Each dialect has its own migration files (PostgreSQL: src/db/postgres)
+ */
+export class MigrationService {
+  constructor(
+    private migrationsDir: string = join(__dirname, '../db/migrations'),
+    private seedPath: string = join(__dirname, '../db/seed.sql'),
+    private dialect: MigrationDialect = 'sqlite'
+  ) {}
+
+  /**
+   * Migration files in version order
+   */
+  loadMigrations(): Migration[] {
+    const migrations: Migration[] = [];
+
+    for (const file of readdirSync(this.migrationsDir).sort()) {
+      const match = file.match(FILE_PATTERN);
+      if (!match) continue;
+
+      const version = Number(match[1]);
+      if (migrations.some(m => m.version === version)) {
+        throw new Error(`Duplicate migration version ${version} (${file})`);
+      }
+
+      migrations.push({ version, name: match[2], ...this.parse(readFileSync(join(this.migrationsDir, file), 'utf-8'), file) });
+    }
+
+    return migrations.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations in order, up to and including `to` if given
+   * Returns the migrations that were applied
+   */
+  async migrate(db: MigrationConnection, options: { to?: number } = {}): Promise<Migration[]> {
+    await this.ensureTable(db);
+    const applied = await this.appliedVersions(db);
+
+    const pending = this.loadMigrations().filter(m =>
+      !applied.has(m.version) && (options.to === undefined || m.version <= options.to)
+    );
+
+    const ran: Migration[] = [];
+    for (const migration of pending) {
+      if (await this.run(db, migration, 'up')) {
+        console.log(`[Migrations] Applied ${label(migration)}`);
+        ran.push(migration);
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Roll back the most recently applied migrations (newest first)
+   * Returns the migrations that were rolled back
+   */
+  async rollback(db: MigrationConnection, steps = 1): Promise<Migration[]> {
+    await this.ensureTable(db);
+
+    const rows = await db.all(
+      'SELECT version, name FROM schema_migrations ORDER BY version DESC LIMIT ?',
+      [steps]
+    );
+    const migrations = this.loadMigrations();
+
+    // Check every step can be undone before changing anything
+    const targets = rows.map((row: any) => {
+      const migration = migrations.find(m => m.version === row.version);
+      if (!migration) {
+        throw new Error(`Migration ${row.version} (${row.name}) is applied but its file is missing`);
+      }
+      if (migration.down === null) {
+        throw new Error(`Migration ${label(migration)} has no migrate:down section and can't be rolled back`);
+      }
+      return migration;
+    });
+
+    const ran: Migration[] = [];
+    for (const migration of targets) {
+      if (await this.run(db, migration, 'down')) {
+        console.log(`[Migrations] Rolled back ${label(migration)}`);
+        ran.push(migration);
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Every known migration with when it was applied (null if pending)
+   */
+  async status(db: MigrationConnection): Promise<MigrationStatus[]> {
+    await this.ensureTable(db);
+
+    const rows = await db.all('SELECT version, name, applied_at FROM schema_migrations');
+    const appliedAt = new Map<number, string>(rows.map((row: any) => [row.version, row.applied_at]));
+
+    const status: MigrationStatus[] = this.loadMigrations().map(m => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: appliedAt.get(m.version) ?? null
+    }));
+
+    // Applied by a newer build whose file isn't here
+    for (const row of rows) {
+      if (!status.some(s => s.version === row.version)) {
+        status.push({ version: row.version, name: row.name, appliedAt: row.applied_at });
+      }
+    }
+
+    return status.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Load the seed data (default client, contacts, inventory); safe to re-run
+   */
+  async seed(db: MigrationConnection): Promise<void> {
+    await db.exec(readFileSync(this.seedPath, 'utf-8'));
+  }
+
+  private parse(sql: string, file: string): { up: string; down: string | null } {
+    const parts = sql.split(SECTION_PATTERN);
+    let up: string | null = null;
+    let down: string | null = null;
+
+    // split() with a capture group yields [preamble, 'up', sql, 'down', sql]
+    for (let i = 1; i < parts.length; i += 2) {
+      if (parts[i] === 'up') up = parts[i + 1].trim();
+      else down = parts[i + 1].trim();
+    }
+
+    if (!up) {
+      throw new Error(`Migration ${file} has no migrate:up section`);
+    }
+
+    return { up, down };
+  }
+
+  /**
+   * Run one direction of a migration in a transaction
+   * Returns false if another instance sharing the database got there first
+   */
+  private async run(db: MigrationConnection, migration: Migration, direction: 'up' | 'down'): Promise<boolean> {
+    // Take the write lock before re-checking schema_migrations
+    if (this.dialect === 'postgres') {
+      await db.exec('BEGIN');
+      await db.exec('LOCK TABLE schema_migrations IN SHARE ROW EXCLUSIVE MODE');
+    } else {
+      await db.exec('BEGIN IMMEDIATE');
+    }
+
+    try {
+      const applied = await db.get('SELECT 1 FROM schema_migrations WHERE version = ?', [migration.version]);
+      const alreadyDone = direction === 'up' ? Boolean(applied) : !applied;
+      if (alreadyDone) {
+        await db.exec('COMMIT');
+        return false;
+      }
+
+      if (direction === 'up') {
+        if (migration.version === BASELINE_VERSION && this.dialect === 'sqlite') {
+          await this.addLegacyColumns(db);
+        }
+        await db.exec(migration.up);
+        await db.run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+      } else {
+        await db.exec(migration.down!);
+        await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      }
+
+      await db.exec('COMMIT');
+      return true;
+    } catch (error: any) {
+      await db.exec('ROLLBACK');
+      throw new Error(`Migration ${label(migration)} (${direction}) failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Bring tables from a pre-migrations database up to the initial schema
+   * (no-op on a new database, where the tables don't exist yet)
+   */
+  private async addLegacyColumns(db: MigrationConnection): Promise<void> {
+    for (const [table, column, definition] of LEGACY_COLUMNS) {
+      const columns = await db.all(`PRAGMA table_info(${table})`);
+      if (columns.length > 0 && !columns.some((c: any) => c.name === column)) {
+        await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  private async ensureTable(db: MigrationConnection): Promise<void> {
+    const postgres = this.dialect === 'postgres';
+    const exists = await db.get(postgres
+      ? "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'schema_migrations'"
+      : "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+    if (exists) return;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at ${postgres ? 'TIMESTAMPTZ DEFAULT now()' : 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP'}
+      )
+    `);
+  }
+
+  private async appliedVersions(db: MigrationConnection): Promise<Set<number>> {
+    const rows = await db.all('SELECT version FROM schema_migrations');
+    return new Set(rows.map((row: any) => row.version));
+  }
+}
+
+function label(migration: Migration): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+// Export singleton instance
+export const migrationService = new MigrationService();
@@ -0,0 +1,185 @@
+// src/services/outbound-callback.service.ts
+import { databaseService } from './database.service';
+import { vapiClient } from './vapi-client.service';
+import { callbackRequestService, DIALING_TIMEOUT_MINUTES } from './callback-request.service';
+import { buildDynamicContext, buildOutboundFirstMessage } from './context-builder.service';
+import { CallbackActionResult } from '../types';
+
+/**
+ * Vapi endedReasons that mean the customer picked up and the conversation ran its course
+ * Anything else (no answer, busy, voicemail, errors) counts as a failed callback attempt
+ */
+export const ANSWERED_ENDED_REASONS = [
+  'customer-ended-call',
+  'assistant-ended-call',
+  'assistant-said-end-call-phrase',
+  'assistant-ended-call-after-message-spoken',
+  'assistant-ended-call-with-hangup-task',
+  'assistant-forwarded-call',
+  'exceeded-max-duration'
+];
+
+/**
+ * Auto-dial only calls back callbacks due within this many hours; older ones
+ * (e.g. from before auto-dial was turned on) are left to staff
+ */
+export const AUTO_DIAL_WINDOW_HOURS = 4;
+
+/**
+ * Places callback calls through Vapi using the client's own assistant
+ *
+ *   pending ──placeCall──▶ pending (outbound_status = dialing)
+ *   dialing ──end-of-call: answered──▶ completed
+ *   dialing ──end-of-call: no answer/busy/error──▶ pending (outbound_status = failed)
+ *
+ * A failed attempt leaves the callback pending so staff (or another call) can follow up.
+ * A call whose end-of-call report never arrives stops blocking new calls after DIALING_TIMEOUT_MINUTES.
+ */
+export class OutboundCallbackService {
+  /**
+   * Dial a pending callback now
+   * `actor` is the portal user who asked for the call, or 'scheduler'
+   */
+  async placeCall(clientId: string, callbackId: number, actor: string): Promise<CallbackActionResult> {
+    const callback = await databaseService.getCallbackRequest(clientId, callbackId);
+    if (!callback) {
+      return { ok: false, statusCode: 404, message: 'Callback not found' };
+    }
+    if (callback.status !== 'pending') {
+      return { ok: false, statusCode: 409, message: `Callback is already ${callback.status}` };
+    }
+
+    const client = await databaseService.getClientConfig(clientId);
+    if (!client?.vapi_assistant_id || !client?.vapi_phone_number_id) {
+      return { ok: false, statusCode: 409, message: 'No Vapi assistant or phone number is configured for outbound calls' };
+    }
+
+    if (!await databaseService.startOutboundCallback(callbackId, new Date(), DIALING_TIMEOUT_MINUTES)) {
+      return { ok: false, statusCode: 409, message: 'A call is already being placed for this callback' };
+    }
+
+    try {
+      const { variables } = await buildDynamicContext({
+        callerPhone: callback.customer_phone,
+        clientId,
+        phoneNumberId: client.vapi_phone_number_id
+      });
+
+      const call = await vapiClient.createCall({
+        assistantId: client.vapi_assistant_id,
+        phoneNumberId: client.vapi_phone_number_id,
+        customer: { number: callback.customer_phone, name: callback.customer_name || undefined },
+        assistantOverrides: {
+          firstMessage: buildOutboundFirstMessage(client.name, callback.customer_name, callback.reason),
+          variableValues: {
+            ...variables,
+            additional_context: this.buildCallbackContext(callback, variables.additional_context)
+          },
+          metadata: { callbackId, clientId }
+        }
+      });
+
+      await databaseService.setOutboundCallbackCall(callbackId, call.id);
+      await databaseService.addCallbackEvent(callbackId, {
+        action: 'call_placed',
+        actor,
+        fromStatus: 'pending',
+        toStatus: 'pending',
+        details: { callId: call.id }
+      });
+
+      console.log(`[OutboundCallback] Placed call ${call.id} for callback ${callbackId}`);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`[OutboundCallback] Failed to place call for callback ${callbackId}:`, message);
+
+      await databaseService.finishOutboundCallback(callbackId, 'failed', message);
+      await databaseService.addCallbackEvent(callbackId, {
+        action: 'call_failed',
+        actor,
+        fromStatus: 'pending',
+        toStatus: 'pending',
+        details: { error: message }
+      });
+
+      return { ok: false, statusCode: 502, message: `Could not place the call: ${message}` };
+    }
+
+    return { ok: true, callback: await callbackRequestService.get(clientId, callbackId) };
+  }
+
+  /**
+   * Dial every unassigned callback whose scheduled time has arrived (once each),
+   * within the last AUTO_DIAL_WINDOW_HOURS
+   * Returns how many calls were placed
+   */
+  async dialDue(now: Date = new Date(), limit: number = 10): Promise<number> {
+    const due = await databaseService.getCallbacksDueForDial(now, limit, DIALING_TIMEOUT_MINUTES, AUTO_DIAL_WINDOW_HOURS);
+    let placed = 0;
+
+    for (const callback of due) {
+      const result = await this.placeCall(callback.client_id, callback.id, 'scheduler');
+      if (result.ok) placed++;
+    }
+
+    return placed;
+  }
+
+  /**
+   * Settle the callback an outbound call was placed for, from its end-of-call report
+   * Returns false if the call wasn't a callback call
+   */
+  async handleCallEnded(callId: string, endedReason: string | undefined): Promise<boolean> {
+    const callback = await databaseService.getCallbackByOutboundCallId(callId);
+    if (!callback) return false;
+
+    const answered = ANSWERED_ENDED_REASONS.includes(endedReason || '');
+    await databaseService.finishOutboundCallback(callback.id, answered ? 'completed' : 'failed', endedReason || null);
+
+    if (answered) {
+      // Staff may have closed it while the call was running - then just record the outcome
+      const completed = await databaseService.updatePendingCallbackRequest(callback.id, {
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      });
+
+      await databaseService.addCallbackEvent(callback.id, {
+        action: completed ? 'completed' : 'note',
+        actor: 'assistant',
+        fromStatus: callback.status,
+        toStatus: completed ? 'completed' : callback.status,
+        note: completed ? null : 'Callback call answered',
+        details: { callId, endedReason }
+      });
+    } else {
+      await databaseService.addCallbackEvent(callback.id, {
+        action: 'call_failed',
+        actor: 'assistant',
+        fromStatus: callback.status,
+        toStatus: callback.status,
+        details: { callId, endedReason: endedReason || null }
+      });
+    }
+
+    console.log(`[OutboundCallback] Call ${callId} for callback ${callback.id} ended (${endedReason}) - ${answered ? 'completed' : 'failed'}`);
+    return true;
+  }
+
+  /**
+   * {{additional_context}} for a callback call: why we're calling, then the client's usual context
+   */
+  private buildCallbackContext(callback: any, clientContext: string): string {
+    const lines = [
+      'OUTBOUND CALLBACK: You are calling this customer back at their request.',
+      `Customer: ${callback.customer_name || 'unknown'}`,
+      `Reason they asked for a callback: ${callback.reason}`,
+      `Department: ${callback.department}`,
+      `Time they asked to be called: ${callback.preferred_time}`
+    ];
+
+    return clientContext ? `${lines.join('\n')}\n\n${clientContext}` : lines.join('\n');
+  }
+}
+
+// Export singleton instance
+export const outboundCallbackService = new OutboundCallbackService();
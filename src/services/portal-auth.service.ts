@@ -0,0 +1,193 @@
+// src/services/portal-auth.service.ts
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { databaseService } from './database.service';
+import { PortalSession } from '../types';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/**
+ * How long a portal login stays valid
+ */
+export const SESSION_TTL_HOURS = 12;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Client portal authentication
+ * - Passwords are stored as scrypt hashes ("scrypt$<salt>$<hash>")
+ * - Tokens are "<payload>.<signature>" (base64url JSON + HMAC-SHA256)
+ * - Every token maps to a portal_sessions row so logout can revoke it
+ */
+export class PortalAuthService {
+  private sessionSecret: string | null = null;
+
+  /**
+   * Secret used to sign session tokens
+   * Without PORTAL_SESSION_SECRET a random one is used, so sessions end on restart
+   */
+  private getSessionSecret(): string {
+    if (!this.sessionSecret) {
+      this.sessionSecret = process.env.PORTAL_SESSION_SECRET || null;
+      if (!this.sessionSecret) {
+        console.warn('[PortalAuth] PORTAL_SESSION_SECRET not set - using a random secret (sessions will not survive restarts)');
+        this.sessionSecret = crypto.randomBytes(32).toString('hex');
+      }
+    }
+    return this.sessionSecret;
+  }
+
+  /**
+   * Hash a password for storage
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt}$${hash.toString('hex')}`;
+  }
+
+  /**
+   * Check a password against a stored hash
+   */
+  async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, salt, hash] = storedHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, salt, expected.length);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Create a portal user for a client
+   */
+  async createUser(username: string, password: string, clientId: string): Promise<number> {
+    const passwordHash = await this.hashPassword(password);
+    return await databaseService.createPortalUser({ username, passwordHash, clientId });
+  }
+
+  /**
+   * Change a user's password and sign them out everywhere
+   */
+  async setPassword(username: string, password: string): Promise<boolean> {
+    const user = await databaseService.getPortalUserByUsername(username);
+    if (!user) return false;
+
+    await databaseService.updatePortalUserPassword(user.id, await this.hashPassword(password));
+    await databaseService.revokePortalUserSessions(user.id);
+    return true;
+  }
+
+  /**
+   * Check credentials and start a session
+   * Returns null for an unknown user or wrong password
+   */
+  async login(username: string, password: string): Promise<{ token: string; session: PortalSession } | null> {
+    const user = await databaseService.getPortalUserByUsername(username);
+
+    if (!user) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await this.hashPassword(password);
+      return null;
+    }
+
+    if (!(await this.verifyPassword(password, user.password_hash))) {
+      return null;
+    }
+
+    const session: PortalSession = {
+      sessionId: crypto.randomBytes(16).toString('hex'),
+      userId: user.id,
+      username: user.username,
+      clientId: user.client_id,
+      expiresAt: new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000)
+    };
+
+    await databaseService.createPortalSession(session.sessionId, session.userId, session.expiresAt);
+
+    return { token: this.signSessionToken(session.sessionId, session.expiresAt), session };
+  }
+
+  /**
+   * Resolve a bearer token to its session
+   * Returns null if the token is forged, expired or revoked
+   */
+  async verifyToken(token: string): Promise<PortalSession | null> {
+    const payload = this.readSessionToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    const row = await databaseService.getPortalSession(payload.sid);
+    if (!row || row.revoked_at || new Date(row.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return {
+      sessionId: row.id,
+      userId: row.user_id,
+      username: row.username,
+      clientId: row.client_id,
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+
+  /**
+   * Revoke the session behind a token
+   */
+  async logout(session: PortalSession): Promise<void> {
+    await databaseService.revokePortalSession(session.sessionId);
+  }
+
+  /**
+   * Encode and sign a session id as a bearer token
+   * Also used by admin-auth.service.ts for admin sessions
+   */
+  signSessionToken(sessionId: string, expiresAt: Date): string {
+    const payload = Buffer.from(JSON.stringify({
+      sid: sessionId,
+      exp: expiresAt.getTime()
+    })).toString('base64url');
+
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Check a token's signature and expiry and return its payload
+   * Returns null if the token is malformed, forged or expired
+   */
+  readSessionToken(token: string): { sid: string; exp: number } | null {
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let payload: { sid: string; exp: number };
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+
+    if (!payload.sid || !payload.exp || payload.exp <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  }
+
+  private sign(value: string): string {
+    return crypto.createHmac('sha256', this.getSessionSecret()).update(value).digest('base64url');
+  }
+}
+
+// Export singleton instance
+export const portalAuthService = new PortalAuthService();
@@ -0,0 +1,296 @@
+// src/services/rental-quote.service.ts
+import { databaseService } from './database.service';
+import { inventoryService } from './inventory.service';
+import { reservationService } from './reservation.service';
+import { DeliveryZone, RentalCharge, RentalPricing, RentalWindow } from '../types';
+
+/**
+ * Rental billing periods in days on rent (a month is the trade's 4-week month)
+ */
+export const DAYS_PER_WEEK = 7;
+export const DAYS_PER_MONTH = 28;
+
+const DURATION_UNITS: Record<string, number> = { day: 1, week: DAYS_PER_WEEK, month: DAYS_PER_MONTH };
+
+/**
+ * Longest rental the assistant quotes in one go
+ */
+const MAX_QUOTE_DAYS = 366;
+
+/**
+ * Outcome of get_rental_quote (messages are for the assistant)
+ */
+export type RentalQuoteResult =
+  | { ok: true; quote: any; message: string }
+  | { ok: false; message: string };
+
+/**
+ * Rental quotes
+ *
+ * A rental is charged as the cheapest mix of the item's monthly, weekly and daily
+ * rates (a period may run past the last day: 6 days at the daily rate can cost more
+ * than a week). On top of the rental charge, per client:
+ * - damage waiver: a percentage of the rental charge (the caller can decline it)
+ * - delivery: a flat fee by distance zone from the yard
+ * - tax: a percentage of everything above
+ * These are the standard rates; the assistant reads them out, it doesn't negotiate.
+ */
+export class RentalQuoteService {
+  /**
+   * A client's damage waiver, tax and delivery zones
+   */
+  async getPricing(clientId: string): Promise<RentalPricing> {
+    const stored = await databaseService.getClientRentalPricing(clientId);
+
+    return {
+      damageWaiverPercent: stored.damage_waiver_percent,
+      taxPercent: stored.rental_tax_percent,
+      deliveryZones: stored.delivery_zones.map(zone => ({
+        maxMiles: zone.max_miles,
+        fee: zone.fee,
+        label: zone.label || undefined
+      }))
+    };
+  }
+
+  /**
+   * Validate rental pricing submitted from the client portal
+   * Returns an error message, or null if valid
+   */
+  validatePricing(pricing: Partial<RentalPricing>): string | null {
+    for (const [field, name] of [['damageWaiverPercent', 'Damage waiver'], ['taxPercent', 'Rental tax']] as const) {
+      const value = pricing[field];
+      if (value != null && (typeof value !== 'number' || !isFinite(value) || value < 0 || value > 100)) {
+        return `${name} must be a percentage from 0 to 100`;
+      }
+    }
+
+    const seen = new Set<number>();
+    for (const zone of pricing.deliveryZones || []) {
+      if (typeof zone.maxMiles !== 'number' || !isFinite(zone.maxMiles) || zone.maxMiles <= 0) {
+        return 'Each delivery zone needs a distance of more than 0 miles';
+      }
+      if (typeof zone.fee !== 'number' || !isFinite(zone.fee) || zone.fee < 0) {
+        return `Delivery fee for ${zone.maxMiles} miles must be 0 or more`;
+      }
+      if (seen.has(zone.maxMiles)) {
+        return `There are two delivery zones for ${zone.maxMiles} miles`;
+      }
+      seen.add(zone.maxMiles);
+    }
+
+    return null;
+  }
+
+  /**
+   * Cheapest way to charge `days` on rent with an item's rates
+   * Ties go to the longer period (one week rather than seven days)
+   */
+  charge(item: { price_per_day: number; price_per_week?: number | null; price_per_month?: number | null }, days: number): RentalCharge {
+    const rates = [
+      { period: 'months' as const, days: DAYS_PER_MONTH, price: item.price_per_month },
+      { period: 'weeks' as const, days: DAYS_PER_WEEK, price: item.price_per_week },
+      { period: 'days' as const, days: 1, price: item.price_per_day }
+    ].filter(rate => rate.price && rate.price > 0);
+
+    // best[n] = cheapest charge covering n days
+    const best: RentalCharge[] = [{ months: 0, weeks: 0, days: 0, amount: 0 }];
+    for (let n = 1; n <= days; n++) {
+      for (const rate of rates) {
+        const before = best[Math.max(0, n - rate.days)];
+        const amount = roundCents(before.amount + rate.price!);
+        if (!best[n] || amount < best[n].amount) {
+          best[n] = { ...before, [rate.period]: before[rate.period] + 1, amount };
+        }
+      }
+    }
+
+    return best[days];
+  }
+
+  /**
+   * Price a rental for a caller (get_rental_quote) and record the quote on the call
+   * The length is start/end dates (inclusive), or a duration in days, weeks or months
+   */
+  async quote(
+    clientId: string,
+    request: {
+      model?: string;
+      duration?: number;
+      unit?: string;
+      startDate?: string;
+      endDate?: string;
+      quantity?: number;
+      delivery?: boolean;
+      deliveryMiles?: number;
+      damageWaiver?: boolean;
+      callId?: string;
+    },
+    at: Date = new Date()
+  ): Promise<RentalQuoteResult> {
+    if (!request.model?.trim()) {
+      return { ok: false, message: 'Which machine should I price? Use the model from check_inventory.' };
+    }
+    const matches = await inventoryService.matchModel(clientId, request.model);
+    if (matches.length > 1) {
+      return { ok: false, message: `That could be the ${matches.map(i => i.model).join(' or the ')}. Ask the caller which one, then try again.` };
+    }
+    if (matches.length === 0) {
+      return { ok: false, message: `We don't have a ${request.model} in the fleet. Use check_inventory to find what we do have.` };
+    }
+    const item = matches[0];
+
+    const quantity = request.quantity === undefined ? 1 : Number(request.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { ok: false, message: 'The quantity must be a whole number, 1 or more. Confirm how many they need.' };
+    }
+
+    let window: RentalWindow | null = null;
+    let days: number;
+    if (request.startDate || request.endDate) {
+      const parsed = await reservationService.parseWindow(clientId, request.startDate || request.endDate, request.endDate, at);
+      if (!parsed.ok) {
+        return parsed;
+      }
+      window = parsed.window;
+      days = (Date.parse(window.endDate) - Date.parse(window.startDate)) / (24 * 60 * 60 * 1000) + 1;
+    } else {
+      const unit = (request.unit || 'day').toLowerCase().replace(/s$/, '');
+      const duration = request.duration === undefined ? 1 : Number(request.duration);
+      if (!DURATION_UNITS[unit] || !(duration > 0) || !isFinite(duration)) {
+        return { ok: false, message: 'How long do they need it? Pass a duration in days, weeks or months, or the rental dates.' };
+      }
+      days = Math.ceil(duration * DURATION_UNITS[unit]);
+      if (days > MAX_QUOTE_DAYS) {
+        return { ok: false, message: 'That rental is over a year long. Offer to have someone from rentals call the customer back to price it.' };
+      }
+    }
+
+    const pricing = await this.getPricing(clientId);
+    const charge = this.charge(item, days);
+    const rentalAmount = roundCents(charge.amount * quantity);
+
+    const waiverPercent = request.damageWaiver === false ? null : pricing.damageWaiverPercent;
+    const damageWaiverAmount = waiverPercent ? roundCents(rentalAmount * waiverPercent / 100) : 0;
+
+    const wantsDelivery = Boolean(request.delivery) || request.deliveryMiles != null;
+    const deliveryMiles = request.deliveryMiles != null && Number(request.deliveryMiles) >= 0 ? Number(request.deliveryMiles) : null;
+    const zone = wantsDelivery && deliveryMiles !== null
+      ? pricing.deliveryZones.find(z => deliveryMiles <= z.maxMiles)
+      : undefined;
+    const deliveryFee = zone ? zone.fee : null;
+
+    const subtotal = rentalAmount + damageWaiverAmount + (deliveryFee || 0);
+    const taxAmount = pricing.taxPercent ? roundCents(subtotal * pricing.taxPercent / 100) : 0;
+    const total = roundCents(subtotal + taxAmount);
+
+    const quoteId = await databaseService.saveQuote({
+      clientId,
+      callId: request.callId || null,
+      inventoryId: item.id,
+      model: item.model,
+      quantity,
+      rentalDays: days,
+      startDate: window?.startDate || null,
+      endDate: window?.endDate || null,
+      deliveryMiles,
+      rentalAmount,
+      damageWaiverAmount,
+      deliveryFee,
+      taxAmount,
+      total,
+      breakdown: {
+        months: charge.months,
+        weeks: charge.weeks,
+        days: charge.days,
+        rates: { day: item.price_per_day, week: item.price_per_week || null, month: item.price_per_month || null },
+        damageWaiverPercent: waiverPercent || null,
+        taxPercent: pricing.taxPercent,
+        deliveryZone: zone ? zone.maxMiles : null
+      }
+    });
+
+    console.log(`[Quote] #${quoteId}: ${quantity} x ${item.model} for ${days} days = $${total} for ${clientId}`);
+
+    // Conversational breakdown, one sentence per charge
+    const what = `${quantity > 1 ? `${quantity} ${item.model}s` : `the ${item.model}`} ${window ? reservationService.describe(window) : `for ${plural(days, 'day')}`}`;
+    const sentences = [`For ${what}, the rental is ${money(rentalAmount)}${this.describeCharge(item, charge, quantity)}.`];
+
+    if (damageWaiverAmount > 0) {
+      sentences.push(`The ${waiverPercent}% damage waiver adds ${money(damageWaiverAmount)}.`);
+    }
+
+    if (zone) {
+      sentences.push(`Delivery and pickup ${zone.label ? `(${zone.label}) ` : ''}is ${money(zone.fee)}.`);
+    } else if (wantsDelivery) {
+      sentences.push(this.describeDelivery(pricing.deliveryZones, deliveryMiles));
+    }
+
+    if (taxAmount > 0) {
+      sentences.push(`Tax is ${money(taxAmount)}, for a total of ${money(total)}.`);
+    } else if (total !== rentalAmount) {
+      sentences.push(`That comes to ${money(total)}.`);
+    }
+
+    sentences.push('These are our standard rates - quote them as given and do not discount them. Rentals confirms the final price when they book it.');
+
+    return {
+      ok: true,
+      quote: { id: quoteId, total, rentalDays: days },
+      message: sentences.join(' ')
+    };
+  }
+
+  /**
+   * A client's recent quotes for the portal
+   */
+  async list(clientId: string, callId?: string): Promise<any[]> {
+    const rows = await databaseService.getQuotes(clientId, { callId });
+    return rows.map(row => ({ ...row, breakdown: row.breakdown ? JSON.parse(row.breakdown) : null }));
+  }
+
+  /**
+   * How the rental charge adds up (e.g., " (the weekly rate of $900 plus 3 days at $115)")
+   */
+  private describeCharge(item: any, charge: RentalCharge, quantity: number): string {
+    const parts: string[] = [];
+    if (charge.months) parts.push(charge.months > 1 ? `${charge.months} months at ${money(item.price_per_month)}` : `the monthly rate of ${money(item.price_per_month)}`);
+    if (charge.weeks) parts.push(charge.weeks > 1 ? `${charge.weeks} weeks at ${money(item.price_per_week)}` : `the weekly rate of ${money(item.price_per_week)}`);
+    if (charge.days) parts.push(charge.days > 1 ? `${charge.days} days at ${money(item.price_per_day)}` : `one day at ${money(item.price_per_day)}`);
+
+    return ` (${parts.join(' plus ')}${quantity > 1 ? ' each' : ''})`;
+  }
+
+  /**
+   * What to tell the caller about delivery when there's no fee to add
+   */
+  private describeDelivery(zones: DeliveryZone[], miles: number | null): string {
+    if (zones.length === 0) {
+      return 'Delivery is priced separately - rentals will quote it when they book.';
+    }
+    if (miles !== null) {
+      return `${miles} miles is past our delivery zones, so rentals will quote delivery separately.`;
+    }
+    const fees = zones.map(z => `${money(z.fee)} within ${z.maxMiles} miles`).join(', ');
+    return `Delivery isn't included yet: it's ${fees} of our yard. Ask roughly how far the jobsite is and quote again with delivery_miles.`;
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Speakable dollars: "$1,245" or "$149.40"
+ */
+function money(amount: number): string {
+  const cents = Math.round(amount * 100) % 100 !== 0;
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: cents ? 2 : 0, maximumFractionDigits: 2 })}`;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Export singleton instance
+export const rentalQuoteService = new RentalQuoteService();
@@ -0,0 +1,275 @@
+// src/services/reservation.service.ts
+import { databaseService } from './database.service';
+import { businessHoursService, LocalDate } from './business-hours.service';
+import { RentalWindow, ReservationAction, ReservationActionResult } from '../types';
+
+/**
+ * How long a tentative hold blocks units before it lapses (unless staff confirm it)
+ */
+export const RESERVATION_HOLD_HOURS = 48;
+
+/**
+ * Longest rental the assistant checks or books in one go
+ */
+const MAX_RENTAL_DAYS = 366;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Outcome of reserve_equipment (messages are for the assistant)
+ */
+export type ReservationHoldResult =
+  | { ok: true; reservation: any; message: string }
+  | { ok: false; message: string };
+
+/**
+ * Rental reservations
+ *
+ * inventory.available is how many units of an item a client owns. A reservation
+ * books some of them from start_date to end_date (inclusive):
+ *
+ *   hold ──confirm──▶ confirmed
+ *   hold / confirmed ──cancel──▶ cancelled
+ *
+ * Units are booked while a reservation is confirmed, or held and not yet expired
+ * (RESERVATION_HOLD_HOURS after the call). Dates are days in the client's timezone.
+ */
+export class ReservationService {
+  /**
+   * Check rental dates from a tool call (YYYY-MM-DD; the end date defaults to the start)
+   */
+  async parseWindow(clientId: string, startDate?: string, endDate?: string, at: Date = new Date()): Promise<
+    { ok: true; window: RentalWindow } | { ok: false; message: string }
+  > {
+    const start = parseDate(startDate);
+    const end = endDate ? parseDate(endDate) : start;
+
+    if (!start || !end) {
+      return {
+        ok: false,
+        message: `I couldn't read the rental dates ("${startDate || ''}" to "${endDate || ''}"). Confirm the first and last day on rent with the caller and pass them as YYYY-MM-DD.`
+      };
+    }
+
+    const schedule = await businessHoursService.getSchedule(clientId);
+    const today = businessHoursService.toDateKey(businessHoursService.getLocalDateTime(at, schedule.timezone));
+    const window = { startDate: businessHoursService.toDateKey(start), endDate: businessHoursService.toDateKey(end) };
+
+    if (window.startDate < today) {
+      return { ok: false, message: `${this.describe(window)} has already started. Ask the caller for dates from today on.` };
+    }
+    if (window.endDate < window.startDate) {
+      return { ok: false, message: 'The end date is before the start date. Confirm the rental dates with the caller.' };
+    }
+    if (daysBetween(start, end) >= MAX_RENTAL_DAYS) {
+      return { ok: false, message: 'That rental is over a year long. Offer to have someone from rentals call the customer back to set it up.' };
+    }
+
+    return { ok: true, window };
+  }
+
+  /**
+   * Items with `available` reduced to the units free on every day of the window
+   * (`booked` is how many were out on the busiest day)
+   */
+  async applyWindow(clientId: string, items: any[], window: RentalWindow, at: Date = new Date()): Promise<any[]> {
+    const reservations = await databaseService.getBookedReservations(clientId, window.startDate, window.endDate, at);
+
+    return items.map(item => {
+      const booked = this.peakBooked(reservations.filter(r => r.inventory_id === item.id), window);
+      return { ...item, available: Math.max(0, item.available - booked), booked };
+    });
+  }
+
+  /**
+   * Place a tentative hold for a caller (reserve_equipment)
+   * `model` is matched against the client's active fleet by model or stock number
+   */
+  async hold(
+    clientId: string,
+    request: {
+      model?: string;
+      startDate?: string;
+      endDate?: string;
+      quantity?: number;
+      customerName?: string;
+      customerPhone?: string;
+      jobsite?: string;
+      callId?: string;
+    },
+    at: Date = new Date()
+  ): Promise<ReservationHoldResult> {
+    const wanted = (request.model || '').trim().toLowerCase();
+    if (!wanted) {
+      return { ok: false, message: 'Which machine should I hold? Use the model from check_inventory.' };
+    }
+
+    const fleet = await databaseService.getClientInventory(clientId);
+    let item = fleet.find(i => i.model.toLowerCase() === wanted || i.stock_number?.toLowerCase() === wanted);
+    if (!item) {
+      const matches = fleet.filter(i => i.model.toLowerCase().includes(wanted) || wanted.includes(i.model.toLowerCase()));
+      if (matches.length > 1) {
+        return { ok: false, message: `That could be the ${matches.map(i => i.model).join(' or the ')}. Ask the caller which one, then try again.` };
+      }
+      item = matches[0];
+    }
+    if (!item) {
+      return { ok: false, message: `We don't have a ${request.model} in the fleet. Use check_inventory to find what we do have.` };
+    }
+
+    const quantity = request.quantity === undefined ? 1 : Number(request.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { ok: false, message: 'The quantity must be a whole number, 1 or more. Confirm how many they need.' };
+    }
+
+    const parsed = await this.parseWindow(clientId, request.startDate, request.endDate, at);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const { window } = parsed;
+    const dates = this.describe(window);
+
+    // Checked in the same transaction as the insert, so two calls can't both take the last unit
+    let available = 0;
+    const reservationId = await databaseService.holdReservation({
+      clientId,
+      inventoryId: item.id,
+      callId: request.callId || null,
+      quantity,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      customerName: request.customerName?.trim() || null,
+      customerPhone: request.customerPhone?.trim() || null,
+      jobsite: request.jobsite?.trim() || null,
+      holdExpiresAt: new Date(at.getTime() + RESERVATION_HOLD_HOURS * 60 * 60 * 1000)
+    }, at, booked => {
+      available = Math.max(0, item!.available - this.peakBooked(booked, window));
+      return available >= quantity;
+    });
+
+    if (reservationId === null) {
+      return {
+        ok: false,
+        message: available === 0
+          ? `The ${item.model} is booked ${dates}. Nothing was held - offer other dates or check_inventory for another machine.`
+          : `Only ${available} ${item.model}${available > 1 ? 's are' : ' is'} free ${dates}. Nothing was held - ask if that many will do.`
+      };
+    }
+
+    console.log(`[Reservation] Hold #${reservationId}: ${quantity} x ${item.model} ${window.startDate}..${window.endDate} for ${clientId}`);
+
+    return {
+      ok: true,
+      reservation: await databaseService.getReservation(clientId, reservationId),
+      message: `I've put a tentative hold on ${quantity > 1 ? `${quantity} of the` : 'the'} ${item.model} ${dates}. Let the caller know it's held for ${RESERVATION_HOLD_HOURS} hours and isn't final until someone from rentals calls to confirm it.`
+    };
+  }
+
+  /**
+   * A client's reservations (status: hold/confirmed/cancelled, or all)
+   */
+  async list(clientId: string, status?: string): Promise<any[]> {
+    const rows = await databaseService.getReservations(clientId, { status });
+    return rows.map(row => this.format(row));
+  }
+
+  /**
+   * Confirm or cancel a reservation from the portal
+   * Confirming re-checks availability, since an expired hold may have lost its units
+   */
+  async apply(clientId: string, reservationId: number, action: ReservationAction, actor: string, at: Date = new Date()): Promise<ReservationActionResult> {
+    const reservation = await databaseService.getReservation(clientId, reservationId);
+    if (!reservation) {
+      return { ok: false, statusCode: 404, message: 'Reservation not found' };
+    }
+
+    const now = at.toISOString();
+
+    if (action === 'confirm') {
+      if (reservation.status !== 'hold') {
+        return { ok: false, statusCode: 409, message: `Reservation is already ${reservation.status}` };
+      }
+
+      const item = await databaseService.getInventoryItem(clientId, reservation.inventory_id);
+      if (!item || item.retired_at) {
+        return { ok: false, statusCode: 409, message: `${reservation.model} has been retired` };
+      }
+
+      const window = { startDate: reservation.start_date, endDate: reservation.end_date };
+      const others = (await databaseService.getBookedReservations(clientId, window.startDate, window.endDate, at))
+        .filter(r => r.id !== reservation.id && r.inventory_id === reservation.inventory_id);
+      const free = item.available - this.peakBooked(others, window);
+      if (free < reservation.quantity) {
+        return { ok: false, statusCode: 409, message: `Only ${Math.max(0, free)} ${reservation.model} free for those dates` };
+      }
+
+      if (!await databaseService.updateReservationStatus(reservationId, 'hold', { status: 'confirmed', confirmed_by: actor, confirmed_at: now })) {
+        return { ok: false, statusCode: 409, message: 'Reservation was changed by someone else - reload and try again' };
+      }
+    } else if (action === 'cancel') {
+      if (reservation.status === 'cancelled') {
+        return { ok: false, statusCode: 409, message: 'Reservation is already cancelled' };
+      }
+
+      if (!await databaseService.updateReservationStatus(reservationId, reservation.status, { status: 'cancelled', cancelled_by: actor, cancelled_at: now })) {
+        return { ok: false, statusCode: 409, message: 'Reservation was changed by someone else - reload and try again' };
+      }
+    } else {
+      return { ok: false, statusCode: 400, message: `Unknown action: ${action}` };
+    }
+
+    console.log(`[Reservation] ${actor} ${action === 'confirm' ? 'confirmed' : 'cancelled'} #${reservationId} for ${clientId}`);
+
+    return { ok: true, reservation: this.format(await databaseService.getReservation(clientId, reservationId)) };
+  }
+
+  /**
+   * Speakable dates (e.g., "on Friday, June 5" or "from Monday, June 1 through Friday, June 5")
+   */
+  describe(window: RentalWindow): string {
+    const start = businessHoursService.formatDate(parseDate(window.startDate)!);
+    if (window.startDate === window.endDate) {
+      return `on ${start}`;
+    }
+    return `from ${start} through ${businessHoursService.formatDate(parseDate(window.endDate)!)}`;
+  }
+
+  /**
+   * Most units out on any one day of the window
+   * The busiest day is the window's first day or a day a reservation starts
+   */
+  private peakBooked(reservations: Array<{ quantity: number; start_date: string; end_date: string }>, window: RentalWindow): number {
+    const days = [window.startDate, ...reservations.map(r => r.start_date).filter(day => day > window.startDate && day <= window.endDate)];
+
+    return Math.max(0, ...days.map(day =>
+      reservations
+        .filter(r => r.start_date <= day && r.end_date >= day)
+        .reduce((total, r) => total + r.quantity, 0)
+    ));
+  }
+
+  private format(row: any) {
+    return { ...row, expired: Boolean(row.expired) };
+  }
+}
+
+/**
+ * A real calendar date from YYYY-MM-DD, or null
+ */
+function parseDate(text?: string): LocalDate | null {
+  const match = typeof text === 'string' ? text.trim().match(DATE_PATTERN) : null;
+  if (!match) return null;
+
+  const date = { year: parseInt(match[1]), month: parseInt(match[2]), day: parseInt(match[3]) };
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  if (check.getUTCMonth() !== date.month - 1 || check.getUTCDate() !== date.day) return null;
+
+  return date;
+}
+
+function daysBetween(a: LocalDate, b: LocalDate): number {
+  return (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / (24 * 60 * 60 * 1000);
+}
+
+// Export singleton instance
+export const reservationService = new ReservationService();
@@ -0,0 +1,427 @@
+// src/services/sales-listing.service.ts
+import { databaseService } from './database.service';
+import { inventorySearchService } from './inventory-search.service';
+import { InventoryCondition, SalesListingFields, SalesListingResult, SalesListingStatus } from '../types';
+import { SalesListingChanges } from '../repositories/storage.repository';
+
+const CONDITIONS: InventoryCondition[] = ['Excellent', 'Good', 'Fair', 'Poor'];
+
+const STATUSES: SalesListingStatus[] = ['for_sale', 'pending', 'sold'];
+
+/**
+ * Portal field -> sales_listings column
+ */
+const COLUMNS: Record<keyof SalesListingFields, keyof SalesListingChanges> = {
+  stockNumber: 'stock_number',
+  model: 'model',
+  category: 'category',
+  year: 'year',
+  condition: 'condition',
+  askingPrice: 'asking_price',
+  hours: 'hours',
+  serialNumber: 'serial_number',
+  location: 'location',
+  photosUrl: 'photos_url',
+  description: 'description',
+  status: 'status'
+};
+
+/**
+ * How many listings check_sales_inventory describes in full (more are summarized)
+ */
+const MAX_DESCRIBED = 3;
+
+/**
+ * How closely the machine in a sales call's analysis must match a listing's model
+ * for the call to be linked to it ("Caterpillar 336" -> Cat 336, not every Cat)
+ */
+const MENTION_RELEVANCE = 0.9;
+
+/**
+ * Used machines for sale: the portal listings, check_sales_inventory, and which
+ * listings each sales call was about
+ *
+ * Listings are separate from the rental fleet (no daily rates or availability):
+ * one row per machine, with its asking price, hours meter, serial number, where it
+ * is and a link to its photos. Search uses the same scoring and aliases as
+ * check_inventory (see InventorySearchService).
+ */
+export class SalesListingService {
+  /**
+   * A client's listings, optionally with sold machines
+   */
+  async list(clientId: string, includeSold: boolean = false): Promise<any[]> {
+    return await databaseService.getSalesListings(clientId, { includeSold });
+  }
+
+  /**
+   * Calls a client's listings came up on, newest first (optionally for one listing)
+   */
+  async listCalls(clientId: string, listingId?: number): Promise<any[]> {
+    return await databaseService.getSalesListingCalls(clientId, { listingId });
+  }
+
+  /**
+   * Validate listing fields
+   * New listings need model, category and askingPrice; with `partial` (editing)
+   * only the fields present are checked
+   * Returns an error message, or null if valid
+   */
+  validate(fields: SalesListingFields, opts: { partial?: boolean } = {}): string | null {
+    if (!opts.partial) {
+      for (const field of ['model', 'category', 'askingPrice'] as const) {
+        if (fields[field] === undefined || fields[field] === null) {
+          return `${field} is required`;
+        }
+      }
+    }
+
+    for (const field of ['model', 'category'] as const) {
+      const value = fields[field];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        return `${field} can't be empty`;
+      }
+    }
+
+    if (fields.askingPrice !== undefined && (typeof fields.askingPrice !== 'number' || !(fields.askingPrice > 0) || !isFinite(fields.askingPrice))) {
+      return 'askingPrice must be more than 0';
+    }
+
+    if (fields.hours != null && (typeof fields.hours !== 'number' || !(fields.hours >= 0) || !isFinite(fields.hours))) {
+      return 'hours must be a number, 0 or more';
+    }
+
+    if (fields.condition != null && !CONDITIONS.includes(fields.condition)) {
+      return `condition must be one of ${CONDITIONS.join(', ')}`;
+    }
+
+    const maxYear = new Date().getFullYear() + 1;
+    if (fields.year != null && (!Number.isInteger(fields.year) || fields.year < 1950 || fields.year > maxYear)) {
+      return `year must be between 1950 and ${maxYear}`;
+    }
+
+    for (const field of ['stockNumber', 'serialNumber'] as const) {
+      const value = fields[field];
+      if (value != null && (typeof value !== 'string' || value.trim().length > 40)) {
+        return `${field} must be text of up to 40 characters`;
+      }
+    }
+
+    for (const field of ['location', 'description'] as const) {
+      const value = fields[field];
+      if (value != null && (typeof value !== 'string' || value.length > 500)) {
+        return `${field} must be text of up to 500 characters`;
+      }
+    }
+
+    if (fields.photosUrl != null && fields.photosUrl !== '' && (typeof fields.photosUrl !== 'string' || !/^https?:\/\/\S+$/i.test(fields.photosUrl.trim()))) {
+      return 'photosUrl must be a web address (http:// or https://)';
+    }
+
+    if (fields.status !== undefined && !STATUSES.includes(fields.status)) {
+      return `status must be one of ${STATUSES.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * List a machine for sale
+   * A stock or serial number can only be on one unsold listing
+   */
+  async create(clientId: string, fields: SalesListingFields): Promise<SalesListingResult> {
+    const error = this.validate(fields);
+    if (error) {
+      return { ok: false, statusCode: 400, message: error };
+    }
+
+    const stockNumber = fields.stockNumber?.trim() || null;
+    const serialNumber = fields.serialNumber?.trim() || null;
+    const duplicate = await this.findDuplicate(clientId, { stock_number: stockNumber, serial_number: serialNumber });
+    if (duplicate) {
+      return { ok: false, statusCode: 409, message: duplicate };
+    }
+
+    const listingId = await databaseService.createSalesListing(clientId, {
+      stockNumber,
+      model: fields.model!.trim(),
+      category: fields.category!.trim(),
+      year: fields.year || null,
+      condition: fields.condition || null,
+      askingPrice: fields.askingPrice!,
+      hours: fields.hours ?? null,
+      serialNumber,
+      location: fields.location?.trim() || null,
+      photosUrl: fields.photosUrl?.trim() || null,
+      description: fields.description?.trim() || null
+    });
+
+    return { ok: true, listing: await databaseService.getSalesListing(clientId, listingId) };
+  }
+
+  /**
+   * Change a listing's price, hours, status (or any other field)
+   * Only the fields present are changed; optional fields can be cleared with null.
+   * Marking it sold records when; putting it back on sale clears that
+   */
+  async update(clientId: string, listingId: number, fields: SalesListingFields): Promise<SalesListingResult> {
+    const listing = await databaseService.getSalesListing(clientId, listingId);
+    if (!listing) {
+      return { ok: false, statusCode: 404, message: 'Listing not found' };
+    }
+
+    const error = this.validate(fields, { partial: true });
+    if (error) {
+      return { ok: false, statusCode: 400, message: error };
+    }
+
+    const changes: SalesListingChanges = {};
+    for (const [field, column] of Object.entries(COLUMNS) as Array<[keyof SalesListingFields, keyof SalesListingChanges]>) {
+      const value = fields[field];
+      if (value === undefined) continue;
+      changes[column] = typeof value === 'string' ? value.trim() || null : value;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { ok: false, statusCode: 400, message: 'Nothing to update' };
+    }
+
+    if (changes.status && changes.status !== listing.status) {
+      changes.sold_at = changes.status === 'sold' ? new Date().toISOString() : null;
+    }
+
+    const duplicate = await this.findDuplicate(clientId, {
+      stock_number: changes.stock_number !== undefined ? changes.stock_number as string | null : null,
+      serial_number: changes.serial_number !== undefined ? changes.serial_number as string | null : null
+    }, listingId);
+    if (duplicate) {
+      return { ok: false, statusCode: 409, message: duplicate };
+    }
+
+    await databaseService.updateSalesListing(clientId, listingId, changes);
+
+    return { ok: true, listing: await databaseService.getSalesListing(clientId, listingId) };
+  }
+
+  /**
+   * Read check_sales_inventory's max_price (a number, or text like "150,000")
+   */
+  parseMaxPrice(raw: any): { ok: true; maxPrice?: number } | { ok: false; message: string } {
+    if (raw == null || raw === '') {
+      return { ok: true };
+    }
+
+    const value = typeof raw === 'string' ? Number(raw.replace(/[$,\s]/g, '')) : raw;
+    if (typeof value !== 'number' || !(value > 0) || !isFinite(value)) {
+      return { ok: false, message: 'max_price has to be a dollar amount. Check the caller\'s budget and search again.' };
+    }
+
+    return { ok: true, maxPrice: value };
+  }
+
+  /**
+   * Search a client's machines for sale and describe them for the caller
+   * - 0 results: nothing for sale (offer a callback from sales)
+   * - 1-3 results: each described in full
+   * - 4+ results: count and price range, with the top 3 described
+   * With max_price, only listings at or under it are offered. Without a query, the
+   * whole lot is checked. The listings described are linked to the call
+   */
+  async searchAndFormat(
+    query: string,
+    clientId: string,
+    opts: { maxPrice?: number; callId?: string } = {}
+  ): Promise<string> {
+    const what = query.trim() || 'equipment';
+    const listings = await databaseService.getSalesListings(clientId);
+    let matches = query.trim() ? await inventorySearchService.rank(query, clientId, listings) : listings;
+
+    if (matches.length === 0) {
+      return `I checked, but we don't have any ${what} for sale right now. Offer to have someone from sales call the customer back - they know what's coming in on trade.`;
+    }
+
+    if (opts.maxPrice) {
+      const affordable = matches.filter(listing => listing.asking_price <= opts.maxPrice!);
+      if (affordable.length === 0) {
+        const cheapest = matches.reduce((best, listing) => (listing.asking_price < best.asking_price ? listing : best));
+        await this.recordOffered(clientId, opts.callId, [cheapest]);
+        return `We don't have any ${what} for sale at ${money(opts.maxPrice)} or less. The lowest priced is the ${describeMachine(cheapest)} at ${money(cheapest.asking_price)} - ask if that would work, or offer to connect them with sales about financing or what's coming in.`;
+      }
+      matches = affordable;
+    }
+
+    const sorted = this.sort(matches, query);
+    const described = sorted.slice(0, MAX_DESCRIBED);
+    await this.recordOffered(clientId, opts.callId, described);
+
+    const response: string[] = [];
+    if (sorted.length > MAX_DESCRIBED) {
+      const prices = sorted.map(listing => listing.asking_price);
+      response.push(`We've got ${sorted.length} ${what === 'equipment' ? 'machines' : what.toLowerCase()} for sale, from ${money(Math.min(...prices))} to ${money(Math.max(...prices))}. Here are the top options.`);
+    }
+
+    described.forEach((listing, idx) => response.push(this.formatListing(listing, idx === 0) + '.'));
+
+    if (sorted.length > MAX_DESCRIBED) {
+      response.push(`What matters most to you - price, hours, or year?`);
+    } else if (sorted.length > 1) {
+      response.push(`Any of those sound like a fit?`);
+    }
+
+    response.push('(These are asking prices - never negotiate them. If they want to make an offer, see the machine or talk financing, connect them with sales.)');
+
+    return response.join(' ');
+  }
+
+  /**
+   * Describe a listing conversationally
+   * e.g., "We've got the 2019 Cat 336 for $189,000 - 4,200 hours, good condition, stock number U-1042 - it's at the Phoenix yard"
+   */
+  formatListing(listing: any, isFirstInList: boolean = false): string {
+    const prefix = isFirstInList ? "We've got the" : 'We also have the';
+    const parts = [`${prefix} ${describeMachine(listing)} for ${money(listing.asking_price)}`];
+
+    const details: string[] = [];
+    if (listing.hours != null) details.push(`${number(listing.hours)} hours on the meter`);
+    if (listing.condition) details.push(`${listing.condition.toLowerCase()} condition`);
+    if (listing.stock_number) details.push(`stock number ${listing.stock_number}`);
+    if (details.length > 0) {
+      parts.push(`- ${details.join(', ')}`);
+    }
+
+    if (listing.location) {
+      parts.push(`- it's at ${listing.location}`);
+    }
+
+    if (listing.status === 'pending') {
+      parts.push("- there's a deal pending on it, so sales would need to confirm it's still available");
+    }
+
+    if (listing.photos_url) {
+      parts.push(`(photos: ${listing.photos_url} - offer to have sales send the link)`);
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Order listings by what the caller asked for
+   * - "cheap", "affordable" or "budget" -> asking price ascending
+   * - "new", "newest" or "latest" -> year descending
+   * - "low hours" -> hours ascending
+   * - default -> best match first, then price ascending
+   */
+  sort(listings: any[], query: string): any[] {
+    const lowerQuery = query.toLowerCase();
+
+    if (lowerQuery.includes('cheap') || lowerQuery.includes('affordable') || lowerQuery.includes('budget')) {
+      return [...listings].sort((a, b) => a.asking_price - b.asking_price);
+    }
+
+    if (lowerQuery.includes('new') || lowerQuery.includes('latest')) {
+      return [...listings].sort((a, b) => (b.year || 0) - (a.year || 0));
+    }
+
+    if (lowerQuery.includes('hours')) {
+      return [...listings].sort((a, b) => (a.hours ?? Infinity) - (b.hours ?? Infinity));
+    }
+
+    return [...listings].sort((a, b) => (b.relevance || 0) - (a.relevance || 0) || a.asking_price - b.asking_price);
+  }
+
+  /**
+   * Link a finished sales call to the listings it was about
+   * On top of what check_sales_inventory offered, the call's analysis can name
+   * listings by stock or serial number (intent.listings, machine.serial); failing
+   * that, a call that wasn't offered anything is linked to listings of the machine
+   * it was about. Calls with any other intent are left alone
+   * Returns how many listings were linked
+   */
+  async linkCall(callId: string, clientId: string, data: any): Promise<number> {
+    if (data?.intent?.category !== 'sales') {
+      return 0;
+    }
+
+    const listings = await databaseService.getSalesListings(clientId, { includeSold: true });
+    if (listings.length === 0) {
+      return 0;
+    }
+
+    const named = new Set(
+      [...(Array.isArray(data.intent.listings) ? data.intent.listings : []), data.machine?.serial]
+        .map(value => (typeof value === 'string' || typeof value === 'number' ? String(value).trim().toLowerCase() : ''))
+        .filter(Boolean)
+    );
+    let mentioned = listings.filter(listing =>
+      named.has(listing.stock_number?.toLowerCase()) || named.has(listing.serial_number?.toLowerCase())
+    );
+
+    if (mentioned.length === 0 && data.machine?.model) {
+      const offered = await databaseService.getCallSalesListings([callId]);
+      if (offered.length === 0) {
+        const machine = [data.machine.make, data.machine.model].filter(Boolean).join(' ');
+        const ranked = await inventorySearchService.rank(machine, clientId, listings.filter(listing => listing.status !== 'sold'));
+        mentioned = ranked.filter(listing => listing.relevance >= MENTION_RELEVANCE);
+      }
+    }
+
+    await databaseService.linkCallSalesListings(callId, clientId, mentioned.map(listing => listing.id), 'mentioned');
+    if (mentioned.length > 0) {
+      console.log(`[SalesListings] Linked call ${callId} to ${mentioned.length} listing(s)`);
+    }
+
+    return mentioned.length;
+  }
+
+  /**
+   * Record the listings check_sales_inventory read out on a call
+   */
+  private async recordOffered(clientId: string, callId: string | undefined, listings: any[]): Promise<void> {
+    if (!callId || listings.length === 0) return;
+    await databaseService.linkCallSalesListings(callId, clientId, listings.map(listing => listing.id), 'offered');
+  }
+
+  /**
+   * Another unsold listing with the same stock or serial number, as an error message
+   */
+  private async findDuplicate(
+    clientId: string,
+    numbers: { stock_number: string | null; serial_number: string | null },
+    exceptId?: number
+  ): Promise<string | null> {
+    const listings = (await databaseService.getSalesListings(clientId)).filter(listing => listing.id !== exceptId);
+
+    for (const [column, label] of [['stock_number', 'Stock number'], ['serial_number', 'Serial number']] as const) {
+      const value = numbers[column];
+      if (value && listings.some(listing => listing[column]?.toLowerCase() === value.toLowerCase())) {
+        return `${label} ${value} is already listed`;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * "2019 Cat 336" (year when known)
+ */
+function describeMachine(listing: any): string {
+  return listing.year ? `${listing.year} ${listing.model}` : listing.model;
+}
+
+/**
+ * Speakable price: "$189,000"
+ */
+function money(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * Speakable number: "4,200"
+ */
+function number(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+// Export singleton instance
+export const salesListingService = new SalesListingService();
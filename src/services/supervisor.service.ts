@@ -0,0 +1,115 @@
+// src/services/supervisor.service.ts
+import { databaseService } from './database.service';
+import { adminAuthService } from './admin-auth.service';
+import { callControlService, CallControlMessage } from './call-control.service';
+import { liveCallService } from './live-call.service';
+import { AdminSession, SupervisorAction, SupervisorActionResult } from '../types';
+
+// Numbers a supervisor can forward a caller to
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+const MAX_SAY_LENGTH = 1000;
+
+/**
+ * Supervisor barge-in / takeover for calls in progress
+ * Sends Live Call Control messages to the call's stored monitor.controlUrl and
+ * logs every attempt (sent or rejected by Vapi) in supervisor_actions
+ */
+export class SupervisorService {
+  /**
+   * Apply a supervisor action to a call
+   * - say: `input.message` is spoken by the assistant (`input.endCallAfterSpoken` hangs up after)
+   * - transfer: forward to `input.number` (E.164); `input.message` is said to the caller first
+   * - mute / unmute: stop or resume the assistant speaking
+   * - end: hang up
+   */
+  async apply(
+    admin: AdminSession,
+    callId: string,
+    action: SupervisorAction,
+    input: { message?: string; number?: string; endCallAfterSpoken?: boolean } = {}
+  ): Promise<SupervisorActionResult> {
+    const message = typeof input.message === 'string' ? input.message.trim() : '';
+    let control: CallControlMessage;
+    let details: Record<string, any> | undefined;
+
+    switch (action) {
+      case 'say':
+        if (!message) {
+          return { ok: false, statusCode: 400, message: 'Message is required' };
+        }
+        if (message.length > MAX_SAY_LENGTH) {
+          return { ok: false, statusCode: 400, message: `Message must be at most ${MAX_SAY_LENGTH} characters` };
+        }
+        control = { type: 'say', content: message, endCallAfterSpoken: input.endCallAfterSpoken === true };
+        details = { message, endCallAfterSpoken: input.endCallAfterSpoken === true };
+        break;
+
+      case 'transfer': {
+        const number = typeof input.number === 'string' ? input.number.trim() : '';
+        if (!E164_PATTERN.test(number)) {
+          return { ok: false, statusCode: 400, message: 'number must be an E.164 phone number (e.g. +15551234567)' };
+        }
+        control = { type: 'transfer', destination: { type: 'number', number }, content: message || undefined };
+        details = message ? { number, message } : { number };
+        break;
+      }
+
+      case 'mute':
+      case 'unmute':
+        control = { type: 'control', control: action === 'mute' ? 'mute-assistant' : 'unmute-assistant' };
+        break;
+
+      case 'end':
+        control = { type: 'end-call' };
+        break;
+
+      default:
+        return { ok: false, statusCode: 400, message: `Unknown action: ${action}` };
+    }
+
+    const call = await databaseService.getCall(callId);
+    if (!call || !adminAuthService.canAccessClient(admin, call.client_id)) {
+      return { ok: false, statusCode: 404, message: 'Call not found' };
+    }
+    if (call.status === 'ended') {
+      return { ok: false, statusCode: 409, message: 'Call has already ended' };
+    }
+    if (!call.control_url) {
+      return { ok: false, statusCode: 409, message: 'Live Call Control is not available for this call yet' };
+    }
+
+    try {
+      await callControlService.send(call.control_url, control);
+    } catch (error: any) {
+      const reason = String(error.response?.data?.message || error.message);
+      console.error(`[Supervisor] ${action} on call ${callId} failed:`, reason);
+      await databaseService.saveSupervisorAction({
+        callId, clientId: call.client_id, actor: admin.username, action, details, success: false, error: reason
+      });
+      return { ok: false, statusCode: 502, message: `Vapi rejected the ${action}: ${reason}` };
+    }
+
+    const actionId = await databaseService.saveSupervisorAction({
+      callId, clientId: call.client_id, actor: admin.username, action, details, success: true
+    });
+    liveCallService.supervisorActed(callId, call.client_id, action, admin.username);
+    console.log(`[Supervisor] ${admin.username}: ${action} on call ${callId}`);
+
+    const actions = await databaseService.getSupervisorActions(callId);
+    return { ok: true, action: actions.find(a => a.id === actionId) };
+  }
+
+  /**
+   * Audit log of supervisor actions on a call (null if not visible to the admin)
+   */
+  async list(admin: AdminSession, callId: string) {
+    const call = await databaseService.getCall(callId);
+    if (!call || !adminAuthService.canAccessClient(admin, call.client_id)) {
+      return null;
+    }
+    return await databaseService.getSupervisorActions(callId);
+  }
+}
+
+// Export singleton instance
+export const supervisorService = new SupervisorService();
@@ -17,14 +17,17 @@ import {
 export class VapiClient {
   private sdk: VapiSDK;
 
-  constructor(apiKey?: string) {
+  /**
+   * `sdk` replaces the official SDK (e.g. with a recorded-fixture stand-in for tests)
+   */
+  constructor(apiKey?: string, sdk?: VapiSDK) {
     const key = apiKey || process.env.VAPI_API_KEY || '';
 
-    if (!key) {
+    if (!key && !sdk) {
       console.warn('[VapiClient] WARNING: No API key provided. Set VAPI_API_KEY environment variable.');
     }
 
-    this.sdk = new VapiSDK({ token: key });
+    this.sdk = sdk || new VapiSDK({ token: key });
   }
 
   // ==================== TOOLS ====================
@@ -134,6 +137,18 @@ export class VapiClient {
     return this.sdk.calls.get({ id: callId }) as any;
   }
 
+  /**
+   * Place an outbound phone call from one of our Vapi numbers
+   */
+  async createCall(call: {
+    assistantId: string;
+    phoneNumberId: string;
+    customer: { number: string; name?: string };
+    assistantOverrides?: Record<string, any>;
+  }): Promise<VapiCall> {
+    return this.sdk.calls.create(call as any) as any;
+  }
+
   /**
    * Get call transcript
    */
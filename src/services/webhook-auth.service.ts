@@ -0,0 +1,159 @@
+// src/services/webhook-auth.service.ts
+import crypto from 'crypto';
+import { databaseService } from './database.service';
+
+/**
+ * Headers Vapi sends with signed webhooks
+ * - HMAC credential: x-vapi-signature = hex HMAC-SHA256 of "{timestamp}.{raw body}", x-vapi-timestamp = unix seconds
+ * - Plain server secret: x-vapi-secret = the shared secret itself, also with x-vapi-timestamp
+ * Both are rejected without a fresh timestamp, or if already seen
+ */
+export const SIGNATURE_HEADER = 'x-vapi-signature';
+export const TIMESTAMP_HEADER = 'x-vapi-timestamp';
+export const SECRET_HEADER = 'x-vapi-secret';
+
+/**
+ * Requests with a timestamp further than this from our clock are rejected
+ */
+export const MAX_TIMESTAMP_SKEW_SECONDS = 300;
+
+export interface WebhookAuthHeaders {
+  signature?: string;
+  timestamp?: string;
+  secret?: string;
+}
+
+export class WebhookAuthService {
+  // Requests already accepted (by signature, or timestamp and body), with the time (ms) they can be forgotten
+  private seenRequests = new Map<string, number>();
+
+  /**
+   * Compute the HMAC signature for a raw request body
+   */
+  sign(secret: string, timestamp: string | number, rawBody: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+  }
+
+  /**
+   * Find the client a webhook belongs to (phone number first, then assistant)
+   */
+  async resolveClient(payload: any): Promise<any | null> {
+    const message = payload?.message;
+    const phoneNumberId = message?.call?.phoneNumberId || message?.phoneNumber?.id;
+    const assistantId = message?.call?.assistantId || message?.assistant?.id;
+
+    if (phoneNumberId) {
+      const client = await databaseService.getClientByPhoneNumberId(phoneNumberId);
+      if (client) return client;
+    }
+
+    if (assistantId) {
+      return await databaseService.getClientByAssistantId(assistantId);
+    }
+
+    return null;
+  }
+
+  /**
+   * Secrets a webhook may be signed with: the client's own secret,
+   * plus the account-wide VAPI_SERVER_SECRET used by shared tools
+   */
+  async getSecrets(payload: any): Promise<string[]> {
+    const client = await this.resolveClient(payload);
+    const secrets: string[] = [];
+
+    if (client?.webhook_secret) {
+      secrets.push(client.webhook_secret);
+    }
+    if (process.env.VAPI_SERVER_SECRET) {
+      secrets.push(process.env.VAPI_SERVER_SECRET);
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Verify webhook headers against the allowed secrets
+   * Returns an error message, or null if the request is authentic
+   */
+  verify(secrets: string[], headers: WebhookAuthHeaders, rawBody: string, now: number = Date.now()): string | null {
+    if (secrets.length === 0) {
+      return 'No webhook secret configured';
+    }
+
+    if (!headers.signature && !headers.secret) {
+      return 'Missing signature';
+    }
+
+    if (headers.timestamp === undefined) {
+      return 'Missing timestamp';
+    }
+    const timestamp = Number(headers.timestamp);
+    if (!Number.isFinite(timestamp)) {
+      return 'Invalid timestamp';
+    }
+    if (Math.abs(now / 1000 - timestamp) > MAX_TIMESTAMP_SKEW_SECONDS) {
+      return 'Stale timestamp';
+    }
+
+    if (headers.signature) {
+      const signature = headers.signature.replace(/^sha256=/, '');
+      const valid = secrets.some(secret =>
+        safeEqual(signature, this.sign(secret, headers.timestamp!, rawBody))
+      );
+      if (!valid) {
+        return 'Invalid signature';
+      }
+
+      return this.checkReplay(signature, now);
+    }
+
+    if (!secrets.some(secret => safeEqual(headers.secret!, secret))) {
+      return 'Invalid secret';
+    }
+
+    // The plain secret is the same on every request, so a replay is the same timestamp and body
+    return this.checkReplay(
+      crypto.createHash('sha256').update(`${headers.timestamp}.${rawBody}`).digest('hex'),
+      now
+    );
+  }
+
+  /**
+   * Remember an accepted request; returns an error if it was already seen
+   */
+  private checkReplay(key: string, now: number): string | null {
+    this.pruneSeenRequests(now);
+    if (this.seenRequests.has(key)) {
+      return 'Replayed request';
+    }
+    this.seenRequests.set(key, now + MAX_TIMESTAMP_SKEW_SECONDS * 2 * 1000);
+    return null;
+  }
+
+  /**
+   * Forget requests whose timestamps would now be rejected as stale anyway
+   */
+  private pruneSeenRequests(now: number): void {
+    for (const [key, expiresAt] of this.seenRequests) {
+      if (expiresAt <= now) {
+        this.seenRequests.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// Export singleton instance
+export const webhookAuthService = new WebhookAuthService();
@@ -0,0 +1,114 @@
+// src/services/webhook-inbox.service.ts
+import { databaseService } from './database.service';
+import { callEventsService } from './call-events.service';
+
+// A delivery stuck in processing this long is assumed dead (server restarted mid-way)
+const STALE_PROCESSING_MINUTES = 5;
+
+/**
+ * Outcome of handing a webhook to the inbox
+ * - processed: applied now
+ * - duplicate: already processed (or being processed by another delivery) - acknowledge only
+ * - dead: processing failed; parked in the dead-letter state until replayed
+ */
+export type WebhookInboxResult =
+  | { status: 'processed'; eventId: number }
+  | { status: 'duplicate'; eventId: number }
+  | { status: 'dead'; eventId: number; error: string };
+
+/**
+ * Webhook message types that go through the inbox, and how each is applied
+ * Both change stored call state and must be applied exactly once per call
+ * (per status for status-update)
+ */
+const PROCESSORS: Record<string, (message: any) => Promise<void>> = {
+  'status-update': message => callEventsService.processStatusUpdate(message),
+  'end-of-call-report': message => callEventsService.processEndOfCallReport(message)
+};
+
+/**
+ * Persist-then-process inbox for call lifecycle webhooks
+ *
+ *   delivery ──▶ pending ──claim──▶ processing ──ok──▶ processed
+ *                                        └──error──▶ dead ──replay / redelivery──▶ processing
+ *
+ * The raw payload is saved before anything else, so a failure (e.g. a locked
+ * SQLite file) never loses the call. Redeliveries of a processed event are no-ops.
+ */
+export class WebhookInboxService {
+  /**
+   * Whether a webhook message type is handled by the inbox
+   */
+  handles(messageType: string | undefined): boolean {
+    return !!messageType && messageType in PROCESSORS;
+  }
+
+  /**
+   * Save a webhook delivery and process it unless it was already handled
+   */
+  async receive(payload: any): Promise<WebhookInboxResult> {
+    const message = payload.message;
+    const callId = message?.call?.id;
+    if (!callId) {
+      throw new Error(`${message?.type} webhook has no call id`);
+    }
+
+    const event = await databaseService.recordWebhookEvent({
+      callId,
+      eventType: message.type,
+      eventKey: this.eventKey(message),
+      payload: JSON.stringify(payload)
+    });
+
+    if (event.status === 'processed') {
+      return { status: 'duplicate', eventId: event.id };
+    }
+    return this.process(event.id);
+  }
+
+  /**
+   * Process a stored event again (admin replay of a dead-lettered event)
+   * Returns null if the event does not exist
+   */
+  async replay(eventId: number): Promise<WebhookInboxResult | null> {
+    const event = await databaseService.getWebhookEvent(eventId);
+    if (!event) return null;
+    if (event.status === 'processed') {
+      return { status: 'duplicate', eventId };
+    }
+    return this.process(eventId);
+  }
+
+  private async process(eventId: number): Promise<WebhookInboxResult> {
+    if (!(await databaseService.claimWebhookEvent(eventId, STALE_PROCESSING_MINUTES))) {
+      return { status: 'duplicate', eventId };
+    }
+
+    try {
+      const event = await databaseService.getWebhookEvent(eventId);
+      const message = JSON.parse(event.payload).message;
+      await PROCESSORS[event.event_type](message);
+      await databaseService.finishWebhookEvent(eventId, 'processed');
+      return { status: 'processed', eventId };
+    } catch (error: any) {
+      console.error(`[WebhookInbox] Event ${eventId} failed - dead-lettered:`, error.message);
+      try {
+        await databaseService.finishWebhookEvent(eventId, 'dead', error.message);
+      } catch (finishError: any) {
+        // Left in processing; it is retried once stale
+        console.error(`[WebhookInbox] Could not dead-letter event ${eventId}:`, finishError.message);
+      }
+      return { status: 'dead', eventId, error: error.message };
+    }
+  }
+
+  /**
+   * Idempotency key within a call: each status is its own event
+   */
+  private eventKey(message: any): string {
+    return message.type === 'status-update' ? `status-update:${message.status}` : message.type;
+  }
+}
+
+// Export singleton instance
+export const webhookInboxService = new WebhookInboxService();
@@ -32,6 +32,7 @@ export interface AssistantRequestMessage {
     customer?: {
       number: string;
     };
+    monitor?: { listenUrl?: string; controlUrl?: string };
   };
 }
 
@@ -49,7 +50,9 @@ export interface AssistantStartedMessage {
 export interface StatusUpdateMessage {
   type: 'status-update';
   status: 'queued' | 'ringing' | 'in-progress' | 'forwarding' | 'ended';
-  call?: { id: string };
+  endedReason?: string;
+  timestamp?: number;  // unix ms
+  call?: VapiCallSummary;
   inboundPhoneCallDebuggingArtifacts?: {
     error?: string;
     assistantRequestError?: string;
@@ -62,7 +65,33 @@ export interface StatusUpdateMessage {
  */
 export interface ConversationUpdateMessage {
   type: 'conversation-update';
-  call?: { id: string };
+  messages?: VapiConversationMessage[];  // whole conversation so far
+  timestamp?: number;
+  call?: VapiCallSummary;
+}
+
+/**
+ * Call fields sent with live webhooks (status-update, conversation-update)
+ */
+export interface VapiCallSummary {
+  id: string;
+  type?: 'inboundPhoneCall' | 'outboundPhoneCall' | 'webCall';
+  phoneNumberId?: string;
+  assistantId?: string;
+  customer?: { number?: string };
+  monitor?: { listenUrl?: string; controlUrl?: string };
+}
+
+/**
+ * One entry of a conversation-update's messages
+ * Spoken turns carry `message`; tool turns carry toolCalls / result instead
+ */
+export interface VapiConversationMessage {
+  role: string;
+  message?: string;
+  time?: number;
+  secondsFromStart?: number;
+  [key: string]: any;
 }
 
 /**
@@ -133,13 +162,204 @@ export interface Customer {
 }
 
 export interface InventoryItem {
+  client_id?: string;  // Owning client (each dealer has its own fleet)
   model: string;
   category: string;
   available: number;
   price_per_day: number;
+  price_per_week?: number;   // 7 days on rent
+  price_per_month?: number;  // 28 days on rent
   condition?: string;
   year?: number;
   specs?: string;
+  operating_weight?: number;  // lbs
+  horsepower?: number;
+  dig_depth?: number;         // ft
+  lift_capacity?: number;     // lbs
+  bucket_size?: number;       // cubic yards
+  fuel_type?: string;
+  attachments?: string;       // comma-separated
+  relevance?: number;  // How well it matched a search (0-1)
+}
+
+/**
+ * Equipment condition (inventory.condition)
+ */
+export type InventoryCondition = 'Excellent' | 'Good' | 'Fair' | 'Poor';
+
+/**
+ * Equipment fuel type (inventory.fuel_type)
+ */
+export type FuelType = 'Diesel' | 'Gas' | 'Electric' | 'Propane' | 'Hybrid';
+
+/**
+ * Numeric spec a caller can ask for (check_inventory min/max)
+ * Units: operatingWeight and liftCapacity in lbs, digDepth in ft, bucketSize in cubic yards
+ */
+export type InventorySpec = 'operatingWeight' | 'horsepower' | 'digDepth' | 'liftCapacity' | 'bucketSize';
+
+/**
+ * What the caller needs the machine to do (every limit must be met)
+ */
+export interface SpecConstraints {
+  min?: Partial<Record<InventorySpec, number>>;
+  max?: Partial<Record<InventorySpec, number>>;
+  fuelType?: FuelType;
+}
+
+/**
+ * Item fields the portal sends when adding or editing equipment
+ */
+export interface InventoryItemFields {
+  stockNumber?: string | null;
+  model?: string;
+  category?: string;
+  available?: number;
+  pricePerDay?: number;
+  pricePerWeek?: number | null;
+  pricePerMonth?: number | null;
+  condition?: InventoryCondition | null;
+  year?: number | null;
+  specs?: string | null;
+  operatingWeight?: number | null;
+  horsepower?: number | null;
+  digDepth?: number | null;
+  liftCapacity?: number | null;
+  bucketSize?: number | null;
+  fuelType?: FuelType | null;
+  attachments?: string | null;
+}
+
+/**
+ * Result of a portal inventory change
+ * statusCode mirrors the HTTP status the portal should return on failure
+ */
+export type InventoryItemResult =
+  | { ok: true; item: any }
+  | { ok: false; statusCode: 400 | 404 | 409; message: string };
+
+/**
+ * What a bulk import does (or, in a dry run, would do) with one row
+ */
+export type InventoryImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface InventoryImportRow {
+  row: number;  // 1-based data row (spreadsheet line = row + 1, below the header)
+  action: InventoryImportAction;
+  itemId?: number;
+  stockNumber?: string;
+  model?: string;
+  changes?: Record<string, { from: any; to: any }>;  // by column; updates only
+  errors?: string[];
+}
+
+export interface InventoryImportResult {
+  dryRun: boolean;
+  summary: Record<InventoryImportAction, number>;
+  rows: InventoryImportRow[];
+}
+
+/**
+ * A search alias: what callers say, and what the fleet calls it
+ * (e.g., "caterpillar" -> "cat", "track loader" -> "skid steer")
+ */
+export interface InventoryAlias {
+  alias: string;
+  canonical: string;
+}
+
+/**
+ * Sales listing status (sales_listings.status)
+ * Pending listings are still offered (the deal may fall through); sold ones aren't
+ */
+export type SalesListingStatus = 'for_sale' | 'pending' | 'sold';
+
+/**
+ * How a listing came up on a call (call_sales_listings.source)
+ * - offered: check_sales_inventory read it out
+ * - mentioned: a sales call's analysis named it (stock or serial number, or its model)
+ */
+export type SalesListingSource = 'offered' | 'mentioned';
+
+/**
+ * Listing fields the portal sends when adding or editing a machine for sale
+ */
+export interface SalesListingFields {
+  stockNumber?: string | null;
+  model?: string;
+  category?: string;
+  year?: number | null;
+  condition?: InventoryCondition | null;
+  askingPrice?: number;
+  hours?: number | null;
+  serialNumber?: string | null;
+  location?: string | null;
+  photosUrl?: string | null;
+  description?: string | null;
+  status?: SalesListingStatus;
+}
+
+/**
+ * Result of a portal sales listing change
+ * statusCode mirrors the HTTP status the portal should return on failure
+ */
+export type SalesListingResult =
+  | { ok: true; listing: any }
+  | { ok: false; statusCode: 400 | 404 | 409; message: string };
+
+/**
+ * Reservation status (reservations.status)
+ * A hold that staff haven't confirmed stops blocking units once it expires
+ */
+export type ReservationStatus = 'hold' | 'confirmed' | 'cancelled';
+
+/**
+ * Portal actions on a reservation
+ */
+export type ReservationAction = 'confirm' | 'cancel';
+
+/**
+ * Rental dates, first and last day on rent (inclusive), YYYY-MM-DD in the client's timezone
+ */
+export interface RentalWindow {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Result of a reservation action
+ * statusCode mirrors the HTTP status the portal should return on failure
+ */
+export type ReservationActionResult =
+  | { ok: true; reservation: any }
+  | { ok: false; statusCode: 400 | 404 | 409; message: string };
+
+/**
+ * Delivery fee for jobsites up to maxMiles from the yard
+ */
+export interface DeliveryZone {
+  maxMiles: number;
+  fee: number;
+  label?: string;
+}
+
+/**
+ * A client's rental pricing settings (fleet rates live on the inventory items)
+ */
+export interface RentalPricing {
+  damageWaiverPercent: number | null;  // % of the rental charge; null = no waiver
+  taxPercent: number | null;           // % of the quote subtotal; null = no tax
+  deliveryZones: DeliveryZone[];       // nearest first
+}
+
+/**
+ * Rate periods a rental is charged as (the cheapest mix of the item's rates)
+ */
+export interface RentalCharge {
+  months: number;
+  weeks: number;
+  days: number;
+  amount: number;
 }
 
 export interface ClientConfig {
@@ -153,3 +373,160 @@ export interface ClientConfig {
   };
   greeting?: string;
 }
+
+/**
+ * Business hours configuration (per client)
+ * Times are 24h "HH:MM" strings local to the client's timezone
+ */
+export interface DayHours {
+  open: string;
+  close: string;
+}
+
+/**
+ * Weekly schedule indexed by day of week (0 = Sunday); null = closed all day
+ */
+export type WeeklyHours = (DayHours | null)[];
+
+/**
+ * Holiday closure or one-off special hours for a specific date
+ */
+export interface BusinessHoursException {
+  date: string;  // YYYY-MM-DD in the client's timezone
+  closed: boolean;
+  open?: string;
+  close?: string;
+  label?: string;
+}
+
+export interface BusinessHoursSchedule {
+  timezone: string;  // IANA timezone (e.g., America/Chicago)
+  weekly: WeeklyHours;
+  exceptions: BusinessHoursException[];
+}
+
+/**
+ * Departments that transfer_call can route to
+ */
+export type Department = 'sales' | 'rentals' | 'service' | 'parts' | 'billing';
+
+/**
+ * What transfer_call does when a department is closed
+ */
+export type AfterHoursAction = 'callback' | 'on_call' | 'overflow' | 'voicemail';
+
+/**
+ * Per-department schedule and fallback numbers
+ */
+export interface DepartmentRouting {
+  department: Department;
+  weekly: WeeklyHours | null;  // null = follows the client's main business hours
+  afterHoursAction: AfterHoursAction;
+  onCallPhone?: string;
+  overflowPhone?: string;
+  voicemailPhone?: string;
+}
+
+/**
+ * Authenticated client portal session
+ */
+export interface PortalSession {
+  sessionId: string;
+  userId: number;
+  username: string;
+  clientId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Admin roles
+ * - super_admin: every client, including account-wide Vapi resources
+ * - client_admin: read/write for one client
+ * - analyst: read-only (one client, or all clients when clientId is null)
+ */
+export type AdminRole = 'super_admin' | 'client_admin' | 'analyst';
+
+/**
+ * Authenticated admin session
+ */
+export interface AdminSession {
+  sessionId: string;
+  userId: number;
+  username: string;
+  role: AdminRole;
+  clientId: string | null;  // null = all clients
+  expiresAt: Date;
+}
+
+/**
+ * Callback request status (a claimed callback is still pending)
+ */
+export type CallbackStatus = 'pending' | 'completed' | 'cancelled';
+
+/**
+ * Portal actions on a callback request
+ */
+export type CallbackAction = 'claim' | 'assign' | 'reschedule' | 'complete' | 'cancel' | 'note';
+
+/**
+ * Result of a callback action
+ * statusCode mirrors the HTTP status the portal should return on failure
+ * (502 when Vapi rejected an outbound call)
+ */
+export type CallbackActionResult =
+  | { ok: true; callback: any }
+  | { ok: false; statusCode: 400 | 404 | 409 | 502; message: string };
+
+/**
+ * Reminder the callback scheduler sends
+ * - due: callback comes due within the reminder window
+ * - escalation: callback is still pending well past its due time
+ */
+export type CallbackReminderKind = 'due' | 'escalation';
+
+/**
+ * Payload handed to every callback notifier
+ */
+export interface CallbackNotification {
+  kind: CallbackReminderKind;
+  reminderId: number;
+  callbackId: number;
+  clientId: string;
+  clientName: string;
+  customerName: string;
+  customerPhone: string;
+  department: string;
+  reason: string;
+  preferredTime: string;
+  dueAt: string;               // ISO 8601 UTC
+  assignedTo: string | null;
+  subject: string;
+  text: string;
+}
+
+/**
+ * A delivery channel for callback reminders (console, file, SMTP, webhook, ...)
+ * send() should throw if delivery failed so the scheduler can retry
+ */
+export interface CallbackNotifier {
+  readonly name: string;
+  send(notification: CallbackNotification): Promise<void>;
+}
+
+/**
+ * Live Call Control action a supervisor can take on a call in progress
+ * - say: the assistant speaks a message (optionally hanging up after)
+ * - transfer: forward the caller to any number
+ * - mute / unmute: silence the assistant so a listening supervisor can step in
+ * - end: hang up
+ */
+export type SupervisorAction = 'say' | 'transfer' | 'mute' | 'unmute' | 'end';
+
+/**
+ * Result of a supervisor action
+ * statusCode mirrors the HTTP status the dashboard should return on failure
+ * (502 when Vapi rejected the control request)
+ */
+export type SupervisorActionResult =
+  | { ok: true; action: any }
+  | { ok: false; statusCode: 400 | 404 | 409 | 502; message: string };
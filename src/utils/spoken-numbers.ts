@@ -0,0 +1,103 @@
+// src/utils/spoken-numbers.ts
+
+const ONES: Record<string, number> = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14,
+  fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000 };
+
+const isNumberWord = (word: string) => word in ONES || word in TEENS || word in TENS || word in SCALES;
+
+/**
+ * Replace spelled-out numbers in transcribed speech with digits
+ *
+ * Model numbers are read out in groups, so a run without "hundred"/"thousand" is
+ * read group by group: "three thirty six" -> 336, "three oh five" -> 305,
+ * "nine fifty" -> 950, "two ten" -> 210. With a scale word it's an ordinary number:
+ * "three hundred and thirty six" -> 336, "eighteen thousand" -> 18000.
+ * A lone "one" or "oh" is left as a word. Expects lowercase words separated by spaces
+ * (other words are left as they are).
+ */
+export function normalizeSpokenNumbers(text: string): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+
+  for (let i = 0; i < words.length;) {
+    // A lone "oh" or "one" is a word ("oh, the big one")
+    const alone = (words[i] === 'oh' || words[i] === 'one') && !isNumberWord(words[i + 1] || '');
+    if (!isNumberWord(words[i]) || words[i] in SCALES || alone) {
+      out.push(words[i++]);
+      continue;
+    }
+
+    // Collect the run ("and" only joins "hundred and six")
+    const run: string[] = [];
+    while (i < words.length) {
+      if (isNumberWord(words[i])) {
+        run.push(words[i++]);
+      } else if (words[i] === 'and' && run.some(w => w in SCALES) && isNumberWord(words[i + 1] || '')) {
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    out.push(run.some(w => w in SCALES) ? String(readScaled(run)) : readGroups(run));
+  }
+
+  return out.join(' ');
+}
+
+/**
+ * "three hundred thirty six" -> 336
+ */
+function readScaled(run: string[]): number {
+  let total = 0;
+  let current = 0;
+
+  for (const word of run) {
+    if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else {
+      current += ONES[word] ?? TEENS[word] ?? TENS[word];
+    }
+  }
+
+  return total + current;
+}
+
+/**
+ * "three thirty six" -> "336" (a tens word takes the ones word after it)
+ */
+function readGroups(run: string[]): string {
+  let digits = '';
+
+  for (let i = 0; i < run.length; i++) {
+    const word = run[i];
+    if (word in TENS) {
+      const next = run[i + 1];
+      if (next && next in ONES && ONES[next] > 0) {
+        digits += String(TENS[word] + ONES[next]);
+        i++;
+      } else {
+        digits += String(TENS[word]);
+      }
+    } else {
+      digits += String(TEENS[word] ?? ONES[word]);
+    }
+  }
+
+  return digits;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin';
+import { databaseService } from '../src/services/database.service';
+import { adminAuthService } from '../src/services/admin-auth.service';
+import { portalAuthService } from '../src/services/portal-auth.service';
+import { createTestClient, TEST_PASSWORD } from './helpers/test-tenant';
+
+describe('Admin Role-Based Access', () => {
+  let app: FastifyInstance;
+
+  const password = TEST_PASSWORD;
+  const superAdmin = 'super-test';
+  const clientAdmin = 'client-admin-test';
+  const analyst = 'analyst-test';
+  const portalUser = 'portal-admin-test';
+  const clientId = 'admin-test-client';
+  const otherClientId = 'admin-test-other';
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Scoped Dealer' });
+    await createTestClient(otherClientId, { name: 'Other Dealer' });
+
+    await adminAuthService.createUser(superAdmin, password, 'super_admin');
+    await adminAuthService.createUser(clientAdmin, password, 'client_admin', clientId);
+    await adminAuthService.createUser(analyst, password, 'analyst');
+    await portalAuthService.createUser(portalUser, password, clientId);
+
+    await databaseService.saveCall({ id: 'admin-test-call', clientId, status: 'ended', cost: 1.5 });
+    await databaseService.saveCall({ id: 'admin-test-other-call', clientId: otherClientId, status: 'ended', cost: 2.5 });
+
+    app = Fastify({ logger: false });
+    await app.register(adminRoutes);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const tokenFor = async (username: string) => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/admin/login',
+      payload: { username, password }
+    });
+    return JSON.parse(response.body).token as string;
+  };
+
+  const get = async (url: string, token?: string) => app.inject({
+    method: 'GET',
+    url,
+    headers: token ? { authorization: `Bearer ${token}` } : {}
+  });
+
+  describe('Authentication', () => {
+    it('should reject requests without a token', async () => {
+      expect((await get('/admin/db/calls')).statusCode).toBe(401);
+      expect((await get('/admin/billing')).statusCode).toBe(401);
+    });
+
+    it('should reject wrong passwords', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/login',
+        payload: { username: superAdmin, password: 'wrong' }
+      });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should not accept client portal tokens', async () => {
+      const { token } = (await portalAuthService.login(portalUser, password))!;
+      expect((await get('/admin/db/calls', token)).statusCode).toBe(401);
+    });
+
+    it('should revoke the token on logout', async () => {
+      const token = await tokenFor(analyst);
+      const headers = { authorization: `Bearer ${token}` };
+
+      const logout = await app.inject({ method: 'POST', url: '/admin/logout', headers });
+
+      expect(logout.statusCode).toBe(200);
+      expect((await get('/admin/me', token)).statusCode).toBe(401);
+    });
+
+    it('should revoke existing tokens when the password is reset', async () => {
+      await adminAuthService.createUser('reset-test', password, 'analyst');
+      const token = await tokenFor('reset-test');
+      expect((await get('/admin/me', token)).statusCode).toBe(200);
+
+      expect(await adminAuthService.setPassword('reset-test', password)).toBe(true);
+
+      expect((await get('/admin/me', token)).statusCode).toBe(401);
+      expect((await get('/admin/me', await tokenFor('reset-test'))).statusCode).toBe(200);
+    });
+  });
+
+  describe('Roles', () => {
+    it('should limit account-wide Vapi tools to super admins', async () => {
+      expect((await get('/admin/tools', await tokenFor(analyst))).statusCode).toBe(403);
+      expect((await get('/admin/tools', await tokenFor(clientAdmin))).statusCode).toBe(403);
+    });
+
+    it('should report role and scope on /admin/me', async () => {
+      const body = JSON.parse((await get('/admin/me', await tokenFor(clientAdmin))).body);
+
+      expect(body.role).toBe('client_admin');
+      expect(body.clientId).toBe(clientId);
+    });
+
+    it('should refuse a client_admin without a client', async () => {
+      await expect(adminAuthService.createUser('orphan', password, 'client_admin')).rejects.toThrow();
+    });
+  });
+
+  describe('Client scoping', () => {
+    it('should only show a client_admin their own calls', async () => {
+      const token = await tokenFor(clientAdmin);
+      const body = JSON.parse((await get(`/admin/db/calls?limit=500&clientId=${otherClientId}`, token)).body);
+      const ids = body.calls.map((call: any) => call.id);
+
+      expect(ids).toContain('admin-test-call');
+      expect(ids).not.toContain('admin-test-other-call');
+      expect(body.calls.every((call: any) => call.client_id === clientId)).toBe(true);
+    });
+
+    it('should hide other clients\' calls by id', async () => {
+      const token = await tokenFor(clientAdmin);
+
+      expect((await get('/admin/db/calls/admin-test-call', token)).statusCode).toBe(200);
+      expect((await get('/admin/db/calls/admin-test-other-call', token)).statusCode).toBe(404);
+    });
+
+    it('should scope billing to the client_admin\'s client', async () => {
+      const body = JSON.parse((await get('/admin/billing?limit=500', await tokenFor(clientAdmin))).body);
+
+      expect(body.calls.every((call: any) => call.clientId === clientId)).toBe(true);
+      expect(body.totalCost).toBeCloseTo(1.5);
+    });
+
+    it('should let super admins filter by any client', async () => {
+      const token = await tokenFor(superAdmin);
+      const body = JSON.parse((await get(`/admin/db/calls?limit=500&clientId=${otherClientId}`, token)).body);
+
+      expect(body.calls.map((call: any) => call.id)).toEqual(['admin-test-other-call']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { businessHoursService, DEFAULT_WEEKLY_HOURS } from '../src/services/business-hours.service';
+import { BusinessHoursSchedule } from '../src/types';
+
+describe('Business Hours Service', () => {
+  const phoenix: BusinessHoursSchedule = {
+    timezone: 'America/Phoenix',
+    weekly: [...DEFAULT_WEEKLY_HOURS],
+    exceptions: []
+  };
+
+  // Texas branch: Monday-Friday 7am-5pm Central, Saturday 8am-12pm
+  const texas: BusinessHoursSchedule = {
+    timezone: 'America/Chicago',
+    weekly: [
+      null,
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '08:00', close: '12:00' }
+    ],
+    exceptions: []
+  };
+
+  // Tuesday, January 6, 2026 at 22:30 UTC = 3:30 PM Phoenix, 4:30 PM Chicago
+  const tuesdayAfternoon = new Date('2026-01-06T22:30:00Z');
+
+  describe('getStatus', () => {
+    it('should evaluate hours in each client timezone', () => {
+      expect(businessHoursService.getStatus(phoenix, tuesdayAfternoon).isOpen).toBe(false);
+      expect(businessHoursService.getStatus(texas, tuesdayAfternoon).isOpen).toBe(true);
+    });
+
+    it('should report local wall-clock time', () => {
+      const status = businessHoursService.getStatus(texas, tuesdayAfternoon);
+
+      expect(status.now).toMatchObject({ year: 2026, month: 1, day: 6, hour: 16, minute: 30 });
+      expect(status.todayHours).toEqual({ open: '07:00', close: '17:00' });
+    });
+
+    it('should give next open time when closed', () => {
+      const status = businessHoursService.getStatus(phoenix, tuesdayAfternoon);
+
+      expect(status.nextOpenTime).toBe('Tomorrow at 8:00 AM');
+    });
+
+    it('should say today when closed before opening', () => {
+      // 6:00 AM Chicago
+      const status = businessHoursService.getStatus(texas, new Date('2026-01-06T12:00:00Z'));
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextOpenTime).toBe('Today at 7:00 AM');
+    });
+
+    it('should skip closed days when finding next open time', () => {
+      // Saturday, January 10, 2026 at 2:00 PM Chicago
+      const status = businessHoursService.getStatus(texas, new Date('2026-01-10T20:00:00Z'));
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextOpenTime).toBe('Monday at 7:00 AM');
+    });
+
+    it('should treat holidays as closed', () => {
+      const schedule: BusinessHoursSchedule = {
+        ...texas,
+        exceptions: [{ date: '2026-01-06', closed: true, label: 'Inventory day' }]
+      };
+
+      const status = businessHoursService.getStatus(schedule, tuesdayAfternoon);
+
+      expect(status.isOpen).toBe(false);
+      expect(status.nextOpenTime).toBe('Tomorrow at 7:00 AM');
+    });
+
+    it('should apply special one-off hours', () => {
+      const schedule: BusinessHoursSchedule = {
+        ...phoenix,
+        exceptions: [{ date: '2026-01-06', closed: false, open: '12:00', close: '18:00' }]
+      };
+
+      expect(businessHoursService.getStatus(schedule, tuesdayAfternoon).isOpen).toBe(true);
+    });
+  });
+
+  describe('describeWeeklyHours', () => {
+    it('should group consecutive days with the same hours', () => {
+      expect(businessHoursService.describeWeeklyHours(phoenix)).toEqual([
+        'Monday-Friday: 8:00 AM to 12:00 PM',
+        'Saturday: 9:00 AM to 3:00 PM',
+        'Sunday: CLOSED'
+      ]);
+    });
+  });
+
+  describe('describeUpcomingExceptions', () => {
+    it('should list holidays within the window', () => {
+      const schedule: BusinessHoursSchedule = {
+        ...texas,
+        exceptions: [
+          { date: '2026-01-08', closed: true, label: 'Company event' },
+          { date: '2026-03-01', closed: true }
+        ]
+      };
+
+      expect(businessHoursService.describeUpcomingExceptions(schedule, tuesdayAfternoon)).toEqual([
+        'Thursday, January 8 (Company event): CLOSED'
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a valid schedule', () => {
+      expect(businessHoursService.validate(texas)).toBeNull();
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(businessHoursService.validate({ timezone: 'Texas/Dallas' })).toContain('Unknown timezone');
+    });
+
+    it('should reject closing before opening', () => {
+      const weekly = [...texas.weekly];
+      weekly[1] = { open: '17:00', close: '07:00' };
+
+      expect(businessHoursService.validate({ weekly })).toContain('Monday');
+    });
+
+    it('should reject malformed holiday dates', () => {
+      expect(businessHoursService.validate({
+        exceptions: [{ date: '12/25/2026', closed: true }]
+      })).toContain('YYYY-MM-DD');
+    });
+  });
+});
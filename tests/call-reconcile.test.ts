@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin';
+import { databaseService } from '../src/services/database.service';
+import { VapiClient, vapiClient } from '../src/services/vapi-client.service';
+import { CallReconcileService } from '../src/services/call-reconcile.service';
+import { webhookInboxService } from '../src/services/webhook-inbox.service';
+import { createFixtureVapiSdk, loadCallFixtures } from './helpers/vapi-fixture-sdk';
+import { createAdminUser, createTestClient } from './helpers/test-tenant';
+
+describe('Call Reconciliation', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'reconcile-client';
+  let superAdmin: Record<string, string>;
+  let clientAdmin: Record<string, string>;
+
+  const fixtures = loadCallFixtures();
+  const id = (name: string) => `fixture-call-${name}`;
+  const fixture = (name: string) => fixtures.find(call => call.id === id(name));
+
+  // The recorded calls span 2026-02-10 to 2026-03-02; the range covers March 2nd only
+  const range = { from: new Date('2026-03-02T00:00:00Z'), to: new Date('2026-03-03T00:00:00Z') };
+
+  const sdk = createFixtureVapiSdk(fixtures);
+  const fixtureClient = new VapiClient('fixture-key', sdk as any);
+  const reconciler = new CallReconcileService(fixtureClient, { pageSize: 2 });
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Reconcile Dealer' });
+    await databaseService.updateClientAssistantId(clientId, 'fixture-assistant');
+    superAdmin = await createAdminUser('reconcile-super', 'super_admin');
+    clientAdmin = await createAdminUser('reconcile-client-admin', 'client_admin', clientId);
+
+    // Seen at assistant-request, but the end-of-call report never arrived
+    await databaseService.recordCallStart({ id: id('stuck-in-progress'), clientId, status: 'ringing' });
+
+    // Fully saved from its end-of-call report
+    const saved = fixture('already-saved');
+    await webhookInboxService.receive({
+      message: {
+        type: 'end-of-call-report',
+        call: saved,
+        transcript: saved.artifact.transcript,
+        summary: saved.analysis.summary,
+        cost: saved.cost,
+        costBreakdown: saved.costBreakdown
+      }
+    });
+
+    app = Fastify({ logger: false });
+    await app.register(adminRoutes);
+    await app.ready();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should report what would change on a dry run without saving', async () => {
+    const report = await reconciler.reconcile({ ...range, dryRun: true });
+
+    expect(report.created).toEqual([id('missed-webhook')]);
+    expect(report.updated).toEqual([{ id: id('stuck-in-progress'), fields: expect.arrayContaining(['status', 'cost_total', 'transcript']) }]);
+    expect(await databaseService.getCall(id('missed-webhook'))).toBeUndefined();
+  });
+
+  it('should backfill missing and incomplete calls, paging through Vapi', async () => {
+    const contactBefore = await databaseService.getContact('+15125550101');
+
+    const report = await reconciler.reconcile(range);
+
+    expect(report.scanned).toBe(4);
+    expect(report.created).toEqual([id('missed-webhook')]);
+    expect(report.updated).toHaveLength(1);
+    expect(report.updated[0].id).toBe(id('stuck-in-progress'));
+    expect(report.updated[0].fields).toEqual(expect.arrayContaining(['status', 'ended_at', 'transcript', 'summary', 'cost_total']));
+    expect(report.unchanged).toBe(1);
+    expect(report.skipped).toEqual([{ id: id('live'), reason: 'status in-progress' }]);
+    expect(report.failed).toEqual([]);
+
+    // Several pages of two
+    expect(sdk.requests.filter(r => r.method === 'calls.list').length).toBeGreaterThan(1);
+
+    const missed = await databaseService.getCall(id('missed-webhook'));
+    expect(missed.client_id).toBe(clientId);
+    expect(missed.status).toBe('ended');
+    expect(missed.cost_total).toBe(0.2871);
+    expect(missed.cost_tts).toBe(0.044);
+    expect(missed.llm_prompt_tokens).toBe(18244);
+    expect(missed.success_score).toBe(8);
+    expect(missed.intent_category).toBe('rental');
+    expect(missed.caller_name).toBe('Dana Reyes');
+
+    const contactAfter = await databaseService.getContact('+15125550101');
+    expect(contactAfter.total_calls).toBe((contactBefore?.total_calls || 0) + 1);
+  });
+
+  it('should change nothing when run again', async () => {
+    const contactBefore = await databaseService.getContact('+15125550101');
+
+    const report = await reconciler.reconcile(range);
+
+    expect(report.created).toEqual([]);
+    expect(report.updated).toEqual([]);
+    expect(report.unchanged).toBe(3);
+    expect((await databaseService.getContact('+15125550101')).total_calls).toBe(contactBefore.total_calls);
+  });
+
+  it('should fill in data Vapi finished after the end-of-call report was processed', async () => {
+    const late = {
+      ...fixture('missed-webhook'),
+      id: 'fixture-call-late-cost',
+      createdAt: '2026-03-02T16:00:00.000Z'
+    };
+    // The webhook arrived before Vapi had the costs
+    await webhookInboxService.receive({ message: { type: 'end-of-call-report', call: { ...late, cost: undefined } } });
+
+    const lateSdk = createFixtureVapiSdk([late]);
+    const report = await new CallReconcileService(new VapiClient('fixture-key', lateSdk as any)).reconcile(range);
+
+    expect(report.updated).toEqual([{ id: late.id, fields: expect.arrayContaining(['cost_total', 'transcript', 'summary']) }]);
+    expect((await databaseService.getCall(late.id)).cost_total).toBe(0.2871);
+  });
+
+  describe('POST /admin/reconcile', () => {
+    const post = async (headers: Record<string, string>, payload: any) => {
+      const response = await app.inject({ method: 'POST', url: '/admin/reconcile', headers, payload });
+      return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+    };
+
+    it('should return the reconciliation report', async () => {
+      vi.spyOn(vapiClient, 'listCalls').mockImplementation(params => fixtureClient.listCalls(params));
+
+      const result = await post(superAdmin, { from: range.from.toISOString(), to: range.to.toISOString(), dryRun: true });
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toMatchObject({ dryRun: true, scanned: 4, skipped: [{ id: id('live') }] });
+    });
+
+    it('should only reconcile a client admin\'s own assistant', async () => {
+      const listCalls = vi.spyOn(vapiClient, 'listCalls').mockImplementation(params => fixtureClient.listCalls(params));
+
+      await post(clientAdmin, { from: range.from.toISOString(), clientId: 'some-other-client' });
+
+      expect(listCalls.mock.calls[0][0]!.assistantId).toBe('fixture-assistant');
+    });
+
+    it('should reject an invalid range', async () => {
+      expect((await post(superAdmin, { from: 'last tuesday' })).statusCode).toBe(400);
+      expect((await post(superAdmin, { from: range.to.toISOString(), to: range.from.toISOString() })).statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { databaseService } from '../src/services/database.service';
+import { CallbackReminderService } from '../src/services/callback-reminder.service';
+import { callbackRequestService } from '../src/services/callback-request.service';
+import { buildNotifiers, FileNotifier } from '../src/services/callback-notifier.service';
+import { CallbackNotification, CallbackNotifier } from '../src/types';
+import { createTestClient } from './helpers/test-tenant';
+
+/**
+ * Records notifications; fails while `failures` > 0
+ */
+class FakeNotifier implements CallbackNotifier {
+  sent: CallbackNotification[] = [];
+  failures = 0;
+
+  constructor(readonly name: string) {}
+
+  async send(notification: CallbackNotification): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error(`${this.name} unavailable`);
+    }
+    this.sent.push(notification);
+  }
+}
+
+describe('Callback Reminder Scheduler', () => {
+  const clientId = 'reminder-test-client';
+  const settings = { windowMinutes: 15, escalateAfterMinutes: 60, maxAttempts: 3, batchSize: 1000 };
+  const minutes = (n: number) => new Date(Date.now() + n * 60 * 1000);
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Reminder Dealer' });
+  });
+
+  const createCallback = (scheduledFor: Date, reason: string) => databaseService.saveCallbackRequest({
+    clientId,
+    customerName: 'Pat Caller',
+    customerPhone: '+15551234567',
+    preferredTime: 'tomorrow at 9am',
+    reason,
+    department: 'sales',
+    scheduledFor
+  });
+
+  // Other test files share the database, so only look at this test's callbacks
+  const sentFor = (notifier: FakeNotifier, callbackId: number) =>
+    notifier.sent.filter(n => n.callbackId === callbackId);
+
+  it('should remind once when a callback comes due, even across restarts', async () => {
+    const callbackId = await createCallback(minutes(10), 'due soon');
+    const notifier = new FakeNotifier('console');
+
+    await new CallbackReminderService([notifier], settings).runOnce();
+    // A fresh instance (e.g. after a restart) sees the reminder was already sent
+    await new CallbackReminderService([notifier], settings).runOnce();
+
+    const sent = sentFor(notifier, callbackId);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ kind: 'due', clientName: 'Reminder Dealer', customerPhone: '+15551234567' });
+    expect(sent[0].subject).toContain('Callback due');
+  });
+
+  it('should not remind about callbacks outside the window', async () => {
+    const callbackId = await createCallback(minutes(120), 'not yet');
+    const notifier = new FakeNotifier('console');
+
+    await new CallbackReminderService([notifier], settings).runOnce();
+
+    expect(sentFor(notifier, callbackId)).toHaveLength(0);
+  });
+
+  it('should not double-send when two instances run at once', async () => {
+    const callbackId = await createCallback(minutes(5), 'two instances');
+    const first = new FakeNotifier('console');
+    const second = new FakeNotifier('console');
+
+    await Promise.all([
+      new CallbackReminderService([first], settings).runOnce(),
+      new CallbackReminderService([second], settings).runOnce()
+    ]);
+
+    expect(sentFor(first, callbackId).length + sentFor(second, callbackId).length).toBe(1);
+  });
+
+  it('should escalate callbacks still pending long after they were due', async () => {
+    const callbackId = await createCallback(minutes(-90), 'overdue');
+    const notifier = new FakeNotifier('console');
+
+    await new CallbackReminderService([notifier], settings).runOnce();
+
+    const sent = sentFor(notifier, callbackId);
+    expect(sent.map(n => n.kind)).toEqual(['escalation']);
+    expect(sent[0].subject).toContain('OVERDUE');
+
+    const events = await databaseService.getCallbackEvents(callbackId);
+    expect(events.map((e: any) => e.action)).toContain('escalated');
+  });
+
+  it('should remind again after a callback is rescheduled', async () => {
+    const callbackId = await createCallback(minutes(10), 'rescheduled');
+    const notifier = new FakeNotifier('console');
+    const service = new CallbackReminderService([notifier], settings);
+
+    await service.runOnce();
+    expect(sentFor(notifier, callbackId).map(n => n.kind)).toEqual(['due']);
+
+    const moved = await callbackRequestService.apply(clientId, callbackId, 'reschedule', 'dispatcher', {
+      scheduledFor: minutes(120).toISOString()
+    });
+    expect(moved.ok).toBe(true);
+
+    // Nothing new until the new time comes round, then due and (if still pending) escalation again
+    await service.runOnce(minutes(30));
+    expect(sentFor(notifier, callbackId)).toHaveLength(1);
+    await service.runOnce(minutes(110));
+    await service.runOnce(minutes(190));
+    expect(sentFor(notifier, callbackId).map(n => n.kind)).toEqual(['due', 'due', 'escalation']);
+  });
+
+  it('should record attempts and only retry the notifier that failed', async () => {
+    const callbackId = await createCallback(minutes(10), 'flaky webhook');
+    const email = new FakeNotifier('smtp');
+    const webhook = new FakeNotifier('webhook');
+    webhook.failures = 1;
+    const service = new CallbackReminderService([email, webhook], settings);
+
+    await service.runOnce();
+    // Retry is backed off; run again once it's due
+    await service.runOnce(minutes(5));
+
+    expect(sentFor(email, callbackId)).toHaveLength(1);
+    expect(sentFor(webhook, callbackId)).toHaveLength(1);
+
+    const [reminder] = await databaseService.getCallbackReminders(callbackId);
+    expect(reminder.status).toBe('sent');
+    expect(reminder.attempts).toBe(2);
+    expect(reminder.deliveries.map((d: any) => [d.notifier, d.success])).toEqual([
+      ['smtp', 1],
+      ['webhook', 0],
+      ['webhook', 1]
+    ]);
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    const callbackId = await createCallback(minutes(10), 'always failing');
+    const notifier = new FakeNotifier('webhook');
+    notifier.failures = 100;
+    const service = new CallbackReminderService([notifier], settings);
+
+    for (let i = 0; i < settings.maxAttempts; i++) {
+      await service.runOnce(minutes(i * 10));
+    }
+
+    const [reminder] = await databaseService.getCallbackReminders(callbackId);
+    expect(reminder.status).toBe('failed');
+    expect(reminder.attempts).toBe(settings.maxAttempts);
+    expect(reminder.last_error).toContain('webhook unavailable');
+  });
+
+  it('should skip reminders for callbacks closed before delivery', async () => {
+    const callbackId = await createCallback(minutes(10), 'completed meanwhile');
+    const notifier = new FakeNotifier('console');
+    notifier.failures = 1;
+    const service = new CallbackReminderService([notifier], settings);
+
+    await service.runOnce();
+    await databaseService.updatePendingCallbackRequest(callbackId, { status: 'completed', completed_at: new Date().toISOString() });
+    await service.runOnce(minutes(5));
+
+    const [reminder] = await databaseService.getCallbackReminders(callbackId);
+    expect(reminder.status).toBe('skipped');
+    expect(sentFor(notifier, callbackId)).toHaveLength(0);
+  });
+
+  describe('notifiers', () => {
+    it('should build notifiers from env and skip misconfigured ones', () => {
+      const notifiers = buildNotifiers({
+        CALLBACK_NOTIFIERS: 'console, file, smtp, webhook',
+        CALLBACK_NOTIFY_WEBHOOK_URL: 'https://example.com/hooks/callbacks'
+      });
+
+      expect(notifiers.map(n => n.name)).toEqual(['console', 'file', 'webhook']);
+    });
+
+    it('should append JSON lines to the reminder file', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'callback-reminders-')), 'nested', 'reminders.log');
+      const notifier = new FileNotifier(path);
+
+      await notifier.send({ kind: 'due', callbackId: 1, subject: 'first' } as CallbackNotification);
+      await notifier.send({ kind: 'escalation', callbackId: 1, subject: 'second' } as CallbackNotification);
+
+      const lines = readFileSync(path, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.subject)).toEqual(['first', 'second']);
+    });
+  });
+});
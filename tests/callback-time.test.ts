@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { callbackTimeService } from '../src/services/callback-time.service';
+import { businessHoursService } from '../src/services/business-hours.service';
+import { BusinessHoursSchedule } from '../src/types';
+
+describe('Callback Time Service', () => {
+  // Texas branch: Monday-Friday 7am-5pm Central, Saturday 8am-12pm
+  const texas: BusinessHoursSchedule = {
+    timezone: 'America/Chicago',
+    weekly: [
+      null,
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '07:00', close: '17:00' },
+      { open: '08:00', close: '12:00' }
+    ],
+    exceptions: []
+  };
+
+  // Tuesday, January 6, 2026 at 10:00 AM Chicago
+  const callTime = new Date('2026-01-06T16:00:00Z');
+
+  const scheduled = (text: string, schedule = texas, at = callTime) => {
+    const result = callbackTimeService.check(text, schedule, at);
+    return result.ok ? result.scheduledFor.toISOString() : result.reason;
+  };
+
+  describe('spoken variants', () => {
+    it.each([
+      ['tomorrow, January 7th at 9am', '2026-01-07T15:00:00.000Z'],
+      ['Wednesday, January 7th at 9 a.m.', '2026-01-07T15:00:00.000Z'],
+      ['tomorrow at 9:30am', '2026-01-07T15:30:00.000Z'],
+      ['today at 3:30pm', '2026-01-06T21:30:00.000Z'],
+      ['this afternoon at 2', '2026-01-06T20:00:00.000Z'],
+      ['Monday at 2pm', '2026-01-12T20:00:00.000Z'],
+      ['next Friday at noon', '2026-01-09T18:00:00.000Z'],
+      ['Thurs at 8 in the morning', '2026-01-08T14:00:00.000Z'],
+      ['January 8 at 10 o\'clock', '2026-01-08T16:00:00.000Z'],
+      ['the 9th of January at 11:15 AM', '2026-01-09T17:15:00.000Z'],
+      ['1/9 at 4pm', '2026-01-09T22:00:00.000Z'],
+      ['Saturday, Jan. 10, 2026 at 9am', '2026-01-10T15:00:00.000Z']
+    ])('should resolve "%s"', (text, expected) => {
+      expect(scheduled(text)).toBe(expected);
+    });
+
+    it('should treat the same weekday as later today only if the time is still ahead', () => {
+      expect(scheduled('Tuesday at 3pm')).toBe('2026-01-06T21:00:00.000Z');
+      expect(scheduled('Tuesday at 8am')).toBe('2026-01-13T14:00:00.000Z');
+    });
+
+    it('should roll month/day into next year near year end', () => {
+      const newYearsEve = new Date('2025-12-31T16:00:00Z');
+      expect(scheduled('Friday, January 2nd at 9am', texas, newYearsEve)).toBe('2026-01-02T15:00:00.000Z');
+    });
+  });
+
+  describe('needs confirmation', () => {
+    it.each([
+      'tomorrow',
+      'morning',
+      'tomorrow morning',
+      'sometime next week',
+      'at 9am'
+    ])('should not guess a vague time: "%s"', (text) => {
+      expect(scheduled(text)).toBe('unparseable');
+    });
+
+    it('should reject a weekday that contradicts the date', () => {
+      // January 7th, 2026 is a Wednesday
+      expect(scheduled('Monday, January 7th at 9am')).toBe('unparseable');
+      expect(scheduled('tomorrow, January 8th at 9am')).toBe('unparseable');
+    });
+
+    it('should reject times outside business hours', () => {
+      expect(scheduled('tomorrow at 6pm')).toBe('closed');
+      expect(scheduled('Sunday at 10am')).toBe('closed');
+    });
+
+    it('should reject holidays', () => {
+      const holiday = { ...texas, exceptions: [{ date: '2026-01-07', closed: true }] };
+      expect(scheduled('tomorrow at 9am', holiday)).toBe('closed');
+    });
+
+    it('should reject times that already passed', () => {
+      expect(scheduled('today at 8am')).toBe('past');
+    });
+
+    it('should give the assistant hours and an example to offer', () => {
+      const result = callbackTimeService.check('tomorrow at 6pm', texas, callTime);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.message).toContain("we're open 7:00 AM to 5:00 PM that day");
+        expect(result.message).toContain('Wednesday, January 7 at 7:00 AM');
+        expect(result.message).toContain('schedule_callback again');
+      }
+    });
+  });
+
+  describe('timezones', () => {
+    it('should resolve in the client timezone across DST', () => {
+      // 9am Chicago is 15:00 UTC in January (CST) but 14:00 UTC in July (CDT)
+      const july = new Date('2026-07-07T15:00:00Z');
+      expect(scheduled('tomorrow at 9am', texas, july)).toBe('2026-07-08T14:00:00.000Z');
+    });
+
+    it('should convert local wall-clock times to UTC', () => {
+      expect(businessHoursService.toUtc({ year: 2026, month: 3, day: 8, hour: 10, minute: 0 }, 'America/Chicago').toISOString())
+        .toBe('2026-03-08T15:00:00.000Z');
+      expect(businessHoursService.toUtc({ year: 2026, month: 1, day: 6, hour: 9, minute: 0 }, 'America/Phoenix').toISOString())
+        .toBe('2026-01-06T16:00:00.000Z');
+    });
+  });
+});
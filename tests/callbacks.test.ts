@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { createPortalUser, createTestClient } from './helpers/test-tenant';
+
+describe('Callback Queue', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'callback-test-client';
+  const otherClientId = 'callback-test-other';
+  const rep = 'callback-rep';
+  const otherRep = 'callback-rep2';
+
+  let repHeaders: Record<string, string>;
+  let otherRepHeaders: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    for (const id of [clientId, otherClientId]) {
+      await createTestClient(id, { name: 'Callback Dealer' });
+    }
+    repHeaders = await createPortalUser(rep, clientId);
+    otherRepHeaders = await createPortalUser(otherRep, clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createCallback = (forClient = clientId) => databaseService.saveCallbackRequest({
+    clientId: forClient,
+    customerName: 'Pat Caller',
+    customerPhone: '+15551234567',
+    preferredTime: 'tomorrow morning',
+    reason: 'Quote on a skid steer',
+    department: 'sales'
+  });
+
+  const post = async (url: string, headers: Record<string, string>, payload: any = {}) => {
+    const response = await app.inject({ method: 'POST', url, headers, payload });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  const list = async (query: string) => {
+    const response = await app.inject({ method: 'GET', url: `/client/callbacks?${query}&limit=500`, headers: repHeaders });
+    return JSON.parse(response.body).callbacks.map((cb: any) => cb.id);
+  };
+
+  describe('Lifecycle', () => {
+    it('should claim and complete a callback', async () => {
+      const id = await createCallback();
+
+      const claimed = await post(`/client/callbacks/${id}/claim`, repHeaders);
+      expect(claimed.statusCode).toBe(200);
+      expect(claimed.body.callback.assigned_to).toBe(rep);
+      expect(claimed.body.callback.claimed_at).toBeTruthy();
+
+      const completed = await post(`/client/callbacks/${id}/complete`, repHeaders, { note: 'Sent quote' });
+      expect(completed.statusCode).toBe(200);
+      expect(completed.body.callback.status).toBe('completed');
+      expect(completed.body.callback.completed_at).toBeTruthy();
+    });
+
+    it('should not let a second rep claim a claimed callback', async () => {
+      const id = await createCallback();
+      await post(`/client/callbacks/${id}/claim`, repHeaders);
+
+      const second = await post(`/client/callbacks/${id}/claim`, otherRepHeaders);
+
+      expect(second.statusCode).toBe(409);
+    });
+
+    it('should not change closed callbacks (but still accept notes)', async () => {
+      const id = await createCallback();
+      await post(`/client/callbacks/${id}/cancel`, repHeaders, { note: 'Customer bought elsewhere' });
+
+      expect((await post(`/client/callbacks/${id}/complete`, repHeaders)).statusCode).toBe(409);
+      expect((await post(`/client/callbacks/${id}/claim`, repHeaders)).statusCode).toBe(409);
+      expect((await post(`/client/callbacks/${id}/notes`, repHeaders, { note: 'FYI' })).statusCode).toBe(200);
+    });
+
+    it('should assign to a staff member and unassign', async () => {
+      const id = await createCallback();
+
+      const assigned = await post(`/client/callbacks/${id}/assign`, repHeaders, { assignee: otherRep });
+      expect(assigned.body.callback.assigned_to).toBe(otherRep);
+      expect(assigned.body.callback.claimed_at).toBeNull();
+      expect(await list(`status=pending&assignedTo=${otherRep}`)).toContain(id);
+
+      const unassigned = await post(`/client/callbacks/${id}/assign`, repHeaders, { assignee: '' });
+      expect(unassigned.body.callback.assigned_to).toBeNull();
+    });
+
+    it('should reschedule only to a valid future time', async () => {
+      const id = await createCallback();
+      const future = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+
+      expect((await post(`/client/callbacks/${id}/reschedule`, repHeaders, { scheduledFor: 'next week' })).statusCode).toBe(400);
+      expect((await post(`/client/callbacks/${id}/reschedule`, repHeaders, { scheduledFor: '2020-01-01T00:00:00Z' })).statusCode).toBe(400);
+
+      const rescheduled = await post(`/client/callbacks/${id}/reschedule`, repHeaders, { scheduledFor: future });
+      expect(rescheduled.statusCode).toBe(200);
+      expect(rescheduled.body.callback.scheduled_for).toBe(future);
+    });
+
+    it('should require text for notes', async () => {
+      const id = await createCallback();
+      expect((await post(`/client/callbacks/${id}/notes`, repHeaders, { note: '  ' })).statusCode).toBe(400);
+    });
+  });
+
+  describe('Audit trail', () => {
+    it('should record every change with its actor', async () => {
+      const id = await createCallback();
+      await post(`/client/callbacks/${id}/claim`, repHeaders);
+      await post(`/client/callbacks/${id}/notes`, repHeaders, { note: 'Left voicemail' });
+      await post(`/client/callbacks/${id}/complete`, repHeaders);
+
+      const response = await app.inject({ method: 'GET', url: `/client/callbacks/${id}`, headers: repHeaders });
+      const events = JSON.parse(response.body).callback.events;
+
+      expect(events.map((e: any) => e.action)).toEqual(['created', 'claimed', 'note', 'completed']);
+      expect(events[0].actor).toBe('assistant');
+      expect(events[1].actor).toBe(rep);
+      expect(events[2].note).toBe('Left voicemail');
+      expect(events[3]).toMatchObject({ from_status: 'pending', to_status: 'completed' });
+    });
+  });
+
+  describe('Filters and scoping', () => {
+    it('should list overdue callbacks', async () => {
+      const stale = await createCallback();
+      const fresh = await createCallback();
+      await databaseService.getDb().run(
+        `UPDATE callback_requests SET created_at = datetime('now', '-2 days') WHERE id = ?`,
+        [stale]
+      );
+
+      const overdue = await list('status=pending&overdue=true');
+
+      expect(overdue).toContain(stale);
+      expect(overdue).not.toContain(fresh);
+    });
+
+    it('should hide other clients\' callbacks', async () => {
+      const id = await createCallback(otherClientId);
+
+      const response = await app.inject({ method: 'GET', url: `/client/callbacks/${id}`, headers: repHeaders });
+
+      expect(response.statusCode).toBe(404);
+      expect((await post(`/client/callbacks/${id}/claim`, repHeaders)).statusCode).toBe(404);
+    });
+  });
+});
@@ -1,22 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { databaseService } from '../src/services/database.service';
-import fs from 'fs';
-import path from 'path';
+import { createDatabaseService } from '../src/services/database.service';
+import { StorageRepository } from '../src/repositories/storage.repository';
 
 describe('Database Service', () => {
-  const TEST_DB_PATH = path.join(__dirname, '../test-calls.db');
+  let databaseService: StorageRepository;
 
   beforeEach(async () => {
-    // Use in-memory database for testing
-    process.env.DATABASE_PATH = ':memory:';
+    // A fresh in-memory database per test, so only this test's rows are counted
+    databaseService = createDatabaseService({ path: ':memory:' });
     await databaseService.init();
   });
 
   afterEach(async () => {
-    // Clean up
-    if (fs.existsSync(TEST_DB_PATH)) {
-      fs.unlinkSync(TEST_DB_PATH);
-    }
+    await databaseService.close();
   });
 
   describe('saveCall', () => {
@@ -172,43 +168,30 @@ describe('Database Service', () => {
     });
   });
 
-  describe('saveContact', () => {
+  describe('updateContact', () => {
     it('should create new contact', async () => {
-      const contact = {
-        name: 'Bob Builder',
-        phone: '+15125559999',
+      await databaseService.updateContact('+15550007777', {
+        name: 'Pat Builder',
         company: 'Builder Co',
-        email: 'bob@builder.com'
-      };
-
-      await databaseService.saveContact(contact);
+        email: 'pat@builder.com'
+      });
 
-      // Verify by getting recent calls that might reference this contact
-      // (We don't have a direct getContact method, but contacts affect caller recognition)
-      const calls = await databaseService.getRecentCalls(10);
-      // Contact saved successfully if no error thrown
-      expect(true).toBe(true);
+      const contact = await databaseService.getContact('+15550007777');
+      expect(contact?.name).toBe('Pat Builder');
+      expect(contact?.company).toBe('Builder Co');
+      expect(contact?.total_calls).toBe(1);
     });
 
     it('should update existing contact', async () => {
-      const contact = {
-        name: 'Sarah Martinez',
-        phone: '+14695558888',
-        company: 'Martinez LLC'
-      };
-
-      await databaseService.saveContact(contact);
-
-      // Update with email
-      const updatedContact = {
-        ...contact,
-        email: 'sarah@martinez.com'
-      };
+      await databaseService.updateContact('+15550008888', { name: 'Dana Reyes', company: 'Reyes LLC' });
 
-      await databaseService.saveContact(updatedContact);
+      // Update with email; fields left out keep their value
+      await databaseService.updateContact('+15550008888', { email: 'dana@reyes.com' });
 
-      // Contact updated successfully if no error thrown
-      expect(true).toBe(true);
+      const contact = await databaseService.getContact('+15550008888');
+      expect(contact?.company).toBe('Reyes LLC');
+      expect(contact?.email).toBe('dana@reyes.com');
+      expect(contact?.total_calls).toBe(2);
     });
   });
 
@@ -292,14 +275,15 @@ describe('Database Service', () => {
     it('should return all calls if limit exceeds total', async () => {
       const calls = await databaseService.getRecentCalls(100);
 
-      expect(calls.length).toBeLessThanOrEqual(100);
+      expect(calls).toHaveLength(15);
     });
 
-    it('should order by created_at descending', async () => {
-      const calls = await databaseService.getRecentCalls(15);
+    it('should only return the given client\'s calls', async () => {
+      await databaseService.saveCall({ id: 'recent-portal-call', clientId: 'client-portal', status: 'ended' });
 
-      // Most recent should be first (higher id in our test data)
-      expect(calls[0].id).toBe('recent-call-15');
+      const calls = await databaseService.getRecentCalls(100, 'client-portal');
+
+      expect(calls.map(call => call.id)).toEqual(['recent-portal-call']);
     });
   });
 
@@ -318,10 +302,10 @@ describe('Database Service', () => {
       expect(call?.caller_phone).toBe('+14805551234');
     });
 
-    it('should return null for non-existent call', async () => {
+    it('should return nothing for non-existent call', async () => {
       const call = await databaseService.getCall('does-not-exist');
 
-      expect(call).toBeNull();
+      expect(call).toBeFalsy();
     });
   });
 
@@ -373,8 +357,8 @@ describe('Database Service', () => {
 
       expect(Array.isArray(breakdown)).toBe(true);
 
-      const rentalIntent = breakdown.find(i => i.category === 'rental');
-      const serviceIntent = breakdown.find(i => i.category === 'service');
+      const rentalIntent = breakdown.find(i => i.intent_category === 'rental');
+      const serviceIntent = breakdown.find(i => i.intent_category === 'service');
 
       expect(rentalIntent?.count).toBe(2);
       expect(serviceIntent?.count).toBe(1);
@@ -382,31 +366,32 @@ describe('Database Service', () => {
   });
 
   describe('Client Management', () => {
+    beforeEach(async () => {
+      await databaseService.upsertClient({ id: 'database-test-client', name: 'Database Test Dealer', enableInventory: true, enableTransfers: true });
+      await databaseService.addClientPhoneNumber('database-test-client', 'phone-123', '+15550009999');
+    });
+
     it('should get client by phone number id', async () => {
-      // This assumes clients table is populated
-      // For now, test that method doesn't crash
       const client = await databaseService.getClientByPhoneNumberId('phone-123');
 
-      // Client may be null if not seeded in test DB
-      expect(client === null || typeof client === 'object').toBe(true);
+      expect(client?.id).toBe('database-test-client');
     });
 
     it('should get all clients', async () => {
       const clients = await databaseService.getAllClients();
 
-      expect(Array.isArray(clients)).toBe(true);
+      expect(clients.map(client => client.id)).toContain('database-test-client');
     });
 
     it('should get client by id', async () => {
-      const client = await databaseService.getClientById('test-client-id');
+      const client = await databaseService.getClientById('database-test-client');
 
-      expect(client === null || typeof client === 'object').toBe(true);
+      expect(client?.name).toBe('Database Test Dealer');
     });
   });
 
-  describe('Call History', () => {
+  describe('getCallsByIds', () => {
     beforeEach(async () => {
-      // Create multiple calls from same number
       for (let i = 1; i <= 5; i++) {
         await databaseService.saveCall({
           id: `history-${i}`,
@@ -416,21 +401,15 @@ describe('Database Service', () => {
       }
     });
 
-    it('should get call history for phone number', async () => {
-      const history = await databaseService.getCallHistory('+14805551234', 10);
+    it('should get the requested calls', async () => {
+      const calls = await databaseService.getCallsByIds(['history-2', 'history-4', 'does-not-exist']);
 
-      expect(Array.isArray(history)).toBe(true);
-      expect(history.length).toBeLessThanOrEqual(10);
-
-      if (history.length > 0) {
-        expect(history[0].caller_phone).toBe('+14805551234');
-      }
+      expect(calls.map(call => call.id).sort()).toEqual(['history-2', 'history-4']);
+      expect(calls[0].caller_phone).toBe('+14805551234');
     });
 
-    it('should respect limit parameter in history', async () => {
-      const history = await databaseService.getCallHistory('+14805551234', 3);
-
-      expect(history.length).toBeLessThanOrEqual(3);
+    it('should return nothing for no ids', async () => {
+      expect(await databaseService.getCallsByIds([])).toEqual([]);
     });
   });
 });
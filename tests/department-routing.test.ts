@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { departmentRoutingService } from '../src/services/department-routing.service';
+import { businessHoursService, DEFAULT_WEEKLY_HOURS } from '../src/services/business-hours.service';
+import { BusinessHoursSchedule, DepartmentRouting } from '../src/types';
+
+describe('Department Routing Service', () => {
+  const clientSchedule: BusinessHoursSchedule = {
+    timezone: 'America/Phoenix',
+    weekly: [...DEFAULT_WEEKLY_HOURS],
+    exceptions: []
+  };
+
+  // Tuesday, January 6, 2026 at 9:00 AM Phoenix (main office open)
+  const tuesdayMorning = new Date('2026-01-06T16:00:00Z');
+  // Tuesday, January 6, 2026 at 3:30 PM Phoenix (main office closed)
+  const tuesdayAfternoon = new Date('2026-01-06T22:30:00Z');
+
+  const followMainHours: DepartmentRouting = {
+    department: 'sales',
+    weekly: null,
+    afterHoursAction: 'callback'
+  };
+
+  describe('decide', () => {
+    it('should dial the primary line while open', () => {
+      expect(departmentRoutingService.decide('+15550001', followMainHours, clientSchedule, tuesdayMorning))
+        .toEqual({ action: 'transfer', number: '+15550001', line: 'primary', fallback: undefined });
+    });
+
+    it('should report closed with next open time after hours', () => {
+      expect(departmentRoutingService.decide('+15550001', followMainHours, clientSchedule, tuesdayAfternoon))
+        .toEqual({ action: 'closed', nextOpenTime: 'Tomorrow at 8:00 AM' });
+    });
+
+    it('should use the on-call line after hours', () => {
+      const service: DepartmentRouting = {
+        department: 'service',
+        weekly: null,
+        afterHoursAction: 'on_call',
+        onCallPhone: '+15559111',
+        voicemailPhone: '+15559000'
+      };
+
+      expect(departmentRoutingService.decide('+15550002', service, clientSchedule, tuesdayAfternoon)).toEqual({
+        action: 'transfer',
+        number: '+15559111',
+        line: 'on_call',
+        fallback: { action: 'voicemail', number: '+15559000' }
+      });
+    });
+
+    it('should honor department hours that differ from the main office', () => {
+      const parts: DepartmentRouting = {
+        department: 'parts',
+        weekly: [null, ...Array(5).fill({ open: '07:00', close: '08:30' }), null],
+        afterHoursAction: 'voicemail',
+        voicemailPhone: '+15558000'
+      };
+
+      // Main office is open at 9:00 AM but parts closed at 8:30
+      expect(departmentRoutingService.decide('+15550003', parts, clientSchedule, tuesdayMorning))
+        .toEqual({ action: 'voicemail', number: '+15558000' });
+    });
+
+    it('should fall back to overflow then voicemail if the primary transfer fails', () => {
+      const rentals: DepartmentRouting = {
+        department: 'rentals',
+        weekly: null,
+        afterHoursAction: 'callback',
+        overflowPhone: '+15557000',
+        voicemailPhone: '+15557001'
+      };
+
+      const decision = departmentRoutingService.decide('+15550004', rentals, clientSchedule, tuesdayMorning);
+
+      expect(decision).toEqual({
+        action: 'transfer',
+        number: '+15550004',
+        line: 'primary',
+        fallback: {
+          action: 'transfer',
+          number: '+15557000',
+          line: 'overflow',
+          fallback: { action: 'voicemail', number: '+15557001' }
+        }
+      });
+    });
+
+    it('should treat client holidays as closed for every department', () => {
+      const holiday: BusinessHoursSchedule = {
+        ...clientSchedule,
+        exceptions: [{ date: '2026-01-06', closed: true }]
+      };
+
+      expect(departmentRoutingService.decide('+15550001', followMainHours, holiday, tuesdayMorning).action)
+        .toBe('closed');
+    });
+  });
+
+  describe('describeDepartments', () => {
+    it('should only describe departments that differ from the main office', () => {
+      const lines = departmentRoutingService.describeDepartments(clientSchedule, [
+        followMainHours,
+        { department: 'service', weekly: null, afterHoursAction: 'on_call', onCallPhone: '+15559111' }
+      ]);
+
+      expect(lines).toEqual(['Service: on-call line available after hours (transfer_call still works)']);
+    });
+
+    it('should list custom department hours', () => {
+      const weekly = [...DEFAULT_WEEKLY_HOURS];
+      weekly[6] = null;
+
+      const lines = departmentRoutingService.describeDepartments(clientSchedule, [
+        { department: 'parts', weekly, afterHoursAction: 'callback' }
+      ]);
+
+      expect(lines).toEqual([
+        `Parts: ${businessHoursService.describeWeeklyHours({ ...clientSchedule, weekly }).join(', ')}`
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should reject unknown departments', () => {
+      expect(departmentRoutingService.validate('marketing', {})).toContain('Unknown department');
+    });
+
+    it('should require a number for the after-hours action', () => {
+      expect(departmentRoutingService.validate('service', { afterHoursAction: 'on_call' })).toContain('on-call number');
+    });
+
+    it('should accept a valid department', () => {
+      expect(departmentRoutingService.validate('service', {
+        afterHoursAction: 'on_call',
+        onCallPhone: '+15559111'
+      })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,4 @@
+/**
+ * YYYY-MM-DD `days` from now (far enough ahead that the client's timezone doesn't matter)
+ */
+export const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
@@ -0,0 +1,89 @@
+import { FastifyInstance } from 'fastify';
+import { databaseService } from '../../src/services/database.service';
+import { portalAuthService } from '../../src/services/portal-auth.service';
+import { adminAuthService } from '../../src/services/admin-auth.service';
+import { AdminRole } from '../../src/types';
+import { signedRequest } from './webhook-signing';
+
+/**
+ * Test tenants: a client, the portal/admin users that log in to it and the
+ * tool calls its assistant makes
+ * Each test file gets its own in-memory database, so fixed ids don't collide
+ */
+export const TEST_PASSWORD = 'test password';
+
+export interface TestClient {
+  id: string;
+  phoneNumberId?: string;
+  webhookSecret?: string;
+}
+
+/**
+ * Create a client; with `phoneNumberId` and `webhookSecret` its calls (and
+ * signed webhooks) are routed to it
+ */
+export async function createTestClient(
+  id: string,
+  options: {
+    name?: string;
+    enableInventory?: boolean;
+    enableTransfers?: boolean;
+    phoneNumberId?: string;
+    phoneNumber?: string;
+    webhookSecret?: string;
+  } = {}
+): Promise<TestClient> {
+  await databaseService.upsertClient({
+    id,
+    name: options.name || 'Test Dealer',
+    enableInventory: options.enableInventory ?? true,
+    enableTransfers: options.enableTransfers ?? true
+  });
+
+  if (options.phoneNumberId) {
+    await databaseService.addClientPhoneNumber(id, options.phoneNumberId, options.phoneNumber || '+15550001111');
+  }
+  if (options.webhookSecret) {
+    await databaseService.updateClientWebhookSecret(id, options.webhookSecret);
+  }
+
+  return { id, phoneNumberId: options.phoneNumberId, webhookSecret: options.webhookSecret };
+}
+
+/**
+ * Create a portal user (password TEST_PASSWORD)
+ * Returns the Authorization header for a new session
+ */
+export async function createPortalUser(username: string, clientId: string): Promise<Record<string, string>> {
+  await portalAuthService.createUser(username, TEST_PASSWORD, clientId);
+  return { authorization: `Bearer ${(await portalAuthService.login(username, TEST_PASSWORD))!.token}` };
+}
+
+/**
+ * Create an admin user (password TEST_PASSWORD)
+ * Returns the Authorization header for a new session
+ */
+export async function createAdminUser(username: string, role: AdminRole, clientId?: string): Promise<Record<string, string>> {
+  await adminAuthService.createUser(username, TEST_PASSWORD, role, clientId);
+  return { authorization: `Bearer ${(await adminAuthService.login(username, TEST_PASSWORD))!.token}` };
+}
+
+/**
+ * Call a tool as the client's assistant would, on a call to its phone number
+ * Returns the result the assistant gets back
+ */
+export async function callTool(
+  app: FastifyInstance,
+  client: TestClient,
+  name: string,
+  args: Record<string, any>,
+  callId = 'test-call'
+): Promise<string> {
+  const response = await app.inject(signedRequest('/tools', {
+    message: {
+      call: { id: callId, phoneNumberId: client.phoneNumberId },
+      toolCalls: [{ id: 'test-tool-call', type: 'function', function: { name, arguments: args } }]
+    }
+  }, { secret: client.webhookSecret }));
+  return JSON.parse(response.body).results[0].result as string;
+}
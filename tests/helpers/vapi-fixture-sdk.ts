@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Offline stand-in for the Vapi SDK, answering from recorded API responses
+ * Only the parts of the SDK the app calls are implemented; every request is
+ * kept in `requests` so tests can check how the API was paged.
+ */
+export interface FixtureVapiSdk {
+  requests: Array<{ method: string; params: any }>;
+  calls: {
+    list(params?: any): Promise<any[]>;
+    get(params: { id: string }): Promise<any>;
+  };
+}
+
+/**
+ * Recorded GET /call responses (tests/fixtures/vapi-calls.json)
+ */
+export function loadCallFixtures(): any[] {
+  return JSON.parse(readFileSync(join(__dirname, '..', 'fixtures', 'vapi-calls.json'), 'utf-8'));
+}
+
+/**
+ * Build the stand-in over a set of recorded calls
+ * calls.list filters like the Vapi API (createdAt bounds, assistantId, limit)
+ * and returns newest first
+ */
+export function createFixtureVapiSdk(calls: any[]): FixtureVapiSdk {
+  const requests: FixtureVapiSdk['requests'] = [];
+
+  return {
+    requests,
+    calls: {
+      async list(params: any = {}) {
+        requests.push({ method: 'calls.list', params });
+        return calls
+          .filter(call =>
+            (!params.assistantId || call.assistantId === params.assistantId) &&
+            (!params.createdAtGt || call.createdAt > params.createdAtGt) &&
+            (!params.createdAtGe || call.createdAt >= params.createdAtGe) &&
+            (!params.createdAtLt || call.createdAt < params.createdAtLt) &&
+            (!params.createdAtLe || call.createdAt <= params.createdAtLe)
+          )
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, params.limit ?? 100)
+          .map(call => structuredClone(call));
+      },
+      async get({ id }) {
+        requests.push({ method: 'calls.get', params: { id } });
+        const call = calls.find(c => c.id === id);
+        if (!call) throw new Error(`Call ${id} not found`);
+        return structuredClone(call);
+      }
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import { InjectOptions } from 'fastify';
+import { databaseService } from '../../src/services/database.service';
+import {
+  webhookAuthService,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER
+} from '../../src/services/webhook-auth.service';
+
+/**
+ * Test harness for signed Vapi webhooks
+ * Fixture payloads are attached to a test client and signed the same way Vapi does
+ */
+export const TEST_CLIENT_ID = 'client-portal';
+export const TEST_PHONE_NUMBER_ID = 'test-phone-number-id';
+export const TEST_WEBHOOK_SECRET = 'test-webhook-secret';
+
+// Each signed fixture gets its own timestamp so identical payloads aren't flagged as replays
+let timestampOffset = 0;
+
+/**
+ * Give the test client a phone number and webhook secret
+ * Call after databaseService.init()
+ */
+export async function setupSignedClient(): Promise<void> {
+  await databaseService.addClientPhoneNumber(TEST_CLIENT_ID, TEST_PHONE_NUMBER_ID, '+15550000000');
+  await databaseService.updateClientWebhookSecret(TEST_CLIENT_ID, TEST_WEBHOOK_SECRET);
+}
+
+/**
+ * Build signature headers for a raw body
+ */
+export function signBody(
+  rawBody: string,
+  secret: string = TEST_WEBHOOK_SECRET,
+  timestamp: number = Math.floor(Date.now() / 1000) - timestampOffset++
+): Record<string, string> {
+  return {
+    'content-type': 'application/json',
+    [SIGNATURE_HEADER]: webhookAuthService.sign(secret, timestamp, rawBody),
+    [TIMESTAMP_HEADER]: String(timestamp)
+  };
+}
+
+/**
+ * Build app.inject() options for a signed webhook
+ * The call is routed to the test client's phone number unless the fixture sets one
+ */
+export function signedRequest(
+  url: string,
+  payload: any,
+  options: { secret?: string; timestamp?: number } = {}
+): InjectOptions {
+  const message = payload.message || {};
+  const body = JSON.stringify({
+    ...payload,
+    message: {
+      ...message,
+      call: { phoneNumberId: TEST_PHONE_NUMBER_ID, ...message.call }
+    }
+  });
+
+  return {
+    method: 'POST',
+    url,
+    payload: body,
+    headers: signBody(body, options.secret, options.timestamp)
+  };
+}
@@ -4,6 +4,14 @@ import formBody from '@fastify/formbody';
 import cors from '@fastify/cors';
 import { inboundRoutes } from '../src/routes/inbound';
 import { databaseService } from '../src/services/database.service';
+import {
+  setupSignedClient,
+  signedRequest,
+  signBody,
+  TEST_CLIENT_ID,
+  TEST_PHONE_NUMBER_ID,
+  TEST_WEBHOOK_SECRET
+} from './helpers/webhook-signing';
 
 describe('Inbound Route - Customer Recognition', () => {
   let app: FastifyInstance;
@@ -12,6 +20,10 @@ describe('Inbound Route - Customer Recognition', () => {
     // Initialize database with in-memory DB for testing
     process.env.DATABASE_PATH = ':memory:';
     await databaseService.init();
+    await setupSignedClient();
+    await databaseService.updateClientAssistantId(TEST_CLIENT_ID, 'inbound-test-assistant');
+    await databaseService.updateContact('+15550003333', { name: 'Bob Builder', company: 'Austin Construction', lastMachine: 'Skid Steer' });
+    await databaseService.updateContact('+15550004444', { name: 'Sarah Martinez' });
 
     app = Fastify({ logger: false });
     await app.register(cors);
@@ -24,179 +36,179 @@ describe('Inbound Route - Customer Recognition', () => {
     await app.close();
   });
 
+  const assistantRequest = (callId: string, call: Record<string, any>) => signedRequest('/inbound', {
+    message: {
+      type: "assistant-request",
+      call: { id: callId, ...call }
+    }
+  });
+
   describe('Known Customer', () => {
-    it('should recognize Abhave and return personalized greeting', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {
-              customer: {
-                number: "+14805551234"
-              }
-            }
-          }
-        }
-      });
+    it('should greet a returning caller by name and pass their history to the assistant', async () => {
+      const response = await app.inject(assistantRequest('inbound-known-1', {
+        customer: { number: "+15550003333" }
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
-      expect(body.assistant).toBeDefined();
-      expect(body.assistant.model.provider).toBe("groq");
-      expect(body.assistant.model.model).toBe("llama-3.1-8b-instant");
-      expect(body.assistant.firstMessage).toContain("Hi Abhave");
-      expect(body.assistant.firstMessage).toContain("Tex Intel");
-      expect(body.assistant.firstMessage).toContain("Cat 336 Excavator");
-
-      // Check system prompt includes context
-      const systemMessage = body.assistant.model.messages[0];
-      expect(systemMessage.role).toBe("system");
-      expect(systemMessage.content).toContain("Abhave");
-      expect(systemMessage.content).toContain("Tex Intel HQ");
-      expect(systemMessage.content).toContain("Cat 336 Excavator");
+      expect(body.assistantId).toBe("inbound-test-assistant");
+      // Open or closed, a known caller is greeted by name
+      expect(body.assistantOverrides.firstMessage).toContain("Hi Bob Builder, thanks for calling Tex Intel");
+
+      const callerContext = body.assistantOverrides.variableValues.caller_context;
+      expect(callerContext).toContain("Name: Bob Builder");
+      expect(callerContext).toContain("Company: Austin Construction");
+      expect(callerContext).toContain("Previously asked about: Skid Steer");
+      expect(callerContext).toContain("Phone: +15550003333");
     });
 
-    it('should recognize Bob Builder and return personalized greeting', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {
-              customer: {
-                number: "+15125559999"
-              }
-            }
-          }
-        }
-      });
+    it('should recognize a caller without a company', async () => {
+      const response = await app.inject(assistantRequest('inbound-known-2', {
+        customer: { number: "+15550004444" }
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
-      expect(body.assistant.firstMessage).toContain("Bob Builder");
-      expect(body.assistant.firstMessage).toContain("Skid Steer");
+      expect(body.assistantOverrides.firstMessage).toContain("Hi Sarah Martinez");
+      expect(body.assistantOverrides.variableValues.caller_context).not.toContain("Company:");
     });
+  });
 
-    it('should recognize Sarah Martinez', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {
-              customer: {
-                number: "+14695558888"
-              }
-            }
-          }
-        }
-      });
+  describe('Unknown Customer', () => {
+    it('should return generic greeting for unknown number', async () => {
+      const response = await app.inject(assistantRequest('inbound-unknown-1', {
+        customer: { number: "+19999999999" }
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
-      expect(body.assistant.firstMessage).toContain("Sarah");
-      expect(body.assistant.firstMessage).toContain("Cat D6 Dozer");
+      expect(body.assistantOverrides.firstMessage).toMatch(/^Thanks for calling Tex Intel\./);
+      expect(body.assistantOverrides.variableValues.caller_context).toBe("New caller (no history)\nPhone: +19999999999");
+      expect(body.assistantOverrides.variableValues.business_hours_context).toContain("Office status:");
     });
   });
 
-  describe('Unknown Customer', () => {
-    it('should return generic greeting for unknown number', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {
-              customer: {
-                number: "+19999999999"
-              }
+  describe('Edge Cases', () => {
+    it('should handle missing phone number gracefully', async () => {
+      const response = await app.inject(assistantRequest('inbound-no-number', {}));
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      // Should return generic greeting when no number provided
+      expect(body.assistantOverrides.firstMessage).toMatch(/^Thanks for calling Tex Intel\./);
+      expect(body.assistantOverrides.variableValues.caller_context).toContain("Phone: unknown");
+    });
+
+    it('should reject a payload without a message type', async () => {
+      const response = await app.inject(signedRequest('/inbound', {
+        message: {
+          call: {
+            customer: {
+              number: "+19999999999"
             }
           }
         }
-      });
+      }));
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
+      expect(response.statusCode).toBe(400);
+    });
+  });
 
-      expect(body.assistant.firstMessage).toBe("Thanks for calling Tex Intel. How can I help you?");
+  describe('Webhook Signature', () => {
+    const speechUpdate = {
+      message: {
+        type: "speech-update",
+        call: { phoneNumberId: TEST_PHONE_NUMBER_ID }
+      }
+    };
 
-      // System prompt should NOT contain customer context
-      const systemMessage = body.assistant.model.messages[0];
-      expect(systemMessage.content).not.toContain("CONTEXT:");
-      expect(systemMessage.content).toContain("Tex Intel");
-      expect(systemMessage.content).toContain("check_inventory");
+    it('should accept a signed request', async () => {
+      const response = await app.inject(signedRequest('/inbound', speechUpdate));
+
+      expect(response.statusCode).toBe(200);
     });
 
-    it('should handle different unknown number', async () => {
+    it('should reject unsigned requests', async () => {
       const response = await app.inject({
         method: 'POST',
         url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {
-              customer: {
-                number: "+11234567890"
-              }
-            }
-          }
-        }
+        payload: speechUpdate
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.assistant.firstMessage).toBe("Thanks for calling Tex Intel. How can I help you?");
+      expect(response.statusCode).toBe(401);
     });
-  });
 
-  describe('Edge Cases', () => {
-    it('should handle missing phone number gracefully', async () => {
+    it('should reject requests signed with the wrong secret', async () => {
+      const response = await app.inject(signedRequest('/inbound', speechUpdate, { secret: 'not-the-secret' }));
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject stale timestamps', async () => {
+      const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+      const response = await app.inject(signedRequest('/inbound', speechUpdate, { timestamp: tenMinutesAgo }));
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject replayed requests', async () => {
+      const request = signedRequest('/inbound', speechUpdate);
+
+      const first = await app.inject(request);
+      const replay = await app.inject(request);
+
+      expect(first.statusCode).toBe(200);
+      expect(replay.statusCode).toBe(401);
+    });
+
+    it('should reject a tampered body', async () => {
+      const signed = JSON.stringify(speechUpdate);
+      const tampered = JSON.stringify({ message: { ...speechUpdate.message, type: "end-of-call-report" } });
+
       const response = await app.inject({
         method: 'POST',
         url: '/inbound',
-        payload: {
-          message: {
-            type: "inbound-call",
-            call: {}
-          }
-        }
+        payload: tampered,
+        headers: signBody(signed)
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      // Should return generic greeting when no number provided
-      expect(body.assistant.firstMessage).toBe("Thanks for calling Tex Intel. How can I help you?");
+      expect(response.statusCode).toBe(401);
     });
 
-    it('should always return Groq model configuration', async () => {
-      const response = await app.inject({
+    describe('Plain shared secret', () => {
+      const now = () => Math.floor(Date.now() / 1000);
+      const withSecret = (timestamp?: number, payload: any = speechUpdate) => app.inject({
         method: 'POST',
         url: '/inbound',
-        payload: {
-          message: {
-            call: {
-              customer: {
-                number: "+19999999999"
-              }
-            }
-          }
+        payload,
+        headers: {
+          'x-vapi-secret': TEST_WEBHOOK_SECRET,
+          ...(timestamp !== undefined ? { 'x-vapi-timestamp': String(timestamp) } : {})
         }
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.assistant.model.provider).toBe("groq");
-      expect(body.assistant.model.model).toBe("llama-3.1-8b-instant");
-      expect(body.assistant.model.messages).toHaveLength(1);
-      expect(body.assistant.model.messages[0].role).toBe("system");
+      it('should accept the secret with a fresh timestamp', async () => {
+        expect((await withSecret(now())).statusCode).toBe(200);
+      });
+
+      it('should reject the secret without a timestamp', async () => {
+        expect((await withSecret()).statusCode).toBe(401);
+      });
+
+      it('should reject the secret with a stale timestamp', async () => {
+        expect((await withSecret(now() - 600)).statusCode).toBe(401);
+      });
+
+      it('should reject a replayed request', async () => {
+        const timestamp = now() - 30;
+        const payload = { message: { ...speechUpdate.message, status: 'replay-test' } };
+
+        expect((await withSecret(timestamp, payload)).statusCode).toBe(200);
+        expect((await withSecret(timestamp, payload)).statusCode).toBe(401);
+      });
     });
   });
 });
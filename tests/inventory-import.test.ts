@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { createPortalUser, createTestClient } from './helpers/test-tenant';
+import { parseCsv } from '../src/utils/csv';
+
+describe('Inventory Import / Export', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'import-test-client';
+
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Import Dealer' });
+    headers = await createPortalUser('import', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const importCsv = async (csv: string, dryRun = false) => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/client/inventory/import${dryRun ? '?dryRun=true' : ''}`,
+      headers: { ...headers, 'content-type': 'text/csv' },
+      payload: csv
+    });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  const fleet = async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/inventory', headers });
+    return JSON.parse(response.body).items;
+  };
+
+  it('should preview a CSV import without writing anything', async () => {
+    const csv = [
+      'Stock Number,Model,Category,Available,Price per Day,Condition,Year,Specs',
+      'EX-100,CAT 320,Excavator,2,"$1,200",good,2022,"20-ton, 150hp"',
+      'SK-200,Bobcat S770,Skid Steer,3,325,Excellent,2023,'
+    ].join('\n');
+
+    const preview = await importCsv(csv, true);
+
+    expect(preview.statusCode).toBe(200);
+    expect(preview.body).toMatchObject({ success: true, dryRun: true, summary: { create: 2, update: 0, unchanged: 0, error: 0 } });
+    expect(await fleet()).toEqual([]);
+
+    const imported = await importCsv(csv);
+
+    expect(imported.body.summary.create).toBe(2);
+    const items = await fleet();
+    expect(items.find((item: any) => item.stock_number === 'EX-100')).toMatchObject({
+      model: 'CAT 320',
+      price_per_day: 1200,
+      condition: 'Good',
+      specs: '20-ton, 150hp'
+    });
+  });
+
+  it('should update matches by stock number or model and report the diff', async () => {
+    const csv = [
+      'stock_number,model,price_per_day,available',
+      'EX-100,,1150,2',
+      ',Bobcat S770,,1'
+    ].join('\n');
+
+    const preview = await importCsv(csv, true);
+
+    expect(preview.body.summary).toEqual({ create: 0, update: 2, unchanged: 0, error: 0 });
+    expect(preview.body.rows[0].changes).toEqual({ price_per_day: { from: 1200, to: 1150 } });
+    expect(preview.body.rows[1].changes).toEqual({ available: { from: 3, to: 1 } });
+
+    await importCsv(csv);
+    const items = await fleet();
+    expect(items.find((item: any) => item.stock_number === 'EX-100').price_per_day).toBe(1150);
+    expect(items.find((item: any) => item.model === 'Bobcat S770').available).toBe(1);
+
+    const again = await importCsv(csv, true);
+    expect(again.body.summary).toEqual({ create: 0, update: 0, unchanged: 2, error: 0 });
+  });
+
+  it('should skip invalid rows and apply the rest', async () => {
+    const csv = [
+      'stock_number,model,category,available,price_per_day,condition',
+      'LT-1,Genie S-65,Boom Lift,1,450,Like new',
+      'LT-2,JLG 600S,Boom Lift,1,0,Good',
+      'LT-3,Skyjack SJ3219,Scissor Lift,4,150,Good',
+      'LT-4,Skyjack SJ3219,Scissor Lift,2,150,Good',
+      'LT-5,Kubota KX040,,1,300,Good'
+    ].join('\n');
+
+    const result = await importCsv(csv);
+
+    expect(result.body.summary).toEqual({ create: 1, update: 0, unchanged: 0, error: 4 });
+    expect(result.body.rows.map((row: any) => row.action)).toEqual(['error', 'error', 'create', 'error', 'error']);
+    expect(result.body.rows[3].errors).toContain('Same model as row 3');
+    expect((await fleet()).map((item: any) => item.model)).toContain('Skyjack SJ3219');
+    expect((await fleet()).map((item: any) => item.model)).not.toContain('Genie S-65');
+  });
+
+  it('should reject a file with unknown columns', async () => {
+    const result = await importCsv('model,colour\nCAT 320,yellow');
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body.message).toContain('colour');
+  });
+
+  it('should import JSON items', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/client/inventory/import',
+      headers,
+      payload: { items: [{ stockNumber: 'TR-9', model: 'Vermeer RTX550', category: 'Trencher', available: 1, pricePerDay: 380 }] }
+    });
+
+    expect(JSON.parse(response.body).summary.create).toBe(1);
+    expect((await fleet()).find((item: any) => item.stock_number === 'TR-9')).toMatchObject({ model: 'Vermeer RTX550' });
+  });
+
+  it('should export a CSV that re-imports unchanged', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/inventory/export', headers });
+
+    expect(response.headers['content-type']).toContain('text/csv');
+    const [header, ...rows] = parseCsv(response.body);
+    expect(header).toEqual(['stock_number', 'model', 'category', 'available', 'price_per_day', 'price_per_week', 'price_per_month', 'condition', 'year', 'specs',
+      'operating_weight', 'horsepower', 'dig_depth', 'lift_capacity', 'bucket_size', 'fuel_type', 'attachments']);
+    expect(rows).toHaveLength((await fleet()).length);
+
+    const reimport = await importCsv(response.body, true);
+    expect(reimport.body.summary.unchanged).toBe(rows.length);
+
+    const json = await app.inject({ method: 'GET', url: '/client/inventory/export?format=json', headers });
+    expect(JSON.parse(json.body).items.find((item: any) => item.stock_number === 'EX-100')).toMatchObject({ model: 'CAT 320' });
+  });
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/inventory/export' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { createPortalUser, createTestClient } from './helpers/test-tenant';
+import { inventoryService } from '../src/services/inventory.service';
+import { normalizeSpokenNumbers } from '../src/utils/spoken-numbers';
+
+describe('Inventory Search', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'search-test-client';
+
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Search Yard', enableTransfers: false });
+
+    const fleet = [
+      { model: 'Cat 336', category: 'Excavator', available: 1, pricePerDay: 1450, specs: '36-ton, 268hp' },
+      { model: 'Cat 320', category: 'Excavator', available: 2, pricePerDay: 950, specs: '22-ton' },
+      { model: 'Cat 305 CR', category: 'Mini Excavator', available: 3, pricePerDay: 325 },
+      { model: 'Cat D8T', category: 'Dozer', available: 1, pricePerDay: 1800 },
+      { model: 'Cat 950M', category: 'Wheel Loader', available: 1, pricePerDay: 1100 },
+      { model: 'Bobcat T76', category: 'Skid Steer', available: 2, pricePerDay: 295 },
+      { model: 'John Deere 332G', category: 'Skid Steer', available: 1, pricePerDay: 340 },
+      { model: 'Case 580', category: 'Backhoe', available: 1, pricePerDay: 410 }
+    ];
+    for (const item of fleet) {
+      await databaseService.createInventoryItem(clientId, item);
+    }
+
+    headers = await createPortalUser('search', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const models = async (query: string) => (await inventoryService.search(query, clientId)).map(item => item.model);
+
+  const saveAliases = async (aliases: any) => {
+    const response = await app.inject({ method: 'POST', url: '/client/inventory/aliases', headers, payload: { aliases } });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  it('should read spoken model numbers as digits', () => {
+    expect(normalizeSpokenNumbers('cat three thirty six')).toBe('cat 336');
+    expect(normalizeSpokenNumbers('three oh five')).toBe('305');
+    expect(normalizeSpokenNumbers('nine fifty loader')).toBe('950 loader');
+    expect(normalizeSpokenNumbers('three hundred and thirty six')).toBe('336');
+    expect(normalizeSpokenNumbers('eighteen thousand pound')).toBe('18000 pound');
+    expect(normalizeSpokenNumbers('oh the big one and the small one')).toBe('oh the big one and the small one');
+  });
+
+  it('should find a model however the caller says it', async () => {
+    expect(await models('Cat three thirty six')).toEqual(['Cat 336']);
+    expect(await models('Caterpillar 336')).toEqual(['Cat 336']);
+    expect(await models('D eight')).toEqual(['Cat D8T']);
+    expect(await models('nine fifty')).toEqual(['Cat 950M']);
+    expect(await models('T seventy six')).toEqual(['Bobcat T76']);
+    expect(await models('John Deere three thirty two')).toEqual(['John Deere 332G']);
+  });
+
+  it('should understand category nicknames and typos', async () => {
+    expect(await models('track loader')).toEqual(['Bobcat T76', 'John Deere 332G']);
+    expect(await models('mini ex')).toEqual(['Cat 305 CR']);
+    expect(await models('bulldozers')).toEqual(['Cat D8T']);
+    expect(await models('excavater')).toEqual(expect.arrayContaining(['Cat 336', 'Cat 320', 'Cat 305 CR']));
+    expect(await models('hovercraft')).toEqual([]);
+  });
+
+  it('should rank the closest match first and leave out weak ones', async () => {
+    const results = await inventoryService.search('cat 336', clientId);
+
+    expect(results.map(item => item.model)).toEqual(['Cat 336']);
+    expect(results[0].relevance).toBe(1);
+    expect(await models('do you have any excavators')).toEqual(['Cat 305 CR', 'Cat 320', 'Cat 336']);
+
+    const reply = await inventoryService.searchAndFormat('Cat three thirty six', clientId);
+    expect(reply).toContain('Cat 336');
+    expect(reply).not.toContain('Cat 320');
+  });
+
+  it('should use the client\'s own aliases', async () => {
+    expect(await models('big cat')).not.toEqual(['Cat 336']);
+
+    const saved = await saveAliases([{ alias: 'big cat', canonical: 'Cat 336' }, { alias: 'hoe', canonical: 'backhoe' }]);
+    expect(saved.statusCode).toBe(200);
+    expect(saved.body.aliases).toEqual([{ alias: 'big cat', canonical: 'Cat 336' }, { alias: 'hoe', canonical: 'backhoe' }]);
+
+    expect(await models('the big cat')).toEqual(['Cat 336']);
+    expect(await models('hoe')).toEqual(['Case 580']);
+
+    const listed = await app.inject({ method: 'GET', url: '/client/inventory/aliases', headers });
+    const body = JSON.parse(listed.body);
+    expect(body.aliases).toHaveLength(2);
+    expect(body.builtIn).toContainEqual({ alias: 'mini ex', canonical: 'mini excavator' });
+  });
+
+  it('should reject invalid aliases', async () => {
+    const cases: Array<[any, RegExp]> = [
+      [{ alias: 'big cat' }, /must be a list/],
+      [[{ alias: 'hoe', canonical: '' }], /needs what callers say/],
+      [[{ alias: 'Cat 336', canonical: 'cat three thirty six' }], /already means/],
+      [[{ alias: 'hoe', canonical: 'backhoe' }, { alias: 'Hoe', canonical: 'Case 580' }], /listed twice/]
+    ];
+
+    for (const [aliases, message] of cases) {
+      const response = await saveAliases(aliases);
+      expect(response.statusCode).toBe(400);
+      expect(response.body.message).toMatch(message);
+    }
+  });
+
+  it('should require a login', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/inventory/aliases' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { toolRoutes } from '../src/routes/tools';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { callTool, createPortalUser, createTestClient, TestClient } from './helpers/test-tenant';
+
+describe('Inventory Specs', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'specs-test-client';
+
+  let client: TestClient;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    client = await createTestClient(clientId, { name: 'Spec Yard', enableTransfers: false, phoneNumberId: 'specs-phone', webhookSecret: 'specs-test-secret' });
+
+    const fleet = [
+      { model: 'Cat 336', category: 'Excavator', available: 1, pricePerDay: 1450, operatingWeight: 80000, horsepower: 268, digDepth: 24, attachments: 'hydraulic thumb' },
+      { model: 'Cat 320', category: 'Excavator', available: 2, pricePerDay: 950, operatingWeight: 50000, horsepower: 121, digDepth: 20 },
+      { model: 'Cat 305 CR', category: 'Mini Excavator', available: 2, pricePerDay: 325, operatingWeight: 11000, horsepower: 40, digDepth: 11 },
+      { model: 'Bobcat T76', category: 'Skid Steer', available: 1, pricePerDay: 295, horsepower: 74, liftCapacity: 3000 },
+      { model: 'John Deere 332G', category: 'Skid Steer', available: 1, pricePerDay: 340, horsepower: 100, liftCapacity: 3700 },
+      { model: 'Cat 950M', category: 'Wheel Loader', available: 1, pricePerDay: 1100, horsepower: 220, bucketSize: 5 },
+      { model: 'Genie GS-1930', category: 'Scissor Lift', available: 3, pricePerDay: 95, liftCapacity: 500, fuelType: 'Electric' }
+    ];
+    for (const item of fleet) {
+      await databaseService.createInventoryItem(clientId, item);
+    }
+
+    headers = await createPortalUser('specs', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(toolRoutes);
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const checkInventory = (args: Record<string, any>) => callTool(app, client, 'check_inventory', args);
+
+  it('should speak the specs that matter for each kind of machine', async () => {
+    const excavator = await checkInventory({ query: 'Cat 336' });
+    expect(excavator).toContain('with 24 feet of dig depth and 268 horsepower');
+    expect(excavator).toContain('it comes with hydraulic thumb');
+
+    expect(await checkInventory({ query: 'Bobcat T76' })).toContain('with a 3,000-pound lift capacity and 74 horsepower');
+    expect(await checkInventory({ query: 'Cat 950M' })).toContain('with a 5-yard bucket and 220 horsepower');
+    expect(await checkInventory({ query: 'scissor lift' })).toContain('with a 500-pound lift capacity and an electric motor');
+  });
+
+  it('should only offer machines that meet the caller\'s numbers', async () => {
+    const deep = await checkInventory({ query: 'excavator', min: { dig_depth_ft: 20 } });
+    expect(deep).toContain('Cat 336');
+    expect(deep).toContain('Cat 320');
+    expect(deep).not.toContain('Cat 305 CR');
+
+    const strong = await checkInventory({ query: 'skid steer', min: { lift_capacity_lbs: '3,200' } });
+    expect(strong).toContain('John Deere 332G at $340 a day with a 3,700-pound lift capacity');
+    expect(strong).not.toContain('Bobcat T76');
+
+    // No query: the whole fleet is checked against the limits
+    const light = await checkInventory({ query: '', max: { operating_weight_lbs: 15000 } });
+    expect(light).toContain('with an operating weight of 11,000 pounds and 11 feet of dig depth');
+    expect(light).not.toContain('Cat 320');
+
+    expect(await checkInventory({ query: '', fuel_type: 'electric' })).toContain('Genie GS-1930');
+  });
+
+  it('should offer the closest machine when nothing meets the numbers', async () => {
+    const result = await checkInventory({ query: 'excavator', min: { dig_depth_ft: 30 } });
+
+    expect(result).toContain("We don't have any excavator with at least 30 feet of dig depth.");
+    expect(result).toContain('The closest is the Cat 336 with 24 feet of dig depth');
+
+    expect(await checkInventory({ query: 'skid steer', fuel_type: 'propane' })).toContain("We don't have any skid steer with a propane engine.");
+    expect(await checkInventory({ query: 'excavator', min: { dig_depth_ft: 'deep' } })).toContain('The minimum dig depth has to be a number');
+  });
+
+  it('should save typed specs from the portal', async () => {
+    const create = (payload: any) => app.inject({
+      method: 'POST',
+      url: '/client/inventory',
+      headers,
+      payload: { model: 'Kubota KX040', category: 'Mini Excavator', available: 1, pricePerDay: 300, ...payload }
+    });
+
+    expect(JSON.parse((await create({ digDepth: -2 })).body).message).toMatch(/digDepth must be more than 0/);
+    expect(JSON.parse((await create({ fuelType: 'Coal' })).body).message).toMatch(/fuelType must be one of/);
+
+    const created = await create({ digDepth: 11.5, operatingWeight: 9000, fuelType: 'Diesel', attachments: 'thumb, auger' });
+    expect(created.statusCode).toBe(200);
+    const { item } = JSON.parse(created.body);
+    expect(item).toMatchObject({ dig_depth: 11.5, operating_weight: 9000, fuel_type: 'Diesel', attachments: 'thumb, auger', horsepower: null });
+
+    const updated = await app.inject({ method: 'POST', url: `/client/inventory/${item.id}`, headers, payload: { digDepth: null, horsepower: 41 } });
+    expect(JSON.parse(updated.body).item).toMatchObject({ dig_depth: null, horsepower: 41 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { createPortalUser, createTestClient } from './helpers/test-tenant';
+import { inventoryService } from '../src/services/inventory.service';
+
+describe('Inventory Management', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'inventory-test-client';
+  const otherClientId = 'inventory-test-other';
+
+  let headers: Record<string, string>;
+  let otherHeaders: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    for (const id of [clientId, otherClientId]) {
+      await createTestClient(id, { name: 'Fleet Dealer' });
+    }
+    headers = await createPortalUser('fleet', clientId);
+    otherHeaders = await createPortalUser('fleet-other', otherClientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const post = async (url: string, payload: any = {}, as = headers) => {
+    const response = await app.inject({ method: 'POST', url, headers: as, payload });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  const list = async (query = '', as = headers) => {
+    const response = await app.inject({ method: 'GET', url: `/client/inventory${query}`, headers: as });
+    return JSON.parse(response.body).items;
+  };
+
+  const excavator = {
+    model: 'Komatsu PC210',
+    category: 'Excavator',
+    available: 2,
+    pricePerDay: 875,
+    condition: 'Good',
+    year: 2021,
+    specs: '23-ton, 165hp'
+  };
+
+  it('should add equipment that check_inventory then finds', async () => {
+    const created = await post('/client/inventory', excavator);
+
+    expect(created.statusCode).toBe(200);
+    expect(created.body.item).toMatchObject({ client_id: clientId, model: 'Komatsu PC210', price_per_day: 875, available: 2 });
+    expect((await list()).map((item: any) => item.model)).toEqual(['Komatsu PC210']);
+
+    const reply = await inventoryService.searchAndFormat('excavator', clientId);
+    expect(reply).toContain('Komatsu PC210 at $875 a day');
+  });
+
+  it('should update price, condition, specs and availability', async () => {
+    const { body: { item } } = await post('/client/inventory', { ...excavator, model: 'Hitachi ZX135' });
+
+    const updated = await post(`/client/inventory/${item.id}`, { pricePerDay: 790, condition: 'Fair', specs: null, available: 0 });
+
+    expect(updated.statusCode).toBe(200);
+    expect(updated.body.item).toMatchObject({ model: 'Hitachi ZX135', price_per_day: 790, condition: 'Fair', specs: null, available: 0 });
+  });
+
+  it('should retire equipment so the assistant stops offering it', async () => {
+    const { body: { item } } = await post('/client/inventory', { ...excavator, model: 'Kobelco SK140', category: 'Mini Crane' });
+
+    const retired = await post(`/client/inventory/${item.id}/retire`);
+    expect(retired.statusCode).toBe(200);
+    expect(retired.body.item.retired_at).toBeTruthy();
+
+    expect(await inventoryService.search('mini crane', clientId)).toEqual([]);
+    expect((await list()).map((i: any) => i.model)).not.toContain('Kobelco SK140');
+    expect((await list('?includeRetired=true')).map((i: any) => i.model)).toContain('Kobelco SK140');
+
+    expect((await post(`/client/inventory/${item.id}/retire`)).statusCode).toBe(409);
+    expect((await post(`/client/inventory/${item.id}`, { available: 3 })).statusCode).toBe(409);
+  });
+
+  it('should reject invalid equipment', async () => {
+    const cases: Array<[any, RegExp]> = [
+      [{ ...excavator, model: undefined }, /model is required/],
+      [{ ...excavator, model: '   ' }, /model can't be empty/],
+      [{ ...excavator, available: -1 }, /available must be a whole number/],
+      [{ ...excavator, available: 1.5 }, /available must be a whole number/],
+      [{ ...excavator, pricePerDay: 0 }, /pricePerDay must be more than 0/],
+      [{ ...excavator, condition: 'Mint' }, /condition must be one of/],
+      [{ ...excavator, year: 1850 }, /year must be between/]
+    ];
+
+    for (const [payload, message] of cases) {
+      const response = await post('/client/inventory', payload);
+      expect(response.statusCode).toBe(400);
+      expect(response.body.message).toMatch(message);
+    }
+  });
+
+  it('should not list the same model twice', async () => {
+    await post('/client/inventory', { ...excavator, model: 'Volvo EC220' });
+
+    const duplicate = await post('/client/inventory', { ...excavator, model: 'volvo ec220' });
+    expect(duplicate.statusCode).toBe(409);
+  });
+
+  it('should keep each client to its own fleet', async () => {
+    const { body: { item } } = await post('/client/inventory', { ...excavator, model: 'Case CX210' });
+
+    expect((await list('', otherHeaders)).map((i: any) => i.model)).not.toContain('Case CX210');
+    expect((await post(`/client/inventory/${item.id}`, { pricePerDay: 1 }, otherHeaders)).statusCode).toBe(404);
+    expect((await post(`/client/inventory/${item.id}/retire`, {}, otherHeaders)).statusCode).toBe(404);
+
+    // The other dealer can list the same model in their own fleet
+    expect((await post('/client/inventory', { ...excavator, model: 'Case CX210' }, otherHeaders)).statusCode).toBe(200);
+  });
+
+  it('should require a login', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/inventory' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { inboundRoutes } from '../src/routes/inbound';
+import { databaseService } from '../src/services/database.service';
+import { liveCallService } from '../src/services/live-call.service';
+import { setupSignedClient, signedRequest, TEST_CLIENT_ID, TEST_WEBHOOK_SECRET } from './helpers/webhook-signing';
+import { createTestClient } from './helpers/test-tenant';
+
+describe('Live Call State', () => {
+  let app: FastifyInstance;
+
+  let callNumber = 0;
+  const newCallId = () => `live-call-${++callNumber}`;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await setupSignedClient();
+    await databaseService.updateClientAssistantId(TEST_CLIENT_ID, 'live-calls-assistant');
+
+    app = Fastify({ logger: false });
+    await app.register(inboundRoutes);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const send = (message: any) => app.inject(signedRequest('/inbound', { message }));
+
+  const statusUpdate = (callId: string, status: string, timestamp: number, extra: any = {}) => send({
+    type: 'status-update',
+    status,
+    timestamp,
+    call: { id: callId, type: 'inboundPhoneCall', customer: { number: '+15557654321' } },
+    ...extra
+  });
+
+  const conversationUpdate = (callId: string, messages: any[]) => send({
+    type: 'conversation-update',
+    call: { id: callId, type: 'inboundPhoneCall', customer: { number: '+15557654321' } },
+    messages: [{ role: 'system', message: 'You are Tex...' }, ...messages]
+  });
+
+  it('should create the call row at assistant-request', async () => {
+    const callId = newCallId();
+
+    await send({
+      type: 'assistant-request',
+      call: { id: callId, type: 'inboundPhoneCall', status: 'ringing', customer: { number: '+15557654321' } }
+    });
+
+    const call = await databaseService.getCall(callId);
+    expect(call).toBeTruthy();
+    expect(call.client_id).toBe(TEST_CLIENT_ID);
+    expect(call.status).toBe('ringing');
+    expect(call.caller_phone).toBe('+15557654321');
+
+    const recent = await databaseService.getRecentCalls(500, TEST_CLIENT_ID);
+    expect(recent.map(c => c.id)).toContain(callId);
+  });
+
+  it('should not record a call for a client without an assistant', async () => {
+    const callId = newCallId();
+    await createTestClient('live-unsynced-client', { phoneNumberId: 'live-unsynced-pn', webhookSecret: TEST_WEBHOOK_SECRET });
+
+    const response = await send({
+      type: 'assistant-request',
+      call: { id: callId, phoneNumberId: 'live-unsynced-pn', type: 'inboundPhoneCall', status: 'ringing', customer: { number: '+15557654321' } }
+    });
+
+    expect(response.statusCode).toBe(500);
+    expect(await databaseService.getCall(callId)).toBeFalsy();
+    expect(liveCallService.getActiveCalls().map(c => c.callId)).not.toContain(callId);
+  });
+
+  it('should track status and timestamps from status updates', async () => {
+    const callId = newCallId();
+    const startedAt = Date.UTC(2026, 0, 5, 16, 0, 0);
+
+    await statusUpdate(callId, 'ringing', startedAt - 5000);
+    await statusUpdate(callId, 'in-progress', startedAt);
+
+    let call = await databaseService.getCall(callId);
+    expect(call.status).toBe('in-progress');
+    expect(call.started_at).toBe(new Date(startedAt).toISOString());
+    expect(call.ended_at).toBeNull();
+
+    await statusUpdate(callId, 'ended', startedAt + 95000, { endedReason: 'customer-ended-call' });
+
+    call = await databaseService.getCall(callId);
+    expect(call.status).toBe('ended');
+    expect(call.ended_at).toBe(new Date(startedAt + 95000).toISOString());
+    expect(call.duration_seconds).toBe(95);
+    expect(call.ended_reason).toBe('customer-ended-call');
+  });
+
+  it('should store the conversation incrementally', async () => {
+    const callId = newCallId();
+    const greeting = { role: 'bot', message: 'Thanks for calling Tex Intel.', secondsFromStart: 0.5 };
+    const question = { role: 'user', message: 'Do you have a skid steer', secondsFromStart: 3.1 };
+
+    await conversationUpdate(callId, [greeting]);
+    await conversationUpdate(callId, [greeting, question]);
+    // The caller kept talking - the last message grew
+    await conversationUpdate(callId, [greeting, { ...question, message: 'Do you have a skid steer for Monday?' }]);
+
+    const messages = await databaseService.getCallMessages(callId);
+    expect(messages.map((m: any) => m.role)).toEqual(['bot', 'user']);
+    expect(messages[1].message).toBe('Do you have a skid steer for Monday?');
+
+    // A conversation-update alone is enough for the call to appear
+    const call = await databaseService.getCall(callId);
+    expect(call.status).toBe('in-progress');
+  });
+
+  it('should keep tool calls in the conversation', async () => {
+    const callId = newCallId();
+
+    await conversationUpdate(callId, [
+      { role: 'tool_calls', toolCalls: [{ id: 'tc1', function: { name: 'check_inventory', arguments: '{}' } }] }
+    ]);
+
+    const [message] = await databaseService.getCallMessages(callId);
+    expect(message.role).toBe('tool_calls');
+    expect(JSON.parse(message.message).toolCalls[0].function.name).toBe('check_inventory');
+  });
+
+  it('should keep live data when the end-of-call report arrives', async () => {
+    const callId = newCallId();
+
+    await send({
+      type: 'assistant-request',
+      call: { id: callId, type: 'inboundPhoneCall', status: 'ringing', customer: { number: '+15557654321' } }
+    });
+    await conversationUpdate(callId, [{ role: 'bot', message: 'Thanks for calling Tex Intel.' }]);
+    const before = await databaseService.getCall(callId);
+
+    await send({
+      type: 'end-of-call-report',
+      call: { id: callId, status: 'ended', endedReason: 'customer-ended-call' },
+      transcript: 'AI: Thanks for calling Tex Intel.',
+      summary: 'Short call'
+    });
+
+    const call = await databaseService.getCall(callId);
+    expect(call.status).toBe('ended');
+    expect(call.summary).toBe('Short call');
+    expect(call.created_at).toBe(before.created_at);
+    expect(call.caller_phone).toBe('+15557654321');
+    expect(await databaseService.getCallMessages(callId)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin';
+import { inboundRoutes } from '../src/routes/inbound';
+import { databaseService } from '../src/services/database.service';
+import { LiveCallEvent, LiveCallService, liveCallService } from '../src/services/live-call.service';
+import { setupSignedClient, signedRequest, TEST_CLIENT_ID } from './helpers/webhook-signing';
+import { createAdminUser, createTestClient } from './helpers/test-tenant';
+
+describe('Live Call Feed', () => {
+
+  describe('LiveCallService', () => {
+    it('should only deliver events for the subscriber\'s client', () => {
+      const service = new LiveCallService();
+      const mine: LiveCallEvent[] = [];
+      const all: LiveCallEvent[] = [];
+      service.subscribe(event => mine.push(event), 'client-a');
+      service.subscribe(event => all.push(event));
+
+      service.callStarted('call-a', 'client-a', '+15550000001');
+      service.callStarted('call-b', 'client-b', '+15550000002');
+
+      expect(mine.map(e => e.callId)).toEqual(['call-a']);
+      expect(all.map(e => e.callId)).toEqual(['call-a', 'call-b']);
+      expect(service.getActiveCalls('client-a').map(c => c.callId)).toEqual(['call-a']);
+    });
+
+    it('should publish only new or changed transcript turns', () => {
+      const service = new LiveCallService();
+      const events: any[] = [];
+      service.subscribe(event => events.push(event));
+
+      service.conversationUpdated('call-t', 'client-a', [{ role: 'bot', message: 'Hi' }]);
+      service.conversationUpdated('call-t', 'client-a', [{ role: 'bot', message: 'Hi' }, { role: 'user', message: 'Do you' }]);
+      service.conversationUpdated('call-t', 'client-a', [{ role: 'bot', message: 'Hi' }, { role: 'user', message: 'Do you' }]);
+      service.conversationUpdated('call-t', 'client-a', [{ role: 'bot', message: 'Hi' }, { role: 'user', message: 'Do you rent lifts?' }]);
+
+      expect(events.map(e => e.turns)).toEqual([
+        [{ position: 0, role: 'bot', message: 'Hi' }],
+        [{ position: 1, role: 'user', message: 'Do you' }],
+        [{ position: 1, role: 'user', message: 'Do you rent lifts?' }]
+      ]);
+    });
+
+    it('should drop a call once its end-of-call report arrives', () => {
+      const service = new LiveCallService();
+      service.callStarted('call-e', 'client-a', null);
+      service.callEnded('call-e', 'client-a', { endedReason: 'customer-ended-call' });
+
+      expect(service.getActiveCalls()).toHaveLength(0);
+    });
+
+    it('should ignore events that arrive after the call ended', () => {
+      const service = new LiveCallService();
+      const events: LiveCallEvent[] = [];
+      service.subscribe(event => events.push(event));
+
+      service.callStarted('call-l', 'client-a', null);
+      service.callEnded('call-l', 'client-a', { endedReason: 'customer-ended-call' });
+      service.statusChanged('call-l', 'client-a', 'in-progress');
+      service.toolInvoked('call-l', 'client-a', 'check_inventory', {}, 'In stock');
+      service.conversationUpdated('call-l', 'client-a', [{ role: 'bot', message: 'Bye' }]);
+
+      expect(events.map(e => e.type)).toEqual(['call-started', 'call-ended']);
+      expect(service.getActiveCalls()).toHaveLength(0);
+    });
+
+    it('should drop a call on status ended and still publish its report', () => {
+      const service = new LiveCallService();
+      const events: LiveCallEvent[] = [];
+      service.subscribe(event => events.push(event));
+
+      service.callStarted('call-s', 'client-a', null);
+      service.statusChanged('call-s', 'client-a', 'ended', 'customer-ended-call');
+      expect(service.getActiveCalls()).toHaveLength(0);
+
+      service.conversationUpdated('call-s', 'client-a', [{ role: 'bot', message: 'Bye' }]);
+      service.callEnded('call-s', null, { summary: 'Asked about lifts' });
+
+      expect(events.map(e => e.type)).toEqual(['call-started', 'status', 'call-ended']);
+      expect(events[2].clientId).toBe('client-a');
+    });
+
+    it('should leave stale calls out of the snapshot', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const service = new LiveCallService();
+        service.callStarted('call-old', 'client-a', null);
+
+        vi.setSystemTime(Date.now() + 3 * 60 * 60 * 1000);
+
+        expect(service.getActiveCalls()).toHaveLength(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should keep delivering when one subscriber throws', () => {
+      const service = new LiveCallService();
+      const received: LiveCallEvent[] = [];
+      service.subscribe(() => { throw new Error('broken dashboard'); });
+      service.subscribe(event => received.push(event));
+
+      expect(() => service.statusChanged('call-x', 'client-a', 'in-progress')).not.toThrow();
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  describe('GET /admin/live', () => {
+    let app: FastifyInstance;
+    let baseUrl: string;
+    const otherClientId = 'live-other-client';
+    let adminHeaders: Record<string, string>;
+    let otherAdminHeaders: Record<string, string>;
+
+    beforeAll(async () => {
+      await databaseService.init();
+      await setupSignedClient();
+      await databaseService.updateClientAssistantId(TEST_CLIENT_ID, 'live-feed-assistant');
+      await createTestClient(otherClientId, { name: 'Other Dealer' });
+      adminHeaders = await createAdminUser('live-admin', 'client_admin', TEST_CLIENT_ID);
+      otherAdminHeaders = await createAdminUser('live-other-admin', 'client_admin', otherClientId);
+
+      app = Fastify({ logger: false });
+      await app.register(adminRoutes);
+      await app.register(inboundRoutes);
+      baseUrl = await app.listen({ port: 0, host: '127.0.0.1' });
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    /**
+     * Open the stream and collect parsed events as they arrive
+     */
+    const openStream = async (headers: Record<string, string>) => {
+      const controller = new AbortController();
+      const response = await fetch(`${baseUrl}/admin/live`, {
+        headers,
+        signal: controller.signal
+      });
+      const events: Array<{ type: string; data: any }> = [];
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+
+      (async () => {
+        let buffer = '';
+        try {
+          while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const frames = buffer.split('\n\n');
+            buffer = frames.pop()!;
+            for (const frame of frames) {
+              const type = frame.match(/^event: (.*)$/m)?.[1];
+              const data = frame.match(/^data: (.*)$/m)?.[1];
+              if (type && data) events.push({ type, data: JSON.parse(data) });
+            }
+          }
+        } catch {
+          // aborted
+        }
+      })();
+
+      const waitFor = async (predicate: (event: { type: string; data: any }) => boolean) => {
+        for (let i = 0; i < 100; i++) {
+          const found = events.find(predicate);
+          if (found) return found;
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        throw new Error('Timed out waiting for live event');
+      };
+
+      return { response, events, waitFor, close: () => controller.abort() };
+    };
+
+    it('should reject requests without an admin token', async () => {
+      const response = await app.inject({ method: 'GET', url: '/admin/live' });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should stream a call from assistant-request to end-of-call, scoped to its client', async () => {
+      const callId = 'live-feed-call';
+      const stream = await openStream(adminHeaders);
+      const other = await openStream(otherAdminHeaders);
+
+      expect(stream.response.headers.get('content-type')).toBe('text/event-stream');
+      await stream.waitFor(e => e.type === 'snapshot');
+      await other.waitFor(e => e.type === 'snapshot');
+
+      const send = (message: any) => app.inject(signedRequest('/inbound', { message }));
+      await send({ type: 'assistant-request', call: { id: callId, type: 'inboundPhoneCall', status: 'ringing', customer: { number: '+15557654321' } } });
+      await send({ type: 'status-update', status: 'in-progress', call: { id: callId } });
+      await send({ type: 'conversation-update', call: { id: callId }, messages: [{ role: 'bot', message: 'Thanks for calling.' }] });
+      await send({ type: 'end-of-call-report', call: { id: callId, status: 'ended', endedReason: 'customer-ended-call' }, summary: 'Asked about hours' });
+
+      const started = await stream.waitFor(e => e.type === 'call-started' && e.data.callId === callId);
+      expect(started.data.call.callerPhone).toBe('+15557654321');
+      expect((await stream.waitFor(e => e.type === 'status' && e.data.callId === callId)).data.status).toBe('in-progress');
+      expect((await stream.waitFor(e => e.type === 'transcript' && e.data.callId === callId)).data.turns[0].message).toBe('Thanks for calling.');
+      expect((await stream.waitFor(e => e.type === 'call-ended' && e.data.callId === callId)).data.summary).toBe('Asked about hours');
+
+      expect(other.events.some(e => e.data.callId === callId)).toBe(false);
+
+      stream.close();
+      other.close();
+    });
+
+    it('should send active calls in the snapshot', async () => {
+      const callId = 'live-feed-active';
+      liveCallService.callStarted(callId, TEST_CLIENT_ID, '+15550001234');
+
+      const stream = await openStream(adminHeaders);
+      const snapshot = await stream.waitFor(e => e.type === 'snapshot');
+
+      expect(snapshot.data.calls.map((c: any) => c.callId)).toContain(callId);
+      stream.close();
+      liveCallService.callEnded(callId, TEST_CLIENT_ID, {});
+    });
+
+    it('should unsubscribe when the dashboard disconnects', async () => {
+      const subscribersSettleAt = async (count: number) => {
+        for (let i = 0; i < 50 && liveCallService.subscriberCount() !== count; i++) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        return liveCallService.subscriberCount();
+      };
+
+      // Streams closed by earlier tests disconnect asynchronously
+      expect(await subscribersSettleAt(0)).toBe(0);
+
+      const stream = await openStream(adminHeaders);
+      await stream.waitFor(e => e.type === 'snapshot');
+      expect(liveCallService.subscriberCount()).toBe(1);
+
+      stream.close();
+      expect(await subscribersSettleAt(0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MigrationService, migrationService } from '../src/services/migration.service';
+
+describe('Database Migrations', () => {
+  let dir: string;
+  let db: Database;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'migrations-test-'));
+    db = await open({ filename: join(dir, 'test.db'), driver: sqlite3.Database });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const columns = async (table: string) => (await db.all(`PRAGMA table_info(${table})`)).map((c: any) => c.name);
+  const versions = async () => (await db.all('SELECT version FROM schema_migrations ORDER BY version')).map((r: any) => r.version);
+
+  it('should apply every migration to a new database once', async () => {
+    const applied = await migrationService.migrate(db);
+
+    expect(applied.map(m => m.version)).toEqual(migrationService.loadMigrations().map(m => m.version));
+    expect(await versions()).toEqual(applied.map(m => m.version));
+    expect(await columns('clients')).toContain('additional_context');
+    expect(await columns('callback_requests')).toContain('outbound_call_id');
+    expect(await columns('inventory')).toContain('client_id');
+
+    expect(await migrationService.migrate(db)).toEqual([]);
+  });
+
+  it('should migrate up to a version and roll back', async () => {
+    await migrationService.migrate(db, { to: 1 });
+    expect(await versions()).toEqual([1]);
+    expect(await columns('clients')).not.toContain('additional_context');
+
+    await migrationService.migrate(db, { to: 2 });
+    const rolledBack = await migrationService.rollback(db);
+
+    expect(rolledBack.map(m => m.name)).toEqual(['client_additional_context']);
+    expect(await columns('clients')).not.toContain('additional_context');
+    expect((await migrationService.status(db)).find(s => s.version === 2)!.appliedAt).toBeNull();
+
+    await migrationService.rollback(db);
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'calls'")).toBeUndefined();
+  });
+
+  it('should adopt a database created by the old schema.sql', async () => {
+    // As created before timezone, webhook_secret and control_url were added
+    await db.exec(`
+      CREATE TABLE clients (id TEXT PRIMARY KEY, name TEXT NOT NULL, company TEXT);
+      CREATE TABLE calls (id TEXT PRIMARY KEY, client_id TEXT, caller_phone TEXT, status TEXT, created_at TIMESTAMP);
+      INSERT INTO clients (id, name) VALUES ('legacy-client', 'Legacy Dealer');
+    `);
+
+    await migrationService.migrate(db);
+
+    expect(await columns('clients')).toEqual(expect.arrayContaining(['timezone', 'webhook_secret', 'vapi_assistant_id', 'additional_context']));
+    expect(await columns('calls')).toContain('control_url');
+    expect(await columns('webhook_events')).toContain('event_key');
+    expect((await db.get("SELECT timezone FROM clients WHERE id = 'legacy-client'")).timezone).toBe('America/Phoenix');
+  });
+
+  it('should leave the database as it was when a migration fails', async () => {
+    const migrationsDir = join(dir, 'migrations');
+    mkdirSync(migrationsDir);
+    writeFileSync(join(migrationsDir, '001_widgets.sql'), '-- migrate:up\nCREATE TABLE widgets (id INTEGER);\n-- migrate:down\nDROP TABLE widgets;');
+    writeFileSync(join(migrationsDir, '002_broken.sql'), '-- migrate:up\nCREATE TABLE gadgets (id INTEGER);\nALTER TABLE nowhere ADD COLUMN x TEXT;');
+
+    const runner = new MigrationService(migrationsDir);
+
+    await expect(runner.migrate(db)).rejects.toThrow(/002_broken \(up\) failed/);
+    expect(await versions()).toEqual([1]);
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'gadgets'")).toBeUndefined();
+  });
+
+  it('should refuse to roll back a migration without a down section', async () => {
+    const migrationsDir = join(dir, 'migrations');
+    mkdirSync(migrationsDir);
+    writeFileSync(join(migrationsDir, '001_one_way.sql'), '-- migrate:up\nCREATE TABLE one_way (id INTEGER);');
+
+    const runner = new MigrationService(migrationsDir);
+    await runner.migrate(db);
+
+    await expect(runner.rollback(db)).rejects.toThrow(/can't be rolled back/);
+    expect(await versions()).toEqual([1]);
+  });
+
+  it('should load seed data without duplicating it', async () => {
+    await migrationService.migrate(db);
+
+    await migrationService.seed(db);
+    await migrationService.seed(db);
+
+    expect((await db.get("SELECT name FROM clients WHERE id = 'client-portal'")).name).toBe('Tex Intel');
+    expect((await db.get('SELECT COUNT(*) AS count FROM inventory')).count).toBe(14);
+    expect((await db.get('SELECT COUNT(*) AS count FROM contacts')).count).toBe(4);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { vapiClient } from '../src/services/vapi-client.service';
+import { outboundCallbackService } from '../src/services/outbound-callback.service';
+import { createPortalUser, createTestClient } from './helpers/test-tenant';
+
+describe('Outbound Callback Calls', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'outbound-test-client';
+  const assistantId = 'outbound-assistant';
+  const phoneNumberId = 'outbound-phone';
+  const rep = 'outbound-rep';
+
+  let headers: Record<string, string>;
+  let callCount = 0;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(clientId, { name: 'Outbound Dealer', phoneNumberId });
+    await databaseService.updateClientAssistantId(clientId, assistantId);
+    headers = await createPortalUser(rep, clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const mockCreateCall = () =>
+    vi.spyOn(vapiClient, 'createCall').mockImplementation(async () => ({ id: `outbound-call-${++callCount}` }));
+
+  const createCallback = (scheduledFor?: Date) => databaseService.saveCallbackRequest({
+    clientId,
+    customerName: 'Pat Caller',
+    customerPhone: '+15551234567',
+    preferredTime: 'tomorrow at 9am',
+    reason: 'Quote on a skid steer',
+    department: 'sales',
+    scheduledFor
+  });
+
+  const callNow = async (id: number) => {
+    const response = await app.inject({ method: 'POST', url: `/client/callbacks/${id}/call`, headers });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  it('should place the call with the client assistant and callback context', async () => {
+    const createCall = mockCreateCall();
+    const id = await createCallback();
+
+    const result = await callNow(id);
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body.callback.outbound_status).toBe('dialing');
+    expect(result.body.callback.outbound_call_id).toBe(`outbound-call-${callCount}`);
+    expect(result.body.callback.events.map((e: any) => e.action)).toContain('call_placed');
+
+    const request = createCall.mock.calls[0][0];
+    expect(request.assistantId).toBe(assistantId);
+    expect(request.phoneNumberId).toBe(phoneNumberId);
+    expect(request.customer).toEqual({ number: '+15551234567', name: 'Pat Caller' });
+    expect(request.assistantOverrides!.firstMessage).toBe(
+      'Hi Pat Caller, this is Tex calling back from Outbound Dealer about Quote on a skid steer. Is now still a good time?'
+    );
+    expect(request.assistantOverrides!.variableValues.additional_context).toContain('Quote on a skid steer');
+    expect(request.assistantOverrides!.variableValues.business_hours_context).toBeTruthy();
+    expect(request.assistantOverrides!.metadata).toEqual({ callbackId: id, clientId });
+  });
+
+  it('should not dial a callback that is already being called', async () => {
+    const createCall = mockCreateCall();
+    const id = await createCallback();
+
+    await callNow(id);
+    const second = await callNow(id);
+
+    expect(second.statusCode).toBe(409);
+    expect(createCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a callback be dialed again once its end-of-call report is overdue', async () => {
+    const createCall = mockCreateCall();
+    const id = await createCallback();
+    await callNow(id);
+
+    // The report never arrives
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+
+    const list = await app.inject({ method: 'GET', url: '/client/callbacks?status=pending', headers });
+    const listed = JSON.parse(list.body).callbacks.find((cb: any) => cb.id === id);
+    expect(listed).toMatchObject({ outbound_status: 'dialing', outbound_timed_out: true });
+
+    const retry = await callNow(id);
+    expect(retry.statusCode).toBe(200);
+    expect(retry.body.callback.outbound_attempts).toBe(2);
+    expect(createCall).toHaveBeenCalledTimes(2);
+  });
+
+  it('should complete the callback when the call is answered', async () => {
+    mockCreateCall();
+    const id = await createCallback();
+    const { body } = await callNow(id);
+
+    const handled = await outboundCallbackService.handleCallEnded(body.callback.outbound_call_id, 'customer-ended-call');
+
+    expect(handled).toBe(true);
+    const callback = await databaseService.getCallbackRequest(clientId, id);
+    expect(callback.status).toBe('completed');
+    expect(callback.outbound_status).toBe('completed');
+    expect(callback.outbound_ended_reason).toBe('customer-ended-call');
+  });
+
+  it('should keep the callback pending when nobody answers, and allow another try', async () => {
+    mockCreateCall();
+    const id = await createCallback();
+    const { body } = await callNow(id);
+
+    await outboundCallbackService.handleCallEnded(body.callback.outbound_call_id, 'customer-did-not-answer');
+
+    const callback = await databaseService.getCallbackRequest(clientId, id);
+    expect(callback.status).toBe('pending');
+    expect(callback.outbound_status).toBe('failed');
+    expect((await databaseService.getCallbackEvents(id)).map((e: any) => e.action)).toContain('call_failed');
+
+    const retry = await callNow(id);
+    expect(retry.statusCode).toBe(200);
+    expect(retry.body.callback.outbound_attempts).toBe(2);
+  });
+
+  it('should record a failed attempt when Vapi rejects the call', async () => {
+    vi.spyOn(vapiClient, 'createCall').mockRejectedValue(new Error('Invalid phone number'));
+    const id = await createCallback();
+
+    const result = await callNow(id);
+
+    expect(result.statusCode).toBe(502);
+    const callback = await databaseService.getCallbackRequest(clientId, id);
+    expect(callback.status).toBe('pending');
+    expect(callback.outbound_status).toBe('failed');
+    expect(callback.outbound_ended_reason).toBe('Invalid phone number');
+  });
+
+  it('should ignore end-of-call reports for calls that were not callbacks', async () => {
+    expect(await outboundCallbackService.handleCallEnded('inbound-call', 'customer-ended-call')).toBe(false);
+  });
+
+  it('should auto-dial due unassigned callbacks once, leaving claimed ones to staff', async () => {
+    const createCall = mockCreateCall();
+    const due = await createCallback(new Date(Date.now() - 60 * 1000));
+    const claimed = await createCallback(new Date(Date.now() - 60 * 1000));
+    const later = await createCallback(new Date(Date.now() + 60 * 60 * 1000));
+    await databaseService.updatePendingCallbackRequest(claimed, { assigned_to: rep, claimed_at: new Date().toISOString() });
+
+    await outboundCallbackService.dialDue(new Date(), 1000);
+    await outboundCallbackService.dialDue(new Date(), 1000);
+
+    const dialedIds = createCall.mock.calls.map(([request]) => request.assistantOverrides!.metadata.callbackId);
+    expect(dialedIds.filter(id => id === due)).toHaveLength(1);
+    expect(dialedIds).not.toContain(claimed);
+    expect(dialedIds).not.toContain(later);
+
+    const events = await databaseService.getCallbackEvents(due);
+    expect(events.find((e: any) => e.action === 'call_placed').actor).toBe('scheduler');
+  });
+
+  it('should not auto-dial callbacks that came due long ago', async () => {
+    const createCall = mockCreateCall();
+    const recent = await createCallback(new Date(Date.now() - 3 * 60 * 60 * 1000));
+    const stale = await createCallback(new Date(Date.now() - 5 * 60 * 60 * 1000));
+
+    await outboundCallbackService.dialDue(new Date(), 1000);
+
+    const dialedIds = createCall.mock.calls.map(([request]) => request.assistantOverrides!.metadata.callbackId);
+    expect(dialedIds).toContain(recent);
+    expect(dialedIds).not.toContain(stale);
+    expect((await databaseService.getCallbackRequest(clientId, stale)).outbound_status).toBeNull();
+  });
+
+  it('should auto-dial again only when a timed-out dial never placed a call', async () => {
+    const createCall = mockCreateCall();
+    const neverPlaced = await createCallback(new Date(Date.now() - 60 * 60 * 1000));
+    const placed = await createCallback(new Date(Date.now() - 60 * 60 * 1000));
+    const longAgo = new Date(Date.now() - 40 * 60 * 1000);
+
+    // Stopped between marking the callback dialing and calling Vapi
+    await databaseService.startOutboundCallback(neverPlaced, longAgo, 30);
+    // Placed, but its end-of-call report was lost
+    await databaseService.startOutboundCallback(placed, longAgo, 30);
+    await databaseService.setOutboundCallbackCall(placed, 'lost-report-call');
+
+    await outboundCallbackService.dialDue(new Date(), 1000);
+
+    const dialedIds = createCall.mock.calls.map(([request]) => request.assistantOverrides!.metadata.callbackId);
+    expect(dialedIds).toContain(neverPlaced);
+    expect(dialedIds).not.toContain(placed);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { portalAuthService } from '../src/services/portal-auth.service';
+import { createTestClient, TEST_PASSWORD } from './helpers/test-tenant';
+
+describe('Client Portal Authentication', () => {
+  let app: FastifyInstance;
+
+  const username = 'portal-test';
+  const password = TEST_PASSWORD;
+  const otherClientId = 'portal-test-client';
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await createTestClient(otherClientId, { name: 'Other Dealer' });
+    await portalAuthService.createUser(username, password, otherClientId);
+
+    app = Fastify({ logger: false });
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const login = (user: string, pass: string) => app.inject({
+    method: 'POST',
+    url: '/client/login',
+    payload: { username: user, password: pass }
+  });
+
+  describe('Password hashing', () => {
+    it('should not store plain-text passwords', async () => {
+      const hash = await portalAuthService.hashPassword(password);
+
+      expect(hash).not.toContain(password);
+      expect(await portalAuthService.verifyPassword(password, hash)).toBe(true);
+      expect(await portalAuthService.verifyPassword('wrong', hash)).toBe(false);
+    });
+  });
+
+  describe('Login', () => {
+    it('should reject wrong passwords and unknown users', async () => {
+      expect((await login(username, 'wrong')).statusCode).toBe(401);
+      expect((await login('nobody', password)).statusCode).toBe(401);
+    });
+
+    it('should no longer accept the old hard-coded credentials', async () => {
+      expect((await login('test', 'test')).statusCode).toBe(401);
+    });
+
+    it('should return a signed token with expiry', async () => {
+      const response = await login(username, password);
+      const body = JSON.parse(response.body);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.token).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(new Date(body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+      expect(body.clientId).toBe(otherClientId);
+    });
+  });
+
+  describe('Session tokens', () => {
+    it('should scope config to the logged-in user\'s client', async () => {
+      const { token } = JSON.parse((await login(username, password)).body);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/client/config',
+        headers: { authorization: `Bearer ${token}` }
+      });
+      const body = JSON.parse(response.body);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.config.id).toBe(otherClientId);
+      expect(body.config.name).toBe('Other Dealer');
+      expect(body.config.webhook_secret).toBeUndefined();
+    });
+
+    it('should not let a client take over another client\'s phone number', async () => {
+      await createTestClient('victim-client', { name: 'Victim Dealer', phoneNumberId: 'victim-pn', phoneNumber: '+15550001111' });
+
+      const { token } = JSON.parse((await login(username, password)).body);
+      const saveConfig = (vapiPhoneNumberId: string) => app.inject({
+        method: 'POST',
+        url: '/client/config',
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: 'Other Dealer', phoneNumber: '+15550002222', vapiPhoneNumberId, enableInventory: true, enableTransfers: true }
+      });
+
+      const takeover = await saveConfig('victim-pn');
+      expect(takeover.statusCode).toBe(409);
+      expect((await databaseService.getClientByPhoneNumberId('victim-pn')).id).toBe('victim-client');
+      expect(await databaseService.addClientPhoneNumber(otherClientId, 'victim-pn', '+15550002222')).toBe(false);
+      expect((await databaseService.getClientConfig('victim-client')).phone_number).toBe('+15550001111');
+
+      // Its own number can still be mapped and updated
+      expect((await saveConfig('other-pn')).statusCode).toBe(200);
+      expect((await saveConfig('other-pn')).statusCode).toBe(200);
+      expect((await databaseService.getClientByPhoneNumberId('other-pn')).id).toBe(otherClientId);
+    });
+
+    it('should only generate a webhook secret once tools have the server secret', async () => {
+      const { token } = JSON.parse((await login(username, password)).body);
+      const rotate = () => app.inject({
+        method: 'POST',
+        url: '/client/webhook-secret',
+        headers: { authorization: `Bearer ${token}` }
+      });
+      const serverSecret = process.env.VAPI_SERVER_SECRET;
+
+      try {
+        delete process.env.VAPI_SERVER_SECRET;
+        expect((await rotate()).statusCode).toBe(409);
+        expect((await databaseService.getClientConfig(otherClientId)).webhook_secret).toBeFalsy();
+
+        process.env.VAPI_SERVER_SECRET = 'tool-server-secret';
+        const response = await rotate();
+        expect(response.statusCode).toBe(200);
+        expect((await databaseService.getClientConfig(otherClientId)).webhook_secret).toBe(JSON.parse(response.body).secret);
+      } finally {
+        if (serverSecret === undefined) delete process.env.VAPI_SERVER_SECRET;
+        else process.env.VAPI_SERVER_SECRET = serverSecret;
+      }
+    });
+
+    it('should reject tampered tokens', async () => {
+      const { token } = JSON.parse((await login(username, password)).body);
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ sid: 'someone-else', exp: Date.now() + 60000 })).toString('base64url');
+
+      expect(await portalAuthService.verifyToken(`${forged}.${signature}`)).toBeNull();
+      expect(await portalAuthService.verifyToken(`${payload}.${signature}x`)).toBeNull();
+      expect(await portalAuthService.verifyToken('simple-token-123')).toBeNull();
+    });
+
+    it('should revoke the token on logout', async () => {
+      const { token } = JSON.parse((await login(username, password)).body);
+      const headers = { authorization: `Bearer ${token}` };
+
+      const logout = await app.inject({ method: 'POST', url: '/client/logout', headers });
+      const afterLogout = await app.inject({ method: 'GET', url: '/client/config', headers });
+
+      expect(logout.statusCode).toBe(200);
+      expect(afterLogout.statusCode).toBe(401);
+    });
+
+    it('should revoke sessions when the password changes', async () => {
+      const { token } = JSON.parse((await login(username, password)).body);
+
+      await portalAuthService.setPassword(username, password);
+
+      expect(await portalAuthService.verifyToken(token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { toolRoutes } from '../src/routes/tools';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { rentalQuoteService } from '../src/services/rental-quote.service';
+import { callTool, createPortalUser, createTestClient, TestClient } from './helpers/test-tenant';
+import { inDays } from './helpers/dates';
+
+describe('Rental Quotes', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'quote-test-client';
+  const callId = 'quote-call';
+
+  let client: TestClient;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    client = await createTestClient(clientId, { name: 'Quote Yard', enableTransfers: false, phoneNumberId: 'quote-phone', webhookSecret: 'quote-test-secret' });
+    await databaseService.createInventoryItem(clientId, { model: 'Cat 305 CR', category: 'Mini Excavator', available: 2, pricePerDay: 325, pricePerWeek: 1100, pricePerMonth: 3000 });
+    await databaseService.createInventoryItem(clientId, { model: 'Bobcat T76', category: 'Skid Steer', available: 1, pricePerDay: 295 });
+    await databaseService.saveClientRentalPricing(clientId, {
+      damageWaiverPercent: 10,
+      taxPercent: 8,
+      deliveryZones: [{ maxMiles: 25, fee: 150, label: 'local' }, { maxMiles: 50, fee: 275 }]
+    });
+    headers = await createPortalUser('quote', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(toolRoutes);
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const tool = (args: Record<string, any>) => callTool(app, client, 'get_rental_quote', args, callId);
+
+  it('should charge the cheapest mix of daily, weekly and monthly rates', () => {
+    const item = { price_per_day: 100, price_per_week: 400, price_per_month: 1200 };
+
+    expect(rentalQuoteService.charge(item, 3)).toEqual({ months: 0, weeks: 0, days: 3, amount: 300 });
+    expect(rentalQuoteService.charge(item, 5)).toEqual({ months: 0, weeks: 1, days: 0, amount: 400 });
+    expect(rentalQuoteService.charge(item, 10)).toEqual({ months: 0, weeks: 1, days: 3, amount: 700 });
+    expect(rentalQuoteService.charge(item, 30)).toEqual({ months: 1, weeks: 0, days: 2, amount: 1400 });
+    expect(rentalQuoteService.charge({ price_per_day: 100 }, 10)).toEqual({ months: 0, weeks: 0, days: 10, amount: 1000 });
+  });
+
+  it('should quote a month with waiver, delivery zone and tax, and record it on the call', async () => {
+    const result = await tool({ model: 'cat 305 cr', duration: 1, unit: 'month', delivery: true, delivery_miles: 30 });
+
+    expect(result).toContain('the rental is $3,000 (the monthly rate of $3,000)');
+    expect(result).toContain('10% damage waiver adds $300');
+    expect(result).toContain('Delivery and pickup is $275');
+    expect(result).toContain('Tax is $286, for a total of $3,861');
+    expect(result).toContain('do not discount');
+
+    const response = await app.inject({ method: 'GET', url: `/client/quotes?callId=${callId}`, headers });
+    const [quote] = JSON.parse(response.body).quotes;
+    expect(quote).toMatchObject({
+      call_id: callId,
+      model: 'Cat 305 CR',
+      rental_days: 28,
+      delivery_miles: 30,
+      rental_amount: 3000,
+      damage_waiver_amount: 300,
+      delivery_fee: 275,
+      tax_amount: 286,
+      total: 3861
+    });
+    expect(quote.breakdown).toMatchObject({ months: 1, weeks: 0, days: 0, damageWaiverPercent: 10, taxPercent: 8, deliveryZone: 50 });
+  });
+
+  it('should quote rental dates per unit, without the waiver when declined', async () => {
+    const result = await tool({ model: 'Cat 305 CR', start_date: inDays(10), end_date: inDays(19), quantity: 2, damage_waiver: false });
+
+    expect(result).toContain('For 2 Cat 305 CRs from');
+    expect(result).toContain('the rental is $4,150 (the weekly rate of $1,100 plus 3 days at $325 each)');
+    expect(result).not.toContain('damage waiver');
+    expect(result).toContain('Tax is $332, for a total of $4,482');
+  });
+
+  it('should list delivery zones when the distance is unknown or too far', async () => {
+    const unknown = await tool({ model: 'Bobcat T76', duration: 3, delivery: true });
+    expect(unknown).toContain('the rental is $885 (3 days at $295)');
+    expect(unknown).toContain("it's $150 within 25 miles, $275 within 50 miles of our yard");
+
+    expect(await tool({ model: 'Bobcat T76', duration: 3, delivery_miles: 80 })).toContain('80 miles is past our delivery zones');
+    expect(await tool({ model: 'Bobcat T76', duration: 2, unit: 'days', delivery_miles: 10 })).toContain('Delivery and pickup (local) is $150');
+  });
+
+  it('should ask again for unknown machines and lengths', async () => {
+    expect(await tool({ model: 'Kubota KX040' })).toContain("We don't have a Kubota KX040");
+    expect(await tool({ model: 'Bobcat T76', duration: 2, unit: 'fortnight' })).toContain('How long do they need it?');
+    expect(await tool({ model: 'Bobcat T76', duration: 2, unit: 'month', quantity: 0 })).toContain('whole number');
+    expect(await tool({ model: 'Bobcat T76', start_date: inDays(5), end_date: inDays(3) })).toContain('before the start date');
+  });
+
+  it('should save rental pricing from the portal config', async () => {
+    const save = (rentalPricing: any) => app.inject({
+      method: 'POST',
+      url: '/client/config',
+      headers,
+      payload: { name: 'Quote Yard', enableInventory: true, enableTransfers: false, rentalPricing }
+    });
+
+    const invalid = await save({ damageWaiverPercent: 150, taxPercent: null, deliveryZones: [] });
+    expect(invalid.statusCode).toBe(400);
+    expect(JSON.parse(invalid.body).message).toMatch(/Damage waiver must be a percentage/);
+
+    const duplicate = await save({ damageWaiverPercent: 12, taxPercent: 8.6, deliveryZones: [{ maxMiles: 25, fee: 100 }, { maxMiles: 25, fee: 120 }] });
+    expect(JSON.parse(duplicate.body).message).toMatch(/two delivery zones for 25 miles/);
+
+    const saved = await save({ damageWaiverPercent: 12, taxPercent: 8.6, deliveryZones: [{ maxMiles: 40, fee: 200 }, { maxMiles: 20, fee: 125, label: 'city' }] });
+    expect(saved.statusCode).toBe(200);
+    expect(JSON.parse(saved.body).config.rental_pricing).toEqual({
+      damageWaiverPercent: 12,
+      taxPercent: 8.6,
+      deliveryZones: [{ maxMiles: 20, fee: 125, label: 'city' }, { maxMiles: 40, fee: 200 }]
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { toolRoutes } from '../src/routes/tools';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { reservationService, RESERVATION_HOLD_HOURS } from '../src/services/reservation.service';
+import { callTool, createPortalUser, createTestClient, TestClient } from './helpers/test-tenant';
+import { inDays } from './helpers/dates';
+
+describe('Rental Reservations', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'rental-test-client';
+  const callId = 'rental-call';
+
+  let client: TestClient;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    client = await createTestClient(clientId, { name: 'Rental Yard', enableTransfers: false, phoneNumberId: 'rental-phone', webhookSecret: 'rental-test-secret' });
+    await databaseService.createInventoryItem(clientId, { model: 'Cat 305 CR', category: 'Mini Excavator', available: 2, pricePerDay: 325 });
+    await databaseService.createInventoryItem(clientId, { model: 'Bobcat T76', category: 'Skid Steer', available: 1, pricePerDay: 295 });
+    headers = await createPortalUser('rental', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(toolRoutes);
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const tool = (name: string, args: Record<string, any>) => callTool(app, client, name, args, callId);
+
+  const post = async (url: string) => {
+    const response = await app.inject({ method: 'POST', url, headers, payload: {} });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  const reservations = async (status = 'all') => {
+    const response = await app.inject({ method: 'GET', url: `/client/reservations?status=${status}`, headers });
+    return JSON.parse(response.body).reservations;
+  };
+
+  it('should hold units so check_inventory stops offering them for those dates', async () => {
+    const before = await tool('check_inventory', { query: 'mini excavator', start_date: inDays(10), end_date: inDays(12), jobsite: 'Mesa' });
+    expect(before).toContain('we have 2 of these');
+    expect(before).toContain('job at Mesa');
+
+    const held = await tool('reserve_equipment', {
+      model: 'cat 305 cr',
+      start_date: inDays(10),
+      end_date: inDays(12),
+      quantity: 2,
+      customer_name: 'Dana Ruiz',
+      customer_phone: '602-555-0199',
+      jobsite: 'Mesa'
+    });
+    expect(held).toContain('tentative hold on 2 of the Cat 305 CR');
+
+    const overlapping = await tool('check_inventory', { query: 'mini excavator', start_date: inDays(12), end_date: inDays(14) });
+    expect(overlapping).toContain('booked');
+    expect(overlapping).not.toContain('$325 a day');
+
+    const later = await tool('check_inventory', { query: 'mini excavator', start_date: inDays(13), end_date: inDays(14) });
+    expect(later).toContain('Cat 305 CR at $325 a day');
+
+    const [reservation] = await reservations('hold');
+    expect(reservation).toMatchObject({
+      model: 'Cat 305 CR',
+      quantity: 2,
+      start_date: inDays(10),
+      end_date: inDays(12),
+      customer_name: 'Dana Ruiz',
+      jobsite: 'Mesa',
+      call_id: callId,
+      expired: false
+    });
+  });
+
+  it('should not hold more units than are free', async () => {
+    await tool('reserve_equipment', { model: 'Bobcat T76', start_date: inDays(20), end_date: inDays(21), customer_name: 'A', customer_phone: '1' });
+
+    const result = await tool('reserve_equipment', { model: 'Bobcat T76', start_date: inDays(21), end_date: inDays(22), customer_name: 'B', customer_phone: '2' });
+
+    expect(result).toContain('booked');
+    expect(result).toContain('Nothing was held');
+    expect((await reservations()).filter((r: any) => r.model === 'Bobcat T76')).toHaveLength(1);
+  });
+
+  it('should book fleet rows of the same model separately', async () => {
+    const first = await databaseService.createInventoryItem(clientId, { model: 'Cat 320', category: 'Excavator', available: 1, pricePerDay: 650, stockNumber: 'A1' });
+    const second = await databaseService.createInventoryItem(clientId, { model: 'Cat 320', category: 'Excavator', available: 1, pricePerDay: 650, stockNumber: 'B2' });
+    const dates = { start_date: inDays(30), end_date: inDays(31) };
+
+    expect(await tool('reserve_equipment', { model: 'A1', ...dates, customer_name: 'A', customer_phone: '1' })).toContain('tentative hold');
+
+    const fleet = await databaseService.getClientInventory(clientId);
+    const window = { startDate: dates.start_date, endDate: dates.end_date };
+    const [a1, b2] = await reservationService.applyWindow(clientId, fleet.filter(item => item.model === 'Cat 320'), window);
+    expect([a1.id, b2.id]).toEqual([first, second]);
+    expect(a1).toMatchObject({ available: 0, booked: 1 });
+    expect(b2).toMatchObject({ available: 1, booked: 0 });
+
+    expect(await tool('reserve_equipment', { model: 'B2', ...dates, customer_name: 'B', customer_phone: '2' })).toContain('tentative hold');
+  });
+
+  it('should not let two callers hold the last unit at once', async () => {
+    const startDate = inDays(50);
+    const hold = (customerName: string) => reservationService.hold(clientId, { model: 'Bobcat T76', startDate, endDate: startDate, customerName });
+
+    const results = await Promise.all([hold('First'), hold('Second'), hold('Third')]);
+
+    expect(results.filter(result => result.ok)).toHaveLength(1);
+    expect(results.filter(result => !result.ok).map(result => result.message)).toEqual([
+      expect.stringContaining('is booked'),
+      expect.stringContaining('is booked')
+    ]);
+  });
+
+  it('should ask again for unusable dates', async () => {
+    expect(await tool('check_inventory', { query: 'skid steer', start_date: 'next tuesday' })).toContain('YYYY-MM-DD');
+    expect(await tool('check_inventory', { query: 'skid steer', start_date: inDays(-3), end_date: inDays(2) })).toContain('already started');
+    expect(await tool('reserve_equipment', { model: 'Bobcat T76', start_date: inDays(5), end_date: inDays(3) })).toContain('before the start date');
+  });
+
+  it('should let staff confirm and cancel holds', async () => {
+    const [hold] = (await reservations('hold')).filter((r: any) => r.model === 'Cat 305 CR');
+
+    const confirmed = await post(`/client/reservations/${hold.id}/confirm`);
+    expect(confirmed.statusCode).toBe(200);
+    expect(confirmed.body.reservation).toMatchObject({ status: 'confirmed', confirmed_by: 'rental' });
+    expect((await post(`/client/reservations/${hold.id}/confirm`)).statusCode).toBe(409);
+
+    const cancelled = await post(`/client/reservations/${hold.id}/cancel`);
+    expect(cancelled.body.reservation.status).toBe('cancelled');
+
+    const free = await tool('check_inventory', { query: 'mini excavator', start_date: inDays(10), end_date: inDays(12) });
+    expect(free).toContain('we have 2 of these');
+  });
+
+  it('should release expired holds and re-check availability on confirm', async () => {
+    const startDate = inDays(40);
+    const longAgo = new Date(Date.now() - (RESERVATION_HOLD_HOURS + 1) * 60 * 60 * 1000);
+
+    const expired = await reservationService.hold(clientId, { model: 'Bobcat T76', startDate, endDate: startDate, customerName: 'Early' }, longAgo);
+    expect(expired.ok).toBe(true);
+
+    // The lapsed hold no longer blocks the only unit
+    const current = await reservationService.hold(clientId, { model: 'Bobcat T76', startDate, endDate: startDate, customerName: 'Later' });
+    expect(current.ok).toBe(true);
+
+    const expiredId = (expired as any).reservation.id;
+    expect((await reservations('hold')).find((r: any) => r.id === expiredId).expired).toBe(true);
+
+    const confirm = await post(`/client/reservations/${expiredId}/confirm`);
+    expect(confirm.statusCode).toBe(409);
+    expect(confirm.body.message).toContain('Only 0 Bobcat T76 free');
+  });
+
+  it('should keep reservations to the client that owns them', async () => {
+    const otherId = 'rental-other';
+    await createTestClient(otherId, { name: 'Other Yard', enableTransfers: false });
+    const otherHeaders = await createPortalUser('rental-other', otherId);
+
+    const [reservation] = await reservations();
+    const response = await app.inject({ method: 'POST', url: `/client/reservations/${reservation.id}/cancel`, headers: otherHeaders, payload: {} });
+
+    expect(response.statusCode).toBe(404);
+    const list = await app.inject({ method: 'GET', url: '/client/reservations', headers: otherHeaders });
+    expect(JSON.parse(list.body).reservations).toEqual([]);
+  });
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/reservations' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { toolRoutes } from '../src/routes/tools';
+import { clientRoutes } from '../src/routes/client';
+import { databaseService } from '../src/services/database.service';
+import { callEventsService } from '../src/services/call-events.service';
+import { callTool, createPortalUser, createTestClient, TestClient } from './helpers/test-tenant';
+
+describe('Sales Listings', () => {
+  let app: FastifyInstance;
+
+  const clientId = 'sales-test-client';
+  const phoneNumberId = 'sales-phone';
+  let callNumber = 0;
+  const newCallId = () => `sales-call-${++callNumber}`;
+
+  let client: TestClient;
+  let headers: Record<string, string>;
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    await databaseService.init();
+    client = await createTestClient(clientId, { name: 'Sales Yard', enableTransfers: false, phoneNumberId, webhookSecret: 'sales-test-secret' });
+
+    const lot = [
+      { stockNumber: 'U1042', model: 'Cat 336', category: 'Excavator', year: 2019, condition: 'Good', askingPrice: 189000, hours: 4200, serialNumber: 'CAT336', location: 'our Phoenix yard', photosUrl: 'https://example.com/u1042' },
+      { stockNumber: 'U1043', model: 'Cat 320', category: 'Excavator', year: 2017, askingPrice: 118500, hours: 6100 },
+      { stockNumber: 'U1044', model: 'Bobcat T76', category: 'Skid Steer', year: 2021, askingPrice: 62000, hours: 900 },
+      { stockNumber: 'U1045', model: 'Cat D6T', category: 'Dozer', year: 2015, askingPrice: 145000, hours: 9800 }
+    ];
+    for (const listing of lot) {
+      ids[listing.model] = await databaseService.createSalesListing(clientId, listing);
+    }
+    await databaseService.updateSalesListing(clientId, ids['Cat 320'], { status: 'pending' });
+    await databaseService.updateSalesListing(clientId, ids['Cat D6T'], { status: 'sold' });
+
+    headers = await createPortalUser('sales', clientId);
+
+    app = Fastify({ logger: false });
+    await app.register(toolRoutes);
+    await app.register(clientRoutes, { prefix: '/client' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const checkSales = (callId: string, args: Record<string, any>) => callTool(app, client, 'check_sales_inventory', args, callId);
+
+  const endCall = (callId: string, result: any) => callEventsService.processEndOfCallReport({
+    type: 'end-of-call-report',
+    call: { id: callId, phoneNumberId, status: 'ended', endedReason: 'customer-ended-call' },
+    summary: 'Asked about a machine for sale',
+    artifact: { structuredOutputs: { output: { result } } }
+  } as any);
+
+  const linkedTo = async (callId: string) =>
+    (await databaseService.getCallSalesListings([callId])).map(listing => [listing.model, listing.source]);
+
+  it('should describe machines for sale with asking price, hours and location', async () => {
+    const result = await checkSales(newCallId(), { query: 'used Caterpillar three thirty six' });
+
+    expect(result).toContain("the 2019 Cat 336 for $189,000 - 4,200 hours on the meter, good condition, stock number U1042 - it's at our Phoenix yard");
+    expect(result).toContain('photos: https://example.com/u1042');
+    expect(result).toContain('never negotiate');
+    expect(result).not.toContain('Cat 320');
+  });
+
+  it('should leave out sold machines and flag pending deals', async () => {
+    const result = await checkSales(newCallId(), { query: 'excavators' });
+    expect(result).toContain('Cat 336');
+    expect(result).toContain("Cat 320 for $118,500 - 6,100 hours on the meter, stock number U1043 - there's a deal pending on it");
+
+    expect(await checkSales(newCallId(), { query: 'dozer' })).toContain("we don't have any dozer for sale right now");
+  });
+
+  it('should only offer machines within the caller\'s budget', async () => {
+    const result = await checkSales(newCallId(), { query: '', max_price: '150,000' });
+    expect(result).toContain('Cat 320');
+    expect(result).toContain('Bobcat T76');
+    expect(result).not.toContain('Cat 336');
+
+    expect(await checkSales(newCallId(), { query: 'excavator', max_price: 100000 }))
+      .toContain("We don't have any excavator for sale at $100,000 or less. The lowest priced is the 2017 Cat 320 at $118,500");
+    expect(await checkSales(newCallId(), { query: 'excavator', max_price: 'cheap' })).toContain('max_price has to be a dollar amount');
+  });
+
+  it('should link a sales call to the listings it was about', async () => {
+    // Offered during the call, then named by stock number in the analysis
+    const offeredCall = newCallId();
+    await checkSales(offeredCall, { query: 'Cat 336' });
+    await endCall(offeredCall, { intent: { category: 'sales', listings: ['u1044'] } });
+    expect(await linkedTo(offeredCall)).toEqual([['Cat 336', 'offered'], ['Bobcat T76', 'mentioned']]);
+
+    // Nothing offered: the machine the caller asked about
+    const askedCall = newCallId();
+    await endCall(askedCall, { intent: { category: 'sales' }, machine: { make: 'Caterpillar', model: '336' } });
+    expect(await linkedTo(askedCall)).toEqual([['Cat 336', 'mentioned']]);
+
+    // Other intents are left alone
+    const rentalCall = newCallId();
+    await endCall(rentalCall, { intent: { category: 'rental' }, machine: { make: 'Cat', model: '336' } });
+    expect(await linkedTo(rentalCall)).toEqual([]);
+
+    const response = await app.inject({ method: 'GET', url: `/client/sales-listings/calls?listingId=${ids['Cat 336']}`, headers });
+    const calls = JSON.parse(response.body).calls;
+    expect(calls.map((call: any) => call.call_id)).toEqual(expect.arrayContaining([offeredCall, askedCall]));
+    expect(calls.find((call: any) => call.call_id === askedCall)).toMatchObject({ intent_category: 'sales', source: 'mentioned' });
+  });
+
+  it('should manage listings from the portal', async () => {
+    const create = (payload: any) => app.inject({
+      method: 'POST',
+      url: '/client/sales-listings',
+      headers,
+      payload: { model: 'Kubota SVL75', category: 'Skid Steer', askingPrice: 54000, ...payload }
+    });
+
+    expect(JSON.parse((await create({ askingPrice: 0 })).body).message).toMatch(/askingPrice must be more than 0/);
+    expect(JSON.parse((await create({ photosUrl: 'photos.example.com' })).body).message).toMatch(/photosUrl must be a web address/);
+    expect((await create({ stockNumber: 'U1042' })).statusCode).toBe(409);
+
+    const created = await create({ hours: 1200, serialNumber: 'KBT', photosUrl: 'https://example.com/svl75' });
+    expect(created.statusCode).toBe(200);
+    const { listing } = JSON.parse(created.body);
+    expect(listing).toMatchObject({ asking_price: 54000, hours: 1200, status: 'for_sale', photos_url: 'https://example.com/svl75' });
+
+    const sold = await app.inject({ method: 'POST', url: `/client/sales-listings/${listing.id}`, headers, payload: { status: 'sold' } });
+    expect(JSON.parse(sold.body).listing.sold_at).toBeTruthy();
+
+    const listed = await app.inject({ method: 'GET', url: '/client/sales-listings', headers });
+    expect(JSON.parse(listed.body).listings.map((l: any) => l.id)).not.toContain(listing.id);
+
+    const missing = await app.inject({ method: 'POST', url: '/client/sales-listings/999999', headers, payload: { askingPrice: 1 } });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should require a login', async () => {
+    const response = await app.inject({ method: 'GET', url: '/client/sales-listings' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,447 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { newDb } from 'pg-mem';
+import { SqliteRepository } from '../src/repositories/sqlite.repository';
+import { PostgresRepository } from '../src/repositories/postgres.repository';
+import { StorageRepository, loadStorageSettings } from '../src/repositories/storage.repository';
+import { createDatabaseService } from '../src/services/database.service';
+
+/**
+ * The same behaviour is expected of every storage driver; PostgreSQL runs on
+ * pg-mem, an in-process stand-in
+ */
+const drivers: Array<[string, () => { repository: StorageRepository; cleanup: () => void }]> = [
+  ['sqlite', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'storage-test-'));
+    return {
+      repository: new SqliteRepository(join(dir, 'test.db')),
+      cleanup: () => rmSync(dir, { recursive: true, force: true })
+    };
+  }],
+  ['postgres', () => {
+    const mem = newDb();
+    // pg-mem has no table locks (the migration runner takes one)
+    mem.public.interceptQueries(sql => /^\s*LOCK TABLE/i.test(sql) ? [] : null);
+    const { Pool } = mem.adapters.createPg();
+    return {
+      repository: new PostgresRepository({ pool: new Pool() }),
+      cleanup: () => {}
+    };
+  }]
+];
+
+describe.each(drivers)('Storage repository (%s)', (_driver, create) => {
+  let repository: StorageRepository;
+  let cleanup: () => void;
+
+  beforeEach(async () => {
+    ({ repository, cleanup } = create());
+    await repository.init();
+  });
+
+  afterEach(async () => {
+    await repository.close();
+    cleanup();
+  });
+
+  it('should migrate and seed a new database', async () => {
+    const status = await repository.migrationStatus();
+    expect(status.length).toBeGreaterThan(0);
+    expect(status.every(m => m.appliedAt)).toBe(true);
+
+    expect(await repository.getAllInventory()).toHaveLength(14);
+    expect((await repository.getClientById('client-portal')).name).toBe('Tex Intel');
+
+    // Seeding again changes nothing
+    await repository.seed();
+    expect(await repository.getAllContacts()).toHaveLength(4);
+  });
+
+  it('should track a call from start to end-of-call report', async () => {
+    await repository.recordCallStart({ id: 'call-1', clientId: 'client-portal', callerPhone: '+14805551234', callType: 'inboundPhoneCall', controlUrl: 'https://control/1' });
+    await repository.updateCallStatus({ id: 'call-1', status: 'in-progress', at: new Date('2026-01-01T12:00:00Z') });
+    await repository.updateCallStatus({ id: 'call-1', status: 'ended', at: new Date('2026-01-01T12:05:00Z'), endedReason: 'customer-ended-call' });
+
+    let call = await repository.getCall('call-1');
+    expect(call.status).toBe('ended');
+    expect(call.duration_seconds).toBe(300);
+    expect(call.control_url).toBe('https://control/1');
+    expect(new Date(call.started_at).toISOString()).toBe('2026-01-01T12:00:00.000Z');
+
+    await repository.saveCall({ id: 'call-1', status: 'ended', summary: 'Wants a skid steer', cost: 0.15, successScore: 8 });
+    await repository.saveStructuredData('call-1', { caller: { name: 'Bob' }, intent: { category: 'rental' }, machine: { make: 'Bobcat' } });
+
+    call = await repository.getCall('call-1');
+    expect(call.client_id).toBe('client-portal');
+    expect(call.summary).toBe('Wants a skid steer');
+    expect(call.cost_total).toBe(0.15);
+    expect(call.intent_category).toBe('rental');
+    expect(await repository.hasStructuredData('call-1')).toBe(true);
+
+    expect((await repository.getRecentCalls(10, 'client-portal')).map(c => c.id)).toEqual(['call-1']);
+    expect(await repository.getCallsByIds(['call-1', 'missing'])).toHaveLength(1);
+    expect((await repository.getBillingSummary({ clientId: 'client-portal' })).totalCost).toBe(0.15);
+  });
+
+  it('should report daily stats and intent breakdown', async () => {
+    await repository.saveCall({ id: 'call-a', clientId: 'client-portal', status: 'ended', successScore: 6, cost: 1 });
+    await repository.saveCall({ id: 'call-b', clientId: 'client-portal', status: 'ended', successScore: 8, cost: 2 });
+    await repository.saveStructuredData('call-a', { intent: { category: 'sales' } });
+    await repository.saveStructuredData('call-b', { intent: { category: 'sales' } });
+
+    const [today] = await repository.getDailyStats(7, 'client-portal');
+    expect(today.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(today.total_calls).toBe(2);
+    expect(today.completed_calls).toBe(2);
+    expect(today.total_cost).toBe(3);
+    expect(today.avg_success_score).toBe(7);
+
+    expect(await repository.getIntentBreakdown('client-portal')).toEqual([
+      expect.objectContaining({ intent_category: 'sales', count: 2, avg_success_score: 7 })
+    ]);
+  });
+
+  it('should store only the new tail of a conversation', async () => {
+    await repository.recordCallStart({ id: 'call-2' });
+
+    expect(await repository.saveCallMessages('call-2', [{ role: 'bot', message: 'Hi' }, { role: 'user', message: 'I need' }])).toBe(2);
+    expect(await repository.saveCallMessages('call-2', [{ role: 'bot', message: 'Hi' }, { role: 'user', message: 'I need a loader' }, { role: 'bot', message: 'Sure' }])).toBe(2);
+
+    expect((await repository.getCallMessages('call-2')).map(m => m.message)).toEqual(['Hi', 'I need a loader', 'Sure']);
+  });
+
+  it('should process each webhook event once', async () => {
+    const first = await repository.recordWebhookEvent({ callId: 'call-3', eventType: 'end-of-call-report', eventKey: 'end-of-call-report', payload: '{}' });
+    const again = await repository.recordWebhookEvent({ callId: 'call-3', eventType: 'end-of-call-report', eventKey: 'end-of-call-report', payload: '{}' });
+    expect(again).toEqual(first);
+
+    expect(await repository.claimWebhookEvent(first.id, 5)).toBe(true);
+    expect(await repository.claimWebhookEvent(first.id, 5)).toBe(false);
+    await repository.finishWebhookEvent(first.id, 'processed');
+
+    const event = await repository.getWebhookEvent(first.id);
+    expect(event.status).toBe('processed');
+    expect(event.deliveries).toBe(2);
+    expect(event.processed_at).toBeTruthy();
+    expect(await repository.getWebhookEvents({ callId: 'call-3' })).toHaveLength(1);
+  });
+
+  it('should search inventory and contacts case-insensitively', async () => {
+    const skidSteers = await repository.searchInventoryWithVariations(['skid steer', 'SKID']);
+    expect(skidSteers).toHaveLength(6);
+    expect(skidSteers.every(item => typeof item.available === 'number')).toBe(true);
+
+    await repository.updateInventoryAvailability('Cat D6', 2);
+    expect((await repository.searchInventory('cat d6'))[0].available).toBe(2);
+    expect(await repository.getInventoryByCategory('dozer')).toHaveLength(2);
+
+    // The seeded fleet is Tex Intel's; other clients don't see it
+    expect(await repository.searchInventoryWithVariations(['skid steer'], 'client-portal')).toHaveLength(6);
+    expect(await repository.getInventoryByCategory('dozer', 'client-portal')).toHaveLength(2);
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+    expect(await repository.searchInventoryWithVariations(['skid steer'], 'acme')).toEqual([]);
+    expect(await repository.getAvailableInventory('acme')).toEqual([]);
+    expect(await repository.getInventoryByCategory('dozer', 'acme')).toEqual([]);
+
+    await repository.updateContact('+15125559999', { email: 'bob@example.com' });
+    const [bob] = await repository.searchContacts('austin');
+    expect(bob.email).toBe('bob@example.com');
+    expect(bob.total_calls).toBe(1);
+  });
+
+  it('should add, edit and retire fleet items', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+    const id = await repository.createInventoryItem('acme', { stockNumber: 'SS-12', model: 'Takeuchi TL12', category: 'Skid Steer', available: 2, pricePerDay: 425, year: 2024, liftCapacity: 3750, fuelType: 'Diesel' });
+
+    expect(await repository.updateInventoryItem('acme', id, { price_per_day: 450, specs: '111hp', horsepower: 111, attachments: 'auger' })).toBe(true);
+    expect(await repository.getInventoryItem('acme', id)).toMatchObject({
+      client_id: 'acme', stock_number: 'SS-12', price_per_day: 450, specs: '111hp', condition: null,
+      lift_capacity: 3750, horsepower: 111, dig_depth: null, fuel_type: 'Diesel', attachments: 'auger'
+    });
+    expect(await repository.getInventoryItem('client-portal', id)).toBeUndefined();
+    expect(await repository.updateInventoryItem('client-portal', id, { available: 0 })).toBe(false);
+
+    expect(await repository.retireInventoryItem('acme', id)).toBe(true);
+    expect(await repository.retireInventoryItem('acme', id)).toBe(false);
+    expect(await repository.updateInventoryItem('acme', id, { available: 0 })).toBe(false);
+    expect(await repository.searchInventoryWithVariations(['skid steer'], 'acme')).toEqual([]);
+    expect(await repository.getClientInventory('acme')).toEqual([]);
+    expect((await repository.getClientInventory('acme', { includeRetired: true }))[0].retired_at).toBeTruthy();
+  });
+
+  it('should replace search aliases per client', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+
+    await repository.saveInventoryAliases('acme', [{ alias: 'hoe', canonical: 'backhoe' }, { alias: 'big cat', canonical: 'Cat 336' }]);
+    expect(await repository.getInventoryAliases('acme')).toEqual([{ alias: 'big cat', canonical: 'Cat 336' }, { alias: 'hoe', canonical: 'backhoe' }]);
+
+    await repository.saveInventoryAliases('acme', [{ alias: 'hoe', canonical: 'Case 580' }]);
+    expect(await repository.getInventoryAliases('acme')).toEqual([{ alias: 'hoe', canonical: 'Case 580' }]);
+    expect(await repository.getInventoryAliases('client-portal')).toEqual([]);
+  });
+
+  it('should book reservations and guard status changes', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+    const itemId = await repository.createInventoryItem('acme', { model: 'JLG 450AJ', category: 'Boom Lift', available: 3, pricePerDay: 390 });
+    const now = new Date('2030-01-01T12:00:00Z');
+    const hold = (startDate: string, endDate: string, holdExpiresAt: Date) =>
+      repository.createReservation({ clientId: 'acme', inventoryId: itemId, quantity: 1, startDate, endDate, customerName: 'Sam', holdExpiresAt });
+
+    const held = await hold('2030-02-01', '2030-02-05', new Date('2030-01-03T12:00:00Z'));
+    await hold('2030-02-04', '2030-02-06', new Date('2029-12-31T12:00:00Z'));   // hold already lapsed
+    await hold('2030-03-01', '2030-03-02', new Date('2030-01-03T12:00:00Z'));
+
+    const booked = await repository.getBookedReservations('acme', '2030-02-05', '2030-02-10', now);
+    expect(booked.map(r => r.id)).toEqual([held]);
+    expect(booked[0]).toMatchObject({ inventory_id: itemId, model: 'JLG 450AJ', quantity: 1 });
+
+    expect(await repository.updateReservationStatus(held, 'hold', { status: 'confirmed', confirmed_by: 'pat', confirmed_at: now.toISOString() })).toBe(true);
+    expect(await repository.updateReservationStatus(held, 'hold', { status: 'cancelled' })).toBe(false);
+    expect(await repository.getReservation('acme', held)).toMatchObject({ status: 'confirmed', confirmed_by: 'pat', model: 'JLG 450AJ' });
+    expect(await repository.getReservation('client-portal', held)).toBeUndefined();
+
+    expect((await repository.getReservations('acme')).map(r => r.start_date)).toEqual(['2030-02-01', '2030-02-04', '2030-03-01']);
+    expect(await repository.getReservations('acme', { status: 'confirmed' })).toHaveLength(1);
+
+    // A hold is only placed if it fits alongside what's already booked on its dates
+    const request = { clientId: 'acme', inventoryId: itemId, quantity: 2, startDate: '2030-02-05', endDate: '2030-02-05', holdExpiresAt: new Date('2030-01-03T12:00:00Z') };
+    const seen: number[][] = [];
+    const fits = (booked: any[]) => {
+      seen.push(booked.map(r => r.id));
+      return booked.reduce((total, r) => total + r.quantity, 0) + 2 <= 3;
+    };
+    const placed = await repository.holdReservation(request, now, fits);
+    expect(placed).toEqual(expect.any(Number));
+    expect(await repository.holdReservation(request, now, fits)).toBeNull();
+    expect(seen).toEqual([[held], [held, placed]]);
+    expect(await repository.getReservations('acme')).toHaveLength(4);
+  });
+
+  it('should save rental pricing and quotes', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+    const itemId = await repository.createInventoryItem('acme', { model: 'Genie GS-1930', category: 'Scissor Lift', available: 4, pricePerDay: 95, pricePerWeek: 310, pricePerMonth: 720 });
+    expect(await repository.getInventoryItem('acme', itemId)).toMatchObject({ price_per_day: 95, price_per_week: 310, price_per_month: 720 });
+    expect((await repository.searchInventoryWithVariations(['scissor'], 'acme'))[0]).toMatchObject({ price_per_week: 310, price_per_month: 720 });
+
+    await repository.saveClientRentalPricing('acme', { damageWaiverPercent: 12.5, taxPercent: null, deliveryZones: [{ maxMiles: 50, fee: 250 }, { maxMiles: 20, fee: 125, label: 'city' }] });
+    expect(await repository.getClientRentalPricing('acme')).toEqual({
+      damage_waiver_percent: 12.5,
+      rental_tax_percent: null,
+      delivery_zones: [{ max_miles: 20, fee: 125, label: 'city' }, { max_miles: 50, fee: 250, label: null }]
+    });
+    await repository.saveClientRentalPricing('acme', { damageWaiverPercent: null, taxPercent: 8, deliveryZones: [] });
+    expect(await repository.getClientRentalPricing('acme')).toEqual({ damage_waiver_percent: null, rental_tax_percent: 8, delivery_zones: [] });
+
+    const quote = (callId: string) => repository.saveQuote({
+      clientId: 'acme', callId, inventoryId: itemId, model: 'Genie GS-1930', quantity: 1, rentalDays: 10,
+      rentalAmount: 595, damageWaiverAmount: 0, deliveryFee: 125, taxAmount: 57.6, total: 777.6, breakdown: { weeks: 1, days: 3 }
+    });
+    const first = await quote('call-1');
+    const second = await quote('call-2');
+
+    expect((await repository.getQuotes('acme')).map(q => q.id)).toEqual([second, first]);
+    const [saved] = await repository.getQuotes('acme', { callId: 'call-1' });
+    expect(saved).toMatchObject({ id: first, call_id: 'call-1', inventory_id: itemId, rental_days: 10, delivery_fee: 125, total: 777.6, start_date: null });
+    expect(JSON.parse(saved.breakdown)).toEqual({ weeks: 1, days: 3 });
+    expect(await repository.getQuotes('client-portal')).toEqual([]);
+  });
+
+  it('should list machines for sale and link them to calls', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', enableInventory: true, enableTransfers: false });
+    const excavator = await repository.createSalesListing('acme', {
+      stockNumber: 'U-1042', model: 'Cat 336', category: 'Excavator', year: 2019, askingPrice: 189000, hours: 4200,
+      serialNumber: 'CAT0336FXYZ01234', location: 'Phoenix yard', photosUrl: 'https://example.com/u-1042'
+    });
+    const dozer = await repository.createSalesListing('acme', { model: 'Cat D6T', category: 'Dozer', askingPrice: 145000, hours: 0 });
+
+    expect(await repository.getSalesListing('acme', excavator)).toMatchObject({ asking_price: 189000, hours: 4200, status: 'for_sale', sold_at: null });
+    expect(await repository.getSalesListing('acme', dozer)).toMatchObject({ hours: 0, serial_number: null });
+    expect(await repository.getSalesListing('client-portal', excavator)).toBeUndefined();
+
+    expect(await repository.updateSalesListing('acme', dozer, { status: 'sold', sold_at: '2030-01-02T12:00:00.000Z' })).toBe(true);
+    expect(await repository.updateSalesListing('client-portal', excavator, { asking_price: 1 })).toBe(false);
+    expect((await repository.getSalesListings('acme')).map(l => l.model)).toEqual(['Cat 336']);
+    expect((await repository.getSalesListings('acme', { includeSold: true })).map(l => l.model)).toEqual(['Cat 336', 'Cat D6T']);
+
+    await repository.saveCall({ id: 'call-1', clientId: 'acme', status: 'ended', summary: 'Buying an excavator' });
+    await repository.saveStructuredData('call-1', { caller: { name: 'Dana' }, intent: { category: 'sales' } });
+    await repository.linkCallSalesListings('call-1', 'acme', [excavator], 'offered');
+    await repository.linkCallSalesListings('call-1', 'acme', [excavator, dozer], 'mentioned');   // the first source stays
+
+    const linked = await repository.getCallSalesListings(['call-1', 'call-2']);
+    expect(linked.map(l => [l.listing_id, l.source])).toEqual([[excavator, 'offered'], [dozer, 'mentioned']]);
+    expect(linked[0]).toMatchObject({ call_id: 'call-1', model: 'Cat 336', stock_number: 'U-1042', asking_price: 189000 });
+    expect(await repository.getCallSalesListings([])).toEqual([]);
+
+    const calls = await repository.getSalesListingCalls('acme', { listingId: excavator });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ call_id: 'call-1', source: 'offered', caller_name: 'Dana', intent_category: 'sales', summary: 'Buying an excavator' });
+    expect(await repository.getSalesListingCalls('acme')).toHaveLength(2);
+    expect(await repository.getSalesListingCalls('client-portal')).toEqual([]);
+  });
+
+  it('should resolve clients and their routing', async () => {
+    await repository.upsertClient({ id: 'acme', name: 'Acme Rentals', additionalContext: 'Yard closes at noon Saturday', enableInventory: true, enableTransfers: false });
+    await repository.addClientPhoneNumber('acme', 'vapi-phone-1', '+16025550000');
+    await repository.updateClientAssistantId('acme', 'assistant-1');
+
+    expect((await repository.getClientForCall('vapi-phone-1')).id).toBe('acme');
+    expect((await repository.getClientForCall(undefined, 'assistant-1')).id).toBe('acme');
+    expect(await repository.getClientForCall('unknown')).toBeNull();
+
+    // A number stays with its client: re-mapping updates it, another client can't take it
+    await repository.upsertClient({ id: 'rival', name: 'Rival Rentals', enableInventory: true, enableTransfers: true });
+    expect(await repository.addClientPhoneNumber('acme', 'vapi-phone-1', '+16025550000')).toBe(true);
+    expect(await repository.addClientPhoneNumber('rival', 'vapi-phone-1', '+16025559999')).toBe(false);
+    expect((await repository.getClientForCall('vapi-phone-1')).id).toBe('acme');
+
+    const config = await repository.getClientConfig('acme');
+    expect(config.additional_context).toBe('Yard closes at noon Saturday');
+    expect(config.enable_transfers).toBe(0);
+    expect(config.phone_number).toBe('+16025550000');
+
+    await repository.saveClientBusinessHours('acme', {
+      timezone: 'America/Chicago',
+      weekly: [null, { open: '07:00', close: '17:00' }],
+      exceptions: [{ date: '2026-12-25', closed: true, label: 'Christmas' }]
+    });
+    const hours = await repository.getClientBusinessHours('acme');
+    expect(hours.timezone).toBe('America/Chicago');
+    expect(hours.weekly).toEqual([{ day_of_week: 1, open_time: '07:00', close_time: '17:00' }]);
+    expect(hours.exceptions[0]).toMatchObject({ date: '2026-12-25', is_closed: 1 });
+
+    await repository.saveDepartmentRouting('acme', { department: 'service', weekly: null, afterHoursAction: 'on_call', onCallPhone: '+16025551111' });
+    expect((await repository.getDepartmentRouting('acme')).routing).toEqual([
+      { department: 'service', after_hours_action: 'on_call', on_call_phone: '+16025551111', overflow_phone: null, voicemail_phone: null }
+    ]);
+  });
+
+  it('should create and revoke sessions', async () => {
+    const userId = await repository.createPortalUser({ username: 'dispatch', passwordHash: 'hash', clientId: 'client-portal' });
+    await repository.createPortalSession('session-1', userId, new Date('2030-01-01T00:00:00Z'));
+
+    let session = await repository.getPortalSession('session-1');
+    expect(session.username).toBe('dispatch');
+    expect(new Date(session.expires_at).toISOString()).toBe('2030-01-01T00:00:00.000Z');
+
+    await repository.revokePortalUserSessions(userId);
+    session = await repository.getPortalSession('session-1');
+    expect(session.revoked_at).toBeTruthy();
+
+    const adminId = await repository.createAdminUser({ username: 'root', passwordHash: 'hash', role: 'super_admin' });
+    await repository.createAdminSession('admin-1', adminId, new Date('2030-01-01T00:00:00Z'));
+    await repository.updateAdminUserPassword(adminId, 'new-hash');
+    expect((await repository.getAdminUserByUsername('root')).password_hash).toBe('new-hash');
+    expect((await repository.getAdminSession('admin-1')).revoked_at).toBeFalsy();
+    await repository.revokeAdminUserSessions(adminId);
+    expect((await repository.getAdminSession('admin-1')).revoked_at).toBeTruthy();
+  });
+
+  it('should work callbacks through claims, reminders and outbound calls', async () => {
+    const now = new Date();
+    const callbackId = await repository.saveCallbackRequest({
+      clientId: 'client-portal',
+      customerName: 'Sam',
+      customerPhone: '+15125550000',
+      preferredTime: 'an hour ago',
+      reason: 'Quote on a dozer',
+      department: 'sales',
+      scheduledFor: new Date(now.getTime() - 60 * 60 * 1000)
+    });
+
+    const [callback] = await repository.getCallbackRequestsByClient('client-portal', { overdue: true });
+    expect(callback.id).toBe(callbackId);
+    expect(callback.overdue).toBe(1);
+
+    // Due an hour ago: auto-dialed within a 4 hour window, not once it is older than that
+    await repository.updateClientAssistantId('client-portal', 'assistant-1');
+    await repository.addClientPhoneNumber('client-portal', 'phone-1', '+15550000000');
+    expect((await repository.getCallbacksDueForDial(now, 10, 30, 4)).map(c => c.id)).toEqual([callbackId]);
+    expect(await repository.getCallbacksDueForDial(new Date(now.getTime() + 4 * 60 * 60 * 1000), 10, 30, 4)).toEqual([]);
+
+    expect(await repository.updatePendingCallbackRequest(callbackId, { assigned_to: 'alex', claimed_at: now.toISOString() }, { unlessClaimedByOther: 'alex' })).toBe(true);
+    expect(await repository.updatePendingCallbackRequest(callbackId, { assigned_to: 'jo' }, { unlessClaimedByOther: 'jo' })).toBe(false);
+    await repository.addCallbackEvent(callbackId, { action: 'claimed', actor: 'alex', details: { assignedTo: 'alex' } });
+    expect((await repository.getCallbackEvents(callbackId)).map(e => e.action)).toEqual(['created', 'claimed']);
+
+    // Due an hour ago: the due reminder, and the escalation after 30 minutes
+    expect(await repository.enqueueCallbackReminders(now, 15, 30)).toBe(1);
+    expect(await repository.enqueueCallbackReminders(now, 15, 30)).toBe(0);
+
+    const [reminder] = await repository.claimCallbackReminders('instance-1', now, 60, 10);
+    expect(reminder).toMatchObject({ callback_id: callbackId, kind: 'escalation', assigned_to: 'alex' });
+    expect(Number.isNaN(new Date(reminder.due_at.endsWith('Z') ? reminder.due_at : `${reminder.due_at.replace(' ', 'T')}Z`).getTime())).toBe(false);
+    expect(await repository.claimCallbackReminders('instance-2', now, 60, 10)).toEqual([]);
+
+    await repository.recordCallbackReminderAttempt(reminder.id, 'console', null);
+    await repository.finishCallbackReminder(reminder.id, 'sent', 1);
+    expect(await repository.getDeliveredReminderNotifiers(reminder.id)).toEqual(['console']);
+    expect((await repository.getCallbackReminders(callbackId))[0]).toMatchObject({ status: 'sent', deliveries: [expect.objectContaining({ notifier: 'console', success: 1 })] });
+
+    // Rescheduling clears the sent reminders so the new time gets its own
+    const later = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    expect(await repository.updatePendingCallbackRequest(callbackId, { scheduled_for: later.toISOString() })).toBe(true);
+    expect(await repository.getCallbackReminders(callbackId)).toEqual([]);
+    expect(await repository.enqueueCallbackReminders(new Date(later.getTime() - 5 * 60 * 1000), 15, 30)).toBe(1);
+
+    expect(await repository.startOutboundCallback(callbackId, now, 30)).toBe(true);
+    expect(await repository.startOutboundCallback(callbackId, now, 30)).toBe(false);
+    // No end-of-call report within the timeout: it can be dialed again
+    expect(await repository.startOutboundCallback(callbackId, new Date(now.getTime() + 31 * 60 * 1000), 30)).toBe(true);
+    await repository.setOutboundCallbackCall(callbackId, 'outbound-1');
+    await repository.finishOutboundCallback(callbackId, 'completed', 'customer-ended-call');
+    expect(await repository.getCallbackByOutboundCallId('outbound-1')).toMatchObject({ id: callbackId, outbound_status: 'completed', outbound_attempts: 2 });
+  });
+});
+
+describe('Storage settings', () => {
+  it('should default to SQLite', () => {
+    expect(loadStorageSettings({})).toEqual({ driver: 'sqlite', url: undefined, path: undefined });
+    expect(createDatabaseService({ driver: 'sqlite' }).driver).toBe('sqlite');
+  });
+
+  it('should read the SQLite path from DATABASE_PATH', () => {
+    expect(loadStorageSettings({ DATABASE_PATH: '/data/calls.db' }).path).toBe('/data/calls.db');
+  });
+
+  it('should give each created SQLite database its own storage', async () => {
+    const first = createDatabaseService({ driver: 'sqlite', path: ':memory:' });
+    const second = createDatabaseService({ driver: 'sqlite', path: ':memory:' });
+    await first.init();
+    await second.init();
+
+    await first.updateContact('+15550000001', { name: 'Only In First' });
+    // init() again keeps the same in-memory database
+    await first.init();
+
+    expect((await first.getContact('+15550000001')).name).toBe('Only In First');
+    expect(await second.getContact('+15550000001')).toBeUndefined();
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should create the SQLite file at the given path', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'storage-path-test-'));
+    const repository = createDatabaseService({ driver: 'sqlite', path: join(dir, 'tenant.db') });
+
+    await repository.init();
+    await repository.close();
+
+    expect(existsSync(join(dir, 'tenant.db'))).toBe(true);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should select PostgreSQL from DATABASE_DRIVER', () => {
+    const settings = loadStorageSettings({ DATABASE_DRIVER: 'postgres', DATABASE_URL: 'postgres://localhost/tex' });
+    expect(settings).toMatchObject({ driver: 'postgres', url: 'postgres://localhost/tex' });
+    expect(createDatabaseService(settings).driver).toBe('postgres');
+  });
+
+  it('should reject an unknown driver or a missing URL', () => {
+    expect(() => loadStorageSettings({ DATABASE_DRIVER: 'mysql' })).toThrow(/Unknown DATABASE_DRIVER/);
+    expect(() => createDatabaseService({ driver: 'postgres' })).toThrow(/DATABASE_URL is required/);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin';
+import { inboundRoutes } from '../src/routes/inbound';
+import { databaseService } from '../src/services/database.service';
+import { callControlService } from '../src/services/call-control.service';
+import { setupSignedClient, signedRequest, TEST_CLIENT_ID } from './helpers/webhook-signing';
+import { createAdminUser, createTestClient } from './helpers/test-tenant';
+
+describe('Supervisor Live Call Control', () => {
+  let app: FastifyInstance;
+
+  const supervisor = 'supervisor-test';
+  const otherClientId = 'supervisor-other-client';
+  let callNumber = 0;
+
+  let supervisorHeaders: Record<string, string>;
+  let analystHeaders: Record<string, string>;
+  let otherAdminHeaders: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await setupSignedClient();
+    await createTestClient(otherClientId, { name: 'Other Dealer' });
+    supervisorHeaders = await createAdminUser(supervisor, 'client_admin', TEST_CLIENT_ID);
+    analystHeaders = await createAdminUser('supervisor-analyst', 'analyst');
+    otherAdminHeaders = await createAdminUser('supervisor-other', 'client_admin', otherClientId);
+
+    app = Fastify({ logger: false });
+    await app.register(adminRoutes);
+    await app.register(inboundRoutes);
+    await app.ready();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const mockSend = () => vi.spyOn(callControlService, 'send').mockResolvedValue();
+
+  /**
+   * A call in progress whose status-update carried monitor.controlUrl
+   */
+  const startCall = async (controlUrl: string | null = 'https://aws-us-west-2-production1-phone-call-websocket.vapi.ai/supervisor-call/control') => {
+    const callId = `supervisor-call-${++callNumber}`;
+    await app.inject(signedRequest('/inbound', {
+      message: {
+        type: 'status-update',
+        status: 'in-progress',
+        call: {
+          id: callId,
+          type: 'inboundPhoneCall',
+          customer: { number: '+15557654321' },
+          ...(controlUrl ? { monitor: { controlUrl, listenUrl: 'wss://listen.example' } } : {})
+        }
+      }
+    }));
+    return { callId, controlUrl };
+  };
+
+  const act = async (callId: string, action: string, payload: any = {}, headers = supervisorHeaders) => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/admin/live/${callId}/${action}`,
+      headers,
+      payload
+    });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  it('should store the control URL from the webhook without exposing it', async () => {
+    const { callId, controlUrl } = await startCall();
+
+    expect((await databaseService.getCall(callId)).control_url).toBe(controlUrl);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/admin/db/calls/${callId}`,
+      headers: supervisorHeaders
+    });
+    const call = JSON.parse(response.body);
+    expect(call.control_url).toBeUndefined();
+    expect(call.controllable).toBe(true);
+  });
+
+  it('should have the assistant say a message and audit it', async () => {
+    const send = mockSend();
+    const { callId, controlUrl } = await startCall();
+
+    const result = await act(callId, 'say', { message: 'A manager is joining the call.' });
+
+    expect(result.statusCode).toBe(200);
+    expect(send).toHaveBeenCalledWith(controlUrl, { type: 'say', content: 'A manager is joining the call.', endCallAfterSpoken: false });
+    expect(result.body.action).toMatchObject({ action: 'say', actor: supervisor, success: true, client_id: TEST_CLIENT_ID });
+
+    const log = await app.inject({
+      method: 'GET',
+      url: `/admin/live/${callId}/actions`,
+      headers: supervisorHeaders
+    });
+    const { actions } = JSON.parse(log.body);
+    expect(actions).toHaveLength(1);
+    expect(actions[0].details).toEqual({ message: 'A manager is joining the call.', endCallAfterSpoken: false });
+  });
+
+  it('should transfer to an arbitrary number', async () => {
+    const send = mockSend();
+    const { callId, controlUrl } = await startCall();
+
+    expect((await act(callId, 'transfer', { number: '555-1234' })).statusCode).toBe(400);
+
+    const result = await act(callId, 'transfer', { number: '+15559876543', message: 'Putting you through to our manager.' });
+
+    expect(result.statusCode).toBe(200);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(controlUrl, {
+      type: 'transfer',
+      destination: { type: 'number', number: '+15559876543' },
+      content: 'Putting you through to our manager.'
+    });
+  });
+
+  it('should mute, unmute and end the call', async () => {
+    const send = mockSend();
+    const { callId } = await startCall();
+
+    for (const action of ['mute', 'unmute', 'end']) {
+      expect((await act(callId, action)).statusCode).toBe(200);
+    }
+
+    expect(send.mock.calls.map(([, message]) => message)).toEqual([
+      { type: 'control', control: 'mute-assistant' },
+      { type: 'control', control: 'unmute-assistant' },
+      { type: 'end-call' }
+    ]);
+    expect((await databaseService.getSupervisorActions(callId)).map(a => a.action)).toEqual(['mute', 'unmute', 'end']);
+  });
+
+  it('should audit actions Vapi rejects', async () => {
+    vi.spyOn(callControlService, 'send').mockRejectedValue(new Error('Call not found'));
+    const { callId } = await startCall();
+
+    const result = await act(callId, 'end');
+
+    expect(result.statusCode).toBe(502);
+    const [action] = await databaseService.getSupervisorActions(callId);
+    expect(action.success).toBe(false);
+    expect(action.error).toBe('Call not found');
+  });
+
+  it('should refuse calls that have ended or have no control URL', async () => {
+    const send = mockSend();
+    const ended = await startCall();
+    await app.inject(signedRequest('/inbound', {
+      message: { type: 'status-update', status: 'ended', call: { id: ended.callId } }
+    }));
+    const uncontrolled = await startCall(null);
+
+    expect((await act(ended.callId, 'say', { message: 'Hello?' })).statusCode).toBe(409);
+    expect((await act(uncontrolled.callId, 'say', { message: 'Hello?' })).statusCode).toBe(409);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should keep supervisors to their own client, and analysts read-only', async () => {
+    const send = mockSend();
+    const { callId } = await startCall();
+
+    expect((await act(callId, 'end', {}, otherAdminHeaders)).statusCode).toBe(404);
+    expect((await act(callId, 'end', {}, analystHeaders)).statusCode).toBe(403);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
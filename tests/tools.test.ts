@@ -4,6 +4,7 @@ import formBody from '@fastify/formbody';
 import cors from '@fastify/cors';
 import { toolRoutes } from '../src/routes/tools';
 import { databaseService } from '../src/services/database.service';
+import { setupSignedClient, signedRequest } from './helpers/webhook-signing';
 
 describe('Tools Route - Inventory Checking', () => {
   let app: FastifyInstance;
@@ -12,6 +13,7 @@ describe('Tools Route - Inventory Checking', () => {
     // Initialize database with in-memory DB for testing
     process.env.DATABASE_PATH = ':memory:';
     await databaseService.init();
+    await setupSignedClient();
 
     app = Fastify({ logger: false });
     await app.register(cors);
@@ -26,24 +28,20 @@ describe('Tools Route - Inventory Checking', () => {
 
   describe('Check Inventory - Excavators', () => {
     it('should return excavator inventory', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-call-123",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "excavator"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-call-123",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "excavator"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
@@ -53,29 +51,25 @@ describe('Tools Route - Inventory Checking', () => {
       expect(body.results[0].toolCallId).toBe("test-call-123");
       expect(body.results[0].result).toContain("Cat 336");
       expect(body.results[0].result).toContain("Cat 320");
-      expect(body.results[0].result).toContain("$1200/day");
-      expect(body.results[0].result).toContain("$950/day");
+      expect(body.results[0].result).toContain("$1200 a day");
+      expect(body.results[0].result).toContain("$950 a day");
     });
 
     it('should find excavators with different casing', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-456",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "EXCAVATOR"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-456",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "EXCAVATOR"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
@@ -83,85 +77,73 @@ describe('Tools Route - Inventory Checking', () => {
     });
 
     it('should find specific excavator model', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-789",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "336"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-789",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "336"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.results[0].result).toContain("Cat 336");
-      expect(body.results[0].result).toContain("2 available");
+      expect(body.results[0].result).toContain("we have 2 of these");
     });
   });
 
   describe('Check Inventory - Skid Steers', () => {
     it('should return skid steer inventory', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-skid",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "skid steer"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-skid",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "skid steer"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
       expect(body.results[0].result).toContain("Bobcat T76");
       expect(body.results[0].result).toContain("Bobcat S650");
-      expect(body.results[0].result).toContain("5 available");
-      expect(body.results[0].result).toContain("4 available");
-      expect(body.results[0].result).toContain("$350/day");
-      expect(body.results[0].result).toContain("$300/day");
+      expect(body.results[0].result).toContain("we have 5 of these");
+      expect(body.results[0].result).toContain("we have 4 of these");
+      expect(body.results[0].result).toContain("$350 a day");
+      expect(body.results[0].result).toContain("$300 a day");
     });
   });
 
   describe('Check Inventory - Dozers', () => {
     it('should return dozer inventory including unavailable', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-dozer",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "dozer"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-dozer",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "dozer"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
@@ -174,104 +156,88 @@ describe('Tools Route - Inventory Checking', () => {
 
   describe('Check Inventory - Other Equipment', () => {
     it('should find loaders', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-loader",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "loader"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-loader",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "loader"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.results[0].result).toContain("Cat 950M");
-      expect(body.results[0].result).toContain("$850/day");
+      expect(body.results[0].result).toContain("$850 a day");
     });
 
     it('should find cranes', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-crane",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "crane"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-crane",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "crane"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.results[0].result).toContain("Manitowoc");
-      expect(body.results[0].result).toContain("$2500/day");
+      expect(body.results[0].result).toContain("$2500 a day");
     });
 
     it('should find dump trucks', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-truck",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "dump truck"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-truck",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "dump truck"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.results[0].result).toContain("Volvo");
-      expect(body.results[0].result).toContain("3 available");
+      expect(body.results[0].result).toContain("we have 3 of these");
     });
   });
 
   describe('Check Inventory - No Results', () => {
     it('should return no results message for non-existent equipment', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-none",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "helicopter"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-none",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "helicopter"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
@@ -279,24 +245,20 @@ describe('Tools Route - Inventory Checking', () => {
     });
 
     it('should handle empty query gracefully', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-empty",
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: ""
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-empty",
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: ""
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
@@ -307,68 +269,196 @@ describe('Tools Route - Inventory Checking', () => {
 
   describe('Edge Cases', () => {
     it('should handle missing toolCalls', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {}
-        }
-      });
+      const response = await app.inject(signedRequest('/tools', {
+        message: {}
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
-      expect(body.error).toBe("No tool calls found");
+      // Nothing to run, so nothing comes back
+      expect(body.results).toBeUndefined();
     });
 
     it('should handle unknown function name', async () => {
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: "test-unknown",
-              type: "function",
-              function: {
-                name: "unknown_function",
-                arguments: {
-                  query: "test"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: "test-unknown",
+            type: "function",
+            function: {
+              name: "unknown_function",
+              arguments: {
+                query: "test"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
-      expect(body.results[0].result).toBe("Tool not found.");
+      expect(body.results[0].result).toBe("Error: Tool 'unknown_function' not found.");
     });
 
     it('should preserve toolCallId in response', async () => {
       const customId = "custom-unique-id-12345";
-      const response = await app.inject({
-        method: 'POST',
-        url: '/tools',
-        payload: {
-          message: {
-            toolCalls: [{
-              id: customId,
-              type: "function",
-              function: {
-                name: "check_inventory",
-                arguments: {
-                  query: "excavator"
-                }
+      const response = await app.inject(signedRequest('/tools', {
+        message: {
+          toolCalls: [{
+            id: customId,
+            type: "function",
+            function: {
+              name: "check_inventory",
+              arguments: {
+                query: "excavator"
               }
-            }]
-          }
+            }
+          }]
         }
-      });
+      }));
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.results[0].toolCallId).toBe(customId);
     });
   });
+
+  describe('Schedule Callback', () => {
+    // Tuesday, January 6, 2026 at 9:00 AM Phoenix (default hours: weekdays 8am-12pm)
+    const call = { startedAt: '2026-01-06T16:00:00Z' };
+
+    const scheduleCallback = (id: string, preferredTime: string) => signedRequest('/tools', {
+      message: {
+        call,
+        toolCalls: [{
+          id,
+          type: "function",
+          function: {
+            name: "schedule_callback",
+            arguments: {
+              customer_name: "Pat Caller",
+              customer_phone: "+15551234567",
+              preferred_time: preferredTime,
+              reason: `callback time test ${id}`,
+              department: "general"
+            }
+          }
+        }]
+      }
+    });
+
+    it('should store the resolved time in UTC next to the spoken text', async () => {
+      const id = `callback-${Date.now()}`;
+      const response = await app.inject(scheduleCallback(id, 'tomorrow, January 7th at 10am'));
+      const body = JSON.parse(response.body);
+
+      expect(body.results[0].result).toContain('Wednesday, January 7 at 10:00 AM');
+
+      const saved = await databaseService.getDb().get(
+        'SELECT preferred_time, scheduled_for FROM callback_requests WHERE reason = ?',
+        [`callback time test ${id}`]
+      );
+      expect(saved).toEqual({
+        preferred_time: 'tomorrow, January 7th at 10am',
+        scheduled_for: '2026-01-07T17:00:00.000Z'
+      });
+    });
+
+    it('should ask the assistant to confirm again instead of saving a vague time', async () => {
+      const id = `callback-vague-${Date.now()}`;
+      const response = await app.inject(scheduleCallback(id, 'tomorrow morning'));
+      const body = JSON.parse(response.body);
+
+      expect(body.results[0].result).toContain('schedule_callback again');
+
+      const saved = await databaseService.getDb().get(
+        'SELECT id FROM callback_requests WHERE reason = ?',
+        [`callback time test ${id}`]
+      );
+      expect(saved).toBeUndefined();
+    });
+  });
+
+  describe('Check Inventory - Per-Client Fleets', () => {
+    const OTHER_PHONE_NUMBER_ID = 'desert-iron-phone';
+    const OTHER_ASSISTANT_ID = 'desert-iron-assistant';
+    const OTHER_SECRET = 'desert-iron-secret';
+
+    beforeAll(async () => {
+      await databaseService.upsertClient({ id: 'desert-iron', name: 'Desert Iron Rentals', enableInventory: true, enableTransfers: false });
+      await databaseService.addClientPhoneNumber('desert-iron', OTHER_PHONE_NUMBER_ID, '+16025551111');
+      await databaseService.updateClientAssistantId('desert-iron', OTHER_ASSISTANT_ID);
+      await databaseService.updateClientWebhookSecret('desert-iron', OTHER_SECRET);
+      await databaseService.getDb().run(`
+        INSERT INTO inventory (client_id, model, category, available, price_per_day, condition, year, specs)
+        VALUES ('desert-iron', 'Takeuchi TL12', 'Skid Steer', 2, 425, 'Excellent', 2024, '111hp, 4,150lb capacity')
+      `);
+    });
+
+    const checkInventory = (query: string, call: Record<string, any>) => ({
+      message: {
+        call,
+        toolCalls: [{
+          id: "fleet-call",
+          type: "function",
+          function: { name: "check_inventory", arguments: { query } }
+        }]
+      }
+    });
+
+    it('should quote only the calling client\'s machines', async () => {
+      const response = await app.inject(signedRequest('/tools', checkInventory('skid steer', {}), {}));
+      const result = JSON.parse(response.body).results[0].result;
+
+      expect(result).toContain('6 skid steer');
+      expect(result).not.toContain('Takeuchi');
+    });
+
+    it('should resolve the other client from its phone number', async () => {
+      const response = await app.inject(signedRequest('/tools', checkInventory('skid steer', { phoneNumberId: OTHER_PHONE_NUMBER_ID }), { secret: OTHER_SECRET }));
+      const result = JSON.parse(response.body).results[0].result;
+
+      expect(result).toContain('Takeuchi TL12');
+      expect(result).not.toContain('Bobcat');
+    });
+
+    it('should resolve the client from the assistant when there is no phone number', async () => {
+      const response = await app.inject(signedRequest('/tools', checkInventory('excavator', { phoneNumberId: undefined, assistantId: OTHER_ASSISTANT_ID }), { secret: OTHER_SECRET }));
+      const result = JSON.parse(response.body).results[0].result;
+
+      // Desert Iron has no excavators, even though Tex Intel does
+      expect(result).toContain("don't see any excavator");
+    });
+  });
+
+  describe('Webhook Signature', () => {
+    const checkInventory = {
+      message: {
+        toolCalls: [{
+          id: "signed-call",
+          type: "function",
+          function: {
+            name: "check_inventory",
+            arguments: { query: "excavator" }
+          }
+        }]
+      }
+    };
+
+    it('should reject unsigned tool calls', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/tools',
+        payload: checkInventory
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject tool calls signed with another client\'s secret', async () => {
+      const response = await app.inject(signedRequest('/tools', checkInventory, { secret: 'other-client-secret' }));
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
 });
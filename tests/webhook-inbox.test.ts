@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin';
+import { inboundRoutes } from '../src/routes/inbound';
+import { databaseService } from '../src/services/database.service';
+import { setupSignedClient, signedRequest } from './helpers/webhook-signing';
+import { createAdminUser } from './helpers/test-tenant';
+
+describe('Webhook Inbox', () => {
+  let app: FastifyInstance;
+
+  let callNumber = 0;
+  const newCallId = () => `inbox-call-${++callNumber}`;
+  const newCallerPhone = () => `+1555${String(callNumber).padStart(7, '0')}`;
+
+  let headers: Record<string, string>;
+  let clientAdminHeaders: Record<string, string>;
+
+  beforeAll(async () => {
+    await databaseService.init();
+    await setupSignedClient();
+    headers = await createAdminUser('inbox-super', 'super_admin');
+    clientAdminHeaders = await createAdminUser('inbox-client-admin', 'client_admin', 'client-portal');
+
+    app = Fastify({ logger: false });
+    await app.register(adminRoutes);
+    await app.register(inboundRoutes);
+    await app.ready();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const send = async (message: any) => {
+    const response = await app.inject(signedRequest('/inbound', { message }));
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  };
+
+  const endOfCallReport = (callId: string, callerPhone: string) => ({
+    type: 'end-of-call-report',
+    call: {
+      id: callId,
+      type: 'inboundPhoneCall',
+      status: 'ended',
+      endedReason: 'customer-ended-call',
+      customer: { number: callerPhone }
+    },
+    summary: 'Asked about a skid steer',
+    artifact: {
+      structuredOutputs: {
+        output: { result: { caller: { name: 'Inbox Tester', phone: callerPhone }, intent: { category: 'rental' } } }
+      }
+    }
+  });
+
+  const eventsFor = async (callId: string) => databaseService.getWebhookEvents({ callId });
+
+  it('should process an end-of-call report once, however often it is delivered', async () => {
+    const callId = newCallId();
+    const callerPhone = newCallerPhone();
+
+    expect((await send(endOfCallReport(callId, callerPhone))).body).toEqual({ status: 'ok' });
+    expect((await send(endOfCallReport(callId, callerPhone))).body).toEqual({ status: 'ok', duplicate: true });
+    expect((await send(endOfCallReport(callId, callerPhone))).body).toEqual({ status: 'ok', duplicate: true });
+
+    const contact = await databaseService.getContact(callerPhone);
+    expect(contact.total_calls).toBe(1);
+
+    const [event] = await eventsFor(callId);
+    expect(event.status).toBe('processed');
+    expect(event.attempts).toBe(1);
+    expect(event.deliveries).toBe(3);
+  });
+
+  it('should treat each status of a call as its own event', async () => {
+    const callId = newCallId();
+    const statusUpdate = (status: string) => ({ type: 'status-update', status, timestamp: Date.now(), call: { id: callId } });
+
+    await send(statusUpdate('in-progress'));
+    expect((await send(statusUpdate('in-progress'))).body.duplicate).toBe(true);
+    await send(statusUpdate('ended'));
+
+    const events = await eventsFor(callId);
+    expect(events.map((e: any) => e.event_key).sort()).toEqual(['status-update:ended', 'status-update:in-progress']);
+    expect((await databaseService.getCall(callId)).status).toBe('ended');
+  });
+
+  it('should dead-letter a failed event and keep its payload', async () => {
+    const callId = newCallId();
+    vi.spyOn(databaseService, 'saveCall').mockRejectedValueOnce(new Error('SQLITE_BUSY: database is locked'));
+
+    const result = await send(endOfCallReport(callId, newCallerPhone()));
+
+    expect(result.statusCode).toBe(500);
+    expect(await databaseService.getCall(callId)).toBeUndefined();
+
+    const response = await app.inject({ method: 'GET', url: '/admin/webhooks?status=dead', headers });
+    const dead = JSON.parse(response.body).events.find((e: any) => e.call_id === callId);
+    expect(dead.last_error).toBe('SQLITE_BUSY: database is locked');
+
+    const detail = JSON.parse((await app.inject({ method: 'GET', url: `/admin/webhooks/${dead.id}`, headers })).body);
+    expect(detail.payload.message.summary).toBe('Asked about a skid steer');
+  });
+
+  it('should replay a dead-lettered event from the admin API', async () => {
+    const callId = newCallId();
+    const callerPhone = newCallerPhone();
+    vi.spyOn(databaseService, 'saveCall').mockRejectedValueOnce(new Error('SQLITE_BUSY: database is locked'));
+    await send(endOfCallReport(callId, callerPhone));
+    const [dead] = await eventsFor(callId);
+
+    const replay = await app.inject({ method: 'POST', url: `/admin/webhooks/${dead.id}/replay`, headers });
+
+    expect(replay.statusCode).toBe(200);
+    expect(JSON.parse(replay.body).event).toMatchObject({ status: 'processed', attempts: 2, last_error: null });
+    expect((await databaseService.getCall(callId)).summary).toBe('Asked about a skid steer');
+    expect((await databaseService.getContact(callerPhone)).total_calls).toBe(1);
+
+    const again = await app.inject({ method: 'POST', url: `/admin/webhooks/${dead.id}/replay`, headers });
+    expect(again.statusCode).toBe(409);
+  });
+
+  it('should retry a dead-lettered event when Vapi redelivers it', async () => {
+    const callId = newCallId();
+    const callerPhone = newCallerPhone();
+    vi.spyOn(databaseService, 'saveCall').mockRejectedValueOnce(new Error('SQLITE_BUSY: database is locked'));
+
+    expect((await send(endOfCallReport(callId, callerPhone))).statusCode).toBe(500);
+    expect((await send(endOfCallReport(callId, callerPhone))).statusCode).toBe(200);
+
+    const [event] = await eventsFor(callId);
+    expect(event.status).toBe('processed');
+    expect((await databaseService.getCall(callId)).status).toBe('ended');
+  });
+
+  it('should keep the inbox to super admins', async () => {
+    const response = await app.inject({ method: 'GET', url: '/admin/webhooks', headers: clientAdminHeaders });
+    expect(response.statusCode).toBe(403);
+  });
+});
@@ -4,6 +4,10 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Each test file gets its own in-memory database (never the dev server's calls.db)
+    env: {
+      DATABASE_PATH: ':memory:'
+    },
     coverage: {
       provider: 'c8',
       reporter: ['text', 'json', 'html'],